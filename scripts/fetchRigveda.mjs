@@ -0,0 +1,81 @@
+/**
+ * Rigveda Corpus Fetch
+ *
+ * Fetches the Rigveda source texts and builds the per-mandala corpus chunks
+ * with ingestRigveda.mjs. Runs before every production build, so a build
+ * always ships the full corpus.
+ *
+ * The sources are the four files ingestRigveda.mjs reads (devanagari.txt,
+ * iast.txt, griffith.txt, anukramani.tsv), taken from RIGVEDA_SOURCE:
+ * - an http(s) URL of the directory holding them, downloaded into
+ *   node_modules/.cache/rigveda
+ * - or a local directory holding them
+ *
+ * Chunks already built are kept; set RIGVEDA_REFRESH=1 to build them again.
+ *
+ * Usage: RIGVEDA_SOURCE=<url or dir> npm run corpus:fetch
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const SOURCE_FILES = ['devanagari.txt', 'iast.txt', 'griffith.txt', 'anukramani.tsv'];
+const MANDALA_COUNT = 10;
+const OUT_DIR = join('src', 'data', 'rigveda');
+const CACHE_DIR = join('node_modules', '.cache', 'rigveda');
+
+/**
+ * Whether every mandala chunk and the index have been built
+ */
+function isCorpusBuilt() {
+  const chunks = Array.from({ length: MANDALA_COUNT }, (_, index) =>
+    join(OUT_DIR, `mandala-${String(index + 1).padStart(2, '0')}.json`)
+  );
+  return [...chunks, join(OUT_DIR, 'index.json')].every((file) => existsSync(file));
+}
+
+/**
+ * Download the source files into the cache directory
+ */
+async function download(baseUrl) {
+  mkdirSync(CACHE_DIR, { recursive: true });
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+
+  for (const file of SOURCE_FILES) {
+    const url = new URL(file, base);
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${url}: ${response.status} ${response.statusText}`);
+    }
+    writeFileSync(join(CACHE_DIR, file), await response.text());
+    console.log(`Fetched ${url}`);
+  }
+  return CACHE_DIR;
+}
+
+async function main() {
+  if (isCorpusBuilt() && !process.env.RIGVEDA_REFRESH) {
+    console.log(`Rigveda corpus already built in ${OUT_DIR}`);
+    return;
+  }
+
+  const source = process.env.RIGVEDA_SOURCE;
+  if (!source) {
+    console.error(
+      'The Rigveda corpus is not built. Set RIGVEDA_SOURCE to the URL or directory of its ' +
+        `source texts (${SOURCE_FILES.join(', ')}); see scripts/ingestRigveda.mjs for their format.`
+    );
+    process.exit(1);
+  }
+
+  const sourceDir = /^https?:\/\//.test(source) ? await download(source) : source;
+  execFileSync(process.execPath, [join('scripts', 'ingestRigveda.mjs'), sourceDir, OUT_DIR], {
+    stdio: 'inherit',
+  });
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,223 @@
+/**
+ * Rigveda Corpus Ingest
+ *
+ * Builds the per-mandala corpus chunks read by src/lib/rigvedaCorpus.ts, and
+ * an index of every sukta without its text (index.json), from
+ * machine-readable Rigveda texts. The source directory holds:
+ * - devanagari.txt: Samhita text, one pada (or verse) per line, labelled
+ *   `MM.SSS.VVp` as in the GRETIL and Zurich editions (e.g. `01.001.01a`);
+ *   Vedic accent marks, where present, are kept alongside the plain text
+ * - iast.txt: the same text in IAST, labelled the same way; its accents
+ *   (acute and grave) are removed, as the accented Devanagari carries them
+ * - griffith.txt: Griffith's translation, one verse per line, labelled `MM.SSS.VV`
+ *   (a verse spread over several lines is joined)
+ * - anukramani.tsv: `MM.SSS<TAB>rishi<TAB>devata<TAB>chhandas`, one line per sukta
+ *
+ * Lines without a label (headings, blank lines, `#` comments) are skipped.
+ *
+ * Usage: npm run corpus -- <sourceDir> [outDir]
+ * (outDir defaults to src/data/rigveda)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Suktas in each mandala of the Shakala recension (1,028 in all)
+ */
+const SUKTA_COUNTS = [191, 43, 62, 58, 87, 75, 104, 103, 114, 191];
+
+const PADA_LINE = /^(\d{1,2})\.(\d{1,3})\.(\d{1,2})([a-h])?\s+(.+)$/;
+const VERSE_LINE = /^(\d{1,2})\.(\d{1,3})\.(\d{1,2})\s+(.+)$/;
+const SUKTA_LINE = /^(\d{1,2})\.(\d{1,3})\t([^\t]*)\t([^\t]*)\t([^\t]*)$/;
+
+/**
+ * Read a source file's lines, or none if it is missing
+ */
+function readLines(path) {
+  if (!existsSync(path)) {
+    console.warn(`Missing ${path}; its field will be empty`);
+    return [];
+  }
+  return readFileSync(path, 'utf8').split(/\r?\n/).map((line) => line.trim());
+}
+
+/**
+ * Key of a verse (`mandala.sukta.verse`)
+ */
+function verseKey(mandala, sukta, verse) {
+  return `${Number(mandala)}.${Number(sukta)}.${Number(verse)}`;
+}
+
+/**
+ * Vedic accent and other Vedic marks: Devanagari stress signs, Vedic
+ * Extensions and Devanagari Extended
+ */
+const VEDIC_MARK_RANGES = [
+  [0x0951, 0x0954],
+  [0x1cd0, 0x1cff],
+  [0xa8e0, 0xa8ff],
+];
+
+/**
+ * Remove Vedic marks from Devanagari text
+ */
+function stripAccents(text) {
+  return Array.from(text)
+    .filter((char) => {
+      const code = char.codePointAt(0);
+      return !VEDIC_MARK_RANGES.some(([start, end]) => code >= start && code <= end);
+    })
+    .join('');
+}
+
+/**
+ * IAST accents: combining acute and grave (ḻ's macron below is a letter)
+ */
+const IAST_ACCENTS = /[\u0300\u0301]/g;
+
+/**
+ * Remove accents from IAST text
+ */
+function stripIastAccents(text) {
+  return text.normalize('NFD').replace(IAST_ACCENTS, '').normalize('NFC');
+}
+
+/**
+ * Join a verse's padas, marking the half-verse and verse ends
+ * unless the source already carries them
+ */
+function joinPadas(padas, half, end) {
+  if (padas.length === 1 || padas.some((pada) => pada.includes(half))) {
+    return padas.join(' ');
+  }
+  const middle = Math.ceil(padas.length / 2);
+  return `${padas.slice(0, middle).join(' ')} ${half} ${padas.slice(middle).join(' ')} ${end}`;
+}
+
+/**
+ * Read a pada-labelled text into verses
+ */
+function readPadaText(path, half, end) {
+  const padas = new Map();
+  for (const line of readLines(path)) {
+    const match = PADA_LINE.exec(line);
+    if (!match) continue;
+    const key = verseKey(match[1], match[2], match[3]);
+    padas.set(key, [...(padas.get(key) ?? []), match[5].trim()]);
+  }
+
+  const verses = new Map();
+  padas.forEach((lines, key) => verses.set(key, joinPadas(lines, half, end)));
+  return verses;
+}
+
+/**
+ * Read a verse-labelled translation into verses
+ */
+function readTranslation(path) {
+  const verses = new Map();
+  let current = null;
+  for (const line of readLines(path)) {
+    const match = VERSE_LINE.exec(line);
+    if (match) {
+      current = verseKey(match[1], match[2], match[3]);
+      verses.set(current, match[4].trim());
+    } else if (current && line && !line.startsWith('#')) {
+      verses.set(current, `${verses.get(current)} ${line}`);
+    } else {
+      current = null;
+    }
+  }
+  return verses;
+}
+
+/**
+ * Read the anukramani into sukta entries keyed `mandala.sukta`
+ */
+function readAnukramani(path) {
+  const suktas = new Map();
+  for (const line of readLines(path)) {
+    const match = SUKTA_LINE.exec(line);
+    if (!match) continue;
+    suktas.set(`${Number(match[1])}.${Number(match[2])}`, {
+      rishi: match[3].trim(),
+      devata: match[4].trim(),
+      chhandas: match[5].trim(),
+    });
+  }
+  return suktas;
+}
+
+function main() {
+  const [sourceDir, outDir = join('src', 'data', 'rigveda')] = process.argv.slice(2);
+  if (!sourceDir) {
+    console.error('Usage: npm run corpus -- <sourceDir> [outDir]');
+    process.exit(1);
+  }
+
+  const devanagari = readPadaText(join(sourceDir, 'devanagari.txt'), '।', '॥');
+  const iast = readPadaText(join(sourceDir, 'iast.txt'), '|', '||');
+  const griffith = readTranslation(join(sourceDir, 'griffith.txt'));
+  const anukramani = readAnukramani(join(sourceDir, 'anukramani.tsv'));
+
+  // Every verse found in any source, grouped by sukta
+  const suktaVerses = new Map();
+  for (const key of new Set([...devanagari.keys(), ...iast.keys(), ...griffith.keys()])) {
+    const [mandala, sukta, verse] = key.split('.').map(Number);
+    const suktaKey = `${mandala}.${sukta}`;
+    suktaVerses.set(suktaKey, [...(suktaVerses.get(suktaKey) ?? []), verse]);
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  const suktaIndex = [];
+
+  SUKTA_COUNTS.forEach((expected, index) => {
+    const mandala = index + 1;
+    const suktas = [];
+
+    for (let sukta = 1; sukta <= expected; sukta++) {
+      const suktaKey = `${mandala}.${sukta}`;
+      const verseNumbers = (suktaVerses.get(suktaKey) ?? []).sort((a, b) => a - b);
+      if (verseNumbers.length === 0) {
+        console.warn(`RV ${suktaKey}: no verses found`);
+        continue;
+      }
+
+      const entry = anukramani.get(suktaKey);
+      if (!entry) console.warn(`RV ${suktaKey}: no anukramani entry`);
+
+      // Verses keep their source numbers, so a gap does not renumber the rest
+      if (verseNumbers.some((verse, index) => verse !== index + 1)) {
+        console.warn(`RV ${suktaKey}: verses not numbered 1-${verseNumbers.length} (${verseNumbers.join(', ')})`);
+      }
+
+      const anukramaniEntry = {
+        rishi: entry?.rishi ?? '',
+        devata: entry?.devata ?? '',
+        chhandas: entry?.chhandas ?? '',
+      };
+      suktaIndex.push({ mandala, sukta, ...anukramaniEntry, verseCount: verseNumbers.length });
+      suktas.push({
+        sukta,
+        ...anukramaniEntry,
+        verses: verseNumbers.map((verse) => {
+          const key = `${suktaKey}.${verse}`;
+          const accented = devanagari.get(key) ?? '';
+          const sanskrit = stripAccents(accented);
+          const fields = [verse, sanskrit, stripIastAccents(iast.get(key) ?? ''), griffith.get(key) ?? ''];
+          return accented === sanskrit ? fields : [...fields, accented];
+        }),
+      });
+    }
+
+    const file = join(outDir, `mandala-${String(mandala).padStart(2, '0')}.json`);
+    writeFileSync(file, JSON.stringify({ mandala, suktas }) + '\n');
+    console.log(`${file}: ${suktas.length}/${expected} suktas`);
+  });
+
+  writeFileSync(join(outDir, 'index.json'), JSON.stringify({ suktas: suktaIndex }) + '\n');
+  console.log(`${suktaIndex.length}/${SUKTA_COUNTS.reduce((sum, count) => sum + count, 0)} suktas written`);
+}
+
+main();
@@ -1,18 +1,25 @@
 import './App.css'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { VedicClock } from './components/Clock/VedicClock'
-import { TimeDetails } from './components/Layout'
+import { TimeDetails, TimeTravelControls } from './components/Layout'
 import { BottomPanel, RightPanel } from './components/Panels'
 import { KeyboardShortcutsModal } from './components/Help/KeyboardShortcutsModal'
+import { HymnBrowser } from './components/Hymn/HymnBrowser'
 import { AudioSettings } from './components/Settings/AudioSettings'
+import { CalendarSettings } from './components/Settings/CalendarSettings'
 import { useLocation } from './hooks/useLocation'
 import { useLocalStorage } from './hooks/useLocalStorage'
 import { usePanels } from './hooks/usePanels'
 import { useAudio } from './hooks/useAudio'
+import { useHymnLink } from './hooks/useHymnLink'
 import { usePanelShortcuts, useGlobalShortcuts, useScreenReaderAnnouncement } from './hooks/useKeyboardShortcuts'
-import { calculateVedicTime, type VedicTime } from './lib/vedic-calendar'
+import type { VedicTime } from './lib/vedic-calendar'
 import { getTodaysStory } from './lib/storySelector'
+import { getPlaybackMoment } from './lib/playback'
+import { VedicCalendarService } from './services/vedicCalendarService'
 import type { ReadingEntry, ReadingStreak } from './types/panelData'
+import { getCalendarSettings } from './types'
+import { useAppContext, usePreferencesContext } from './context/AppContext'
 
 function App() {
   // Use location hook to manage geographic location
@@ -26,10 +33,38 @@ function App() {
   const panels = usePanels();
   const [showShortcutsHelp, setShowShortcutsHelp] = useState(false);
   const [showAudioSettings, setShowAudioSettings] = useState(false);
+  const [showCalendarSettings, setShowCalendarSettings] = useState(false);
+
+  // Hymn browser, opened by a deep link in the URL hash
+  const [hymnLink, setHymnLink] = useHymnLink();
 
   // Audio management
   const audio = useAudio();
 
+  // Calendar preferences (ayanamsa, masa system), shared through the context
+  // so settings saved elsewhere (such as the script) are not overwritten
+  const { preferences, setPreferences: updatePreferences } = usePreferencesContext();
+  const calendarSettings = getCalendarSettings(preferences);
+  const calendarSettingsKey = JSON.stringify(calendarSettings);
+
+  // Moment the clock shows (null while live), and accelerated playback
+  const {
+    viewingTime,
+    setViewingTime,
+    stepViewingTime,
+    returnToNow,
+    playback,
+    playPlayback,
+    pausePlayback,
+    setPlaybackSpeed,
+    setPlaybackLoop,
+  } = useAppContext();
+  const viewingTimeKey = viewingTime?.getTime() ?? null;
+  const isPlaying = playback.timeline !== null;
+
+  // During playback the details follow the moment being played
+  const displayedTime = isPlaying ? vedicTime?.calculatedFor ?? null : viewingTime;
+
   // Screen reader announcements
   const announce = useScreenReaderAnnouncement();
 
@@ -52,18 +87,29 @@ function App() {
   const globalShortcuts = useGlobalShortcuts({
     showHelp: () => setShowShortcutsHelp(true),
     openBreathingModal: () => setShowAudioSettings(true),
+    openHymnBrowser: () => setHymnLink(hymnLink ?? {}),
   });
 
   const allShortcuts = [...panelShortcuts, ...globalShortcuts];
 
-  // Calculate Vedic time and update story
-  const updateVedicTime = () => {
+  // Only the latest calculation may update the display
+  const latestRequestRef = useRef(0);
+
+  // Calculate Vedic time (in the worker) and update story
+  const updateVedicTime = async () => {
+    const requestId = ++latestRequestRef.current;
     try {
       const prevMuhurta = vedicTime?.muhurta.number;
-      const time = calculateVedicTime(
+      const moment = playback.timeline
+        ? getPlaybackMoment(playback.timeline)
+        : viewingTime ?? new Date();
+      const time = await VedicCalendarService.calculateVedicTime(
         locationState.location.latitude,
-        locationState.location.longitude
+        locationState.location.longitude,
+        moment,
+        calendarSettings
       );
+      if (requestId !== latestRequestRef.current) return;
       setVedicTime(time);
 
       // Update story based on cosmic context (nakshatra, tithi, paksha)
@@ -71,8 +117,8 @@ function App() {
       setTodaysStory(story);
       setNakshatraName(time.nakshatraName.split('(')[0].trim());
 
-      // Announce muhurta changes to screen readers
-      if (prevMuhurta && prevMuhurta !== time.muhurta.number) {
+      // Announce muhurta changes to screen readers (too frequent during playback)
+      if (!playback.timeline && prevMuhurta && prevMuhurta !== time.muhurta.number) {
         announce(`Muhurta changed to ${time.muhurta.name}`, 'polite');
       }
     } catch (error) {
@@ -119,15 +165,29 @@ function App() {
     setStreak(newStreak);
   };
 
-  // Update when location changes or every minute
+  // Update when location, viewing time or playback changes, every minute
+  // while live and every second during playback
   useEffect(() => {
     updateVedicTime();
 
+    if (playback.timeline) {
+      const intervalId = setInterval(updateVedicTime, 1000);
+      return () => clearInterval(intervalId);
+    }
+
+    if (viewingTimeKey !== null) return;
+
     // Update every minute
     const intervalId = setInterval(updateVedicTime, 60000);
 
     return () => clearInterval(intervalId);
-  }, [locationState.location.latitude, locationState.location.longitude]);
+  }, [
+    locationState.location.latitude,
+    locationState.location.longitude,
+    calendarSettingsKey,
+    viewingTimeKey,
+    playback.timeline,
+  ]);
 
   return (
     <div className="min-h-screen bg-slate-950 relative">
@@ -181,7 +241,7 @@ function App() {
       {/* Time Details sidebar (fixed left) */}
       {vedicTime && (
         <div className="relative z-30">
-          <TimeDetails vedicTime={vedicTime} />
+          <TimeDetails vedicTime={vedicTime} viewingTime={displayedTime} />
         </div>
       )}
 
@@ -204,9 +264,25 @@ function App() {
           latitude={locationState.location.latitude}
           longitude={locationState.location.longitude}
           locationName={locationState.location.name}
+          settings={calendarSettings}
+          date={viewingTime}
+          timeline={playback.timeline}
         />
       </div>
 
+      {/* Time travel: view any past or future moment, or play time forward */}
+      <TimeTravelControls
+        viewingTime={displayedTime}
+        onViewingTimeChange={setViewingTime}
+        onStep={(step, direction) => stepViewingTime(step, direction, locationState.location)}
+        onReturnToNow={returnToNow}
+        playback={playback}
+        onPlay={playPlayback}
+        onPause={pausePlayback}
+        onPlaybackSpeedChange={setPlaybackSpeed}
+        onPlaybackLoopChange={setPlaybackLoop}
+      />
+
       {/* Bottom Panel - Daily Hymn */}
       <BottomPanel
         story={todaysStory}
@@ -235,6 +311,52 @@ function App() {
         onToggleShuffle={audio.toggleShuffle}
       />
 
+      {/* Hymn Browser Modal */}
+      <HymnBrowser link={hymnLink} onLinkChange={setHymnLink} />
+
+      {/* Calendar Settings Modal */}
+      <CalendarSettings
+        isOpen={showCalendarSettings}
+        onClose={() => setShowCalendarSettings(false)}
+        preferences={preferences}
+        onPreferencesChange={updatePreferences}
+        currentAyanamsa={vedicTime?.ayanamsa}
+      />
+
+      {/* Floating Hymn Browser Button */}
+      <button
+        onClick={() => setHymnLink({})}
+        className="fixed bottom-36 right-4 w-14 h-14 rounded-full flex items-center justify-center shadow-lg hover:scale-110 transition-transform z-40"
+        style={{
+          backgroundColor: '#D4AF37',
+          backdropFilter: 'blur(10px)',
+          border: '2px solid rgba(255, 255, 255, 0.2)',
+        }}
+        aria-label="Browse the Rigveda"
+        title="Browse the Rigveda (Ctrl+K)"
+      >
+        <svg className="w-6 h-6 text-slate-950" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+        </svg>
+      </button>
+
+      {/* Floating Calendar Settings Button */}
+      <button
+        onClick={() => setShowCalendarSettings(true)}
+        className="fixed bottom-20 right-4 w-14 h-14 rounded-full flex items-center justify-center shadow-lg hover:scale-110 transition-transform z-40"
+        style={{
+          backgroundColor: '#D4AF37',
+          backdropFilter: 'blur(10px)',
+          border: '2px solid rgba(255, 255, 255, 0.2)',
+        }}
+        aria-label="Open calendar settings"
+        title="Calendar Settings"
+      >
+        <svg className="w-6 h-6 text-slate-950" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </button>
+
       {/* Floating Audio Settings Button */}
       <button
         onClick={() => setShowAudioSettings(true)}
@@ -6,6 +6,8 @@
  * - Nakshatra name (Sanskrit and English)
  * - Paksha (lunar fortnight)
  * - Masa (lunar month)
+ * - Muhurta, prana, choghadiya and hora
+ * - A note when polar-region day boundaries stand in for sunrise
  * - Progress indicators
  *
  * Uses elegant typography with support for Devanagari script.
@@ -14,7 +16,8 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { VedicTime } from '../../lib/vedic-calendar';
+import { NEAREST_SUNRISE_LATITUDE } from '../../lib/vedic-calendar';
+import type { VedicTime, ChoghadiyaQuality, SunriseSource } from '../../lib/vedic-calendar';
 
 interface CenterDisplayProps {
   vedicTime: VedicTime;
@@ -49,6 +52,36 @@ function formatTimeRemaining(minutes: number): string {
   return `${hours}h ${mins}m`;
 }
 
+/**
+ * Color for a choghadiya quality
+ */
+function getQualityColor(quality: ChoghadiyaQuality): string {
+  switch (quality) {
+    case 'auspicious':
+      return '#22C55E';
+    case 'neutral':
+      return '#EAB308';
+    case 'inauspicious':
+      return '#EF4444';
+  }
+}
+
+/**
+ * Explain which day boundaries are in use when there is no real sunrise
+ */
+function getSunriseSourceNote(source: SunriseSource): string | null {
+  switch (source) {
+    case 'astronomical':
+      return null;
+    case 'nearestLatitude':
+      return `The Sun does not rise or set here today. Sunrise-based times follow ${NEAREST_SUNRISE_LATITUDE}° latitude on your meridian.`;
+    case 'equinoctial':
+      return 'The Sun does not rise or set here today. Sunrise-based times use an equinox day (06:00–18:00 local mean time).';
+    case 'localMidnight':
+      return 'The Sun does not rise or set here today. Sunrise-based times are counted from local mean midnight.';
+  }
+}
+
 /**
  * Central information display with Vedic time details
  */
@@ -445,6 +478,77 @@ export function CenterDisplay({ vedicTime }: CenterDisplayProps) {
           </motion.div>
         </motion.div>
 
+        {/* Choghadiya and Hora - Side by Side */}
+        <motion.div
+          variants={itemVariants}
+          className="mt-4 grid grid-cols-2 gap-4 w-full max-w-sm"
+        >
+          {/* Choghadiya Display */}
+          <div className="text-center">
+            <div className="text-xs uppercase tracking-wider mb-1" style={{ color: goldColor, opacity: 0.8 }}>
+              Choghadiya
+            </div>
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={vedicTime.choghadiya.current.number}
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 1.05 }}
+                transition={{ duration: 0.4, ease: "easeInOut" }}
+              >
+                <div
+                  className="text-base font-semibold"
+                  style={{ color: getQualityColor(vedicTime.choghadiya.current.quality) }}
+                >
+                  {vedicTime.choghadiya.current.name}
+                </div>
+                <div className="text-xs mt-1" style={{ color: goldColor, opacity: 0.7 }}>
+                  {formatTimeRemaining(vedicTime.choghadiya.minutesToNext)} left
+                </div>
+              </motion.div>
+            </AnimatePresence>
+          </div>
+
+          {/* Hora Display */}
+          <div className="text-center">
+            <div className="text-xs uppercase tracking-wider mb-1" style={{ color: goldColor, opacity: 0.8 }}>
+              Hora
+            </div>
+            <AnimatePresence mode="wait">
+              <motion.div
+                key={vedicTime.hora.current.number}
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 1.05 }}
+                transition={{ duration: 0.4, ease: "easeInOut" }}
+              >
+                <div className="text-base font-semibold" style={{ color: lightGoldColor }}>
+                  {vedicTime.hora.current.name}
+                </div>
+                <div className="text-xs mt-1" style={{ color: goldColor, opacity: 0.7 }}>
+                  {formatTimeRemaining(vedicTime.hora.minutesToNext)} left
+                </div>
+              </motion.div>
+            </AnimatePresence>
+          </div>
+        </motion.div>
+
+        {/* Polar-region note */}
+        {getSunriseSourceNote(vedicTime.sunriseSource) && (
+          <motion.div
+            variants={itemVariants}
+            className="mt-4 max-w-sm text-xs text-center leading-relaxed px-3 py-2 rounded-md"
+            style={{
+              color: '#EAB308',
+              backgroundColor: 'rgba(234, 179, 8, 0.1)',
+              border: '1px solid rgba(234, 179, 8, 0.3)',
+            }}
+            role="note"
+          >
+            {getSunriseSourceNote(vedicTime.sunriseSource)}
+          </motion.div>
+        )}
+
         {/* Timestamp with fade */}
         <motion.div
           variants={itemVariants}
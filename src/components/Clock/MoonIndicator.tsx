@@ -4,9 +4,21 @@
  * Displays the Moon's current position on the outer orbital ring
  * based on its nakshatra position. Shows the moon phase (waxing/waning)
  * inside the moon circle using visual dark/light portions.
+ *
+ * When an eclipse is near, a countdown appears under the Moon; during the
+ * sutak or the eclipse itself the Moon is ringed in red.
+ *
+ * Hovering the Moon shows a tooltip with moonrise, moonset, age, distance,
+ * libration and the next new moon, full moon, perigee or apogee.
+ *
+ * During playback the Moon glides at constant speed from one tick to the
+ * next, and keeps moving forward across the start of Ashvini.
  */
 
+import { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import { getGrahanaStatus } from '../../lib/vedic-calendar';
+import type { Grahana, MoonDetails } from '../../lib/vedic-calendar';
 
 interface MoonIndicatorProps {
   /** Moon phase as decimal (0 = New Moon, 0.5 = Full Moon, 1 = New Moon) */
@@ -17,6 +29,73 @@ interface MoonIndicatorProps {
 
   /** Progress through current nakshatra (0-100) */
   nakshatraProgress?: number;
+
+  /** Next (or current) eclipse for the observer */
+  nextGrahana?: Grahana;
+
+  /** Moonrise, moonset, age, distance and upcoming lunar events */
+  moon?: MoonDetails;
+
+  /** Time the indicator is drawn for */
+  now?: Date;
+
+  /** Seconds between updates during playback; omitted when not playing */
+  tickSeconds?: number;
+}
+
+/**
+ * Only announce eclipses this many days ahead
+ */
+const GRAHANA_NOTICE_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Format an instant as HH:MM
+ */
+function formatClockTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Format an instant as DD/MM HH:MM
+ */
+function formatDayTime(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month} ${formatClockTime(date)}`;
+}
+
+/**
+ * Tooltip lines describing the Moon
+ */
+function getMoonTooltipLines(moon: MoonDetails): string[] {
+  const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}°`;
+  const apsis = moon.nextApsis.kind === 'perigee' ? 'Perigee' : 'Apogee';
+
+  return [
+    `Rise ${moon.moonrise ? formatClockTime(moon.moonrise) : '—'} • Set ${moon.moonset ? formatClockTime(moon.moonset) : '—'}`,
+    `Age ${moon.age.toFixed(1)} days • ${Math.round(moon.distance).toLocaleString()} km`,
+    `Libration ${signed(moon.libration.latitude)} lat, ${signed(moon.libration.longitude)} lon`,
+    `Full ${formatDayTime(moon.nextFullMoon)} • New ${formatDayTime(moon.nextNewMoon)}`,
+    `${apsis} ${formatDayTime(moon.nextApsis.time)} (${Math.round(moon.nextApsis.distance).toLocaleString()} km)`,
+  ];
+}
+
+/**
+ * Short label for an upcoming or current eclipse, or null if it is far off
+ */
+function getGrahanaLabel(grahana: Grahana, now: Date): string | null {
+  const status = getGrahanaStatus(grahana, now);
+  if (status === 'eclipse') return `${grahana.name} now`;
+  if (status === 'sutak') return `Sutak · ${grahana.name}`;
+
+  const days = (grahana.start.getTime() - now.getTime()) / MS_PER_DAY;
+  if (days > GRAHANA_NOTICE_DAYS) return null;
+  if (days < 1) return `${grahana.name} in ${Math.ceil(days * 24)}h`;
+  return `${grahana.name} in ${Math.round(days)}d`;
 }
 
 /**
@@ -42,7 +121,14 @@ export function MoonIndicator({
   moonPhase,
   nakshatra,
   nakshatraProgress = 0,
+  nextGrahana,
+  moon,
+  now = new Date(),
+  tickSeconds,
 }: MoonIndicatorProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const unwrappedAngleRef = useRef<number | null>(null);
+
   const centerX = 500;
   const centerY = 500;
   const outerRadius = 400;
@@ -54,6 +140,11 @@ export function MoonIndicator({
   const progressAngle = (nakshatraProgress / 100) * (360 / 27);
   const angle = baseAngle + progressAngle;
 
+  // Take the shorter way round from the last angle, so 359° → 1° moves forward
+  const previousAngle = unwrappedAngleRef.current ?? angle;
+  const rotation = previousAngle + ((((angle - previousAngle) % 360) + 540) % 360) - 180;
+  unwrappedAngleRef.current = rotation;
+
   // Get moon position on the outer ring (for initial placement)
   const moonPos = polarToCartesian(centerX, centerY, outerRadius, 0);
 
@@ -65,6 +156,11 @@ export function MoonIndicator({
   const goldColor = '#D4AF37';
   const silverColor = '#C0C0C0';
   const darkMoonColor = '#2D3748';
+  const grahanaColor = '#EF4444';
+
+  // Eclipse notice
+  const grahanaLabel = nextGrahana ? getGrahanaLabel(nextGrahana, now) : null;
+  const grahanaStatus = nextGrahana ? getGrahanaStatus(nextGrahana, now) : null;
 
   return (
     <svg
@@ -98,14 +194,13 @@ export function MoonIndicator({
         initial={{ opacity: 0 }}
         animate={{
           opacity: 1,
-          rotate: angle
+          rotate: rotation
         }}
         transition={{
           opacity: { duration: 0.5 },
-          rotate: {
-            duration: 2,
-            ease: "easeInOut"
-          }
+          rotate: tickSeconds
+            ? { duration: tickSeconds, ease: "linear" }
+            : { duration: 2, ease: "easeInOut" }
         }}
         style={{ originX: '50%', originY: '50%' }}
       >
@@ -138,6 +233,9 @@ export function MoonIndicator({
           fill={darkMoonColor}
           stroke={goldColor}
           strokeWidth="1.5"
+          style={{ cursor: moon ? 'pointer' : undefined, pointerEvents: moon ? 'all' : undefined }}
+          onMouseEnter={() => setIsHovered(true)}
+          onMouseLeave={() => setIsHovered(false)}
         />
 
         {/* Illuminated portion of moon */}
@@ -195,6 +293,35 @@ export function MoonIndicator({
           }}
         />
 
+        {/* Red ring during an eclipse or its sutak */}
+        {grahanaStatus && (
+          <circle
+            cx={moonPos.x}
+            cy={moonPos.y}
+            r={moonRadius + 4}
+            fill="none"
+            stroke={grahanaColor}
+            strokeWidth="2"
+            strokeDasharray={grahanaStatus === 'sutak' ? '4,4' : undefined}
+            opacity="0.8"
+          />
+        )}
+
+        {/* Upcoming eclipse notice below the moon */}
+        {grahanaLabel && (
+          <text
+            x={moonPos.x}
+            y={moonPos.y + moonRadius + 22}
+            textAnchor="middle"
+            fill={grahanaStatus ? grahanaColor : silverColor}
+            fontSize="11"
+            opacity="0.8"
+            fontFamily="system-ui"
+          >
+            {grahanaLabel}
+          </text>
+        )}
+
         {/* Small text label near moon */}
         <text
           x={moonPos.x}
@@ -208,6 +335,46 @@ export function MoonIndicator({
           {nakshatra}
         </text>
       </motion.g>
+
+      {/* Moon details tooltip - does not rotate with the moon */}
+      {isHovered && moon && (() => {
+        const lines = getMoonTooltipLines(moon);
+        const pos = polarToCartesian(centerX, centerY, outerRadius - 110, angle);
+        const width = 260;
+        const height = lines.length * 16 + 16;
+
+        return (
+          <motion.g
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <rect
+              x={pos.x - width / 2}
+              y={pos.y - height / 2}
+              width={width}
+              height={height}
+              fill="rgba(0, 0, 0, 0.85)"
+              stroke={silverColor}
+              strokeWidth="1"
+              rx="4"
+            />
+            {lines.map((line, index) => (
+              <text
+                key={index}
+                x={pos.x}
+                y={pos.y - height / 2 + 20 + index * 16}
+                textAnchor="middle"
+                fill={index === 0 ? goldColor : silverColor}
+                fontSize="11"
+                fontFamily="system-ui"
+              >
+                {line}
+              </text>
+            ))}
+          </motion.g>
+        );
+      })()}
     </svg>
   );
 }
@@ -5,14 +5,21 @@
  * - Name, ruling deity, category
  * - Significance and best activities
  * - Auspiciousness level with color coding
+ * - Today's Rahu Kalam, Yamagandam, Gulika, Durmuhurta, Varjyam and Amrita Kalam
  */
 
 import { motion, AnimatePresence } from 'framer-motion';
 import type { MuhurtaDetail } from '../../data/muhurtaDetails';
+import { listDailyPeriods, getMuhurtaSpan } from '../../lib/vedic-calendar';
+import type { DailyPeriods, MuhurtaMode } from '../../lib/vedic-calendar';
 
 interface MuhurtaInfoPanelProps {
   /** Muhurta details to display */
   muhurta: MuhurtaDetail | null;
+  /** Today's marked periods */
+  periods?: DailyPeriods;
+  /** How the day is divided into muhurtas */
+  mode?: MuhurtaMode;
   /** Callback to close the panel */
   onClose: () => void;
 }
@@ -47,15 +54,27 @@ function getCategoryColor(category: MuhurtaDetail['category']): {
   }
 }
 
+/**
+ * Format a period boundary as HH:MM
+ */
+function formatTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
 /**
  * Muhurta information display panel
  */
-export function MuhurtaInfoPanel({ muhurta, onClose }: MuhurtaInfoPanelProps) {
+export function MuhurtaInfoPanel({ muhurta, periods, mode = 'equal', onClose }: MuhurtaInfoPanelProps) {
   if (!muhurta) return null;
 
   const categoryColors = getCategoryColor(muhurta.category);
   const goldColor = '#D4AF37';
 
+  // Time span of the selected muhurta, counted from today's sunrise
+  const muhurtaSpan = periods ? getMuhurtaSpan(periods, muhurta.number, mode) : null;
+
   return (
     <AnimatePresence>
       {muhurta && (
@@ -98,6 +117,11 @@ export function MuhurtaInfoPanel({ muhurta, onClose }: MuhurtaInfoPanelProps) {
                       style={{ color: goldColor, opacity: 0.8 }}
                     >
                       Muhurta {muhurta.number} of 30
+                      {muhurtaSpan && (
+                        <span className="ml-2 font-mono">
+                          {formatTime(muhurtaSpan.start)}–{formatTime(muhurtaSpan.end)}
+                        </span>
+                      )}
                     </div>
 
                     {/* English name */}
@@ -209,6 +233,51 @@ export function MuhurtaInfoPanel({ muhurta, onClose }: MuhurtaInfoPanelProps) {
                   </div>
                 </div>
 
+                {/* Today's periods */}
+                {periods && (
+                  <div>
+                    <h3
+                      className="text-sm font-semibold uppercase tracking-wider mb-2"
+                      style={{ color: goldColor, opacity: 0.7 }}
+                    >
+                      Today's Periods
+                    </h3>
+                    <ul className="space-y-1">
+                      {listDailyPeriods(periods).map((period, index) => {
+                        const colors = getCategoryColor(period.quality);
+                        const overlapsMuhurta =
+                          muhurtaSpan !== null &&
+                          period.start < muhurtaSpan.end &&
+                          period.end > muhurtaSpan.start;
+
+                        return (
+                          <li
+                            key={index}
+                            className="flex items-center justify-between px-3 py-1.5 rounded-lg border text-sm"
+                            style={{
+                              backgroundColor: overlapsMuhurta ? colors.bg : 'transparent',
+                              borderColor: overlapsMuhurta ? colors.border : `${goldColor}20`,
+                            }}
+                          >
+                            <span style={{ color: colors.text }}>
+                              {period.name}{' '}
+                              <span
+                                className="opacity-70"
+                                style={{ fontFamily: '"Noto Sans Devanagari", serif' }}
+                              >
+                                {period.nameSanskrit}
+                              </span>
+                            </span>
+                            <span className="font-mono text-slate-300">
+                              {formatTime(period.start)}–{formatTime(period.end)}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Notes */}
                 {muhurta.notes && (
                   <div>
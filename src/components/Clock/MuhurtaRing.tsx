@@ -1,15 +1,18 @@
 /**
  * MuhurtaRing Component
  *
- * Renders a ring showing the 30 muhurtas (time divisions of 48 minutes each).
+ * Renders a ring showing the 30 muhurtas (48 minutes each, or seasonal day and
+ * night muhurtas with daytime on the first half of the ring).
  * Positioned between the middle and inner rings at radius ~250px.
  * Highlights the current muhurta and shows progress through it.
+ * Rahu Kalam, Yamagandam, Gulika, Durmuhurta and Varjyam are marked in red
+ * just outside the ring, Amrita Kalam in green.
  */
 
 import { useState, memo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { MUHURTA_NAMES } from '../../lib/vedic-calendar';
-import type { MuhurtaData } from '../../lib/vedic-calendar';
+import { MUHURTA_NAMES, listDailyPeriods, getDayAngle } from '../../lib/vedic-calendar';
+import type { MuhurtaData, DailyPeriods } from '../../lib/vedic-calendar';
 import { getMuhurtaDetails } from '../../data/muhurtaDetails';
 import type { MuhurtaDetail } from '../../data/muhurtaDetails';
 import { MuhurtaInfoPanel } from './MuhurtaInfoPanel';
@@ -17,6 +20,8 @@ import { MuhurtaInfoPanel } from './MuhurtaInfoPanel';
 interface MuhurtaRingProps {
   /** Current muhurta data */
   muhurta: MuhurtaData;
+  /** Today's marked periods (Rahu Kalam, Amrita Kalam, ...) */
+  periods?: DailyPeriods;
 }
 
 /**
@@ -58,8 +63,9 @@ function describeArc(
 /**
  * Muhurta ring visualization with 30 segments
  */
-const MuhurtaRingComponent = ({ muhurta }: MuhurtaRingProps) => {
+const MuhurtaRingComponent = ({ muhurta, periods }: MuhurtaRingProps) => {
   const [hoveredMuhurta, setHoveredMuhurta] = useState<number | null>(null);
+  const [hoveredPeriod, setHoveredPeriod] = useState<number | null>(null);
   const [selectedMuhurta, setSelectedMuhurta] = useState<MuhurtaDetail | null>(null);
 
   const centerX = 500;
@@ -70,6 +76,10 @@ const MuhurtaRingComponent = ({ muhurta }: MuhurtaRingProps) => {
   const goldColor = '#D4AF37';
   const dimGoldColor = '#9A7D28';
   const lightGoldColor = '#F4E5B8';
+  const inauspiciousColor = '#EF4444';
+  const auspiciousColor = '#22C55E';
+  const periodRadius = muhurtaRadius + 12;
+  const periodList = periods ? listDailyPeriods(periods) : [];
 
   return (
     <>
@@ -121,6 +131,29 @@ const MuhurtaRingComponent = ({ muhurta }: MuhurtaRingProps) => {
           opacity="0.5"
         />
 
+        {/* Daily periods - red for inauspicious, green for Amrita Kalam */}
+        {periods && periodList.map((period, index) => {
+          const startAngle = getDayAngle(period.start, periods, muhurta.mode);
+          const endAngle = getDayAngle(period.end, periods, muhurta.mode);
+          if (endAngle <= startAngle) return null;
+
+          const isHovered = hoveredPeriod === index;
+
+          return (
+            <path
+              key={`period-${index}`}
+              d={describeArc(centerX, centerY, periodRadius, startAngle, endAngle)}
+              fill="none"
+              stroke={period.quality === 'auspicious' ? auspiciousColor : inauspiciousColor}
+              strokeWidth={isHovered ? 6 : 4}
+              opacity={isHovered ? 0.9 : 0.55}
+              style={{ pointerEvents: 'all', cursor: 'default' }}
+              onMouseEnter={() => setHoveredPeriod(index)}
+              onMouseLeave={() => setHoveredPeriod(null)}
+            />
+          );
+        })}
+
         {/* Draw 30 muhurta segments */}
         {Array.from({ length: 30 }).map((_, index) => {
           const muhurtaNumber = index + 1;
@@ -401,11 +434,74 @@ const MuhurtaRingComponent = ({ muhurta }: MuhurtaRingProps) => {
           </motion.g>
         )}
       </AnimatePresence>
+
+      {/* Hover tooltip - shows period name and times */}
+      <AnimatePresence>
+        {hoveredPeriod !== null && periods && periodList[hoveredPeriod] && (
+          <motion.g
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.9 }}
+            transition={{ duration: 0.2 }}
+            style={{ pointerEvents: 'none' }}
+          >
+            {(() => {
+              const period = periodList[hoveredPeriod];
+              const angle =
+                (getDayAngle(period.start, periods, muhurta.mode) +
+                  getDayAngle(period.end, periods, muhurta.mode)) / 2;
+              const labelPos = polarToCartesian(centerX, centerY, periodRadius + 45, angle);
+              const color =
+                period.quality === 'auspicious' ? auspiciousColor : inauspiciousColor;
+              const formatTime = (date: Date) =>
+                `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+              return (
+                <>
+                  <rect
+                    x={labelPos.x - 80}
+                    y={labelPos.y - 25}
+                    width="160"
+                    height="50"
+                    fill="rgba(0, 0, 0, 0.9)"
+                    stroke={color}
+                    strokeWidth="1.5"
+                    rx="6"
+                  />
+                  <text
+                    x={labelPos.x}
+                    y={labelPos.y - 5}
+                    textAnchor="middle"
+                    fill={color}
+                    fontSize="13"
+                    fontFamily="system-ui"
+                    fontWeight="600"
+                  >
+                    {period.name}
+                  </text>
+                  <text
+                    x={labelPos.x}
+                    y={labelPos.y + 12}
+                    textAnchor="middle"
+                    fill={lightGoldColor}
+                    fontSize="11"
+                    fontFamily="system-ui"
+                  >
+                    {formatTime(period.start)}–{formatTime(period.end)}
+                  </text>
+                </>
+              );
+            })()}
+          </motion.g>
+        )}
+      </AnimatePresence>
     </svg>
 
     {/* Muhurta info panel */}
     <MuhurtaInfoPanel
       muhurta={selectedMuhurta}
+      periods={periods}
+      mode={muhurta.mode}
       onClose={() => setSelectedMuhurta(null)}
     />
   </>
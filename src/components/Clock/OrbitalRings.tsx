@@ -1,26 +1,67 @@
 /**
  * OrbitalRings Component
  *
- * Renders three concentric SVG circles representing the orbital paths:
- * - Outer ring (400px): 27 nakshatra markers
- * - Middle ring (300px): 30 tithi markers
- * - Inner ring (200px): Decorative boundary
+ * Renders concentric SVG circles representing the orbital paths:
+ * - Outer ring (400px): 27 nakshatra markers, with the nine grahas placed
+ *   just outside it at their sidereal longitudes
+ * - Yoga ring (375px): 27 yoga markers
+ * - Middle ring (350px): 30 tithi markers with 60 karana ticks
+ * - Inner ring (200px): 7 vara markers on the decorative boundary
  *
  * Styled with golden color (#D4AF37) and subtle glow effects
  * Features slow rotation animation and interactive hover states
+ * During playback the graha markers glide linearly between ticks
  */
 
 import { useState, memo } from 'react';
 import { motion } from 'framer-motion';
-import { NAKSHATRA_NAMES, TITHI_NAMES } from '../../lib/vedic-calendar';
+import {
+  NAKSHATRA_NAMES,
+  TITHI_NAMES,
+  YOGA_NAMES,
+  VARA_NAMES,
+  VEDIC_CONSTANTS,
+  getKaranaName,
+} from '../../lib/vedic-calendar';
+import type { GrahaId, GrahaPosition } from '../../lib/vedic-calendar';
 
 interface OrbitalRingsProps {
   /** Current tithi number (1-30) for highlighting */
   currentTithi?: number;
   /** Current nakshatra number (1-27) for highlighting */
   currentNakshatra?: number;
+  /** Current yoga number (1-27) for highlighting */
+  currentYoga?: number;
+  /** Current karana number (1-60) for highlighting */
+  currentKarana?: number;
+  /** Current vara number (1-7) for highlighting */
+  currentVara?: number;
+  /** Sidereal graha positions to mark on the nakshatra ring */
+  grahas?: GrahaPosition[];
+  /** Seconds between updates during playback; omitted when not playing */
+  tickSeconds?: number;
 }
 
+/**
+ * Marker colors for each graha
+ */
+const GRAHA_COLORS: Record<GrahaId, string> = {
+  sun: '#F59E0B',
+  moon: '#E2E8F0',
+  mars: '#EF4444',
+  mercury: '#22C55E',
+  jupiter: '#EAB308',
+  venus: '#F9A8D4',
+  saturn: '#60A5FA',
+  rahu: '#8B5CF6',
+  ketu: '#A8A29E',
+};
+
+/**
+ * Grahas closer than this many degrees are stacked outward so both stay visible
+ */
+const GRAHA_STACK_DEGREES = 4;
+
 /**
  * Calculate position on a circle given angle and radius
  */
@@ -43,15 +84,35 @@ function polarToCartesian(
 const OrbitalRingsComponent = ({
   currentTithi = 1,
   currentNakshatra = 1,
+  currentYoga = 1,
+  currentKarana = 1,
+  currentVara = 1,
+  grahas = [],
+  tickSeconds,
 }: OrbitalRingsProps) => {
   const [hoveredNakshatra, setHoveredNakshatra] = useState<number | null>(null);
   const [hoveredTithi, setHoveredTithi] = useState<number | null>(null);
+  const [hoveredYoga, setHoveredYoga] = useState<number | null>(null);
+  const [hoveredKarana, setHoveredKarana] = useState<number | null>(null);
+  const [hoveredVara, setHoveredVara] = useState<number | null>(null);
+  const [hoveredGraha, setHoveredGraha] = useState<GrahaId | null>(null);
 
   const centerX = 500;
   const centerY = 500;
   const outerRadius = 400;  // Nakshatra ring
+  const yogaRadius = 375;   // Yoga ring
   const middleRadius = 350; // Tithi ring (updated from 300)
   const innerRadius = 200;  // Decorative boundary
+  const grahaRadius = 418;  // Graha markers, just outside the nakshatra ring
+
+  // Stack level of each graha: how many earlier grahas sit within a few degrees
+  const grahaStack = grahas.map((graha, index) =>
+    grahas.slice(0, index).filter((other) => {
+      const separation = Math.abs(graha.longitude - other.longitude) % 360;
+      return Math.min(separation, 360 - separation) < GRAHA_STACK_DEGREES;
+    }).length
+  );
+  const hoveredGrahaPosition = grahas.find((graha) => graha.id === hoveredGraha);
 
   // Golden color for rings
   const goldColor = '#D4AF37';
@@ -115,6 +176,18 @@ const OrbitalRingsComponent = ({
           filter="url(#glow)"
         />
 
+        {/* Yoga ring - thin dashed track between nakshatras and tithis */}
+        <circle
+          cx={centerX}
+          cy={centerY}
+          r={yogaRadius}
+          fill="none"
+          stroke={goldColor}
+          strokeWidth="1"
+          strokeDasharray="2 6"
+          opacity="0.4"
+        />
+
         {/* Middle ring - Tithi ring */}
         <circle
           cx={centerX}
@@ -226,6 +299,40 @@ const OrbitalRingsComponent = ({
           );
         })}
 
+        {/* Graha markers just outside the nakshatra ring (sidereal 0° = Ashwini) */}
+        {grahas.map((graha, index) => {
+          const pos = polarToCartesian(
+            centerX,
+            centerY,
+            grahaRadius + (grahaStack[index] % 3) * 14,
+            graha.longitude
+          );
+          const isHovered = graha.id === hoveredGraha;
+
+          return (
+            <motion.circle
+              key={`graha-${graha.id}`}
+              initial={false}
+              animate={{ cx: pos.x, cy: pos.y }}
+              transition={
+                tickSeconds
+                  ? { duration: tickSeconds, ease: "linear" }
+                  : { duration: 1, ease: "easeInOut" }
+              }
+              r={isHovered ? 7 : 5}
+              fill={GRAHA_COLORS[graha.id]}
+              stroke={goldColor}
+              strokeWidth="1"
+              strokeDasharray={graha.isRetrograde ? '2 2' : undefined}
+              opacity={isHovered ? 1 : 0.85}
+              filter={isHovered ? 'url(#glow)' : undefined}
+              style={{ cursor: 'pointer', pointerEvents: 'all' }}
+              onMouseEnter={() => setHoveredGraha(graha.id)}
+              onMouseLeave={() => setHoveredGraha(null)}
+            />
+          );
+        })}
+
         {/* Tithi markers on middle ring (30 divisions) */}
         {Array.from({ length: 30 }).map((_, index) => {
           const angle = (index * 360) / 30;
@@ -290,6 +397,93 @@ const OrbitalRingsComponent = ({
           );
         })}
 
+        {/* Yoga markers (27 divisions of Sun + Moon longitude) */}
+        {Array.from({ length: VEDIC_CONSTANTS.YOGA_COUNT }).map((_, index) => {
+          const angle = (index * 360) / VEDIC_CONSTANTS.YOGA_COUNT;
+          const pos = polarToCartesian(centerX, centerY, yogaRadius, angle);
+          const yogaNumber = index + 1;
+          const isActive = yogaNumber === currentYoga;
+          const isHovered = yogaNumber === hoveredYoga;
+
+          return (
+            <motion.circle
+              key={`yoga-${index}`}
+              cx={pos.x}
+              cy={pos.y}
+              r={isActive ? 4 : isHovered ? 3 : 1.5}
+              fill={isActive || isHovered ? goldColor : dimGoldColor}
+              opacity={isActive ? 0.9 : isHovered ? 0.7 : 0.35}
+              filter={isActive ? 'url(#glow)' : undefined}
+              style={{ cursor: 'pointer', pointerEvents: 'all' }}
+              onMouseEnter={() => setHoveredYoga(yogaNumber)}
+              onMouseLeave={() => setHoveredYoga(null)}
+              animate={isActive ? { opacity: [0.9, 0.5, 0.9] } : {}}
+              transition={isActive ? { duration: 2.5, repeat: Infinity, ease: "easeInOut" } : {}}
+            />
+          );
+        })}
+
+        {/* Karana ticks inside the tithi ring (two per tithi) */}
+        {Array.from({ length: VEDIC_CONSTANTS.KARANAS_PER_MONTH }).map((_, index) => {
+          const angle = (index * 360) / VEDIC_CONSTANTS.KARANAS_PER_MONTH;
+          const karanaNumber = index + 1;
+          const isActive = karanaNumber === currentKarana;
+          const isHovered = karanaNumber === hoveredKarana;
+          const tickStart = polarToCartesian(centerX, centerY, middleRadius - 4, angle);
+          const tickEnd = polarToCartesian(
+            centerX,
+            centerY,
+            middleRadius - (isActive ? 18 : isHovered ? 14 : 10),
+            angle
+          );
+
+          return (
+            <line
+              key={`karana-${index}`}
+              x1={tickStart.x}
+              y1={tickStart.y}
+              x2={tickEnd.x}
+              y2={tickEnd.y}
+              stroke={isActive || isHovered ? goldColor : dimGoldColor}
+              strokeWidth={isActive ? 3 : 2}
+              strokeLinecap="round"
+              opacity={isActive ? 0.9 : isHovered ? 0.7 : 0.3}
+              filter={isActive ? 'url(#glow)' : undefined}
+              style={{ cursor: 'pointer', pointerEvents: 'all' }}
+              onMouseEnter={() => setHoveredKarana(karanaNumber)}
+              onMouseLeave={() => setHoveredKarana(null)}
+            />
+          );
+        })}
+
+        {/* Vara markers on inner ring (7 weekdays) */}
+        {Array.from({ length: VEDIC_CONSTANTS.VARA_COUNT }).map((_, index) => {
+          const angle = (index * 360) / VEDIC_CONSTANTS.VARA_COUNT;
+          const pos = polarToCartesian(centerX, centerY, innerRadius, angle);
+          const varaNumber = index + 1;
+          const isActive = varaNumber === currentVara;
+          const isHovered = varaNumber === hoveredVara;
+
+          return (
+            <motion.rect
+              key={`vara-${index}`}
+              x={pos.x - 5}
+              y={pos.y - 5}
+              width={10}
+              height={10}
+              transform={`rotate(45 ${pos.x} ${pos.y})`}
+              fill={isActive ? goldColor : 'rgba(0, 0, 0, 0.6)'}
+              stroke={isActive || isHovered ? goldColor : dimGoldColor}
+              strokeWidth="1.5"
+              opacity={isActive ? 1 : isHovered ? 0.8 : 0.5}
+              filter={isActive ? 'url(#glow)' : undefined}
+              style={{ cursor: 'pointer', pointerEvents: 'all' }}
+              onMouseEnter={() => setHoveredVara(varaNumber)}
+              onMouseLeave={() => setHoveredVara(null)}
+            />
+          );
+        })}
+
         {/* Center decorative symbol - pulsing dot */}
         <motion.circle
           cx={centerX}
@@ -383,6 +577,65 @@ const OrbitalRingsComponent = ({
         </motion.g>
       )}
 
+      {/* Graha hover label */}
+      {hoveredGrahaPosition && (
+        <motion.g
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.2 }}
+        >
+          {(() => {
+            const pos = polarToCartesian(
+              centerX,
+              centerY,
+              outerRadius - 45,
+              hoveredGrahaPosition.longitude
+            );
+            const degree = Math.floor(hoveredGrahaPosition.rashiDegree);
+
+            return (
+              <>
+                <rect
+                  x={pos.x - 110}
+                  y={pos.y - 24}
+                  width="220"
+                  height="48"
+                  fill="rgba(0, 0, 0, 0.8)"
+                  stroke={GRAHA_COLORS[hoveredGrahaPosition.id]}
+                  strokeWidth="1"
+                  rx="4"
+                />
+                <text
+                  x={pos.x}
+                  y={pos.y - 6}
+                  textAnchor="middle"
+                  fill={goldColor}
+                  fontSize="12"
+                  fontFamily="system-ui"
+                  fontWeight="500"
+                >
+                  {hoveredGrahaPosition.name}
+                  {hoveredGrahaPosition.isRetrograde ? ' (R)' : ''} ·{' '}
+                  {hoveredGrahaPosition.rashiName.split('(')[0].trim()} {degree}°
+                </text>
+                <text
+                  x={pos.x}
+                  y={pos.y + 12}
+                  textAnchor="middle"
+                  fill={goldColor}
+                  fontSize="11"
+                  fontFamily="system-ui"
+                  opacity="0.8"
+                >
+                  {hoveredGrahaPosition.nakshatraName.split('(')[0].trim()} pada{' '}
+                  {hoveredGrahaPosition.pada}
+                </text>
+              </>
+            );
+          })()}
+        </motion.g>
+      )}
+
       {/* Tithi hover labels */}
       {hoveredTithi !== null && (
         <motion.g
@@ -426,6 +679,62 @@ const OrbitalRingsComponent = ({
           })()}
         </motion.g>
       )}
+
+      {/* Yoga, karana and vara hover labels */}
+      {[
+        hoveredYoga !== null && {
+          key: 'yoga',
+          angle: ((hoveredYoga - 1) * 360) / VEDIC_CONSTANTS.YOGA_COUNT,
+          radius: yogaRadius + 40,
+          label: `Yoga: ${YOGA_NAMES[hoveredYoga - 1].split('(')[0].trim()}`,
+        },
+        hoveredKarana !== null && {
+          key: 'karana',
+          angle: ((hoveredKarana - 1) * 360) / VEDIC_CONSTANTS.KARANAS_PER_MONTH,
+          radius: middleRadius - 45,
+          label: `Karana: ${getKaranaName(hoveredKarana).split('(')[0].trim()}`,
+        },
+        hoveredVara !== null && {
+          key: 'vara',
+          angle: ((hoveredVara - 1) * 360) / VEDIC_CONSTANTS.VARA_COUNT,
+          radius: innerRadius - 35,
+          label: VARA_NAMES[hoveredVara - 1].split('(')[0].trim(),
+        },
+      ].map((hovered) => {
+        if (!hovered) return null;
+        const pos = polarToCartesian(centerX, centerY, hovered.radius, hovered.angle);
+
+        return (
+          <motion.g
+            key={hovered.key}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.2 }}
+          >
+            <rect
+              x={pos.x - 70}
+              y={pos.y - 15}
+              width="140"
+              height="30"
+              fill="rgba(0, 0, 0, 0.8)"
+              stroke={goldColor}
+              strokeWidth="1"
+              rx="4"
+            />
+            <text
+              x={pos.x}
+              y={pos.y + 5}
+              textAnchor="middle"
+              fill={goldColor}
+              fontSize="11"
+              fontFamily="system-ui"
+              fontWeight="500"
+            >
+              {hovered.label}
+            </text>
+          </motion.g>
+        );
+      })}
     </svg>
   );
 };
@@ -6,9 +6,10 @@
  * and renders all sub-components in a beautiful layered layout.
  */
 
-import { useState, useEffect } from 'react';
-import { calculateVedicTime } from '../../lib/vedic-calendar';
-import type { VedicTime } from '../../lib/vedic-calendar';
+import { useState } from 'react';
+import type { VedicCalendarSettings } from '../../lib/vedic-calendar';
+import type { PlaybackTimeline } from '../../lib/playback';
+import { useVedicTime } from '../../hooks/useVedicTime';
 import { ClockContainer } from './ClockContainer';
 import { OrbitalRings } from './OrbitalRings';
 import { MoonIndicator } from './MoonIndicator';
@@ -31,14 +32,29 @@ interface VedicClockProps {
 
   /** Update interval in milliseconds (default: 60000 = 1 minute) */
   updateInterval?: number;
+
+  /** Calendar conventions (ayanamsa, masa system, muhurta mode, polar policy) */
+  settings?: VedicCalendarSettings;
+
+  /** Moment to show; null or omitted follows the live time */
+  date?: Date | null;
+
+  /** Timeline being played; takes precedence over `date` */
+  timeline?: PlaybackTimeline | null;
 }
 
+/**
+ * Interval between ticks during playback in milliseconds
+ */
+const PLAYBACK_TICK_MS = 500;
+
 /**
  * Main Vedic Lunar Clock component
  *
  * Displays a beautiful astronomical clock showing:
  * - Current tithi (lunar day)
  * - Current nakshatra (lunar mansion)
+ * - Yoga, karana and vara (the remaining panchanga limbs)
  * - Paksha (waxing/waning fortnight)
  * - Moon phase and position
  * - Progress and time remaining for each element
@@ -46,39 +62,25 @@ interface VedicClockProps {
 export function VedicClock({
   latitude,
   longitude,
+  settings,
+  date = null,
+  timeline = null,
 }: VedicClockProps) {
-  const [vedicTime, setVedicTime] = useState<VedicTime | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isBreathingGuideActive, setIsBreathingGuideActive] = useState(false);
   const [isBreathingModalOpen, setIsBreathingModalOpen] = useState(false);
 
-  // Calculate Vedic time
-  const updateVedicTime = () => {
-    try {
-      const time = calculateVedicTime(latitude, longitude);
-      setVedicTime(time);
-      setIsLoading(false);
-      setError(null);
-    } catch (err) {
-      console.error('Error calculating Vedic time:', err);
-      setError('Failed to calculate Vedic time');
-      setIsLoading(false);
-    }
-  };
-
-  // Initial calculation and periodic updates
-  useEffect(() => {
-    // Calculate immediately on mount
-    updateVedicTime();
-
-    // Set up interval for periodic updates
-    // Update every 4 seconds (1 prana cycle) - good balance between accuracy and performance
-    const intervalId = setInterval(updateVedicTime, 4000);
-
-    // Cleanup on unmount
-    return () => clearInterval(intervalId);
-  }, [latitude, longitude]);
+  // Update every 4 seconds (1 prana cycle) while live - good balance between
+  // accuracy and performance - and twice a second during playback
+  const { vedicTime, isLoading, error } = useVedicTime({
+    latitude,
+    longitude,
+    updateInterval: 4000,
+    settings,
+    date,
+    timeline,
+    playbackInterval: PLAYBACK_TICK_MS,
+  });
+  const tickSeconds = timeline ? PLAYBACK_TICK_MS / 1000 : undefined;
 
   // Loading state
   if (isLoading) {
@@ -115,12 +117,17 @@ export function VedicClock({
           <OrbitalRings
             currentTithi={vedicTime.tithi}
             currentNakshatra={vedicTime.nakshatra}
+            currentYoga={vedicTime.yoga}
+            currentKarana={vedicTime.karana}
+            currentVara={vedicTime.vara}
+            grahas={vedicTime.grahas}
+            tickSeconds={tickSeconds}
           />
         </div>
 
         {/* Layer 2: Muhurta Ring (middle layer) */}
         <div className="absolute inset-0 flex items-center justify-center">
-          <MuhurtaRing muhurta={vedicTime.muhurta} />
+          <MuhurtaRing muhurta={vedicTime.muhurta} periods={vedicTime.dailyPeriods} />
         </div>
 
         {/* Layer 3: Moon Indicator (on the rings) */}
@@ -129,6 +136,10 @@ export function VedicClock({
             moonPhase={vedicTime.moonPhase}
             nakshatra={vedicTime.nakshatra}
             nakshatraProgress={vedicTime.nakshatraProgress}
+            nextGrahana={vedicTime.nextGrahana}
+            moon={vedicTime.moon}
+            now={vedicTime.calculatedFor}
+            tickSeconds={tickSeconds}
           />
         </div>
 
@@ -0,0 +1,497 @@
+/**
+ * HymnBrowser Component
+ *
+ * Browse the whole Rigveda: a mandala → sukta tree beside the hymn explorer,
+ * narrowed by devata, rishi, chhandas, difficulty and text. A text search
+ * also lists its best matches with the verses that matched, and the opened
+ * hymn highlights them. The place shown is a deep link (see hymnLinks), so
+ * every hymn has its own URL.
+ *
+ * The tree and facets come from the corpus index; a mandala's text is only
+ * fetched when one of its hymns is opened or a text search needs it.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { HymnSearchCriteria, RigvedaHymn, SimpleHymn } from '../../types/rigveda';
+import type { HymnLink } from '../../lib/hymnLinks';
+import { getHymnLink } from '../../lib/hymnLinks';
+import { RIGVEDA_SUKTA_COUNTS, isMandalaInCorpus } from '../../lib/rigvedaCorpus';
+import { getHymnSearchIndex, searchHymnIndex } from '../../lib/hymnSearch';
+import {
+  extractDeities,
+  extractMeters,
+  extractRishis,
+  filterSuktaSummaries,
+  getHymnReference,
+} from '../../lib/hymnAdapter';
+import { useRigvedaIndex, useRigvedaMandalas } from '../../hooks/useRigveda';
+import { COLORS, ANIMATION, SHADOWS } from '../../styles/colors';
+import { HymnExplorer } from './HymnExplorer';
+
+type Difficulty = RigvedaHymn['difficulty'];
+
+const DIFFICULTIES: readonly Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * Best matches listed for a text search, and verse numbers shown for each
+ */
+const MAX_LISTED_MATCHES = 20;
+const MAX_LISTED_VERSES = 8;
+
+/**
+ * Single-choice facets offered as dropdowns
+ */
+type ListFacet = 'deity' | 'rishi' | 'chhandas';
+
+interface HymnBrowserProps {
+  /** Place shown, or null while the browser is closed */
+  link: HymnLink | null;
+  /** Navigate to another place, or close with null */
+  onLinkChange: (link: HymnLink | null) => void;
+}
+
+/**
+ * Hymn browser modal
+ */
+export function HymnBrowser({ link, onLinkChange }: HymnBrowserProps) {
+  return (
+    <AnimatePresence>
+      {link && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: ANIMATION.duration.normal / 1000 }}
+            onClick={() => onLinkChange(null)}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            aria-hidden="true"
+          />
+
+          {/* Modal */}
+          <div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="hymn-browser-title"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{
+                duration: ANIMATION.duration.panel / 1000,
+                ease: "easeOut",
+              }}
+              className="relative w-full max-w-6xl h-[90vh] flex flex-col rounded-xl overflow-hidden"
+              style={{
+                backgroundColor: COLORS.background.panel,
+                border: `1px solid ${COLORS.border.normal}`,
+                boxShadow: SHADOWS.xl,
+              }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <BrowserContent link={link} onLinkChange={onLinkChange} />
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
+
+/**
+ * Browser body, mounted only while open so the corpus index loads on first use
+ */
+function BrowserContent({ link, onLinkChange }: { link: HymnLink; onLinkChange: (link: HymnLink | null) => void }) {
+  const { data: suktas = [], loading: indexLoading, error: indexError } = useRigvedaIndex();
+  const [criteria, setCriteria] = useState<HymnSearchCriteria>(() =>
+    link.query ? { fullTextSearch: link.query } : {}
+  );
+  const [expandedMandalas, setExpandedMandalas] = useState<Set<number>>(
+    () => new Set(link.mandala ? [link.mandala] : [])
+  );
+
+  // Open the mandala of a hymn linked to later, so the selected sukta shows
+  useEffect(() => {
+    const mandala = link.mandala;
+    if (mandala === undefined) return;
+    setExpandedMandalas((prev) => (prev.has(mandala) ? prev : new Set(prev).add(mandala)));
+  }, [link.mandala]);
+
+  const facetOptions = useMemo(
+    () => ({ deity: extractDeities(suktas), rishi: extractRishis(suktas), chhandas: extractMeters(suktas) }),
+    [suktas]
+  );
+  const searchTerm = criteria.fullTextSearch?.trim() ?? '';
+
+  // Facets filter the ranked search results rather than searching again
+  const facetSuktas = useMemo(
+    () => filterSuktaSummaries(suktas, { ...criteria, fullTextSearch: undefined }),
+    [suktas, criteria]
+  );
+
+  // A text search fetches the text of the mandalas the facets leave
+  const searchMandalas = useMemo(
+    () => (searchTerm ? Array.from(new Set(facetSuktas.map((s) => s.mandala))) : []),
+    [searchTerm, facetSuktas]
+  );
+  const { data: searchHymns = [], loading: searchLoading, error: searchError } = useRigvedaMandalas(searchMandalas);
+  const searchResults = useMemo(() => {
+    if (!searchTerm) return [];
+    const allowed = new Set(facetSuktas.map((s) => s.id));
+    return searchHymnIndex(getHymnSearchIndex(searchHymns), searchTerm).filter((result) =>
+      allowed.has(result.hymn.id)
+    );
+  }, [searchHymns, facetSuktas, searchTerm]);
+  const filteredSuktas = useMemo(() => {
+    if (!searchTerm) return facetSuktas;
+    const byId = new Map(suktas.map((s) => [s.id, s]));
+    return searchResults.flatMap((result) => byId.get(result.hymn.id) ?? []);
+  }, [suktas, facetSuktas, searchResults, searchTerm]);
+
+  const loading = indexLoading || (!!searchTerm && searchLoading);
+  const error = indexError ?? (searchTerm ? searchError : null);
+  const isFiltering = Object.values(criteria).some((value) => (Array.isArray(value) ? value.length > 0 : !!value));
+  const corpusBuilt = RIGVEDA_SUKTA_COUNTS.some((_, index) => isMandalaInCorpus(index + 1));
+
+  const selectedSukta =
+    link.mandala !== undefined && link.sukta !== undefined
+      ? suktas.find((s) => s.mandala === link.mandala && s.sukta === link.sukta)
+      : undefined;
+
+  // The explorer loads the hymn itself; this only seeds its title until then
+  const selectedSimpleHymn: SimpleHymn | null =
+    link.mandala !== undefined && link.sukta !== undefined
+      ? {
+          id: link.mandala * 100 + link.sukta,
+          mandala: link.mandala,
+          sukta: link.sukta,
+          title: selectedSukta ? `${selectedSukta.devata} - ${selectedSukta.rishi}` : `RV ${link.mandala}.${link.sukta}`,
+          content: '',
+          translation: '',
+          theme: '',
+          rishi: selectedSukta?.rishi,
+          devata: selectedSukta?.devata,
+        }
+      : null;
+
+  const setListFacet = (facet: ListFacet, value: string) => {
+    setCriteria((prev) => ({ ...prev, [facet]: value ? [value] : undefined }));
+  };
+
+  const toggleDifficulty = (difficulty: Difficulty) => {
+    setCriteria((prev) => {
+      const current = prev.difficulty ?? [];
+      const next = current.includes(difficulty)
+        ? current.filter((d) => d !== difficulty)
+        : [...current, difficulty];
+      return { ...prev, difficulty: next };
+    });
+  };
+
+  const toggleMandala = (mandala: number) => {
+    setExpandedMandalas((prev) => {
+      const next = new Set(prev);
+      if (next.has(mandala)) {
+        next.delete(mandala);
+      } else {
+        next.add(mandala);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <>
+      {/* Header */}
+      <div
+        className="px-6 py-4 border-b flex items-center justify-between flex-shrink-0"
+        style={{
+          borderColor: COLORS.border.normal,
+          background: `linear-gradient(to bottom, ${COLORS.accent.gold}10, transparent)`,
+        }}
+      >
+        <div className="flex items-center gap-3">
+          <span className="text-2xl" aria-hidden="true">📜</span>
+          <h2 id="hymn-browser-title" className="text-xl font-bold" style={{ color: COLORS.accent.goldLight }}>
+            Browse the Rigveda
+          </h2>
+          {selectedSimpleHymn && (
+            <a
+              href={getHymnLink({ mandala: selectedSimpleHymn.mandala, sukta: selectedSimpleHymn.sukta })}
+              className="text-xs hover:underline"
+              style={{ color: COLORS.accent.cyan }}
+              title="Link to this hymn"
+            >
+              🔗 {getHymnReference(selectedSimpleHymn)}
+            </a>
+          )}
+        </div>
+        <button
+          onClick={() => onLinkChange(null)}
+          className="w-8 h-8 rounded-full flex items-center justify-center hover:bg-white/10 transition-colors"
+          style={{ color: COLORS.accent.gold }}
+          aria-label="Close hymn browser"
+        >
+          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Filters and mandala → sukta tree */}
+        <aside
+          className="w-80 flex-shrink-0 border-r overflow-y-auto p-4 space-y-4"
+          style={{ borderColor: COLORS.border.subtle }}
+        >
+          <div className="space-y-3">
+            <input
+              type="search"
+              value={criteria.fullTextSearch ?? ''}
+              onChange={(e) => setCriteria((prev) => ({ ...prev, fullTextSearch: e.target.value }))}
+              placeholder="Search text, devata, rishi…"
+              aria-label="Search hymns"
+              className="w-full px-3 py-2 rounded text-sm"
+              style={{
+                backgroundColor: COLORS.background.elevated,
+                color: COLORS.text.primary,
+                border: `1px solid ${COLORS.border.subtle}`,
+              }}
+            />
+
+            <FacetSelect
+              label="Devata"
+              value={criteria.deity?.[0] ?? ''}
+              options={facetOptions.deity}
+              onChange={(value) => setListFacet('deity', value)}
+            />
+            <FacetSelect
+              label="Rishi"
+              value={criteria.rishi?.[0] ?? ''}
+              options={facetOptions.rishi}
+              onChange={(value) => setListFacet('rishi', value)}
+            />
+            <FacetSelect
+              label="Chhandas"
+              value={criteria.chhandas?.[0] ?? ''}
+              options={facetOptions.chhandas}
+              onChange={(value) => setListFacet('chhandas', value)}
+            />
+
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Difficulty">
+              {DIFFICULTIES.map((difficulty) => {
+                const active = criteria.difficulty?.includes(difficulty) ?? false;
+                return (
+                  <button
+                    key={difficulty}
+                    onClick={() => toggleDifficulty(difficulty)}
+                    aria-pressed={active}
+                    className="px-3 py-1 rounded text-xs font-medium capitalize transition-colors"
+                    style={{
+                      backgroundColor: active ? COLORS.accent.gold : COLORS.background.elevated,
+                      color: active ? COLORS.background.primary : COLORS.text.secondary,
+                      border: `1px solid ${COLORS.border.subtle}`,
+                    }}
+                  >
+                    {difficulty}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-between text-xs" style={{ color: COLORS.text.tertiary }}>
+              <span>
+                {indexLoading
+                  ? 'Loading hymns…'
+                  : loading
+                    ? 'Searching…'
+                    : `${filteredSuktas.length} of ${suktas.length} hymns`}
+              </span>
+              {isFiltering && (
+                <button
+                  onClick={() => setCriteria({})}
+                  className="hover:underline"
+                  style={{ color: COLORS.accent.cyan }}
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-xs" style={{ color: COLORS.status.error }}>
+                {error}
+              </p>
+            )}
+            {searchResults.length > 0 && (
+              <div className="space-y-1">
+                <h3 className="text-xs font-medium" style={{ color: COLORS.text.tertiary }}>
+                  Best matches
+                </h3>
+                <ol className="space-y-0.5">
+                  {searchResults.slice(0, MAX_LISTED_MATCHES).map(({ hymn, verseHits }) => (
+                    <li key={hymn.id}>
+                      <button
+                        onClick={() =>
+                          onLinkChange({ mandala: hymn.mandala, sukta: hymn.sukta, tab: 'verses', query: searchTerm })
+                        }
+                        className="w-full text-left px-2 py-1 rounded text-xs hover:bg-white/5 transition-colors"
+                        style={{ color: COLORS.text.secondary }}
+                      >
+                        <span className="font-medium" style={{ color: COLORS.accent.goldLight }}>
+                          {getHymnReference(hymn)}
+                        </span>{' '}
+                        {hymn.devata}
+                        {verseHits.length > 0 && (
+                          <span className="block" style={{ color: COLORS.text.tertiary }}>
+                            {verseHits.length === 1 ? 'Verse' : 'Verses'}{' '}
+                            {verseHits
+                              .slice(0, MAX_LISTED_VERSES)
+                              .map((hit) => hit.verse)
+                              .join(', ')}
+                            {verseHits.length > MAX_LISTED_VERSES && ` +${verseHits.length - MAX_LISTED_VERSES}`}
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            {!loading && !corpusBuilt && (
+              <p className="text-xs leading-relaxed" style={{ color: COLORS.text.tertiary }}>
+                The full corpus has not been built (npm run corpus:fetch); only curated hymns are listed.
+              </p>
+            )}
+          </div>
+
+          <nav aria-label="Mandalas" className="space-y-1">
+            {RIGVEDA_SUKTA_COUNTS.map((suktaCount, index) => {
+              const mandala = index + 1;
+              const mandalaHymns = filteredSuktas.filter((s) => s.mandala === mandala);
+              const isExpanded = isFiltering ? mandalaHymns.length > 0 : expandedMandalas.has(mandala);
+
+              return (
+                <div key={mandala}>
+                  {/* While filtering, every mandala with matches is open */}
+                  <button
+                    onClick={() => toggleMandala(mandala)}
+                    disabled={isFiltering}
+                    aria-expanded={isExpanded}
+                    className="w-full flex items-center justify-between px-2 py-1.5 rounded text-sm enabled:hover:bg-white/5 transition-colors disabled:cursor-default"
+                    style={{ color: COLORS.text.primary }}
+                  >
+                    <span>
+                      <span style={{ color: COLORS.accent.gold }}>{isExpanded ? '▼' : '▶'}</span> Mandala {mandala}
+                    </span>
+                    <span className="text-xs" style={{ color: COLORS.text.tertiary }}>
+                      {isFiltering ? `${mandalaHymns.length} / ` : ''}
+                      {suktaCount}
+                    </span>
+                  </button>
+
+                  {isExpanded && (
+                    <ul className="ml-4 mt-1 space-y-0.5">
+                      {mandalaHymns.length === 0 && !loading && (
+                        <li className="px-2 py-1 text-xs" style={{ color: COLORS.text.tertiary }}>
+                          No hymns available
+                        </li>
+                      )}
+                      {mandalaHymns.map((hymn) => {
+                        const selected = hymn.mandala === link.mandala && hymn.sukta === link.sukta;
+                        return (
+                          <li key={hymn.id}>
+                            <button
+                              onClick={() =>
+                                onLinkChange({
+                                  mandala: hymn.mandala,
+                                  sukta: hymn.sukta,
+                                  query: searchTerm || undefined,
+                                })
+                              }
+                              aria-current={selected ? 'page' : undefined}
+                              className="w-full text-left px-2 py-1 rounded text-xs hover:bg-white/5 transition-colors"
+                              style={{
+                                backgroundColor: selected ? `${COLORS.accent.gold}20` : 'transparent',
+                                color: selected ? COLORS.accent.goldLight : COLORS.text.secondary,
+                              }}
+                            >
+                              <span className="font-medium">{hymn.sukta}.</span> {hymn.devata}
+                              <span style={{ color: COLORS.text.tertiary }}> · {hymn.rishi}</span>
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </nav>
+        </aside>
+
+        {/* Selected hymn */}
+        <main className="flex-1 min-w-0 flex flex-col">
+          {selectedSimpleHymn ? (
+            <HymnExplorer
+              key={`${selectedSimpleHymn.mandala}.${selectedSimpleHymn.sukta}`}
+              simpleHymn={selectedSimpleHymn}
+              initialTab={link.tab}
+              highlight={link.query}
+            />
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-8 text-center">
+              <p className="text-sm" style={{ color: COLORS.text.tertiary }}>
+                Choose a sukta from a mandala to read it here
+              </p>
+            </div>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Dropdown choosing one value of a facet
+ */
+function FacetSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium" style={{ color: COLORS.text.tertiary }}>
+        {label}
+      </span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-2 py-1.5 rounded text-sm"
+        style={{
+          backgroundColor: COLORS.background.elevated,
+          color: COLORS.text.primary,
+          border: `1px solid ${COLORS.border.subtle}`,
+        }}
+      >
+        <option value="">All</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
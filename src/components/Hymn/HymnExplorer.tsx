@@ -8,7 +8,7 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { SimpleHymn } from '../../types/rigveda';
-import { getExpandedHymn } from '../../data/expandedHymns';
+import { useRigvedaHymn } from '../../hooks/useRigveda';
 import { COLORS } from '../../styles/colors';
 
 import { OverviewTab } from './tabs/OverviewTab';
@@ -54,17 +54,22 @@ interface HymnExplorerProps {
   nakshatraName?: string;
   /** Callback when hymn is marked as read */
   onHymnRead?: (storyId: number) => void;
+  /** Tab to open first (e.g. from a deep link) */
+  initialTab?: string;
+  /** Search whose matches to highlight in the verses */
+  highlight?: string;
 }
 
 /**
  * Deep exploration interface for Rigvedic hymns
  */
-export function HymnExplorer({ simpleHymn, nakshatraName, onHymnRead }: HymnExplorerProps) {
-  const [activeTab, setActiveTab] = useState<TabType>('overview');
+export function HymnExplorer({ simpleHymn, nakshatraName, onHymnRead, initialTab, highlight }: HymnExplorerProps) {
+  const [activeTab, setActiveTab] = useState<TabType>(
+    () => TABS.find((tab) => tab.id === initialTab)?.id ?? 'overview'
+  );
 
-  // Try to get expanded hymn data
-  const expandedHymnId = `rv-${simpleHymn.mandala}-${simpleHymn.sukta}`;
-  const expandedHymn = getExpandedHymn(expandedHymnId);
+  // Curated hymn if there is one, otherwise the corpus text (fetched per mandala)
+  const { data: expandedHymn, loading } = useRigvedaHymn(simpleHymn.mandala, simpleHymn.sukta);
 
   // Determine if we have expanded data
   const hasExpandedData = !!expandedHymn;
@@ -84,7 +89,7 @@ export function HymnExplorer({ simpleHymn, nakshatraName, onHymnRead }: HymnExpl
       case 'overview':
         return <OverviewTab expandedHymn={expandedHymn} simpleHymn={simpleHymn} nakshatraName={nakshatraName} onHymnRead={onHymnRead} />;
       case 'verses':
-        return <VersesTab hymn={expandedHymn} />;
+        return <VersesTab hymn={expandedHymn} highlight={highlight} />;
       case 'commentary':
         return <CommentaryTab hymn={expandedHymn} />;
       case 'context':
@@ -152,7 +157,7 @@ export function HymnExplorer({ simpleHymn, nakshatraName, onHymnRead }: HymnExpl
             color: COLORS.text.tertiary,
           }}
         >
-          📚 Expanded scholarly content coming soon for this hymn
+          {loading ? '📜 Loading the full text of this hymn…' : '📚 The full text of this hymn is not available'}
         </div>
       )}
     </div>
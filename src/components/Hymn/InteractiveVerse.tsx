@@ -6,11 +6,19 @@
  * - Popup with transliteration, root, grammar, meaning, etymology
  * - Learning mode with hidden translations and flashcards
  * - Progress tracking for learned words
+ * - Sanskrit in the user's preferred script
+ * - Vedic accents as marks or a pitch contour, where the verse has them
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { COLORS } from '../../styles/colors';
+import type { TransliterationScheme } from '../../lib/transliteration';
+import { toPreferredRomanization, toPreferredSanskrit } from '../../lib/transliteration';
+import type { SvaraDisplay } from '../../lib/svara';
+import { getSvaraSyllables, groupSvaraWords, stripSvaras } from '../../lib/svara';
+import { usePreferredScript } from '../../hooks/usePreferredScript';
+import { SvaraWordContour } from './SvaraText';
 import sanskritDictionary from '../../data/sanskritDictionary.json';
 
 // Types
@@ -32,6 +40,10 @@ export interface SanskritWord {
 interface InteractiveVerseProps {
   /** Sanskrit text of the verse */
   sanskrit: string;
+  /** Sanskrit text with Vedic accent marks (optional) */
+  accentedSanskrit?: string;
+  /** How to show the accents (default: off) */
+  svaraDisplay?: SvaraDisplay;
   /** Verse number */
   verseNumber: number;
   /** Transliteration (optional) */
@@ -49,6 +61,8 @@ type LearningMode = 'normal' | 'test' | 'flashcard';
  */
 export function InteractiveVerse({
   sanskrit,
+  accentedSanskrit,
+  svaraDisplay = 'off',
   verseNumber,
   transliteration,
   translation,
@@ -60,6 +74,7 @@ export function InteractiveVerse({
   const [showTranslation, setShowTranslation] = useState(true);
   const [currentFlashcardIndex, setCurrentFlashcardIndex] = useState(0);
   const [showFlashcardAnswer, setShowFlashcardAnswer] = useState(false);
+  const [script] = usePreferredScript();
 
   // Load learned words from localStorage
   useEffect(() => {
@@ -84,12 +99,20 @@ export function InteractiveVerse({
     localStorage.setItem('sanskrit-learned-words', JSON.stringify([...updated]));
   };
 
-  // Parse Sanskrit text into individual words
-  const words = sanskrit.split(/\s+/).filter((w) => w.length > 0);
+  // Parse Sanskrit text into individual words, with their accents if shown
+  const showSvaras = svaraDisplay !== 'off' && !!accentedSanskrit;
+  const words = (showSvaras ? accentedSanskrit : sanskrit).split(/\s+/).filter((w) => w.length > 0);
+
+  // Syllables of each word for the contour, when they line up with the words
+  const wordSyllables = useMemo(() => {
+    if (!accentedSanskrit || svaraDisplay !== 'contour') return null;
+    const grouped = groupSvaraWords(getSvaraSyllables(accentedSanskrit));
+    return grouped.length === words.length ? grouped : null;
+  }, [accentedSanskrit, svaraDisplay, words.length]);
 
   // Get word data from dictionary
   const getWordData = (word: string): SanskritWord | null => {
-    const normalizedWord = word.replace(/[।॥]/g, '').trim();
+    const normalizedWord = stripSvaras(word).replace(/[।॥]/g, '').trim();
     const found = sanskritDictionary.words.find((w) => w.sanskrit === normalizedWord);
     return found || null;
   };
@@ -166,6 +189,7 @@ export function InteractiveVerse({
       {learningMode === 'flashcard' && currentFlashcard ? (
         <FlashcardView
           word={currentFlashcard}
+          script={script}
           showAnswer={showFlashcardAnswer}
           onToggleAnswer={() => setShowFlashcardAnswer(!showFlashcardAnswer)}
           onNext={() => {
@@ -250,7 +274,11 @@ export function InteractiveVerse({
                           : {}
                       }
                     >
-                      {word}
+                      {wordSyllables ? (
+                        <SvaraWordContour syllables={wordSyllables[index]} script={script} />
+                      ) : (
+                        toPreferredSanskrit(word, script)
+                      )}
                     </motion.span>
                     {index < words.length - 1 && ' '}
                   </span>
@@ -261,7 +289,7 @@ export function InteractiveVerse({
             {/* Transliteration */}
             {transliteration && (showAllMeanings || learningMode === 'normal') && (
               <p className="text-sm italic mb-3" style={{ color: COLORS.text.secondary }}>
-                {transliteration}
+                {toPreferredRomanization(transliteration, script)}
               </p>
             )}
 
@@ -290,6 +318,7 @@ export function InteractiveVerse({
             {selectedWord && getWordData(selectedWord) && (
               <WordDetailPopup
                 word={getWordData(selectedWord)!}
+                script={script}
                 isLearned={learnedWords.has(getWordData(selectedWord)!.sanskrit)}
                 onClose={() => setSelectedWord(null)}
                 onToggleLearned={() => {
@@ -327,11 +356,13 @@ export function InteractiveVerse({
  */
 function WordDetailPopup({
   word,
+  script,
   isLearned,
   onClose,
   onToggleLearned,
 }: {
   word: SanskritWord;
+  script: TransliterationScheme;
   isLearned: boolean;
   onClose: () => void;
   onToggleLearned: () => void;
@@ -352,10 +383,10 @@ function WordDetailPopup({
         <div className="flex-1">
           <div className="flex items-baseline gap-3 mb-2">
             <h3 className="text-2xl font-serif" style={{ color: COLORS.accent.gold }}>
-              {word.sanskrit}
+              {toPreferredSanskrit(word.sanskrit, script)}
             </h3>
             <span className="text-base italic" style={{ color: COLORS.text.secondary }}>
-              {word.transliteration}
+              {toPreferredRomanization(word.transliteration, script)}
             </span>
           </div>
           <p className="text-base font-medium" style={{ color: COLORS.text.primary }}>
@@ -498,6 +529,7 @@ function WordDetailPopup({
  */
 function FlashcardView({
   word,
+  script,
   showAnswer,
   onToggleAnswer,
   onNext,
@@ -508,6 +540,7 @@ function FlashcardView({
   onToggleLearned,
 }: {
   word: SanskritWord;
+  script: TransliterationScheme;
   showAnswer: boolean;
   onToggleAnswer: () => void;
   onNext: () => void;
@@ -573,10 +606,10 @@ function FlashcardView({
             // Front of card - Sanskrit word
             <>
               <div className="text-5xl font-serif mb-4" style={{ color: COLORS.accent.gold }}>
-                {word.sanskrit}
+                {toPreferredSanskrit(word.sanskrit, script)}
               </div>
               <div className="text-base italic mb-6" style={{ color: COLORS.text.secondary }}>
-                {word.transliteration}
+                {toPreferredRomanization(word.transliteration, script)}
               </div>
               <div className="text-sm" style={{ color: COLORS.text.tertiary }}>
                 Click to reveal meaning →
@@ -0,0 +1,140 @@
+/**
+ * Svara Text
+ *
+ * Draws the Vedic accents of a verse as a pitch contour: a line above each
+ * syllable at its pitch, stepping between syllables the way the voice moves
+ * in recitation, with a legend of the accents.
+ */
+
+import { useMemo } from 'react';
+import { COLORS } from '../../styles/colors';
+import type { Svara, SvaraSyllable } from '../../lib/svara';
+import { SVARA_NAMES, SVARA_PITCH, getSvaraSyllables, groupSvaraWords, stripSvaras } from '../../lib/svara';
+import type { TransliterationScheme } from '../../lib/transliteration';
+import { toPreferredSanskrit } from '../../lib/transliteration';
+
+/** Height of one pitch step of the contour, in pixels */
+const PITCH_STEP = 8;
+/** Height of the contour above the text, in pixels */
+const CONTOUR_HEIGHT = PITCH_STEP * 2 + 4;
+
+const SVARA_COLORS: Record<Svara, string> = {
+  anudatta: COLORS.accent.cyan,
+  udatta: COLORS.accent.gold,
+  pracaya: COLORS.accent.goldDim,
+  svarita: COLORS.accent.purpleLight,
+};
+
+/**
+ * Distance of a pitch's line from the top of the contour
+ */
+function pitchOffset(pitch: number): number {
+  return 2 + (2 - pitch) * PITCH_STEP;
+}
+
+/**
+ * A whole verse with its pitch contour
+ */
+export function SvaraContour({ accented, script }: { accented: string; script: TransliterationScheme }) {
+  const words = useMemo(() => groupSvaraWords(getSvaraSyllables(accented)), [accented]);
+
+  return (
+    <span className="inline-flex flex-wrap items-end gap-x-2 gap-y-1">
+      {words.map((syllables, index) => (
+        <SvaraWordContour key={index} syllables={syllables} script={script} />
+      ))}
+    </span>
+  );
+}
+
+/**
+ * One word with its pitch contour
+ */
+export function SvaraWordContour({
+  syllables,
+  script,
+  color,
+}: {
+  syllables: SvaraSyllable[];
+  script: TransliterationScheme;
+  /** Color of the text (defaults to inherited) */
+  color?: string;
+}) {
+  // Pitch of the syllable before each one, to draw the step between them
+  const previousPitches = syllables.map((_, index) => {
+    const previous = syllables[index - 1]?.svara;
+    return previous ? SVARA_PITCH[previous] : null;
+  });
+
+  return (
+    <span className="inline-flex items-end">
+      {syllables.map((syllable, index) => {
+        const text = toPreferredSanskrit(stripSvaras(syllable.text), script);
+        if (!syllable.svara) {
+          return (
+            <span key={index} style={{ color }}>
+              {text}
+            </span>
+          );
+        }
+
+        const pitch = SVARA_PITCH[syllable.svara];
+        const stepFrom = previousPitches[index];
+        const top = pitchOffset(pitch);
+
+        return (
+          <span
+            key={index}
+            className="inline-flex flex-col items-stretch"
+            title={SVARA_NAMES[syllable.svara]}
+          >
+            <span className="relative block" style={{ height: CONTOUR_HEIGHT }} aria-hidden="true">
+              <span
+                className="absolute left-0 right-0 rounded-full"
+                style={{ top, height: 2, backgroundColor: SVARA_COLORS[syllable.svara] }}
+              />
+              {stepFrom !== null && stepFrom !== pitch && (
+                <span
+                  className="absolute left-0"
+                  style={{
+                    top: Math.min(top, pitchOffset(stepFrom)),
+                    height: Math.abs(top - pitchOffset(stepFrom)) + 2,
+                    width: 2,
+                    backgroundColor: SVARA_COLORS[syllable.svara],
+                  }}
+                />
+              )}
+            </span>
+            <span style={{ color }}>{text}</span>
+          </span>
+        );
+      })}
+    </span>
+  );
+}
+
+/**
+ * Key to the contour's colors and heights
+ */
+export function SvaraLegend() {
+  const svaras: Svara[] = ['svarita', 'udatta', 'pracaya', 'anudatta'];
+
+  return (
+    <div className="flex flex-wrap gap-4 text-xs" style={{ color: COLORS.text.tertiary }}>
+      {svaras.map((svara) => (
+        <span key={svara} className="inline-flex items-center gap-2">
+          <span
+            className="inline-block rounded-full"
+            style={{
+              width: 16,
+              height: 2,
+              backgroundColor: SVARA_COLORS[svara],
+              transform: `translateY(${(1 - SVARA_PITCH[svara]) * 3}px)`,
+            }}
+          />
+          {SVARA_NAMES[svara]}
+        </span>
+      ))}
+    </div>
+  );
+}
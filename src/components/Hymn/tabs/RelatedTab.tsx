@@ -6,15 +6,23 @@ import type { RigvedaHymn } from '../../../types/rigveda';
 import { COLORS } from '../../../styles/colors';
 import { getHymnsByDeity, getHymnsByTheme } from '../../../lib/hymnAdapter';
 import { EXPANDED_HYMNS } from '../../../data/expandedHymns';
+import { useRigvedaMandala } from '../../../hooks/useRigveda';
 
 interface RelatedTabProps {
   hymn: RigvedaHymn;
 }
 
 export function RelatedTab({ hymn }: RelatedTabProps) {
-  const sameDeityHymns = getHymnsByDeity(EXPANDED_HYMNS, hymn.devata).filter((h) => h.id !== hymn.id);
+  // Curated hymns plus the rest of this hymn's mandala from the corpus
+  const { data: mandalaHymns = [] } = useRigvedaMandala(hymn.mandala);
+  const knownHymns = [
+    ...EXPANDED_HYMNS,
+    ...mandalaHymns.filter((h) => !EXPANDED_HYMNS.some((curated) => curated.id === h.id)),
+  ];
+
+  const sameDeityHymns = getHymnsByDeity(knownHymns, hymn.devata).filter((h) => h.id !== hymn.id);
   const sameThemeHymns = hymn.philosophicalThemes.length > 0
-    ? getHymnsByTheme(EXPANDED_HYMNS, hymn.philosophicalThemes[0]).filter((h) => h.id !== hymn.id)
+    ? getHymnsByTheme(knownHymns, hymn.philosophicalThemes[0]).filter((h) => h.id !== hymn.id)
     : [];
 
   return (
@@ -39,7 +47,7 @@ export function RelatedTab({ hymn }: RelatedTabProps) {
           </p>
           <div className="space-y-2">
             {hymn.relatedHymns.map((hymnId, index) => {
-              const related = EXPANDED_HYMNS.find((h) => h.id === hymnId);
+              const related = knownHymns.find((h) => h.id === hymnId);
               if (!related) {
                 return (
                   <div
@@ -2,29 +2,69 @@
  * Verses Tab
  *
  * Displays all verses with Sanskrit text, transliteration,
- * word-by-word analysis, and multiple translations.
+ * word-by-word analysis, and multiple translations. Words matching a
+ * search are highlighted, and the first verse that matched opens. Sanskrit
+ * is shown in the user's preferred script, and verses with Vedic accents
+ * can show them as marks or as a pitch contour.
  */
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { RigvedaHymn, Verse, WordMeaning } from '../../../types/rigveda';
 import { COLORS } from '../../../styles/colors';
+import { getHighlightSegments } from '../../../lib/hymnSearch';
+import type { SvaraDisplay } from '../../../lib/svara';
+import type { TransliterationScheme } from '../../../lib/transliteration';
+import {
+  TRANSLITERATION_SCHEMES,
+  toPreferredRomanization,
+  toPreferredSanskrit,
+} from '../../../lib/transliteration';
+import { usePreferredScript } from '../../../hooks/usePreferredScript';
 import { InteractiveVerse } from '../InteractiveVerse';
+import { SvaraContour, SvaraLegend } from '../SvaraText';
 
 interface VersesTabProps {
   hymn: RigvedaHymn;
+  /** Search whose matches to highlight */
+  highlight?: string;
 }
 
 type ViewMode = 'standard' | 'interactive';
 
+const SVARA_DISPLAY_OPTIONS: { id: SvaraDisplay; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'marks', label: 'Marks' },
+  { id: 'contour', label: 'Contour' },
+];
+
 /**
  * Verses tab with expandable verse details
  */
-export function VersesTab({ hymn }: VersesTabProps) {
-  const [expandedVerse, setExpandedVerse] = useState<number | null>(1); // Start with first verse expanded
+export function VersesTab({ hymn, highlight = '' }: VersesTabProps) {
+  const matchedVerses = useMemo(
+    () =>
+      new Set(
+        hymn.verses
+          .filter((verse) =>
+            [verse.sanskrit, verse.transliteration, ...verse.translation.map((t) => t.text)].some((text) =>
+              getHighlightSegments(text, highlight).some((segment) => segment.match)
+            )
+          )
+          .map((verse) => verse.number)
+      ),
+    [hymn, highlight]
+  );
+  // Start with the first matching verse expanded, or the first verse
+  const [expandedVerse, setExpandedVerse] = useState<number | null>(
+    () => hymn.verses.find((verse) => matchedVerses.has(verse.number))?.number ?? 1
+  );
   const [showWordByWord, setShowWordByWord] = useState<{ [key: number]: boolean }>({});
   const [selectedTranslation, setSelectedTranslation] = useState<{ [key: number]: number }>({});
   const [viewMode, setViewMode] = useState<ViewMode>('standard');
+  const [script, setScript] = usePreferredScript();
+  const [svaraDisplay, setSvaraDisplay] = useState<SvaraDisplay>('off');
+  const hasAccents = hymn.verses.some((verse) => verse.accentedSanskrit);
 
   const toggleVerse = (verseNumber: number) => {
     setExpandedVerse(expandedVerse === verseNumber ? null : verseNumber);
@@ -48,14 +88,32 @@ export function VersesTab({ hymn }: VersesTabProps) {
             </h2>
             <p className="text-sm" style={{ color: COLORS.text.secondary }}>
               {hymn.verses.length} verse{hymn.verses.length !== 1 ? 's' : ''} •{' '}
+              {matchedVerses.size > 0 && `${matchedVerses.size} matching “${highlight.trim()}” • `}
               {viewMode === 'interactive'
                 ? 'Interactive Sanskrit learning mode'
                 : 'Click to expand for detailed analysis'}
             </p>
           </div>
 
-          {/* View Mode Toggle */}
+          {/* Script and View Mode */}
           <div className="flex gap-2">
+            <select
+              value={script}
+              onChange={(e) => setScript(e.target.value as TransliterationScheme)}
+              aria-label="Script"
+              className="px-2 py-2 rounded text-sm"
+              style={{
+                backgroundColor: COLORS.background.panel,
+                color: COLORS.text.secondary,
+                border: `1px solid ${COLORS.border.subtle}`,
+              }}
+            >
+              {TRANSLITERATION_SCHEMES.map((scheme) => (
+                <option key={scheme.id} value={scheme.id}>
+                  {scheme.name}
+                </option>
+              ))}
+            </select>
             <button
               onClick={() => setViewMode('standard')}
               className="px-3 py-2 rounded text-sm font-medium transition-colors whitespace-nowrap"
@@ -80,6 +138,32 @@ export function VersesTab({ hymn }: VersesTabProps) {
             </button>
           </div>
         </div>
+
+        {/* Accent Display */}
+        {hasAccents && (
+          <div className="flex items-center gap-3 flex-wrap">
+            <span className="text-xs font-medium" style={{ color: COLORS.text.tertiary }}>
+              Svara (accents):
+            </span>
+            <div className="flex gap-1">
+              {SVARA_DISPLAY_OPTIONS.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => setSvaraDisplay(option.id)}
+                  className="px-2 py-1 rounded text-xs font-medium transition-colors"
+                  style={{
+                    backgroundColor: svaraDisplay === option.id ? COLORS.accent.purple : COLORS.background.panel,
+                    color: svaraDisplay === option.id ? COLORS.background.primary : COLORS.text.secondary,
+                    border: `1px solid ${COLORS.border.subtle}`,
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {svaraDisplay === 'contour' && <SvaraLegend />}
+          </div>
+        )}
       </div>
 
       {/* Render verses based on view mode */}
@@ -92,6 +176,8 @@ export function VersesTab({ hymn }: VersesTabProps) {
               <InteractiveVerse
                 key={verse.number}
                 sanskrit={verse.sanskrit}
+                accentedSanskrit={verse.accentedSanskrit}
+                svaraDisplay={svaraDisplay}
                 verseNumber={verse.number}
                 transliteration={verse.transliteration}
                 translation={currentTranslation?.text}
@@ -106,6 +192,10 @@ export function VersesTab({ hymn }: VersesTabProps) {
             key={verse.number}
             verse={verse}
             isExpanded={expandedVerse === verse.number}
+            isMatch={matchedVerses.has(verse.number)}
+            highlight={highlight}
+            script={script}
+            svaraDisplay={svaraDisplay}
             showWordByWord={showWordByWord[verse.number] || false}
             selectedTranslationIndex={selectedTranslation[verse.number] || 0}
             onToggle={() => toggleVerse(verse.number)}
@@ -125,6 +215,10 @@ export function VersesTab({ hymn }: VersesTabProps) {
 function VerseCard({
   verse,
   isExpanded,
+  isMatch,
+  highlight,
+  script,
+  svaraDisplay,
   showWordByWord,
   selectedTranslationIndex,
   onToggle,
@@ -134,6 +228,10 @@ function VerseCard({
 }: {
   verse: Verse;
   isExpanded: boolean;
+  isMatch: boolean;
+  highlight: string;
+  script: TransliterationScheme;
+  svaraDisplay: SvaraDisplay;
   showWordByWord: boolean;
   selectedTranslationIndex: number;
   onToggle: () => void;
@@ -154,7 +252,7 @@ function VerseCard({
       className="border rounded-lg overflow-hidden"
       style={{
         backgroundColor: COLORS.background.elevated,
-        borderColor: isExpanded ? COLORS.accent.gold : COLORS.border.subtle,
+        borderColor: isExpanded ? COLORS.accent.gold : isMatch ? COLORS.accent.cyan : COLORS.border.subtle,
       }}
     >
       {/* Verse Header - Always Visible */}
@@ -174,6 +272,11 @@ function VerseCard({
               >
                 Verse {verse.number}
               </span>
+              {isMatch && (
+                <span className="text-xs" style={{ color: COLORS.accent.cyan }}>
+                  Match
+                </span>
+              )}
               {verseKeyTerms.length > 0 && (
                 <span className="text-xs" style={{ color: COLORS.text.tertiary }}>
                   {verseKeyTerms.length} key term{verseKeyTerms.length !== 1 ? 's' : ''}
@@ -181,10 +284,20 @@ function VerseCard({
               )}
             </div>
             <p className="text-base font-serif leading-relaxed" style={{ color: COLORS.text.primary }}>
-              {verse.sanskrit}
+              {verse.accentedSanskrit && svaraDisplay === 'contour' ? (
+                <SvaraContour accented={verse.accentedSanskrit} script={script} />
+              ) : (
+                <HighlightedText
+                  text={toPreferredSanskrit(
+                    verse.accentedSanskrit && svaraDisplay === 'marks' ? verse.accentedSanskrit : verse.sanskrit,
+                    script
+                  )}
+                  query={highlight}
+                />
+              )}
             </p>
             <p className="text-sm italic" style={{ color: COLORS.text.secondary }}>
-              {verse.transliteration}
+              <HighlightedText text={toPreferredRomanization(verse.transliteration, script)} query={highlight} />
             </p>
           </div>
           <motion.div
@@ -229,7 +342,7 @@ function VerseCard({
                         className="mt-3 space-y-2"
                       >
                         {verse.wordByWord.map((word, index) => (
-                          <WordMeaningCard key={index} word={word} />
+                          <WordMeaningCard key={index} word={word} script={script} />
                         ))}
                       </motion.div>
                     )}
@@ -270,31 +383,33 @@ function VerseCard({
               )}
 
               {/* Selected Translation */}
-              <div
-                className="p-4 rounded-lg"
-                style={{ backgroundColor: `${COLORS.accent.gold}10` }}
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className="text-sm font-medium" style={{ color: COLORS.accent.goldLight }}>
-                    {currentTranslation.translator}
-                    {currentTranslation.year && ` (${currentTranslation.year})`}
+              {currentTranslation && (
+                <div
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: `${COLORS.accent.gold}10` }}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="text-sm font-medium" style={{ color: COLORS.accent.goldLight }}>
+                      {currentTranslation.translator}
+                      {currentTranslation.year && ` (${currentTranslation.year})`}
+                    </div>
+                    {currentTranslation.interpretation && (
+                      <span
+                        className="px-2 py-1 rounded text-xs"
+                        style={{
+                          backgroundColor: `${COLORS.accent.cyan}20`,
+                          color: COLORS.accent.cyan,
+                        }}
+                      >
+                        {currentTranslation.interpretation}
+                      </span>
+                    )}
                   </div>
-                  {currentTranslation.interpretation && (
-                    <span
-                      className="px-2 py-1 rounded text-xs"
-                      style={{
-                        backgroundColor: `${COLORS.accent.cyan}20`,
-                        color: COLORS.accent.cyan,
-                      }}
-                    >
-                      {currentTranslation.interpretation}
-                    </span>
-                  )}
+                  <p className="text-sm leading-relaxed" style={{ color: COLORS.text.primary }}>
+                    <HighlightedText text={currentTranslation.text} query={highlight} />
+                  </p>
                 </div>
-                <p className="text-sm leading-relaxed" style={{ color: COLORS.text.primary }}>
-                  {currentTranslation.text}
-                </p>
-              </div>
+              )}
 
               {/* Verse Commentary */}
               {verse.commentary && (
@@ -326,7 +441,7 @@ function VerseCard({
                       >
                         <div className="flex items-baseline gap-2 mb-1">
                           <span className="text-sm font-serif" style={{ color: COLORS.text.primary }}>
-                            {term.sanskrit}
+                            {toPreferredSanskrit(term.sanskrit, script)}
                           </span>
                           <span className="text-xs italic" style={{ color: COLORS.text.tertiary }}>
                             ({term.term})
@@ -372,10 +487,33 @@ function VerseCard({
   );
 }
 
+/**
+ * Text with the words matching a search marked
+ */
+function HighlightedText({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="rounded px-0.5"
+            style={{ backgroundColor: `${COLORS.accent.cyan}30`, color: 'inherit' }}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
 /**
  * Word meaning card showing grammatical details
  */
-function WordMeaningCard({ word }: { word: WordMeaning }) {
+function WordMeaningCard({ word, script }: { word: WordMeaning; script: TransliterationScheme }) {
   return (
     <div
       className="p-3 rounded border"
@@ -387,10 +525,10 @@ function WordMeaningCard({ word }: { word: WordMeaning }) {
       <div className="grid grid-cols-3 gap-3 text-xs">
         <div>
           <div className="font-semibold mb-1 font-serif" style={{ color: COLORS.text.primary }}>
-            {word.sanskrit}
+            {toPreferredSanskrit(word.sanskrit, script)}
           </div>
           <div className="italic" style={{ color: COLORS.text.tertiary }}>
-            {word.transliteration}
+            {toPreferredRomanization(word.transliteration, script)}
           </div>
         </div>
         <div>
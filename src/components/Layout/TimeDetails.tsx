@@ -2,17 +2,22 @@
  * TimeDetails Component
  *
  * Displays comprehensive Vedic time information in an elegant sidebar.
- * Shows tithi, paksha, nakshatra, masa, and upcoming changes.
+ * Shows the panchanga (tithi, nakshatra, yoga, karana, vara), the lagna, paksha, masa,
+ * the day's choghadiya and hora tables, the next eclipse, and upcoming changes.
  * Features smooth animations when values change.
  */
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { VedicTime } from '../../lib/vedic-calendar';
+import { getGrahanaStatus } from '../../lib/vedic-calendar';
+import type { VedicTime, ChoghadiyaQuality, Grahana } from '../../lib/vedic-calendar';
 import { useScreenSize } from '../../hooks/useScreenSize';
 
 interface TimeDetailsProps {
   vedicTime: VedicTime;
+
+  /** Moment being viewed; null or omitted shows the live time */
+  viewingTime?: Date | null;
 }
 
 /**
@@ -38,6 +43,57 @@ function formatDateTime(date: Date): string {
   return `${day}/${month}/${year} ${hours}:${minutes}:${seconds}`;
 }
 
+/**
+ * Format a transition instant as HH:MM, with the date if it is not today
+ */
+function formatEndTime(date: Date, now: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  if (date.toDateString() === now.toDateString()) {
+    return `${hours}:${minutes}`;
+  }
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  return `${day}/${month} ${hours}:${minutes}`;
+}
+
+/**
+ * Format an instant as HH:MM
+ */
+function formatClockTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Color for a choghadiya quality
+ */
+function getQualityColor(quality: ChoghadiyaQuality): string {
+  switch (quality) {
+    case 'auspicious':
+      return '#22C55E';
+    case 'neutral':
+      return '#EAB308';
+    case 'inauspicious':
+      return '#EF4444';
+  }
+}
+
+/**
+ * Describe how much of an eclipse can be seen locally
+ */
+function getVisibilityLabel(visibility: Grahana['visibility']): string {
+  switch (visibility) {
+    case 'full':
+      return 'Visible throughout';
+    case 'partial':
+      return 'Partly visible';
+    case 'none':
+      return 'Not visible here';
+  }
+}
+
 /**
  * Format time remaining in human-readable format
  */
@@ -58,10 +114,10 @@ function formatTimeRemaining(minutes: number): string {
 /**
  * Detailed time information display
  */
-export function TimeDetails({ vedicTime }: TimeDetailsProps) {
+export function TimeDetails({ vedicTime, viewingTime = null }: TimeDetailsProps) {
   const screenSize = useScreenSize();
   const [isExpanded, setIsExpanded] = useState(true);
-  const [currentTime, setCurrentTime] = useState(new Date());
+  const [liveTime, setLiveTime] = useState(new Date());
 
   // Help section states
   const [tithiHelpExpanded, setTithiHelpExpanded] = useState(false);
@@ -69,15 +125,24 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
   const [muhurtaHelpExpanded, setMuhurtaHelpExpanded] = useState(false);
   const [pranaHelpExpanded, setPranaHelpExpanded] = useState(false);
 
+  // Day table shown in the Choghadiya & Hora section
+  const [dayTable, setDayTable] = useState<'choghadiya' | 'hora'>('choghadiya');
+
+  // Whether the day's lagna table is shown
+  const [lagnaTableExpanded, setLagnaTableExpanded] = useState(false);
+
   // Update current time every second
   useEffect(() => {
     const intervalId = setInterval(() => {
-      setCurrentTime(new Date());
+      setLiveTime(new Date());
     }, 1000);
 
     return () => clearInterval(intervalId);
   }, []);
 
+  // Times are shown relative to the moment being viewed
+  const currentTime = viewingTime ?? liveTime;
+
   const goldColor = '#D4AF37';
   const lightGoldColor = '#F4E5B8';
   const dimGoldColor = '#9A7D28';
@@ -146,6 +211,7 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                     </h3>
                     <p className="text-xs mt-1" style={{ color: dimGoldColor }}>
                       {formatDateTime(currentTime)}
+                      {viewingTime && ' • viewing'}
                     </p>
                   </div>
                   <button
@@ -218,7 +284,7 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                           />
                         </div>
                         <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
-                          Next in {formatTimeRemaining(vedicTime.minutesToNextTithi)}
+                          Next in {formatTimeRemaining(vedicTime.minutesToNextTithi)} • ends {formatEndTime(vedicTime.tithiEndsAt, currentTime)}
                         </div>
                       </div>
 
@@ -250,6 +316,50 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                     </div>
                   </motion.div>
 
+                  {/* Remaining panchanga limbs */}
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.2 }}
+                    className="space-y-2 pl-7"
+                  >
+                    {[
+                      { label: 'Nakshatra', name: vedicTime.nakshatraName, endsAt: vedicTime.nakshatraEndsAt },
+                      { label: 'Lagna', name: vedicTime.lagna.rashiName, endsAt: vedicTime.lagna.endsAt },
+                      { label: 'Yoga', name: vedicTime.yogaName, endsAt: vedicTime.yogaEndsAt },
+                      { label: 'Karana', name: vedicTime.karanaName, endsAt: vedicTime.karanaEndsAt },
+                      { label: 'Vara', name: vedicTime.varaName, endsAt: vedicTime.varaEndsAt },
+                      { label: 'Choghadiya', name: vedicTime.choghadiya.current.name, endsAt: vedicTime.choghadiya.current.end },
+                      { label: 'Hora', name: vedicTime.hora.current.name, endsAt: vedicTime.hora.current.end },
+                    ].map(({ label, name, endsAt }) => (
+                      <div key={label} className="flex justify-between items-baseline text-sm">
+                        <span className="text-xs uppercase tracking-wider" style={{ color: dimGoldColor }}>
+                          {label}
+                        </span>
+                        <span style={{ color: lightGoldColor }}>
+                          {name.split('(')[0].trim()}
+                          <span className="text-xs ml-2" style={{ color: dimGoldColor }}>
+                            until {formatEndTime(endsAt, currentTime)}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </motion.div>
+
+                  {/* Next eclipse */}
+                  <div className="flex justify-between items-baseline text-sm pl-7">
+                    <span className="text-xs uppercase tracking-wider" style={{ color: dimGoldColor }}>
+                      Grahana
+                    </span>
+                    <span style={{ color: getGrahanaStatus(vedicTime.nextGrahana, currentTime) ? '#EF4444' : lightGoldColor }}>
+                      {vedicTime.nextGrahana.name}
+                      <span className="text-xs ml-2" style={{ color: dimGoldColor }}>
+                        {formatEndTime(vedicTime.nextGrahana.start, currentTime)}
+                        {vedicTime.nextGrahana.visibility === 'none' && ' (not visible)'}
+                      </span>
+                    </span>
+                  </div>
+
                   {/* Add more sections as needed - keeping it shorter for mobile */}
                 </div>
               </motion.div>
@@ -324,6 +434,7 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                 </h3>
                 <p className="text-xs mt-1" style={{ color: dimGoldColor }}>
                   {formatDateTime(currentTime)}
+                  {viewingTime && ' • viewing'}
                 </p>
               </div>
 
@@ -394,7 +505,7 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                         />
                       </div>
                       <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
-                        Next in {formatTimeRemaining(vedicTime.minutesToNextTithi)}
+                        Next in {formatTimeRemaining(vedicTime.minutesToNextTithi)} • ends {formatEndTime(vedicTime.tithiEndsAt, currentTime)}
                       </div>
                     </div>
 
@@ -496,7 +607,7 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                         />
                       </div>
                       <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
-                        Next in {formatTimeRemaining(vedicTime.minutesToNextNakshatra)}
+                        Next in {formatTimeRemaining(vedicTime.minutesToNextNakshatra)} • ends {formatEndTime(vedicTime.nakshatraEndsAt, currentTime)}
                       </div>
                     </div>
 
@@ -533,6 +644,246 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                 {/* Divider */}
                 <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
 
+                {/* Lagna Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.22 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17h18M7 17a5 5 0 0110 0M12 4v3m-6.4.6l2.1 2.1m10.7-2.1l-2.1 2.1" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Lagna (Rising Rashi)
+                    </span>
+                    <button
+                      onClick={() => setLagnaTableExpanded(!lagnaTableExpanded)}
+                      className="ml-auto text-xs hover:underline"
+                      style={{ color: dimGoldColor }}
+                    >
+                      {lagnaTableExpanded ? 'Hide day' : 'Show day'}
+                    </button>
+                  </div>
+
+                  <div className="pl-7 space-y-2">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={vedicTime.lagna.rashi}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.lagna.rashiName.split('(')[0].trim()}
+                        </div>
+                        <div className="text-sm" style={{ color: dimGoldColor }}>
+                          {Math.floor(vedicTime.lagna.degree)}°{String(Math.floor((vedicTime.lagna.degree % 1) * 60)).padStart(2, '0')}' • {vedicTime.lagna.rashi} of 12
+                        </div>
+                      </motion.div>
+                    </AnimatePresence>
+
+                    {/* Progress Bar */}
+                    <div>
+                      <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full rounded-full"
+                          style={{ backgroundColor: goldColor, opacity: 0.7 }}
+                          animate={{ width: `${vedicTime.lagna.progress}%` }}
+                          transition={{ duration: 0.5 }}
+                        />
+                      </div>
+                      <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
+                        Next in {formatTimeRemaining(vedicTime.lagna.minutesToNext)} • ends {formatEndTime(vedicTime.lagna.endsAt, currentTime)}
+                      </div>
+                    </div>
+
+                    {/* Day's lagna table */}
+                    <AnimatePresence>
+                      {lagnaTableExpanded && (
+                        <motion.ul
+                          initial={{ opacity: 0, height: 0 }}
+                          animate={{ opacity: 1, height: 'auto' }}
+                          exit={{ opacity: 0, height: 0 }}
+                          transition={{ duration: 0.2 }}
+                          className="overflow-hidden space-y-0.5"
+                        >
+                          {vedicTime.lagna.segments.map((segment) => {
+                            const isCurrent = currentTime >= segment.start && currentTime < segment.end;
+                            return (
+                              <li
+                                key={segment.start.getTime()}
+                                className="flex justify-between text-xs px-2 py-0.5 rounded"
+                                style={{
+                                  color: isCurrent ? lightGoldColor : dimGoldColor,
+                                  backgroundColor: isCurrent ? `${goldColor}20` : 'transparent',
+                                }}
+                              >
+                                <span>{segment.rashiName.split('(')[0].trim()}</span>
+                                <span className="font-mono">
+                                  {formatClockTime(segment.start)}–{formatClockTime(segment.end)}
+                                </span>
+                              </li>
+                            );
+                          })}
+                        </motion.ul>
+                      )}
+                    </AnimatePresence>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
+                {/* Yoga Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.25 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Yoga (Sun + Moon)
+                    </span>
+                  </div>
+
+                  <div className="pl-7 space-y-2">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={vedicTime.yoga}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.yogaName.split('(')[0].trim()}
+                        </div>
+                        <div className="text-sm" style={{ color: dimGoldColor }}>
+                          {vedicTime.yoga} of 27
+                        </div>
+                      </motion.div>
+                    </AnimatePresence>
+
+                    {/* Progress Bar */}
+                    <div>
+                      <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full rounded-full"
+                          style={{ backgroundColor: goldColor, opacity: 0.7 }}
+                          animate={{ width: `${vedicTime.yogaProgress}%` }}
+                          transition={{ duration: 0.5 }}
+                        />
+                      </div>
+                      <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
+                        Next in {formatTimeRemaining(vedicTime.minutesToNextYoga)} • ends {formatEndTime(vedicTime.yogaEndsAt, currentTime)}
+                      </div>
+                    </div>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
+                {/* Karana Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.25 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v18m9-9a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Karana (Half Tithi)
+                    </span>
+                  </div>
+
+                  <div className="pl-7 space-y-2">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={vedicTime.karana}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.karanaName.split('(')[0].trim()}
+                        </div>
+                        <div className="text-sm" style={{ color: dimGoldColor }}>
+                          {vedicTime.karana} of 60
+                        </div>
+                      </motion.div>
+                    </AnimatePresence>
+
+                    {/* Progress Bar */}
+                    <div>
+                      <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                        <motion.div
+                          className="h-full rounded-full"
+                          style={{ backgroundColor: goldColor, opacity: 0.6 }}
+                          animate={{ width: `${vedicTime.karanaProgress}%` }}
+                          transition={{ duration: 0.5 }}
+                        />
+                      </div>
+                      <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
+                        Next in {formatTimeRemaining(vedicTime.minutesToNextKarana)} • ends {formatEndTime(vedicTime.karanaEndsAt, currentTime)}
+                      </div>
+                    </div>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
+                {/* Vara Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.25 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17h18M5 17a7 7 0 0114 0M12 4v3m-7.07.93l2.12 2.12m11.88-2.12l-2.12 2.12" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Vara (Weekday)
+                    </span>
+                  </div>
+
+                  <div className="pl-7">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={vedicTime.vara}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.varaName.split('(')[0].trim()}
+                        </div>
+                        <div className="text-xs mt-1" style={{ color: dimGoldColor }}>
+                          Sunrise {formatEndTime(vedicTime.varaStartsAt, currentTime)} → {formatEndTime(vedicTime.varaEndsAt, currentTime)}
+                        </div>
+                      </motion.div>
+                    </AnimatePresence>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
                 {/* Paksha Section */}
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
@@ -580,6 +931,53 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                 {/* Divider */}
                 <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
 
+                {/* Samvat Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.35 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Samvat (Year)
+                    </span>
+                  </div>
+
+                  <div className="pl-7">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={`${vedicTime.samvat.vikramSamvat}-${vedicTime.samvat.samvatsara}`}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          Vikram Samvat {vedicTime.samvat.vikramSamvat}
+                        </div>
+                        <div className="text-sm" style={{ color: dimGoldColor }}>
+                          {vedicTime.samvat.samvatsaraName.split('(')[0].trim()} samvatsara •{' '}
+                          {vedicTime.samvat.yearStart === 'chaitradi' ? 'Chaitradi' : 'Kartikadi'}
+                        </div>
+                        <div className="text-xs mt-1" style={{ color: cyanColor }}>
+                          Shaka {vedicTime.samvat.shakaSamvat} ({vedicTime.samvat.shakaSamvatsaraName.split('(')[0].trim()}) •
+                          Kali {vedicTime.samvat.kaliYuga}
+                        </div>
+                        <div className="text-xs" style={{ color: dimGoldColor }}>
+                          Ahargana {vedicTime.samvat.kaliAhargana.toLocaleString()}
+                        </div>
+                      </motion.div>
+                    </AnimatePresence>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
                 {/* Masa Section */}
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
@@ -606,10 +1004,62 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                         transition={{ duration: 0.3 }}
                       >
                         <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.isAdhika && 'Adhika '}
                           {vedicTime.masaName.split('(')[0].trim()}
                         </div>
                         <div className="text-sm" style={{ color: dimGoldColor }}>
-                          Month {vedicTime.masa} of 12
+                          Month {vedicTime.masa} of 12 • {vedicTime.masaSystem === 'amanta' ? 'Amanta' : 'Purnimanta'}
+                        </div>
+                        {(vedicTime.isAdhika || vedicTime.isKshaya) && (
+                          <div className="text-xs mt-1" style={{ color: cyanColor }}>
+                            {vedicTime.isAdhika
+                              ? 'Leap month: no sankranti falls in this lunation'
+                              : 'Kshaya: two sankrantis fall in this lunation'}
+                          </div>
+                        )}
+                      </motion.div>
+                    </AnimatePresence>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
+                {/* Solar Month Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.45 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Solar Month
+                    </span>
+                  </div>
+
+                  <div className="pl-7">
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={`${vedicTime.solarCalendar.month}-${vedicTime.solarCalendar.day}`}
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 10 }}
+                        transition={{ duration: 0.3 }}
+                      >
+                        <div className="text-lg font-bold" style={{ color: lightGoldColor }}>
+                          {vedicTime.solarCalendar.monthName.split('(')[0].trim()} {vedicTime.solarCalendar.day}
+                        </div>
+                        <div className="text-sm" style={{ color: dimGoldColor }}>
+                          Sun in {vedicTime.solarCalendar.rashiName.split('(')[0].trim()} • Next sankranti{' '}
+                          {formatEndTime(vedicTime.solarCalendar.nextSankranti.at, currentTime)}
+                        </div>
+                        <div className="text-xs mt-1" style={{ color: cyanColor }}>
+                          {vedicTime.solarCalendar.rituName.split('(')[0].trim()} Ritu •{' '}
+                          {vedicTime.solarCalendar.ayanaName.split('(')[0].trim()}
                         </div>
                       </motion.div>
                     </AnimatePresence>
@@ -696,6 +1146,59 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                 {/* Divider */}
                 <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
 
+                {/* Grahana (Eclipse) Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.55 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <circle cx="12" cy="12" r="8" strokeWidth={2} />
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 5.5a8 8 0 010 13" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Next Grahana (Eclipse)
+                    </span>
+                  </div>
+
+                  {(() => {
+                    const grahana = vedicTime.nextGrahana;
+                    const status = getGrahanaStatus(grahana, currentTime);
+
+                    return (
+                      <div className="pl-7 space-y-1">
+                        <div className="text-lg font-bold" style={{ color: status ? '#EF4444' : lightGoldColor }}>
+                          {grahana.name}
+                          <span className="text-sm font-normal ml-2" style={{ color: dimGoldColor }}>
+                            {grahana.kind}
+                            {status === 'eclipse' && ' • in progress'}
+                            {status === 'sutak' && ' • sutak'}
+                          </span>
+                        </div>
+                        <div className="text-sm" style={{ color: lightGoldColor }}>
+                          {formatEndTime(grahana.start, currentTime)} – {formatClockTime(grahana.end)}
+                          <span className="text-xs ml-2" style={{ color: dimGoldColor }}>
+                            max {formatClockTime(grahana.peak)}
+                          </span>
+                        </div>
+                        <div className="text-xs" style={{ color: dimGoldColor }}>
+                          Magnitude {grahana.magnitude.toFixed(2)} • {getVisibilityLabel(grahana.visibility)}
+                        </div>
+                        {grahana.sutak && (
+                          <div className="text-xs" style={{ color: dimGoldColor }}>
+                            Sutak from {formatEndTime(grahana.sutak.start, currentTime)}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })()}
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
                 {/* Muhurta Section */}
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
@@ -735,7 +1238,9 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                           {vedicTime.muhurta.nameSanskrit}
                         </div>
                         <div className="text-sm mt-1" style={{ color: dimGoldColor }}>
-                          Muhurta {vedicTime.muhurta.number} of 30 • 48 min each
+                          Muhurta {vedicTime.muhurta.number} of 30 •{' '}
+                          {Math.round((vedicTime.muhurta.endsAt.getTime() - vedicTime.muhurta.startsAt.getTime()) / 60000)} min
+                          {vedicTime.muhurta.mode === 'seasonal' ? ' (seasonal)' : ' each'}
                         </div>
                       </motion.div>
                     </AnimatePresence>
@@ -801,6 +1306,93 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                 {/* Divider */}
                 <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
 
+                {/* Choghadiya & Hora Section */}
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.65 }}
+                  className="space-y-2"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5" style={{ color: goldColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18M10 3v18M14 3v18" />
+                    </svg>
+                    <span className="text-xs uppercase tracking-wider font-semibold" style={{ color: dimGoldColor }}>
+                      Choghadiya & Hora
+                    </span>
+                    <div className="ml-auto flex gap-1 text-xs">
+                      {(['choghadiya', 'hora'] as const).map((table) => (
+                        <button
+                          key={table}
+                          onClick={() => setDayTable(table)}
+                          className="px-2 py-0.5 rounded capitalize"
+                          style={{
+                            color: dayTable === table ? lightGoldColor : dimGoldColor,
+                            backgroundColor: dayTable === table ? `${goldColor}20` : 'transparent',
+                          }}
+                        >
+                          {table}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="pl-7">
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr style={{ color: dimGoldColor }}>
+                          <th className="text-left font-semibold pb-1">Day</th>
+                          <th className="text-left font-semibold pb-1">Night</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(() => {
+                          const segments = dayTable === 'choghadiya'
+                            ? vedicTime.choghadiya.segments.map((segment) => ({
+                                ...segment,
+                                color: getQualityColor(segment.quality),
+                              }))
+                            : vedicTime.hora.segments.map((segment) => ({
+                                ...segment,
+                                color: lightGoldColor,
+                              }));
+                          const currentNumber = dayTable === 'choghadiya'
+                            ? vedicTime.choghadiya.current.number
+                            : vedicTime.hora.current.number;
+                          const half = segments.length / 2;
+
+                          return segments.slice(0, half).map((daySegment, row) => (
+                            <tr key={row}>
+                              {[daySegment, segments[row + half]].map((segment) => {
+                                const isCurrent = segment.number === currentNumber;
+
+                                return (
+                                  <td
+                                    key={segment.number}
+                                    className="py-0.5 pr-2"
+                                    style={{
+                                      backgroundColor: isCurrent ? `${goldColor}20` : 'transparent',
+                                      fontWeight: isCurrent ? 600 : 400,
+                                    }}
+                                  >
+                                    <span className="font-mono" style={{ color: dimGoldColor }}>
+                                      {formatClockTime(segment.start)}
+                                    </span>{' '}
+                                    <span style={{ color: segment.color }}>{segment.name}</span>
+                                  </td>
+                                );
+                              })}
+                            </tr>
+                          ));
+                        })()}
+                      </tbody>
+                    </table>
+                  </div>
+                </motion.div>
+
+                {/* Divider */}
+                <div className="h-px" style={{ backgroundColor: `${goldColor}20` }} />
+
                 {/* Prana Section */}
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
@@ -942,6 +1534,14 @@ export function TimeDetails({ vedicTime }: TimeDetailsProps) {
                       <span>Elongation:</span>
                       <span style={{ color: lightGoldColor }}>{vedicTime.elongation.toFixed(2)}°</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span>Ayanamsa:</span>
+                      <span style={{ color: lightGoldColor }}>
+                        {vedicTime.ayanamsaSystem === 'tropical'
+                          ? 'Tropical'
+                          : `${vedicTime.ayanamsa.toFixed(2)}°`}
+                      </span>
+                    </div>
                   </div>
                 </motion.div>
               </div>
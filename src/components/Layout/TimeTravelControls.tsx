@@ -0,0 +1,214 @@
+/**
+ * Time Travel Controls Component
+ *
+ * Moves the clock to any past or future moment: a date-time picker, steps
+ * of one prana, muhurta, tithi or day, and a button to return to now.
+ * Playback runs the clock forward at a muhurta or day per second, or a
+ * lunation per minute, optionally looping.
+ */
+
+import { useState, useEffect } from 'react';
+import { COLORS, SHADOWS } from '../../styles/colors';
+import { PLAYBACK_SPEEDS } from '../../lib/playback';
+import type { PlaybackSpeed, PlaybackState, TimeStep } from '../../types';
+
+interface TimeTravelControlsProps {
+  /** Moment being viewed, or null when live */
+  viewingTime: Date | null;
+
+  /** Jump to a moment picked by the user */
+  onViewingTimeChange: (date: Date | null) => void;
+
+  /** Step forward (1) or back (-1) by one unit */
+  onStep: (step: TimeStep, direction: 1 | -1) => void;
+
+  /** Return to the live time */
+  onReturnToNow: () => void;
+
+  /** Playback speed, loop and timeline */
+  playback: PlaybackState;
+
+  /** Start playback */
+  onPlay: () => void;
+
+  /** Pause playback */
+  onPause: () => void;
+
+  /** Change the playback speed */
+  onPlaybackSpeedChange: (speed: PlaybackSpeed) => void;
+
+  /** Turn looping on or off */
+  onPlaybackLoopChange: (loop: boolean) => void;
+}
+
+/**
+ * Step units offered, shortest first
+ */
+const STEPS: readonly { id: TimeStep; label: string; description: string }[] = [
+  { id: 'prana', label: 'Prana', description: '4 seconds' },
+  { id: 'muhurta', label: 'Muhurta', description: '48 minutes' },
+  { id: 'tithi', label: 'Tithi', description: 'to the next tithi boundary' },
+  { id: 'day', label: 'Day', description: '24 hours' },
+];
+
+/**
+ * Format a date for a datetime-local input (local YYYY-MM-DDTHH:MM:SS)
+ */
+function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Time travel bar shown above the clock
+ */
+export function TimeTravelControls({
+  viewingTime,
+  onViewingTimeChange,
+  onStep,
+  onReturnToNow,
+  playback,
+  onPlay,
+  onPause,
+  onPlaybackSpeedChange,
+  onPlaybackLoopChange,
+}: TimeTravelControlsProps) {
+  const [liveTime, setLiveTime] = useState(new Date());
+  const isLive = viewingTime === null;
+  const isPlaying = playback.timeline !== null;
+
+  // Keep the picker on the live time until the user travels
+  useEffect(() => {
+    if (!isLive) return;
+
+    const intervalId = setInterval(() => {
+      setLiveTime(new Date());
+    }, 1000);
+
+    return () => clearInterval(intervalId);
+  }, [isLive]);
+
+  const handlePick = (value: string) => {
+    const picked = new Date(value);
+    if (!Number.isNaN(picked.getTime())) {
+      onViewingTimeChange(picked);
+    }
+  };
+
+  return (
+    <div
+      className="fixed top-4 left-1/2 -translate-x-1/2 z-40 flex flex-wrap items-center justify-center gap-2 px-3 py-2 rounded-xl"
+      style={{
+        backgroundColor: COLORS.background.panel,
+        border: `1px solid ${isLive ? COLORS.border.normal : COLORS.accent.cyan}`,
+        boxShadow: SHADOWS.lg,
+        backdropFilter: 'blur(10px)',
+      }}
+      role="group"
+      aria-label="Time travel"
+    >
+      <input
+        type="datetime-local"
+        step="1"
+        value={toDateTimeLocalValue(viewingTime ?? liveTime)}
+        onChange={(e) => handlePick(e.target.value)}
+        className="px-2 py-1 rounded-md text-sm bg-slate-900/50 focus:outline-none"
+        style={{
+          border: `1px solid ${COLORS.border.normal}`,
+          color: isLive ? COLORS.accent.goldLight : COLORS.accent.cyan,
+          colorScheme: 'dark',
+        }}
+        aria-label="Viewing date and time"
+      />
+
+      {STEPS.map((step) => (
+        <div
+          key={step.id}
+          className="flex items-center rounded-md overflow-hidden"
+          style={{ border: `1px solid ${COLORS.border.subtle}` }}
+        >
+          <button
+            onClick={() => onStep(step.id, -1)}
+            className="px-2 py-1 text-sm hover:bg-white/10 transition-colors"
+            style={{ color: COLORS.accent.gold }}
+            aria-label={`Back one ${step.label.toLowerCase()} (${step.description})`}
+            title={`Back one ${step.label.toLowerCase()} (${step.description})`}
+          >
+            −
+          </button>
+          <span className="px-1 text-xs" style={{ color: COLORS.text.secondary }}>
+            {step.label}
+          </span>
+          <button
+            onClick={() => onStep(step.id, 1)}
+            className="px-2 py-1 text-sm hover:bg-white/10 transition-colors"
+            style={{ color: COLORS.accent.gold }}
+            aria-label={`Forward one ${step.label.toLowerCase()} (${step.description})`}
+            title={`Forward one ${step.label.toLowerCase()} (${step.description})`}
+          >
+            +
+          </button>
+        </div>
+      ))}
+
+      <div
+        className="flex items-center rounded-md overflow-hidden"
+        style={{ border: `1px solid ${isPlaying ? COLORS.accent.cyan : COLORS.border.subtle}` }}
+        role="group"
+        aria-label="Playback"
+      >
+        <button
+          onClick={isPlaying ? onPause : onPlay}
+          className="px-2 py-1 text-sm hover:bg-white/10 transition-colors"
+          style={{ color: isPlaying ? COLORS.accent.cyan : COLORS.accent.gold }}
+          aria-label={isPlaying ? 'Pause playback' : 'Play'}
+          title={isPlaying ? 'Pause' : `Play at ${PLAYBACK_SPEEDS[playback.speed].description}`}
+        >
+          {isPlaying ? '❚❚' : '▶'}
+        </button>
+        {(Object.keys(PLAYBACK_SPEEDS) as PlaybackSpeed[]).map((speed) => (
+          <button
+            key={speed}
+            onClick={() => onPlaybackSpeedChange(speed)}
+            className="px-2 py-1 text-xs hover:bg-white/10 transition-colors"
+            style={{
+              color: playback.speed === speed ? COLORS.accent.goldLight : COLORS.text.secondary,
+              backgroundColor: playback.speed === speed ? 'rgba(212, 175, 55, 0.15)' : 'transparent',
+            }}
+            aria-pressed={playback.speed === speed}
+            title={`Play ${PLAYBACK_SPEEDS[speed].description}`}
+          >
+            {PLAYBACK_SPEEDS[speed].label}
+          </button>
+        ))}
+        <button
+          onClick={() => onPlaybackLoopChange(!playback.loop)}
+          className="px-2 py-1 text-sm hover:bg-white/10 transition-colors"
+          style={{ color: playback.loop ? COLORS.accent.cyan : COLORS.text.secondary }}
+          aria-pressed={playback.loop}
+          aria-label="Loop playback"
+          title={playback.speed === 'muhurta' ? 'Loop over one day' : 'Loop over one lunation'}
+        >
+          ⟲
+        </button>
+      </div>
+
+      <button
+        onClick={onReturnToNow}
+        disabled={isLive}
+        className="px-3 py-1 rounded-md text-sm font-medium transition-colors disabled:cursor-default"
+        style={{
+          backgroundColor: isLive ? 'transparent' : COLORS.accent.cyan,
+          color: isLive ? COLORS.text.disabled : COLORS.background.primary,
+          border: `1px solid ${isLive ? COLORS.border.subtle : COLORS.accent.cyan}`,
+        }}
+        aria-label="Return to now"
+      >
+        {isLive ? 'Live' : 'Now'}
+      </button>
+    </div>
+  );
+}
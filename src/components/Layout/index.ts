@@ -6,3 +6,4 @@
 
 export { LocationInput } from './LocationInput';
 export { TimeDetails } from './TimeDetails';
+export { TimeTravelControls } from './TimeTravelControls';
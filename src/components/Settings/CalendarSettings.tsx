@@ -0,0 +1,486 @@
+/**
+ * Calendar Settings Component
+ *
+ * Provides UI controls for how the Vedic calendar is calculated.
+ * Includes the ayanamsa (sidereal zodiac), lunar month convention, how
+ * muhurtas are measured, the polar-region policy and the regional new year
+ * and solar calendar.
+ */
+
+import { motion, AnimatePresence } from 'framer-motion';
+import { COLORS, ANIMATION, SHADOWS } from '../../styles/colors';
+import { AYANAMSA_SYSTEMS, NEAREST_SUNRISE_LATITUDE } from '../../lib/vedic-calendar';
+import type {
+  MasaSystem,
+  MuhurtaMode,
+  PolarPolicy,
+  SamvatYearStart,
+  SolarCalendarRule,
+  UserPreferences,
+} from '../../types';
+
+/**
+ * Lunar month conventions offered in settings
+ */
+const MASA_SYSTEMS: readonly { id: MasaSystem; name: string; description: string }[] = [
+  { id: 'amanta', name: 'Amanta', description: 'Month ends at amavasya (South & West India)' },
+  { id: 'purnimanta', name: 'Purnimanta', description: 'Month ends at purnima (North India)' },
+];
+
+/**
+ * Muhurta modes offered in settings
+ */
+const MUHURTA_MODES: readonly { id: MuhurtaMode; name: string; description: string }[] = [
+  { id: 'seasonal', name: 'Seasonal', description: '15 by day, 15 by night; lengths follow the seasons' },
+  { id: 'equal', name: 'Equal', description: '30 muhurtas of 48 minutes from sunrise' },
+];
+
+/**
+ * Polar policies offered in settings
+ */
+const POLAR_POLICIES: readonly { id: PolarPolicy; name: string; description: string }[] = [
+  {
+    id: 'nearestLatitude',
+    name: 'Nearest latitude',
+    description: `Use sunrise and sunset at ${NEAREST_SUNRISE_LATITUDE}°, the nearest latitude where the Sun always rises`,
+  },
+  { id: 'equinoctial', name: 'Equinoctial day', description: 'Sunrise 06:00 and sunset 18:00 local mean time' },
+  { id: 'localMidnight', name: 'Local midnight', description: 'Count the day from local mean midnight' },
+];
+
+/**
+ * Lunar new year conventions offered in settings
+ */
+const YEAR_STARTS: readonly { id: SamvatYearStart; name: string; description: string }[] = [
+  { id: 'chaitradi', name: 'Chaitradi', description: 'Year begins at Chaitra Shukla Pratipada (North India)' },
+  { id: 'kartikadi', name: 'Kartikadi', description: 'Year begins the day after Diwali (Gujarat)' },
+];
+
+/**
+ * Regional solar calendars offered in settings
+ */
+const SOLAR_CALENDAR_RULES: readonly { id: SolarCalendarRule; name: string; description: string }[] = [
+  { id: 'tamil', name: 'Tamil', description: 'Month begins the same day if sankranti is before sunset' },
+  { id: 'malayalam', name: 'Malayalam', description: 'Month begins the same day if sankranti is before madhyahna ends' },
+  { id: 'bengali', name: 'Bengali', description: 'Month begins the next day, or the day after if sankranti is after midnight' },
+  { id: 'odia', name: 'Odia', description: 'Month begins on the day of the sankranti' },
+];
+
+interface CalendarSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  preferences: UserPreferences;
+  onPreferencesChange: (updates: Partial<UserPreferences>) => void;
+  /** Ayanamsa currently applied, in degrees (for display) */
+  currentAyanamsa?: number;
+}
+
+/**
+ * Calendar settings modal
+ */
+export function CalendarSettings({
+  isOpen,
+  onClose,
+  preferences,
+  onPreferencesChange,
+  currentAyanamsa,
+}: CalendarSettingsProps) {
+  const { ayanamsa } = preferences;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Backdrop */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: ANIMATION.duration.normal / 1000 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            aria-hidden="true"
+          />
+
+          {/* Modal */}
+          <div
+            className="fixed inset-0 z-50 flex items-center justify-center p-4"
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="calendar-settings-title"
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              transition={{
+                duration: ANIMATION.duration.panel / 1000,
+                ease: "easeOut",
+              }}
+              className="relative w-full max-w-md max-h-[90vh] flex flex-col rounded-xl overflow-hidden"
+              style={{
+                backgroundColor: COLORS.background.panel,
+                border: `1px solid ${COLORS.border.normal}`,
+                boxShadow: SHADOWS.xl,
+              }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {/* Header */}
+              <div
+                className="px-6 py-4 border-b flex items-center justify-between"
+                style={{
+                  borderColor: COLORS.border.normal,
+                  background: `linear-gradient(to bottom, ${COLORS.accent.gold}10, transparent)`,
+                }}
+              >
+                <div className="flex items-center gap-3">
+                  <svg
+                    className="w-6 h-6"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    style={{ color: COLORS.accent.gold }}
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                    />
+                  </svg>
+                  <h2
+                    id="calendar-settings-title"
+                    className="text-xl font-bold"
+                    style={{ color: COLORS.accent.goldLight }}
+                  >
+                    Calendar Settings
+                  </h2>
+                </div>
+                <button
+                  onClick={onClose}
+                  className="w-8 h-8 rounded-full flex items-center justify-center hover:bg-white/10 transition-colors"
+                  style={{ color: COLORS.accent.gold }}
+                  aria-label="Close calendar settings"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+
+              {/* Content */}
+              <div className="px-6 py-6 space-y-6 overflow-y-auto">
+                {/* Ayanamsa */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-base font-medium" style={{ color: COLORS.text.primary }}>
+                      Ayanamsa (Zodiac)
+                    </span>
+                    {currentAyanamsa !== undefined && (
+                      <span
+                        className="px-2 py-0.5 text-xs rounded-full"
+                        style={{
+                          backgroundColor: `${COLORS.accent.cyan}20`,
+                          color: COLORS.accent.cyan,
+                        }}
+                      >
+                        {currentAyanamsa.toFixed(4)}°
+                      </span>
+                    )}
+                  </div>
+
+                  <p className="text-sm leading-relaxed" style={{ color: COLORS.text.secondary }}>
+                    Nakshatras, rashis and months are measured in the sidereal zodiac.
+                    The ayanamsa sets where that zodiac begins.
+                  </p>
+
+                  <div className="space-y-2" role="radiogroup" aria-label="Ayanamsa system">
+                    {AYANAMSA_SYSTEMS.map((system) => {
+                      const isSelected = ayanamsa.system === system.id;
+                      return (
+                        <button
+                          key={system.id}
+                          onClick={() =>
+                            onPreferencesChange({
+                              ayanamsa: { ...ayanamsa, system: system.id },
+                            })
+                          }
+                          className="w-full text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {system.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {system.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  {/* Custom offset input */}
+                  {ayanamsa.system === 'custom' && (
+                    <motion.label
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: 'auto' }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="flex items-center gap-3 pt-2"
+                    >
+                      <span className="text-sm" style={{ color: COLORS.text.secondary }}>
+                        Offset (degrees)
+                      </span>
+                      <input
+                        type="number"
+                        step="0.0001"
+                        min="0"
+                        max="360"
+                        value={ayanamsa.customOffset ?? 0}
+                        onChange={(e) =>
+                          onPreferencesChange({
+                            ayanamsa: { ...ayanamsa, customOffset: Number(e.target.value) },
+                          })
+                        }
+                        className="flex-1 px-3 py-1.5 rounded-md text-sm bg-slate-900/50 focus:outline-none"
+                        style={{
+                          border: `1px solid ${COLORS.border.normal}`,
+                          color: COLORS.accent.goldLight,
+                        }}
+                        aria-label="Custom ayanamsa offset in degrees"
+                      />
+                    </motion.label>
+                  )}
+                </div>
+
+                {/* Masa system */}
+                <div className="space-y-3">
+                  <span className="text-base font-medium" style={{ color: COLORS.text.primary }}>
+                    Lunar Month
+                  </span>
+
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Lunar month convention">
+                    {MASA_SYSTEMS.map((system) => {
+                      const isSelected = preferences.masaSystem === system.id;
+                      return (
+                        <button
+                          key={system.id}
+                          onClick={() => onPreferencesChange({ masaSystem: system.id })}
+                          className="text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {system.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {system.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Muhurta mode */}
+                <div className="space-y-3">
+                  <span className="text-base font-medium" style={{ color: COLORS.text.primary }}>
+                    Muhurta Length
+                  </span>
+
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Muhurta length">
+                    {MUHURTA_MODES.map((mode) => {
+                      const isSelected = preferences.muhurtaMode === mode.id;
+                      return (
+                        <button
+                          key={mode.id}
+                          onClick={() => onPreferencesChange({ muhurtaMode: mode.id })}
+                          className="text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {mode.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {mode.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Region: lunar new year and solar calendar */}
+                <div className="space-y-3">
+                  <span className="text-base font-medium" style={{ color: COLORS.text.primary }}>
+                    Region
+                  </span>
+
+                  <p className="text-sm leading-relaxed" style={{ color: COLORS.text.secondary }}>
+                    Regions differ on which new moon starts the Vikram Samvat year and
+                    on which day a solar month begins.
+                  </p>
+
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Lunar new year">
+                    {YEAR_STARTS.map((start) => {
+                      const isSelected = preferences.samvatYearStart === start.id;
+                      return (
+                        <button
+                          key={start.id}
+                          onClick={() => onPreferencesChange({ samvatYearStart: start.id })}
+                          className="text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {start.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {start.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Solar calendar">
+                    {SOLAR_CALENDAR_RULES.map((rule) => {
+                      const isSelected = preferences.solarCalendarRule === rule.id;
+                      return (
+                        <button
+                          key={rule.id}
+                          onClick={() => onPreferencesChange({ solarCalendarRule: rule.id })}
+                          className="text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {rule.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {rule.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {/* Polar policy */}
+                <div className="space-y-3">
+                  <span className="text-base font-medium" style={{ color: COLORS.text.primary }}>
+                    Polar Regions
+                  </span>
+
+                  <p className="text-sm leading-relaxed" style={{ color: COLORS.text.secondary }}>
+                    Beyond the polar circles the Sun can stay up or down for weeks.
+                    Choose what stands in for sunrise and sunset on those days.
+                  </p>
+
+                  <div className="space-y-2" role="radiogroup" aria-label="Polar region policy">
+                    {POLAR_POLICIES.map((policy) => {
+                      const isSelected = preferences.polarPolicy === policy.id;
+                      return (
+                        <button
+                          key={policy.id}
+                          onClick={() => onPreferencesChange({ polarPolicy: policy.id })}
+                          className="w-full text-left px-3 py-2 rounded-lg transition-colors"
+                          style={{
+                            backgroundColor: isSelected ? `${COLORS.accent.gold}20` : 'transparent',
+                            border: `1px solid ${isSelected ? COLORS.border.strong : COLORS.border.subtle}`,
+                          }}
+                          role="radio"
+                          aria-checked={isSelected}
+                        >
+                          <div
+                            className="text-sm font-medium"
+                            style={{ color: isSelected ? COLORS.accent.goldLight : COLORS.text.primary }}
+                          >
+                            {policy.name}
+                          </div>
+                          <div className="text-xs mt-0.5" style={{ color: COLORS.text.tertiary }}>
+                            {policy.description}
+                          </div>
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              {/* Footer */}
+              <div
+                className="px-6 py-3 border-t flex justify-between items-center"
+                style={{
+                  borderColor: COLORS.border.normal,
+                  background: `linear-gradient(to top, ${COLORS.accent.gold}10, transparent)`,
+                }}
+              >
+                <p className="text-xs" style={{ color: COLORS.text.tertiary }}>
+                  Settings are saved automatically
+                </p>
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 rounded-md text-sm font-medium transition-colors"
+                  style={{
+                    backgroundColor: COLORS.accent.gold,
+                    color: COLORS.background.primary,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = COLORS.accent.goldLight;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = COLORS.accent.gold;
+                  }}
+                >
+                  Done
+                </button>
+              </div>
+            </motion.div>
+          </div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
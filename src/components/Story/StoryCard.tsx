@@ -2,12 +2,15 @@
  * StoryCard Component
  *
  * Displays a beautiful card with a Rigvedic hymn - the daily story.
- * Shows Sanskrit text, transliteration, translation, and context.
+ * Shows Sanskrit text, transliteration, translation, and context, with the
+ * Sanskrit in the user's preferred script.
  */
 
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import type { RigvedaStory } from '../../lib/storySelector';
+import { toPreferredRomanization, toPreferredSanskrit } from '../../lib/transliteration';
+import { usePreferredScript } from '../../hooks/usePreferredScript';
 
 interface StoryCardProps {
   story: RigvedaStory;
@@ -19,6 +22,7 @@ interface StoryCardProps {
  */
 export function StoryCard({ story, nakshatraName }: StoryCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [script] = usePreferredScript();
 
   const goldColor = '#D4AF37';
   const lightGoldColor = '#F4E5B8';
@@ -128,7 +132,7 @@ export function StoryCard({ story, nakshatraName }: StoryCardProps) {
                 textShadow: `0 0 10px ${goldColor}20`,
               }}
             >
-              {story.sanskrit}
+              {toPreferredSanskrit(story.sanskrit, script)}
             </p>
           </motion.div>
 
@@ -148,7 +152,7 @@ export function StoryCard({ story, nakshatraName }: StoryCardProps) {
               className="text-base md:text-lg italic leading-relaxed opacity-80"
               style={{ color: lightGoldColor }}
             >
-              {story.transliteration}
+              {toPreferredRomanization(story.transliteration, script)}
             </p>
           </motion.div>
 
@@ -2,13 +2,25 @@
  * App Context
  *
  * Global application state management using React Context.
- * Provides centralized access to Vedic time, user data, and app settings.
+ * Provides centralized access to user data and app settings, the moment the
+ * clock is viewing (live, or a past or future time), and accelerated
+ * playback of the clock. Location and the calculated Vedic time stay with
+ * the App, which owns the calculation loop.
  */
 
-import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
-import { useVedicTime } from '../hooks/useVedicTime';
-import { useLocation } from '../hooks/useLocation';
-import { getTodaysStory } from '../lib/storySelector';
+import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
+import {
+  createPlaybackTimeline,
+  DEFAULT_PLAYBACK_STATE,
+  getPlaybackMoment,
+} from '../lib/playback';
+import {
+  calculateMuhurta,
+  findTithiEnd,
+  findTithiStart,
+  getElongation,
+  PRANA_CONSTANTS,
+} from '../lib/vedic-calendar';
 import {
   TasksService,
   ReadingService,
@@ -16,15 +28,87 @@ import {
 } from '../services/storageService';
 import type {
   AppContextType,
-  VedicTime,
   LocationData,
   UserPreferences,
   DailyTask,
   ReadingEntry,
   ReadingStreak,
-  RigvedaStory,
+  TimeStep,
+  PlaybackSpeed,
+  PlaybackState,
 } from '../types';
 
+/**
+ * How far past a tithi boundary a tithi step lands, so the new tithi shows
+ */
+const TITHI_STEP_MARGIN_MS = 60 * 1000;
+
+/**
+ * How far past a muhurta boundary a muhurta step lands
+ */
+const MUHURTA_STEP_MARGIN_MS = 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Move a moment by one step
+ *
+ * Prana and day steps are fixed lengths (4 seconds, 24 hours). Muhurta
+ * steps jump to the start of the next or previous muhurta at the location,
+ * since seasonal muhurtas lengthen and shorten with the day. Tithi steps
+ * jump to the start of the next or previous tithi, since tithis vary from
+ * about 19 to 26 hours.
+ *
+ * @param from - Moment to step from
+ * @param step - Unit to step by
+ * @param direction - 1 to step forward, -1 to step back
+ * @param location - Observer's location, for muhurta boundaries
+ * @param preferences - Muhurta mode and polar policy
+ * @returns The new moment
+ */
+function getSteppedTime(
+  from: Date,
+  step: TimeStep,
+  direction: 1 | -1,
+  location: LocationData,
+  preferences: UserPreferences
+): Date {
+  switch (step) {
+    case 'prana':
+      return new Date(from.getTime() + direction * PRANA_CONSTANTS.SECONDS_PER_PRANA * 1000);
+    case 'muhurta': {
+      const getMuhurta = (at: Date) =>
+        calculateMuhurta(at, location.latitude, location.longitude, preferences.muhurtaMode, preferences.polarPolicy);
+      const muhurta = getMuhurta(from);
+      if (direction > 0) {
+        return new Date(muhurta.endsAt.getTime() + MUHURTA_STEP_MARGIN_MS);
+      }
+
+      // Step back to this muhurta's start, or the previous one's if just past it
+      let startsAt = muhurta.startsAt;
+      if (from.getTime() - startsAt.getTime() <= MUHURTA_STEP_MARGIN_MS) {
+        startsAt = getMuhurta(new Date(startsAt.getTime() - MUHURTA_STEP_MARGIN_MS)).startsAt;
+      }
+      return new Date(startsAt.getTime() + MUHURTA_STEP_MARGIN_MS);
+    }
+    case 'day':
+      return new Date(from.getTime() + direction * MS_PER_DAY);
+    case 'tithi': {
+      if (direction > 0) {
+        return new Date(findTithiEnd(from, getElongation(from)).getTime() + TITHI_STEP_MARGIN_MS);
+      }
+
+      // Step back to this tithi's start, or the previous one's if just past it
+      let startsAt = findTithiStart(from, getElongation(from));
+      if (from.getTime() - startsAt.getTime() <= TITHI_STEP_MARGIN_MS) {
+        const beforeStart = new Date(startsAt.getTime() - TITHI_STEP_MARGIN_MS);
+        startsAt = findTithiStart(beforeStart, getElongation(beforeStart));
+      }
+      return new Date(startsAt.getTime() + TITHI_STEP_MARGIN_MS);
+    }
+  }
+}
+
 /**
  * App Context
  */
@@ -41,26 +125,17 @@ interface AppProviderProps {
  * App Context Provider
  */
 export function AppProvider({ children }: AppProviderProps) {
-  // Location state
-  const locationState = useLocation();
-
-  // Vedic time state (updates every 4 seconds)
-  const {
-    vedicTime: calculatedVedicTime,
-    isLoading: timeLoading,
-    error: timeError,
-  } = useVedicTime({
-    latitude: locationState.location.latitude,
-    longitude: locationState.location.longitude,
-    updateInterval: 4000, // Every prana
-    autoUpdate: true,
-  });
-
   // User preferences
   const [preferences, setPreferencesState] = useState<UserPreferences>(() => {
     return PreferencesService.getPreferences();
   });
 
+  // Moment being viewed (null follows the live time)
+  const [viewingTime, setViewingTimeState] = useState<Date | null>(null);
+
+  // Accelerated playback (paused until played)
+  const [playback, setPlaybackState] = useState<PlaybackState>(DEFAULT_PLAYBACK_STATE);
+
   // Tasks
   const [tasks, setTasksState] = useState<DailyTask[]>(() => {
     return TasksService.getTasks();
@@ -76,45 +151,6 @@ export function AppProvider({ children }: AppProviderProps) {
     return ReadingService.getStreak();
   });
 
-  // Current story/hymn
-  const [currentStory, setCurrentStoryState] = useState<RigvedaStory | null>(null);
-
-  /**
-   * Update current story when Vedic time changes
-   */
-  useEffect(() => {
-    if (calculatedVedicTime) {
-      const story = getTodaysStory(
-        calculatedVedicTime.nakshatra,
-        calculatedVedicTime.tithi,
-        calculatedVedicTime.paksha
-      );
-      setCurrentStoryState(story);
-    }
-  }, [calculatedVedicTime?.nakshatra, calculatedVedicTime?.tithi, calculatedVedicTime?.paksha]);
-
-  /**
-   * Set Vedic time (normally updated by useVedicTime hook)
-   */
-  const setVedicTime = useCallback((_time: VedicTime) => {
-    // This is handled by useVedicTime hook, but kept for API consistency
-    console.warn('setVedicTime called - Vedic time is managed by useVedicTime hook');
-  }, []);
-
-  /**
-   * Set location
-   */
-  const setLocation = useCallback(
-    (location: LocationData) => {
-      locationState.setManualLocation(
-        location.latitude,
-        location.longitude,
-        location.name
-      );
-    },
-    [locationState]
-  );
-
   /**
    * Update preferences
    */
@@ -189,34 +225,110 @@ export function AppProvider({ children }: AppProviderProps) {
   );
 
   /**
-   * Set current story
+   * Pause playback, if playing, and return the moment it reached
    */
-  const setCurrentStory = useCallback((story: RigvedaStory) => {
-    setCurrentStoryState(story);
+  const stopPlayback = useCallback((): Date | null => {
+    const moment = playback.timeline ? getPlaybackMoment(playback.timeline) : null;
+    if (moment) {
+      setPlaybackState(prev => ({ ...prev, timeline: null }));
+    }
+    return moment;
+  }, [playback.timeline]);
+
+  /**
+   * Show a past or future moment
+   */
+  const setViewingTime = useCallback((date: Date | null) => {
+    stopPlayback();
+    setViewingTimeState(date);
+  }, [stopPlayback]);
+
+  /**
+   * Step the viewing time, starting from now when live
+   */
+  const stepViewingTime = useCallback((step: TimeStep, direction: 1 | -1, location: LocationData) => {
+    const from = stopPlayback() ?? viewingTime ?? new Date();
+    setViewingTimeState(getSteppedTime(from, step, direction, location, preferences));
+  }, [stopPlayback, viewingTime, preferences]);
+
+  /**
+   * Return to the live time
+   */
+  const returnToNow = useCallback(() => {
+    stopPlayback();
+    setViewingTimeState(null);
+  }, [stopPlayback]);
+
+  /**
+   * Play from the viewing time, or from now when live
+   */
+  const playPlayback = useCallback(() => {
+    setPlaybackState(prev =>
+      prev.timeline
+        ? prev
+        : { ...prev, timeline: createPlaybackTimeline(viewingTime ?? new Date(), prev.speed, prev.loop) }
+    );
+  }, [viewingTime]);
+
+  /**
+   * Pause on the moment playback reached
+   */
+  const pausePlayback = useCallback(() => {
+    const moment = stopPlayback();
+    if (moment) {
+      setViewingTimeState(moment);
+    }
+  }, [stopPlayback]);
+
+  /**
+   * Change speed; a running timeline continues from the moment it reached
+   */
+  const setPlaybackSpeed = useCallback((speed: PlaybackSpeed) => {
+    setPlaybackState(prev => ({
+      ...prev,
+      speed,
+      timeline: prev.timeline
+        ? createPlaybackTimeline(getPlaybackMoment(prev.timeline), speed, prev.loop)
+        : null,
+    }));
+  }, []);
+
+  /**
+   * Turn looping on or off; a running loop restarts from the moment reached
+   */
+  const setPlaybackLoop = useCallback((loop: boolean) => {
+    setPlaybackState(prev => ({
+      ...prev,
+      loop,
+      timeline: prev.timeline
+        ? createPlaybackTimeline(getPlaybackMoment(prev.timeline), prev.speed, loop)
+        : null,
+    }));
   }, []);
 
   // Combine state and actions
   const value: AppContextType = {
     // State
-    vedicTime: calculatedVedicTime,
-    location: locationState.location,
-    isLoading: timeLoading,
-    error: timeError,
     preferences,
     tasks,
     readingHistory,
     streak,
-    currentStory,
+    viewingTime,
+    playback,
 
     // Actions
-    setVedicTime,
-    setLocation,
     setPreferences,
     addTask,
     updateTask,
     deleteTask,
     markHymnRead,
-    setCurrentStory,
+    setViewingTime,
+    stepViewingTime,
+    returnToNow,
+    playPlayback,
+    pausePlayback,
+    setPlaybackSpeed,
+    setPlaybackLoop,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
@@ -233,22 +345,6 @@ export function useAppContext(): AppContextType {
   return context;
 }
 
-/**
- * Hook to access Vedic time from context
- */
-export function useVedicTimeContext() {
-  const { vedicTime, isLoading, error } = useAppContext();
-  return { vedicTime, isLoading, error };
-}
-
-/**
- * Hook to access location from context
- */
-export function useLocationContext() {
-  const { location, setLocation } = useAppContext();
-  return { location, setLocation };
-}
-
 /**
  * Hook to access preferences from context
  */
@@ -272,11 +368,3 @@ export function useReadingContext() {
   const { readingHistory, streak, markHymnRead } = useAppContext();
   return { readingHistory, streak, markHymnRead };
 }
-
-/**
- * Hook to access current story from context
- */
-export function useCurrentStoryContext() {
-  const { currentStory, setCurrentStory } = useAppContext();
-  return { currentStory, setCurrentStory };
-}
@@ -25,6 +25,7 @@ export const RV_1_1_AGNI: RigvedaHymn = {
     {
       number: 1,
       sanskrit: 'अग्निमीळे पुरोहितं यज्ञस्य देवमृत्विजम् । होतारं रत्नधातमम् ॥',
+      accentedSanskrit: 'अ॒ग्निमी॑ळे पु॒रोहि॑तं य॒ज्ञस्य॑ दे॒वमृ॒त्विज॑म् । होता॑रं रत्न॒धात॑मम् ॥',
       transliteration: 'agnim īḷe purohitaṃ yajñasya devam ṛtvijam | hotāraṃ ratnadhātamam ||',
       wordByWord: [
         {
@@ -109,6 +110,7 @@ export const RV_1_1_AGNI: RigvedaHymn = {
     {
       number: 2,
       sanskrit: 'अग्निः पूर्वेभिरृषिभिरीड्यो नूतनैरुत । स देवाँ एह वक्षति ॥',
+      accentedSanskrit: 'अ॒ग्निः पूर्वे॑भि॒रृषि॑भि॒रीड्यो॒ नूत॑नैरु॒त । स दे॒वाँ एह व॑क्षति ॥',
       transliteration: 'agniḥ pūrvebhir ṛṣibhir īḍyo nūtanair uta | sa devām̐ eha vakṣati ||',
       wordByWord: [
         {
@@ -188,7 +190,118 @@ export const RV_1_1_AGNI: RigvedaHymn = {
       ],
       commentary: 'This verse establishes the timeless nature of Agni worship, connecting past and present generations of seers. It emphasizes continuity of spiritual tradition.',
     },
-    // Additional verses would follow...
+    {
+      number: 3,
+      sanskrit: 'अग्निना रयिमश्नवत्पोषमेव दिवेदिवे । यशसं वीरवत्तमम् ॥',
+      accentedSanskrit: 'अ॒ग्निना॑ र॒यिम॑श्नव॒त्पोष॑मे॒व दि॒वेदि॑वे । य॒शसं॑ वी॒रव॑त्तमम् ॥',
+      transliteration: 'agninā rayim aśnavat poṣam eva dive-dive | yaśasaṃ vīravattamam ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'Through Agni man obtaineth wealth, yea, plenty waxing day by day, Most rich in heroes, glorious.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'Agni is the giver of prosperity that grows day by day: wealth rich in heroes, that is, in sons and followers, and bringing renown.',
+    },
+    {
+      number: 4,
+      sanskrit: 'अग्ने यं यज्ञमध्वरं विश्वतः परिभूरसि । स इद्देवेषु गच्छति ॥',
+      accentedSanskrit: 'अग्ने॒ यं य॒ज्ञम॑ध्व॒रं वि॒श्वतः॑ परि॒भूरसि॑ । स इद्दे॒वेषु॑ गच्छति ॥',
+      transliteration: 'agne yaṃ yajñam adhvaraṃ viśvataḥ paribhūr asi | sa id deveṣu gacchati ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'Agni, the perfect sacrifice which thou encompassest about Verily goeth to the Gods.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'Only the sacrifice that Agni surrounds and protects on every side reaches the gods; "adhvara" is the rite kept free of harm.',
+    },
+    {
+      number: 5,
+      sanskrit: 'अग्निर्होता कविक्रतुः सत्यश्चित्रश्रवस्तमः । देवो देवेभिरा गमत् ॥',
+      accentedSanskrit: 'अ॒ग्निर्होता॑ क॒विक्र॑तुः स॒त्यश्चि॒त्रश्र॑वस्तमः । दे॒वो दे॒वेभि॒रा ग॑मत् ॥',
+      transliteration: 'agnir hotā kavikratuḥ satyaś citraśravastamaḥ | devo devebhir ā gamat ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'May Agni, sapient-minded Priest, truthful, most gloriously great, The God, come hither with the Gods.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'Agni is invoked as hotar with the insight of a poet (kavikratu), true and of brilliant fame, and asked to come with the other gods.',
+    },
+    {
+      number: 6,
+      sanskrit: 'यदङ्ग दाशुषे त्वमग्ने भद्रं करिष्यसि । तवेत्तत्सत्यमङ्गिरः ॥',
+      accentedSanskrit: 'यद॒ङ्ग दा॒शुषे॒ त्वमग्ने॑ भ॒द्रं क॑रि॒ष्यसि॑ । तवेत्तत्स॒त्यम॑ङ्गिरः ॥',
+      transliteration: 'yad aṅga dāśuṣe tvam agne bhadraṃ kariṣyasi | tavet tat satyam aṅgiraḥ ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'Whatever blessing, Agni, thou wilt grant unto thy worshipper, That, Angiras, is indeed thy truth.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'The good Agni does for the worshipper who offers is his truth: the god keeps faith with those who give. Agni is addressed as Angiras, first of the Angirasa seers.',
+    },
+    {
+      number: 7,
+      sanskrit: 'उप त्वाग्ने दिवेदिवे दोषावस्तर्धिया वयम् । नमो भरन्त एमसि ॥',
+      accentedSanskrit: 'उप॑ त्वाग्ने दि॒वेदि॑वे॒ दोषा॑वस्तर्धि॒या व॒यम् । नमो॒ भर॑न्त॒ एम॑सि ॥',
+      transliteration: 'upa tvāgne dive-dive doṣāvastar dhiyā vayam | namo bharanta emasi ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'To thee, dispeller of the night, O Agni, day by day with prayer Bringing thee reverence, we come',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'The worshippers approach Agni every day with thought and homage. "Doṣāvastar" is read either as an epithet, illuminer of the dark, or as "at evening and at dawn".',
+    },
+    {
+      number: 8,
+      sanskrit: 'राजन्तमध्वराणां गोपामृतस्य दीदिविम् । वर्धमानं स्वे दमे ॥',
+      accentedSanskrit: 'राज॑न्तमध्व॒राणां॑ गो॒पामृ॒तस्य॒ दीदि॑विम् । वर्ध॑मानं॒ स्वे दमे॑ ॥',
+      transliteration: 'rājantam adhvarāṇāṃ gopām ṛtasya dīdivim | vardhamānaṃ sve dame ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'Ruler of sacrifices, guard of Law eternal, radiant One, Increasing in thine own abode.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'Agni rules the rites and guards Ṛta, the cosmic order; he grows in his own home, the hearth and altar where he is kindled.',
+    },
+    {
+      number: 9,
+      sanskrit: 'स नः पितेव सूनवेऽग्ने सूपायनो भव । सचस्वा नः स्वस्तये ॥',
+      accentedSanskrit: 'स नः॑ पि॒तेव॑ सू॒नवेऽग्ने॑ सूपाय॒नो भ॑व । सच॑स्वा नः स्व॒स्तये॑ ॥',
+      transliteration: 'sa naḥ piteva sūnave \'gne sūpāyano bhava | sacasvā naḥ svastaye ||',
+      wordByWord: [],
+      translation: [
+        {
+          translator: 'Ralph T.H. Griffith',
+          text: 'Be to us easy of approach, even as a father to his son: Agni, be with us for our weal.',
+          year: 1896,
+          interpretation: 'literal',
+        },
+      ],
+      commentary: 'The hymn closes by asking Agni to be as approachable as a father to his son and to stay with the worshippers for their well-being (svasti).',
+    },
   ],
 
   // Context and interpretation
@@ -0,0 +1,38 @@
+/**
+ * useHymnLink Hook
+ *
+ * Keeps the hymn browser in step with the URL hash, so the back button,
+ * bookmarks and shared links open the same hymn
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { HymnLink } from '../lib/hymnLinks';
+import { getHymnLink, parseHymnLink } from '../lib/hymnLinks';
+
+/**
+ * Custom hook for the hymn browser's deep link
+ *
+ * @returns [link, setLink] tuple; the link is null while the browser is closed
+ */
+export function useHymnLink(): [HymnLink | null, (link: HymnLink | null) => void] {
+  const [link, setLinkState] = useState<HymnLink | null>(() => parseHymnLink(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setLinkState(parseHymnLink(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const setLink = useCallback((next: HymnLink | null) => {
+    if (next) {
+      // Each hymn opened is a history entry, so back returns to the previous one
+      window.location.hash = getHymnLink(next);
+    } else {
+      // Closing drops the hash without leaving an entry to reopen from
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setLinkState(null);
+    }
+  }, []);
+
+  return [link, setLink];
+}
@@ -129,6 +129,7 @@ export function usePanelShortcuts(panelActions: {
  */
 export function useGlobalShortcuts(actions: {
   openBreathingModal?: () => void;
+  openHymnBrowser?: () => void;
   refresh?: () => void;
   showHelp?: () => void;
 }) {
@@ -143,6 +144,15 @@ export function useGlobalShortcuts(actions: {
     });
   }
 
+  if (actions.openHymnBrowser) {
+    shortcuts.push({
+      key: 'k',
+      ctrl: true,
+      action: actions.openHymnBrowser,
+      description: 'Browse the Rigveda',
+    });
+  }
+
   if (actions.refresh) {
     shortcuts.push({
       key: 'r',
@@ -0,0 +1,26 @@
+/**
+ * usePreferredScript Hook
+ *
+ * The script Sanskrit is shown in, kept with the user's preferences so every
+ * verse in the app changes together
+ */
+
+import { useCallback } from 'react';
+import { usePreferencesContext } from '../context/AppContext';
+import type { TransliterationScheme } from '../lib/transliteration';
+
+/**
+ * Custom hook for the preferred script
+ *
+ * @returns [script, setScript] tuple
+ */
+export function usePreferredScript(): [TransliterationScheme, (script: TransliterationScheme) => void] {
+  const { preferences, setPreferences } = usePreferencesContext();
+
+  const setScript = useCallback(
+    (script: TransliterationScheme) => setPreferences({ script }),
+    [setPreferences]
+  );
+
+  return [preferences.script, setScript];
+}
@@ -0,0 +1,108 @@
+/**
+ * useRigveda Hooks
+ *
+ * Load hymns from the Rigveda corpus, whose mandalas are fetched on demand
+ */
+
+import { useEffect, useState } from 'react';
+import type { RigvedaHymn, RigvedaSuktaSummary } from '../types/rigveda';
+import { getExpandedHymnByReference } from '../data/expandedHymns';
+import { loadMandala, loadRigvedaHymn, loadRigvedaIndex } from '../lib/rigvedaCorpus';
+
+/**
+ * A corpus load in progress or done
+ */
+export interface RigvedaLoadState<T> {
+  /** Loaded data (undefined until loaded, or if not in the corpus) */
+  data: T | undefined;
+  /** Whether the data is being fetched */
+  loading: boolean;
+  /** Error message if the fetch failed */
+  error: string | null;
+}
+
+/**
+ * Result of the latest load, tagged with what it was for
+ */
+interface LoadResult<T> {
+  key: string;
+  data: T | undefined;
+  error: string | null;
+}
+
+/**
+ * Load corpus data for a key, reporting loading until the result for that key arrives
+ */
+function useCorpusLoad<T>(key: string, load: () => Promise<T | undefined>): RigvedaLoadState<T> {
+  const [result, setResult] = useState<LoadResult<T> | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    load().then(
+      (data) => {
+        if (!cancelled) setResult({ key, data, error: null });
+      },
+      (err) => {
+        console.error('Error loading Rigveda corpus:', err);
+        if (!cancelled) setResult({ key, data: undefined, error: 'Could not load this mandala' });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+    // `load` is rebuilt each render; `key` identifies what it loads
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  if (result?.key !== key) {
+    return { data: undefined, loading: true, error: null };
+  }
+  return { data: result.data, loading: false, error: result.error };
+}
+
+/**
+ * Load one hymn, curated content first and the corpus otherwise
+ *
+ * A curated hymn is returned at once; a corpus hymn once its mandala is fetched.
+ *
+ * @param mandala - Mandala number (1-10)
+ * @param sukta - Sukta number within the mandala
+ * @returns The hymn (undefined while loading or if not in the corpus)
+ */
+export function useRigvedaHymn(mandala: number, sukta: number): RigvedaLoadState<RigvedaHymn> {
+  const curated = getExpandedHymnByReference(mandala, sukta);
+  const state = useCorpusLoad(`${mandala}.${sukta}`, () => loadRigvedaHymn(mandala, sukta));
+
+  return curated ? { data: curated, loading: false, error: null } : state;
+}
+
+/**
+ * Load every hymn of a mandala
+ *
+ * @param mandala - Mandala number (1-10)
+ * @returns The mandala's hymns, in sukta order
+ */
+export function useRigvedaMandala(mandala: number): RigvedaLoadState<RigvedaHymn[]> {
+  return useCorpusLoad(String(mandala), () => loadMandala(mandala));
+}
+
+/**
+ * Load every hymn of some mandalas
+ *
+ * @param mandalas - Mandala numbers (1-10), in order; none loads nothing
+ * @returns Their hymns, in mandala and sukta order
+ */
+export function useRigvedaMandalas(mandalas: readonly number[]): RigvedaLoadState<RigvedaHymn[]> {
+  return useCorpusLoad(mandalas.join(','), async () => (await Promise.all(mandalas.map(loadMandala))).flat());
+}
+
+/**
+ * Load a summary of every sukta, without fetching any mandala's text
+ *
+ * @returns Every sukta's place, anukramani entry and verse count, in order
+ */
+export function useRigvedaIndex(): RigvedaLoadState<RigvedaSuktaSummary[]> {
+  return useCorpusLoad('index', loadRigvedaIndex);
+}
@@ -2,12 +2,15 @@
  * useVedicTime Hook
  *
  * Custom hook that manages Vedic time calculations and updates.
- * Updates every 4 seconds (1 prana cycle) by default.
+ * Updates every 4 seconds (1 prana cycle) by default, or follows a playback
+ * timeline with more frequent ticks. Calculations run in the vedic-calendar
+ * worker, so they never block rendering.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { calculateVedicTime } from '../lib/vedic-calendar';
-import type { VedicTime } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getPlaybackMoment } from '../lib/playback';
+import { VedicCalendarService } from '../services/vedicCalendarService';
+import type { PlaybackTimeline, VedicCalendarSettings, VedicTime } from '../types';
 
 export interface UseVedicTimeOptions {
   /** Observer's latitude */
@@ -21,6 +24,18 @@ export interface UseVedicTimeOptions {
 
   /** Enable automatic updates (default: true) */
   autoUpdate?: boolean;
+
+  /** Calendar conventions (ayanamsa, masa system, muhurta mode, polar policy, region) */
+  settings?: VedicCalendarSettings;
+
+  /** Moment to calculate for; null or omitted follows the live time */
+  date?: Date | null;
+
+  /** Timeline being played; takes precedence over `date` */
+  timeline?: PlaybackTimeline | null;
+
+  /** Interval between playback ticks in milliseconds (default: 500) */
+  playbackInterval?: number;
 }
 
 export interface UseVedicTimeResult {
@@ -51,6 +66,10 @@ export function useVedicTime({
   longitude,
   updateInterval = 4000,
   autoUpdate = true,
+  settings = {},
+  date = null,
+  timeline = null,
+  playbackInterval = 500,
 }: UseVedicTimeOptions): UseVedicTimeResult {
   const [vedicTime, setVedicTime] = useState<VedicTime | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -58,22 +77,46 @@ export function useVedicTime({
   const [isActive, setIsActive] = useState(autoUpdate);
 
   const intervalRef = useRef<number | null>(null);
+  const playbackTimeoutRef = useRef<number | null>(null);
+
+  // Only the latest request may update state; earlier answers are stale
+  const latestRequestRef = useRef(0);
+
+  // Callers usually pass a fresh settings object each render; only recalculate
+  // when its contents change
+  const settingsKey = JSON.stringify(settings);
+  const stableSettings = useMemo<VedicCalendarSettings>(
+    () => JSON.parse(settingsKey),
+    [settingsKey]
+  );
+
+  // A fixed moment does not change, so compare by value like the settings
+  const fixedTime = date ? date.getTime() : null;
 
   /**
    * Calculate and update Vedic time
    */
-  const calculateTime = useCallback(() => {
+  const calculateTime = useCallback(async () => {
+    const requestId = ++latestRequestRef.current;
+    const at = timeline
+      ? getPlaybackMoment(timeline)
+      : fixedTime === null
+        ? new Date()
+        : new Date(fixedTime);
+
     try {
-      const time = calculateVedicTime(latitude, longitude);
+      const time = await VedicCalendarService.calculateVedicTime(latitude, longitude, at, stableSettings);
+      if (requestId !== latestRequestRef.current) return;
       setVedicTime(time);
       setError(null);
       setIsLoading(false);
     } catch (err) {
+      if (requestId !== latestRequestRef.current) return;
       console.error('Error calculating Vedic time:', err);
       setError(err instanceof Error ? err.message : 'Failed to calculate Vedic time');
       setIsLoading(false);
     }
-  }, [latitude, longitude]);
+  }, [latitude, longitude, stableSettings, fixedTime, timeline]);
 
   /**
    * Manually refresh Vedic time
@@ -99,36 +142,56 @@ export function useVedicTime({
       clearInterval(intervalRef.current);
       intervalRef.current = null;
     }
+    if (playbackTimeoutRef.current) {
+      clearTimeout(playbackTimeoutRef.current);
+      playbackTimeoutRef.current = null;
+    }
   }, []);
 
   /**
    * Set up automatic updates
    */
   useEffect(() => {
+    let cancelled = false;
+
     // Initial calculation
     calculateTime();
 
-    // Set up interval if auto-update is enabled
-    if (isActive) {
+    if (isActive && timeline) {
+      // Wait for each answer before the next tick so slow calculations cannot pile up
+      const tick = () => {
+        calculateTime().finally(() => {
+          if (!cancelled) {
+            playbackTimeoutRef.current = setTimeout(tick, playbackInterval);
+          }
+        });
+      };
+      playbackTimeoutRef.current = setTimeout(tick, playbackInterval);
+    } else if (isActive && fixedTime === null) {
+      // Set up interval if auto-update is enabled and the clock is live
       intervalRef.current = setInterval(calculateTime, updateInterval);
     }
 
     // Cleanup on unmount or when dependencies change
     return () => {
+      cancelled = true;
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
         intervalRef.current = null;
       }
+      if (playbackTimeoutRef.current) {
+        clearTimeout(playbackTimeoutRef.current);
+        playbackTimeoutRef.current = null;
+      }
     };
-  }, [calculateTime, updateInterval, isActive]);
+  }, [calculateTime, updateInterval, playbackInterval, isActive, fixedTime, timeline]);
 
   /**
-   * Recalculate when location changes
+   * Show loading while a new location is calculated (the effect above recalculates)
    */
   useEffect(() => {
     setIsLoading(true);
-    calculateTime();
-  }, [latitude, longitude, calculateTime]);
+  }, [latitude, longitude]);
 
   return {
     vedicTime,
@@ -5,7 +5,8 @@
  * and helper functions for working with hymn data across the application.
  */
 
-import type { RigvedaHymn, SimpleHymn } from '../types/rigveda';
+import type { HymnSearchCriteria, RigvedaHymn, RigvedaSuktaSummary, SimpleHymn } from '../types/rigveda';
+import { getHymnSearchIndex, searchHymnIndex } from './hymnSearch';
 
 /**
  * Convert expanded hymn to simple format for backward compatibility
@@ -118,7 +119,7 @@ export function getFullHymnTitle(hymn: RigvedaHymn): string {
 /**
  * Extract all unique deities from a collection of hymns
  */
-export function extractDeities(hymns: RigvedaHymn[]): string[] {
+export function extractDeities(hymns: Pick<RigvedaHymn, 'devata' | 'relatedDeities'>[]): string[] {
   const deities = new Set<string>();
   hymns.forEach((hymn) => {
     deities.add(hymn.devata);
@@ -141,19 +142,28 @@ export function extractThemes(hymns: RigvedaHymn[]): string[] {
 /**
  * Extract all unique rishis (seers)
  */
-export function extractRishis(hymns: RigvedaHymn[]): string[] {
+export function extractRishis(hymns: Pick<RigvedaHymn, 'rishi'>[]): string[] {
   const rishis = new Set<string>();
   hymns.forEach((hymn) => rishis.add(hymn.rishi));
   return Array.from(rishis).sort();
 }
 
+/**
+ * Extract all unique meters (chhandas)
+ */
+export function extractMeters(hymns: Pick<RigvedaHymn, 'chhandas'>[]): string[] {
+  const meters = new Set<string>();
+  hymns.forEach((hymn) => meters.add(hymn.chhandas));
+  return Array.from(meters).sort();
+}
+
 /**
  * Filter hymns by difficulty level
  */
-export function getHymnsByDifficulty(
-  hymns: RigvedaHymn[],
+export function getHymnsByDifficulty<H extends Pick<RigvedaHymn, 'difficulty'>>(
+  hymns: H[],
   difficulty: 'beginner' | 'intermediate' | 'advanced'
-): RigvedaHymn[] {
+): H[] {
   return hymns.filter((h) => h.difficulty === difficulty);
 }
 
@@ -183,7 +193,7 @@ export function getRelatedHymns(hymn: RigvedaHymn, allHymns: RigvedaHymn[]): Rig
 /**
  * Get hymns by deity
  */
-export function getHymnsByDeity(hymns: RigvedaHymn[], deity: string): RigvedaHymn[] {
+export function getHymnsByDeity<H extends Pick<RigvedaHymn, 'devata' | 'relatedDeities'>>(hymns: H[], deity: string): H[] {
   return hymns.filter((h) => h.devata === deity || h.relatedDeities.includes(deity));
 }
 
@@ -204,43 +214,64 @@ export function getHymnsByTag(hymns: RigvedaHymn[], tag: string): RigvedaHymn[]
 /**
  * Get hymns by meter (chhandas)
  */
-export function getHymnsByMeter(hymns: RigvedaHymn[], meter: string): RigvedaHymn[] {
+export function getHymnsByMeter<H extends Pick<RigvedaHymn, 'chhandas'>>(hymns: H[], meter: string): H[] {
   return hymns.filter((h) => h.chhandas === meter);
 }
 
 /**
- * Full-text search across hymn content
+ * Full-text search across hymn content, best matches first
+ *
+ * Matches Sanskrit, transliteration and translations in either script,
+ * ignoring diacritics (see hymnSearch).
  */
 export function searchHymns(hymns: RigvedaHymn[], searchTerm: string): RigvedaHymn[] {
-  const term = searchTerm.toLowerCase();
-
-  return hymns.filter((hymn) => {
-    // Search in basic fields
-    if (hymn.devata.toLowerCase().includes(term)) return true;
-    if (hymn.rishi.toLowerCase().includes(term)) return true;
-    if (hymn.historicalContext.toLowerCase().includes(term)) return true;
-
-    // Search in themes and tags
-    if (hymn.philosophicalThemes.some((t) => t.toLowerCase().includes(term))) return true;
-    if (hymn.tags.some((t) => t.toLowerCase().includes(term))) return true;
-
-    // Search in verses
-    if (
-      hymn.verses.some(
-        (v) =>
-          v.sanskrit.includes(term) ||
-          v.transliteration.toLowerCase().includes(term) ||
-          v.translation.some((t) => t.text.toLowerCase().includes(term))
-      )
-    )
-      return true;
-
-    // Search in key terms
-    if (hymn.keyTerms.some((kt) => kt.term.toLowerCase().includes(term) || kt.sanskrit.includes(term)))
-      return true;
-
-    return false;
-  });
+  return searchHymnIndex(getHymnSearchIndex(hymns), searchTerm).map((result) => result.hymn);
+}
+
+/**
+ * Keep the hymns matching any of a facet's values (all hymns if none are chosen)
+ */
+function matchAny<H, T>(hymns: H[], values: T[] | undefined, select: (hymns: H[], value: T) => H[]): H[] {
+  if (!values || values.length === 0) return hymns;
+  const matched = new Set(values.flatMap((value) => select(hymns, value)));
+  return hymns.filter((h) => matched.has(h));
+}
+
+/**
+ * Filter hymns by search criteria
+ *
+ * Within a facet any chosen value matches; across facets all must match.
+ * With a text search, hymns come best match first.
+ */
+export function filterHymns(hymns: RigvedaHymn[], criteria: HymnSearchCriteria): RigvedaHymn[] {
+  // Search first, over the full list, so its index is reused between calls
+  const searchTerm = criteria.fullTextSearch?.trim();
+  let result = searchTerm ? searchHymns(hymns, searchTerm) : hymns;
+
+  result = matchAny(result, criteria.mandala, (list, mandala) => list.filter((h) => h.mandala === mandala));
+  result = matchAny(result, criteria.deity, getHymnsByDeity);
+  result = matchAny(result, criteria.rishi, (list, rishi) => list.filter((h) => h.rishi === rishi));
+  result = matchAny(result, criteria.chhandas, getHymnsByMeter);
+  result = matchAny(result, criteria.difficulty, getHymnsByDifficulty);
+  result = matchAny(result, criteria.theme, getHymnsByTheme);
+  return matchAny(result, criteria.tags, getHymnsByTag);
+}
+
+/**
+ * Filter sukta summaries by the facets they carry (mandala, deity, rishi,
+ * chhandas, difficulty)
+ *
+ * Text, theme and tag criteria need the hymns' text and are not applied.
+ */
+export function filterSuktaSummaries(
+  suktas: RigvedaSuktaSummary[],
+  criteria: HymnSearchCriteria
+): RigvedaSuktaSummary[] {
+  let result = matchAny(suktas, criteria.mandala, (list, mandala) => list.filter((s) => s.mandala === mandala));
+  result = matchAny(result, criteria.deity, getHymnsByDeity);
+  result = matchAny(result, criteria.rishi, (list, rishi) => list.filter((s) => s.rishi === rishi));
+  result = matchAny(result, criteria.chhandas, getHymnsByMeter);
+  return matchAny(result, criteria.difficulty, getHymnsByDifficulty);
 }
 
 /**
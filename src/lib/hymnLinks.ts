@@ -0,0 +1,78 @@
+/**
+ * Hymn Links Module
+ *
+ * Deep links into the hymn browser, carried in the URL hash so they can be
+ * bookmarked and shared without a router:
+ * - `#/rv` opens the browser
+ * - `#/rv/10` opens it on mandala 10
+ * - `#/rv/10/129` opens RV 10.129 in the hymn explorer
+ * - `#/rv/10/129/verses` opens it on the Verses tab
+ * - `#/rv/1/1/verses?q=agnim` also highlights a search in its verses
+ */
+
+import { RIGVEDA_SUKTA_COUNTS } from './rigvedaCorpus';
+
+/**
+ * Place in the hymn browser a link points to
+ */
+export interface HymnLink {
+  /** Mandala to show (1-10) */
+  mandala?: number;
+
+  /** Sukta to open (needs a mandala) */
+  sukta?: number;
+
+  /** Hymn explorer tab to open (needs a sukta) */
+  tab?: string;
+
+  /** Search to highlight in the hymn (needs a sukta) */
+  query?: string;
+}
+
+const LINK_PREFIX = '#/rv';
+
+/**
+ * Build the URL hash for a link
+ *
+ * @param link - Place in the hymn browser
+ * @returns Hash such as `#/rv/10/129`
+ */
+export function getHymnLink({ mandala, sukta, tab, query }: HymnLink): string {
+  const parts = [LINK_PREFIX];
+  if (mandala !== undefined) {
+    parts.push(String(mandala));
+    if (sukta !== undefined) {
+      parts.push(String(sukta));
+      if (tab) parts.push(tab);
+      if (query) return `${parts.join('/')}?${new URLSearchParams({ q: query })}`;
+    }
+  }
+  return parts.join('/');
+}
+
+/**
+ * Read a link from a URL hash
+ *
+ * @param hash - URL hash, with its leading `#`
+ * @returns The link, or null if the hash is not a hymn link or names no real hymn
+ */
+export function parseHymnLink(hash: string): HymnLink | null {
+  const [path, search = ''] = hash.split('?', 2);
+  if (path !== LINK_PREFIX && !path.startsWith(`${LINK_PREFIX}/`)) return null;
+
+  const [mandalaPart, suktaPart, tab] = path.slice(LINK_PREFIX.length + 1).split('/');
+  if (!mandalaPart) return {};
+
+  const mandala = Number(mandalaPart);
+  const suktaCount = RIGVEDA_SUKTA_COUNTS[mandala - 1];
+  if (!Number.isInteger(mandala) || suktaCount === undefined) return null;
+  if (!suktaPart) return { mandala };
+
+  const sukta = Number(suktaPart);
+  if (!Number.isInteger(sukta) || sukta < 1 || sukta > suktaCount) return null;
+  const link: HymnLink = { mandala, sukta };
+  if (tab) link.tab = tab;
+  const query = new URLSearchParams(search).get('q');
+  if (query) link.query = query;
+  return link;
+}
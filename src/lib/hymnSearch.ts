@@ -0,0 +1,490 @@
+/**
+ * Hymn Search Module
+ *
+ * Full-text search over hymns through an inverted index. Every word of the
+ * Sanskrit, its transliteration, the translations and the hymn's metadata is
+ * reduced to a folded Latin term, so one query matches all of them:
+ * - Diacritics fold away (ā → a, ś → s, ṃ → m) and vocalic r and l are
+ *   spelled out (ṛ → ri, ḷ → l), so `rtvijam`-style ASCII input still needs
+ *   `ritvijam` but never a macron
+ * - Brahmic scripts are read into the same folded Latin (see
+ *   transliteration), so `agnim` finds अग्निम् and अग्निम् or అగ్నిమ్ finds agním
+ * - A query word also matches words it begins, which finds words joined by
+ *   sandhi in the Samhita text (`agnim` in अग्निमीळे)
+ *
+ * Quoted words ("hotaram ratnadhatamam") must appear together, in order.
+ * Results are ranked by how rare the matched words are and where they were
+ * found (devata and rishi above text, text above context), with the verses
+ * that matched.
+ */
+
+import type { RigvedaHymn } from '../types/rigveda';
+import { detectScheme, transliterate } from './transliteration';
+
+/**
+ * Where in a hymn a word was found
+ */
+type SearchField = 'devata' | 'rishi' | 'chhandas' | 'metadata' | 'sanskrit' | 'transliteration' | 'translation';
+
+/**
+ * Relative weight of a match in each field
+ */
+const FIELD_WEIGHTS: Readonly<Record<SearchField, number>> = {
+  devata: 5,
+  rishi: 4,
+  chhandas: 3,
+  sanskrit: 2,
+  transliteration: 2,
+  translation: 1.5,
+  metadata: 1,
+};
+
+/**
+ * Weight of a word matched by its beginning rather than in full
+ */
+const PREFIX_MATCH_WEIGHT = 0.5;
+
+/**
+ * Extra weight for words matched together as a phrase
+ */
+const PHRASE_MATCH_WEIGHT = 2;
+
+/**
+ * Shortest query word matched by prefix, and the most words one may expand to
+ */
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_EXPANSIONS = 64;
+
+/**
+ * Share of a hymn's verse scores added to its own
+ */
+const VERSE_HIT_WEIGHT = 0.1;
+
+/**
+ * A searchable unit: a hymn's metadata (verse null) or one verse
+ */
+interface SearchDocument {
+  hymnIndex: number;
+  verse: number | null;
+}
+
+/**
+ * Occurrences of a term in one field of one document
+ */
+interface Posting {
+  doc: number;
+  field: SearchField;
+  positions: number[];
+}
+
+/**
+ * Inverted index over a set of hymns
+ */
+export interface HymnSearchIndex {
+  hymns: RigvedaHymn[];
+  documents: SearchDocument[];
+  postings: Map<string, Posting[]>;
+  /** Indexed terms, sorted, for prefix lookup */
+  terms: string[];
+}
+
+/**
+ * A verse that matched a search
+ */
+export interface VerseHit {
+  verse: number;
+  score: number;
+}
+
+/**
+ * A hymn that matched a search
+ */
+export interface HymnSearchResult {
+  hymn: RigvedaHymn;
+  score: number;
+  /** Verses that matched, in verse order */
+  verseHits: VerseHit[];
+}
+
+/**
+ * A parsed query: single words, and quoted phrases of several words
+ */
+export interface SearchQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+/**
+ * A stretch of text to show, marked if it matched
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// ============================================================================
+// Folding
+// ============================================================================
+
+/**
+ * Fold an IAST word: no case, no diacritics, vocalic r spelled `ri`
+ */
+function foldLatin(word: string): string {
+  return word
+    .normalize('NFD')
+    .toLowerCase()
+    .replace(/r[̣̥]/g, 'ri')
+    .replace(/l̥/g, 'li')
+    .replace(/\p{M}/gu, '');
+}
+
+/**
+ * Words already folded (the corpus repeats most of its vocabulary)
+ */
+const foldedTerms = new Map<string, string>();
+
+/**
+ * Fold one word of any script into its index term
+ *
+ * @param word - A word in a Brahmic script or Latin letters
+ * @returns The folded term (ASCII letters and digits, possibly empty)
+ */
+export function foldTerm(word: string): string {
+  let term = foldedTerms.get(word);
+  if (term === undefined) {
+    const scheme = detectScheme(word);
+    const folded = foldLatin(scheme === 'iast' ? word : transliterate(word, scheme, 'iast', { accents: false }));
+    // `sh` as typed for ś and ṣ
+    term = folded.replace(/[^a-z0-9]/g, '').replace(/sh/g, 's');
+    foldedTerms.set(word, term);
+  }
+  return term;
+}
+
+/**
+ * A word of a text and where it lies
+ */
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split a text into folded words, keeping their places in the text
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{M}\p{N}]+/gu)) {
+    const term = foldTerm(match[0]);
+    if (term) {
+      tokens.push({ term, start: match.index, end: match.index + match[0].length });
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Add a field's text to the index
+ */
+function indexField(
+  postings: Map<string, Posting[]>,
+  doc: number,
+  field: SearchField,
+  texts: string[]
+): void {
+  const fieldPostings = new Map<string, Posting>();
+  let position = 0;
+
+  for (const text of texts) {
+    for (const { term } of tokenize(text)) {
+      let posting = fieldPostings.get(term);
+      if (!posting) {
+        posting = { doc, field, positions: [] };
+        fieldPostings.set(term, posting);
+        const list = postings.get(term);
+        if (list) list.push(posting);
+        else postings.set(term, [posting]);
+      }
+      posting.positions.push(position++);
+    }
+    // Separate texts so a phrase cannot run from one into the next
+    position++;
+  }
+}
+
+/**
+ * Build the search index for a set of hymns
+ *
+ * @param hymns - Hymns to index
+ * @returns The index
+ */
+export function buildHymnSearchIndex(hymns: RigvedaHymn[]): HymnSearchIndex {
+  const documents: SearchDocument[] = [];
+  const postings = new Map<string, Posting[]>();
+
+  hymns.forEach((hymn, hymnIndex) => {
+    const metadataDoc = documents.push({ hymnIndex, verse: null }) - 1;
+    indexField(postings, metadataDoc, 'devata', [hymn.devata, ...hymn.relatedDeities]);
+    indexField(postings, metadataDoc, 'rishi', [hymn.rishi]);
+    indexField(postings, metadataDoc, 'chhandas', [hymn.chhandas]);
+    indexField(postings, metadataDoc, 'metadata', [
+      hymn.historicalContext,
+      ...hymn.philosophicalThemes,
+      ...hymn.tags,
+      ...hymn.keyTerms.flatMap((term) => [term.term, term.sanskrit, term.definition]),
+    ]);
+
+    hymn.verses.forEach((verse) => {
+      const verseDoc = documents.push({ hymnIndex, verse: verse.number }) - 1;
+      indexField(postings, verseDoc, 'sanskrit', [verse.sanskrit]);
+      indexField(postings, verseDoc, 'transliteration', [verse.transliteration]);
+      indexField(postings, verseDoc, 'translation', [
+        ...verse.translation.map((translation) => translation.text),
+        verse.commentary,
+      ]);
+    });
+  });
+
+  return { hymns, documents, postings, terms: Array.from(postings.keys()).sort() };
+}
+
+/**
+ * Indexes already built, by the hymn array they cover
+ */
+const indexCache = new WeakMap<RigvedaHymn[], HymnSearchIndex>();
+
+/**
+ * Get the search index for a set of hymns, building it on first use
+ *
+ * The index is kept for as long as the same array is in use.
+ *
+ * @param hymns - Hymns to search
+ * @returns The index
+ */
+export function getHymnSearchIndex(hymns: RigvedaHymn[]): HymnSearchIndex {
+  let index = indexCache.get(hymns);
+  if (!index) {
+    index = buildHymnSearchIndex(hymns);
+    indexCache.set(hymns, index);
+  }
+  return index;
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Parse a query into words and quoted phrases
+ *
+ * @param query - Text typed by the user
+ * @returns Folded words and phrases
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+  const terms: string[] = [];
+  const phrases: string[][] = [];
+
+  for (const match of query.matchAll(/"([^"]*)"?|[^\s"]+/g)) {
+    const words = tokenize(match[1] ?? match[0]).map((token) => token.term);
+    if (match[1] !== undefined && words.length > 1) {
+      phrases.push(words);
+    } else {
+      terms.push(...words);
+    }
+  }
+
+  return { terms, phrases };
+}
+
+/**
+ * Whether an indexed term matches a query word, and how well
+ */
+function matchWeight(term: string, word: string): number {
+  if (term === word) return 1;
+  if (word.length >= MIN_PREFIX_LENGTH && term.startsWith(word)) return PREFIX_MATCH_WEIGHT;
+  return 0;
+}
+
+/**
+ * Indexed terms a query word matches, with their weights
+ */
+function expandWord(index: HymnSearchIndex, word: string): [term: string, weight: number][] {
+  const matches: [string, number][] = [];
+  if (index.postings.has(word)) matches.push([word, 1]);
+  if (word.length < MIN_PREFIX_LENGTH) return matches;
+
+  // Binary search for the first term at or after the word
+  let low = 0;
+  let high = index.terms.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (index.terms[mid] < word) low = mid + 1;
+    else high = mid;
+  }
+
+  for (let i = low; i < index.terms.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+    const term = index.terms[i];
+    if (!term.startsWith(word)) break;
+    if (term !== word) matches.push([term, PREFIX_MATCH_WEIGHT]);
+  }
+  return matches;
+}
+
+/**
+ * Inverse document frequency of a set of postings
+ */
+function idf(index: HymnSearchIndex, postings: Posting[]): number {
+  const docs = new Set(postings.map((posting) => posting.doc)).size;
+  return Math.log(1 + index.documents.length / Math.max(1, docs));
+}
+
+/**
+ * Score each document for one query word
+ */
+function scoreWord(index: HymnSearchIndex, word: string): Map<number, number> {
+  const scores = new Map<number, number>();
+
+  for (const [term, weight] of expandWord(index, word)) {
+    const postings = index.postings.get(term) ?? [];
+    const termIdf = idf(index, postings);
+    for (const posting of postings) {
+      const score = weight * termIdf * FIELD_WEIGHTS[posting.field] * (1 + Math.log(posting.positions.length));
+      scores.set(posting.doc, Math.max(scores.get(posting.doc) ?? 0, score));
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Score each document for a phrase (its words at consecutive positions of one field)
+ */
+function scorePhrase(index: HymnSearchIndex, words: string[]): Map<number, number> {
+  // Positions of each word, by document and field
+  const occurrences = words.map((word) => {
+    const byField = new Map<string, Set<number>>();
+    let wordIdf = 0;
+    for (const [term, weight] of expandWord(index, word)) {
+      const postings = index.postings.get(term) ?? [];
+      wordIdf = Math.max(wordIdf, weight * idf(index, postings));
+      for (const posting of postings) {
+        const key = `${posting.doc}|${posting.field}`;
+        const positions = byField.get(key) ?? new Set<number>();
+        posting.positions.forEach((position) => positions.add(position));
+        byField.set(key, positions);
+      }
+    }
+    return { byField, wordIdf };
+  });
+
+  const scores = new Map<number, number>();
+  const phraseIdf = occurrences.reduce((sum, { wordIdf }) => sum + wordIdf, 0);
+
+  occurrences[0].byField.forEach((starts, key) => {
+    const found = Array.from(starts).some((start) =>
+      occurrences.every(({ byField }, offset) => byField.get(key)?.has(start + offset))
+    );
+    if (!found) return;
+
+    const [doc, field] = key.split('|') as [string, SearchField];
+    const score = phraseIdf * FIELD_WEIGHTS[field] * PHRASE_MATCH_WEIGHT;
+    scores.set(Number(doc), Math.max(scores.get(Number(doc)) ?? 0, score));
+  });
+
+  return scores;
+}
+
+/**
+ * Search an index
+ *
+ * A hymn matches when every word and phrase of the query is found in it
+ * (in its metadata or any of its verses).
+ *
+ * @param index - Index to search
+ * @param query - Text typed by the user
+ * @returns Matching hymns, best first
+ */
+export function searchHymnIndex(index: HymnSearchIndex, query: string): HymnSearchResult[] {
+  const { terms, phrases } = parseSearchQuery(query);
+  const unitScores = [
+    ...terms.map((term) => scoreWord(index, term)),
+    ...phrases.map((phrase) => scorePhrase(index, phrase)),
+  ];
+  if (unitScores.length === 0) return [];
+
+  // Best score of each query unit within each hymn, and each verse's total
+  const hymnUnitScores = new Map<number, number[]>();
+  const verseScores = new Map<number, Map<number, number>>();
+
+  unitScores.forEach((scores, unit) => {
+    scores.forEach((score, doc) => {
+      const { hymnIndex, verse } = index.documents[doc];
+
+      const best = hymnUnitScores.get(hymnIndex) ?? new Array<number>(unitScores.length).fill(0);
+      best[unit] = Math.max(best[unit], score);
+      hymnUnitScores.set(hymnIndex, best);
+
+      if (verse !== null) {
+        const verses = verseScores.get(hymnIndex) ?? new Map<number, number>();
+        verses.set(verse, (verses.get(verse) ?? 0) + score);
+        verseScores.set(hymnIndex, verses);
+      }
+    });
+  });
+
+  const results: HymnSearchResult[] = [];
+  hymnUnitScores.forEach((best, hymnIndex) => {
+    if (best.some((score) => score === 0)) return;
+
+    const verseHits = Array.from(verseScores.get(hymnIndex) ?? [], ([verse, score]) => ({ verse, score })).sort(
+      (a, b) => a.verse - b.verse
+    );
+    const score =
+      best.reduce((sum, unitScore) => sum + unitScore, 0) +
+      VERSE_HIT_WEIGHT * verseHits.reduce((sum, hit) => sum + hit.score, 0);
+
+    results.push({ hymn: index.hymns[hymnIndex], score, verseHits });
+  });
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.hymn.mandala - b.hymn.mandala || a.hymn.sukta - b.hymn.sukta
+  );
+}
+
+// ============================================================================
+// Highlighting
+// ============================================================================
+
+/**
+ * Split a text into the words a query matches and the text between them
+ *
+ * Words are matched as in search (folded, across scripts, by prefix), so a
+ * verse in one script highlights for a query in another.
+ *
+ * @param text - Text to show
+ * @param query - Text typed by the user
+ * @returns Segments covering the whole text, in order
+ */
+export function getHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const { terms, phrases } = parseSearchQuery(query);
+  const words = [...terms, ...phrases.flat()];
+  if (words.length === 0) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+
+  for (const token of tokenize(text)) {
+    if (!words.some((word) => matchWeight(token.term, word) > 0)) continue;
+    if (token.start > last) segments.push({ text: text.slice(last, token.start), match: false });
+    segments.push({ text: text.slice(token.start, token.end), match: true });
+    last = token.end;
+  }
+
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+}
@@ -0,0 +1,129 @@
+/**
+ * Playback Module
+ *
+ * Runs the clock on a virtual timeline faster than real time, so a whole
+ * day or lunation can be watched in under a minute:
+ * - Muhurta speed: one muhurta (48 minutes) per second, looping each day
+ * - Day speed: one day per second, looping each lunation
+ * - Lunation speed: one mean lunation per minute, looping each lunation
+ *
+ * A timeline is anchored at a virtual moment (its origin) and the real time
+ * playback started; the moment shown at any real time follows from those.
+ */
+
+import { MINUTES_PER_MUHURTA } from './vedic-calendar';
+
+/**
+ * Playback speed
+ */
+export type PlaybackSpeed = 'muhurta' | 'day' | 'lunation';
+
+/**
+ * Virtual timeline being played
+ */
+export interface PlaybackTimeline {
+  /** Virtual moment shown when playback started (and where each loop restarts) */
+  origin: Date;
+
+  /** Real time playback started, in milliseconds since the Unix epoch */
+  startedAt: number;
+
+  /** Virtual milliseconds per real millisecond */
+  rate: number;
+
+  /** Virtual span after which playback returns to the origin, or null to run on */
+  loopMs: number | null;
+}
+
+/**
+ * Playback settings chosen by the user
+ */
+export interface PlaybackState {
+  /** Selected speed */
+  speed: PlaybackSpeed;
+
+  /** Whether playback loops over one cycle */
+  loop: boolean;
+
+  /** Timeline being played, or null while paused */
+  timeline: PlaybackTimeline | null;
+}
+
+/**
+ * Mean length of a synodic month (lunation) in days
+ */
+const MEAN_SYNODIC_MONTH_DAYS = 29.530589;
+
+const MS_PER_SECOND = 1000;
+const MS_PER_MINUTE = 60 * MS_PER_SECOND;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const MS_PER_LUNATION = MEAN_SYNODIC_MONTH_DAYS * MS_PER_DAY;
+
+/**
+ * Rate and loop span of each speed, slowest first
+ */
+export const PLAYBACK_SPEEDS: Readonly<
+  Record<PlaybackSpeed, { label: string; description: string; rate: number; loopMs: number }>
+> = {
+  muhurta: {
+    label: 'Muhurta/s',
+    description: 'one muhurta per second',
+    rate: (MINUTES_PER_MUHURTA * MS_PER_MINUTE) / MS_PER_SECOND,
+    loopMs: MS_PER_DAY,
+  },
+  day: {
+    label: 'Day/s',
+    description: 'one day per second',
+    rate: MS_PER_DAY / MS_PER_SECOND,
+    loopMs: MS_PER_LUNATION,
+  },
+  lunation: {
+    label: 'Lunation/min',
+    description: 'one lunation per minute',
+    rate: MS_PER_LUNATION / MS_PER_MINUTE,
+    loopMs: MS_PER_LUNATION,
+  },
+};
+
+/**
+ * Default playback settings (paused)
+ */
+export const DEFAULT_PLAYBACK_STATE: PlaybackState = {
+  speed: 'day',
+  loop: false,
+  timeline: null,
+};
+
+/**
+ * Start a timeline at a virtual moment
+ *
+ * @param origin - Virtual moment to start from
+ * @param speed - Playback speed
+ * @param loop - Whether to return to the origin after one cycle
+ * @param now - Real time in milliseconds (default: now)
+ * @returns A timeline showing `origin` at `now`
+ */
+export function createPlaybackTimeline(
+  origin: Date,
+  speed: PlaybackSpeed,
+  loop: boolean,
+  now: number = Date.now()
+): PlaybackTimeline {
+  const { rate, loopMs } = PLAYBACK_SPEEDS[speed];
+  return { origin, startedAt: now, rate, loopMs: loop ? loopMs : null };
+}
+
+/**
+ * Get the virtual moment a timeline shows at a real time
+ *
+ * @param timeline - Timeline being played
+ * @param now - Real time in milliseconds (default: now)
+ * @returns The virtual moment
+ */
+export function getPlaybackMoment(timeline: PlaybackTimeline, now: number = Date.now()): Date {
+  let elapsed = (now - timeline.startedAt) * timeline.rate;
+  if (timeline.loopMs !== null) {
+    elapsed %= timeline.loopMs;
+  }
+  return new Date(timeline.origin.getTime() + elapsed);
+}
@@ -0,0 +1,295 @@
+/**
+ * Rigveda Corpus Module
+ *
+ * Loads the full text of the Rigveda (Devanagari, IAST and Griffith's
+ * translation, with rishi, devata and chhandas for each sukta) as
+ * RigvedaHymn records.
+ *
+ * The corpus is built from its source texts into one JSON chunk per mandala
+ * (src/data/rigveda/mandala-NN.json) by `npm run corpus:fetch`, which every
+ * production build runs first. Each chunk is split into its own
+ * bundle file and fetched the first time a hymn from that mandala is asked
+ * for, so the main bundle stays small. A small index of every sukta's
+ * anukramani entry and verse count (src/data/rigveda/index.json) lists and
+ * filters the suktas without fetching any text.
+ *
+ * Corpus hymns carry only the text and index; where a curated hymn with
+ * commentary, symbolism and study material exists (see expandedHymns), it
+ * takes the corpus hymn's place.
+ */
+
+import type {
+  RigvedaCorpusIndex,
+  RigvedaCorpusIndexEntry,
+  RigvedaCorpusMandala,
+  RigvedaCorpusSukta,
+  RigvedaHymn,
+  RigvedaSuktaSummary,
+} from '../types/rigveda';
+import { EXPANDED_HYMNS, getExpandedHymnByReference } from '../data/expandedHymns';
+import { calculateReadingTime } from './hymnAdapter';
+
+/**
+ * Suktas in each mandala (1,028 in all)
+ */
+export const RIGVEDA_SUKTA_COUNTS: readonly number[] = [191, 43, 62, 58, 87, 75, 104, 103, 114, 191];
+
+/**
+ * Most verses in a hymn rated for beginners, and for intermediate study
+ */
+const BEGINNER_MAX_VERSES = 9;
+const INTERMEDIATE_MAX_VERSES = 16;
+
+/**
+ * Translator credited for the corpus translation
+ */
+const CORPUS_TRANSLATOR = 'Ralph T.H. Griffith';
+const CORPUS_TRANSLATION_YEAR = 1896;
+
+/**
+ * Corpus chunks, one lazily loaded module per mandala
+ */
+const MANDALA_CHUNKS = import.meta.glob<RigvedaCorpusMandala>('../data/rigveda/mandala-*.json', {
+  import: 'default',
+});
+
+/**
+ * Corpus index, lazily loaded (matches nothing until the corpus is built)
+ */
+const INDEX_CHUNK = import.meta.glob<RigvedaCorpusIndex>('../data/rigveda/index.json', {
+  import: 'default',
+});
+
+/**
+ * Hymns of each mandala, loading or loaded
+ */
+const mandalaCache = new Map<number, Promise<RigvedaHymn[]>>();
+
+/**
+ * Summaries of every sukta, loading or loaded
+ */
+let indexCache: Promise<RigvedaSuktaSummary[]> | null = null;
+
+/**
+ * Get the hymn ID for a sukta (e.g. "rv-1-1")
+ */
+export function getRigvedaHymnId(mandala: number, sukta: number): string {
+  return `rv-${mandala}-${sukta}`;
+}
+
+/**
+ * Path of a mandala's corpus chunk, as matched by MANDALA_CHUNKS
+ */
+function getChunkPath(mandala: number): string {
+  return `../data/rigveda/mandala-${String(mandala).padStart(2, '0')}.json`;
+}
+
+/**
+ * Whether a mandala's corpus chunk has been built
+ */
+export function isMandalaInCorpus(mandala: number): boolean {
+  return getChunkPath(mandala) in MANDALA_CHUNKS;
+}
+
+/**
+ * Split an anukramani devata entry, which names a sukta's deities together
+ * ("Indra, Agni"), into the main deity and the others
+ */
+function splitDevata(devata: string): [devata: string, relatedDeities: string[]] {
+  const [main = 'Unknown', ...related] = devata
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+  return [main, related];
+}
+
+/**
+ * Rate a hymn's difficulty by its length
+ */
+function getDifficulty(verseCount: number): RigvedaHymn['difficulty'] {
+  return verseCount <= BEGINNER_MAX_VERSES
+    ? 'beginner'
+    : verseCount <= INTERMEDIATE_MAX_VERSES
+      ? 'intermediate'
+      : 'advanced';
+}
+
+/**
+ * Build a hymn record from a corpus sukta
+ */
+function toRigvedaHymn(mandala: number, entry: RigvedaCorpusSukta): RigvedaHymn {
+  const [devata, relatedDeities] = splitDevata(entry.devata);
+  const hymn: RigvedaHymn = {
+    id: getRigvedaHymnId(mandala, entry.sukta),
+    mandala,
+    sukta: entry.sukta,
+    rishi: entry.rishi || 'Unknown',
+    devata,
+    chhandas: entry.chhandas || 'Unknown',
+
+    verses: entry.verses.map(([number, sanskrit, transliteration, translation, accentedSanskrit]) => ({
+      number,
+      sanskrit,
+      ...(accentedSanskrit && { accentedSanskrit }),
+      transliteration,
+      wordByWord: [],
+      translation: translation
+        ? [{ translator: CORPUS_TRANSLATOR, text: translation, year: CORPUS_TRANSLATION_YEAR, interpretation: 'literal' }]
+        : [],
+      commentary: '',
+    })),
+
+    historicalContext: '',
+    philosophicalThemes: [],
+    symbolism: [],
+
+    relatedHymns: [],
+    relatedConcepts: [],
+    relatedDeities,
+
+    commentaries: [],
+    scholarlyNotes: [],
+
+    keyTerms: [],
+    discussionQuestions: [],
+    practicalApplications: [],
+
+    difficulty: getDifficulty(entry.verses.length),
+    estimatedStudyTime: 0,
+    tags: [devata, entry.chhandas, `Mandala ${mandala}`].filter(Boolean),
+  };
+
+  hymn.estimatedStudyTime = calculateReadingTime(hymn);
+  return hymn;
+}
+
+/**
+ * Summarize a hymn for listing
+ */
+function toSuktaSummary(hymn: RigvedaHymn): RigvedaSuktaSummary {
+  return {
+    id: hymn.id,
+    mandala: hymn.mandala,
+    sukta: hymn.sukta,
+    rishi: hymn.rishi,
+    devata: hymn.devata,
+    relatedDeities: hymn.relatedDeities,
+    chhandas: hymn.chhandas,
+    verseCount: hymn.verses.length,
+    difficulty: hymn.difficulty,
+  };
+}
+
+/**
+ * Summarize a corpus index entry, as toRigvedaHymn would build its hymn
+ */
+function fromIndexEntry(entry: RigvedaCorpusIndexEntry): RigvedaSuktaSummary {
+  const [devata, relatedDeities] = splitDevata(entry.devata);
+  return {
+    id: getRigvedaHymnId(entry.mandala, entry.sukta),
+    mandala: entry.mandala,
+    sukta: entry.sukta,
+    rishi: entry.rishi || 'Unknown',
+    devata,
+    relatedDeities,
+    chhandas: entry.chhandas || 'Unknown',
+    verseCount: entry.verseCount,
+    difficulty: getDifficulty(entry.verseCount),
+  };
+}
+
+/**
+ * Load the index and summarize its suktas, curated hymns in place of corpus ones
+ */
+async function fetchIndex(): Promise<RigvedaSuktaSummary[]> {
+  const loadIndex = INDEX_CHUNK['../data/rigveda/index.json'];
+  if (!loadIndex) {
+    // Corpus not built: only the curated hymns are available
+    return EXPANDED_HYMNS.map(toSuktaSummary);
+  }
+
+  const index = await loadIndex();
+  return index.suktas.map((entry) => {
+    const curated = getExpandedHymnByReference(entry.mandala, entry.sukta);
+    return curated ? toSuktaSummary(curated) : fromIndexEntry(entry);
+  });
+}
+
+/**
+ * Load a summary of every sukta, without its text
+ *
+ * Only the small corpus index is fetched, once; later calls share the
+ * result. A failed fetch is not cached, so it can be retried.
+ *
+ * @returns Every sukta's place, anukramani entry and verse count, in order
+ */
+export function loadRigvedaIndex(): Promise<RigvedaSuktaSummary[]> {
+  if (!indexCache) {
+    const summaries = fetchIndex();
+    indexCache = summaries;
+    summaries.catch(() => {
+      indexCache = null;
+    });
+  }
+  return indexCache;
+}
+
+/**
+ * Load a mandala's chunk and build its hymns, curated hymns in place of corpus ones
+ */
+async function fetchMandala(mandala: number): Promise<RigvedaHymn[]> {
+  const loadChunk = MANDALA_CHUNKS[getChunkPath(mandala)];
+  if (!loadChunk) {
+    // Corpus not built: only the curated hymns are available
+    return EXPANDED_HYMNS.filter((hymn) => hymn.mandala === mandala);
+  }
+
+  const chunk = await loadChunk();
+  return chunk.suktas.map(
+    (entry) => getExpandedHymnByReference(mandala, entry.sukta) ?? toRigvedaHymn(mandala, entry)
+  );
+}
+
+/**
+ * Load every hymn of a mandala, in sukta order
+ *
+ * The mandala's chunk is fetched once; later calls share the result. A
+ * failed fetch is not cached, so it can be retried.
+ *
+ * @param mandala - Mandala number (1-10)
+ * @returns The mandala's hymns
+ */
+export function loadMandala(mandala: number): Promise<RigvedaHymn[]> {
+  let hymns = mandalaCache.get(mandala);
+  if (!hymns) {
+    hymns = fetchMandala(mandala);
+    mandalaCache.set(mandala, hymns);
+    hymns.catch(() => mandalaCache.delete(mandala));
+  }
+  return hymns;
+}
+
+/**
+ * Load one hymn
+ *
+ * @param mandala - Mandala number (1-10)
+ * @param sukta - Sukta number within the mandala
+ * @returns The hymn, or undefined if it is not in the corpus
+ */
+export async function loadRigvedaHymn(mandala: number, sukta: number): Promise<RigvedaHymn | undefined> {
+  const curated = getExpandedHymnByReference(mandala, sukta);
+  if (curated) return curated;
+
+  const hymns = await loadMandala(mandala);
+  return hymns.find((hymn) => hymn.sukta === sukta);
+}
+
+/**
+ * Load every hymn of the Rigveda, fetching all mandala chunks
+ *
+ * @returns All hymns, in mandala and sukta order
+ */
+export async function loadRigveda(): Promise<RigvedaHymn[]> {
+  const mandalas = await Promise.all(RIGVEDA_SUKTA_COUNTS.map((_, index) => loadMandala(index + 1)));
+  return mandalas.flat();
+}
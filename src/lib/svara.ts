@@ -0,0 +1,213 @@
+/**
+ * Svara Module
+ *
+ * Reads the Vedic accent (svara) of each syllable from Rigveda text in the
+ * Shakala notation, where only two accents are marked:
+ * - anudātta (low) with a bar below (अ॒)
+ * - svarita (the fall after an udātta) with a stroke above (मी॑); an
+ *   independent svarita may also be written ᳚
+ *
+ * Unmarked syllables are udātta, unless they follow a svarita: those are
+ * pracaya, held at the udātta's pitch until the next anudātta. The run of
+ * accents restarts after each danda, as recitation pauses there.
+ *
+ * Pitches follow the living recitation: anudātta below the reciting note,
+ * udātta and pracaya on it, svarita raised above it.
+ */
+
+import { transliterate } from './transliteration';
+
+/**
+ * Accent of a syllable
+ */
+export type Svara = 'udatta' | 'anudatta' | 'svarita' | 'pracaya';
+
+/**
+ * Relative pitch of each accent: 0 low, 1 the reciting note, 2 raised
+ */
+export const SVARA_PITCH: Readonly<Record<Svara, number>> = {
+  anudatta: 0,
+  udatta: 1,
+  pracaya: 1,
+  svarita: 2,
+};
+
+/**
+ * Names of the accents, for legends and labels
+ */
+export const SVARA_NAMES: Readonly<Record<Svara, string>> = {
+  udatta: 'Udātta',
+  anudatta: 'Anudātta',
+  svarita: 'Svarita',
+  pracaya: 'Pracaya',
+};
+
+/**
+ * How accents are shown: hidden, as the written marks, or as a pitch contour
+ */
+export type SvaraDisplay = 'off' | 'marks' | 'contour';
+
+/**
+ * A syllable (akshara) of accented text, or text between syllables
+ */
+export interface SvaraSyllable {
+  /** The syllable as written, accent marks included */
+  text: string;
+  /** Accent of the syllable (null for spaces and punctuation) */
+  svara: Svara | null;
+}
+
+const ANUDATTA_MARK = '॒';
+const SVARITA_MARKS = ['॑', '᳚'];
+
+/**
+ * Kinds of Devanagari character, for splitting text into syllables
+ */
+type CharKind = 'consonant' | 'vowel' | 'vowel-sign' | 'virama' | 'mark' | 'danda' | 'other';
+
+function getCharKind(char: string): CharKind {
+  const code = char.codePointAt(0)!;
+  if ((code >= 0x0915 && code <= 0x0939) || (code >= 0x0958 && code <= 0x095f)) return 'consonant';
+  if ((code >= 0x0904 && code <= 0x0914) || code === 0x0960 || code === 0x0961 || code === 0x0950) return 'vowel';
+  if ((code >= 0x093e && code <= 0x094c) || code === 0x0962 || code === 0x0963) return 'vowel-sign';
+  if (code === 0x094d) return 'virama';
+  if (char === '।' || char === '॥') return 'danda';
+  // Chandrabindu, anusvara, visarga, nukta, avagraha and Vedic marks
+  if (
+    (code >= 0x0900 && code <= 0x0903) ||
+    code === 0x093c ||
+    code === 0x093d ||
+    (code >= 0x0951 && code <= 0x0954) ||
+    (code >= 0x1cd0 && code <= 0x1cff) ||
+    (code >= 0xa8e0 && code <= 0xa8ff)
+  ) {
+    return 'mark';
+  }
+  return 'other';
+}
+
+/**
+ * A syllable being built
+ */
+interface Akshara {
+  text: string;
+  /** Whether it has its vowel (a consonant ending in virama does not yet) */
+  voiced: boolean;
+}
+
+/**
+ * Split Devanagari text into syllables and the text between them
+ *
+ * A consonant with virama joins the next consonant's syllable, or the one
+ * before it at the end of a word (अ॒ग्नि, विज॑म्).
+ */
+function splitAksharas(text: string): { text: string; syllable: boolean; danda: boolean }[] {
+  const parts: { text: string; syllable: boolean; danda: boolean }[] = [];
+  let current: Akshara | null = null;
+
+  const close = () => {
+    if (!current) return;
+    const previous = parts[parts.length - 1];
+    if (!current.voiced && previous?.syllable) {
+      previous.text += current.text;
+    } else {
+      parts.push({ text: current.text, syllable: true, danda: false });
+    }
+    current = null;
+  };
+
+  for (const char of text) {
+    const kind = getCharKind(char);
+    const akshara: Akshara | null = current;
+
+    if (kind === 'consonant' && akshara && !akshara.voiced && akshara.text.endsWith('्')) {
+      akshara.text += char;
+      akshara.voiced = true;
+    } else if (kind === 'consonant' || kind === 'vowel') {
+      close();
+      current = { text: char, voiced: true };
+    } else if (kind === 'virama' && akshara) {
+      akshara.text += char;
+      akshara.voiced = false;
+    } else if ((kind === 'vowel-sign' || kind === 'mark') && akshara) {
+      akshara.text += char;
+    } else {
+      close();
+      parts.push({ text: char, syllable: false, danda: kind === 'danda' });
+    }
+  }
+
+  close();
+  return parts;
+}
+
+/**
+ * Read the accent of every syllable of Rigveda text
+ *
+ * @param accented - Devanagari text with Shakala accent marks
+ * @returns Syllables with their accents, and the text between them, in order
+ */
+export function getSvaraSyllables(accented: string): SvaraSyllable[] {
+  const syllables: SvaraSyllable[] = [];
+  let afterSvarita = false;
+
+  for (const part of splitAksharas(accented)) {
+    if (!part.syllable) {
+      if (part.danda) afterSvarita = false;
+      // Keep runs of spaces and punctuation together
+      const previous = syllables[syllables.length - 1];
+      if (previous && previous.svara === null) previous.text += part.text;
+      else syllables.push({ text: part.text, svara: null });
+      continue;
+    }
+
+    let svara: Svara;
+    if (part.text.includes(ANUDATTA_MARK)) {
+      svara = 'anudatta';
+      afterSvarita = false;
+    } else if (SVARITA_MARKS.some((mark) => part.text.includes(mark))) {
+      svara = 'svarita';
+      afterSvarita = true;
+    } else {
+      svara = afterSvarita ? 'pracaya' : 'udatta';
+    }
+    syllables.push({ text: part.text, svara });
+  }
+
+  return syllables;
+}
+
+/**
+ * Group syllables into words, split at spaces
+ *
+ * @param syllables - Syllables of a text (see getSvaraSyllables)
+ * @returns Each word's syllables; punctuation is a word of its own
+ */
+export function groupSvaraWords(syllables: SvaraSyllable[]): SvaraSyllable[][] {
+  const words: SvaraSyllable[][] = [];
+  let word: SvaraSyllable[] = [];
+
+  for (const syllable of syllables) {
+    if (syllable.svara === null && /\s/.test(syllable.text)) {
+      if (word.length > 0) words.push(word);
+      word = [];
+      const rest = syllable.text.trim();
+      if (rest) words.push([{ text: rest, svara: null }]);
+    } else {
+      word.push(syllable);
+    }
+  }
+
+  if (word.length > 0) words.push(word);
+  return words;
+}
+
+/**
+ * Remove accent marks from text
+ *
+ * @param accented - Devanagari text with accent marks
+ * @returns The text without them
+ */
+export function stripSvaras(accented: string): string {
+  return transliterate(accented, 'devanagari', 'devanagari', { accents: false });
+}
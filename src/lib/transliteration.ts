@@ -0,0 +1,815 @@
+/**
+ * Transliteration Module
+ *
+ * Converts Sanskrit between scripts and romanization schemes:
+ * - Brahmic scripts: Devanagari, Bengali, Telugu, Tamil, Kannada
+ * - Romanizations: IAST, Harvard-Kyoto, ITRANS, SLP1
+ *
+ * Text is read into a sequence of sounds (vowels, consonants, signs and
+ * accents) and written out in the target scheme, so any scheme converts to
+ * any other. Vedic accent marks are kept, copied one for one by their
+ * shape: the stroke above, bar below and double stroke above of Devanagari
+ * (॑ ॒ ᳚) become the acute, macron below and grave of IAST, `\'` `\_` `\"`
+ * in Harvard-Kyoto and ITRANS, and `/` `\` `^` in SLP1.
+ *
+ * The marks are not read as accents. In the Śākala notation of the Rigveda
+ * the stroke above marks the svarita after the udātta, not the udātta
+ * itself, so romanized output carries the marks where the Devanagari has
+ * them rather than the acute-on-udātta of Rigveda romanizations (see the
+ * svara module for reading the accents).
+ *
+ * Conventions where schemes differ:
+ * - ळ (the Rigvedic intervocalic ḍ) is written ḷ in IAST, as in Rigveda
+ *   editions, so vocalic ऌ is written l̥ (ISO 15919)
+ * - Tamil has no letters for voiced and aspirated stops; they are written
+ *   with the base letter and a superscript number after the syllable
+ *   (க² kha, க³ ga, க⁴ gha), and vocalic ṛ as ரு. Tamil is therefore not
+ *   fully reversible.
+ * - Bengali writes va and ḷa as ব and ল
+ */
+
+// ============================================================================
+// Schemes
+// ============================================================================
+
+/**
+ * Scripts and romanizations text can be converted between
+ */
+export type TransliterationScheme =
+  | 'devanagari'
+  | 'bengali'
+  | 'telugu'
+  | 'tamil'
+  | 'kannada'
+  | 'iast'
+  | 'harvard-kyoto'
+  | 'itrans'
+  | 'slp1';
+
+/**
+ * Description of a scheme, for choosing one
+ */
+export interface TransliterationSchemeInfo {
+  id: TransliterationScheme;
+  name: string;
+  /** Whether the scheme is written in Latin letters */
+  roman: boolean;
+}
+
+/**
+ * All schemes, Brahmic scripts first
+ */
+export const TRANSLITERATION_SCHEMES: readonly TransliterationSchemeInfo[] = [
+  { id: 'devanagari', name: 'Devanagari', roman: false },
+  { id: 'bengali', name: 'Bengali', roman: false },
+  { id: 'telugu', name: 'Telugu', roman: false },
+  { id: 'tamil', name: 'Tamil', roman: false },
+  { id: 'kannada', name: 'Kannada', roman: false },
+  { id: 'iast', name: 'IAST', roman: true },
+  { id: 'harvard-kyoto', name: 'Harvard-Kyoto', roman: true },
+  { id: 'itrans', name: 'ITRANS', roman: true },
+  { id: 'slp1', name: 'SLP1', roman: true },
+];
+
+/**
+ * Options for a conversion
+ */
+export interface TransliterationOptions {
+  /** Keep Vedic accent marks (default true) */
+  accents?: boolean;
+}
+
+// ============================================================================
+// Sounds
+// ============================================================================
+
+/**
+ * Sounds, named by their IAST spelling
+ */
+const VOWELS = ['a', 'ā', 'i', 'ī', 'u', 'ū', 'ṛ', 'ṝ', 'l̥', 'l̥̄', 'e', 'ai', 'o', 'au'] as const;
+
+const CONSONANTS = [
+  'k', 'kh', 'g', 'gh', 'ṅ',
+  'c', 'ch', 'j', 'jh', 'ñ',
+  'ṭ', 'ṭh', 'ḍ', 'ḍh', 'ṇ',
+  't', 'th', 'd', 'dh', 'n',
+  'p', 'ph', 'b', 'bh', 'm',
+  'y', 'r', 'l', 'v',
+  'ś', 'ṣ', 's', 'h', 'ḷ',
+] as const;
+
+const SIGNS = ['anusvara', 'chandrabindu', 'visarga', 'avagraha', 'danda', 'double-danda'] as const;
+
+const ACCENTS = ['stroke-above', 'bar-below', 'double-stroke-above'] as const;
+
+type Vowel = (typeof VOWELS)[number];
+type Consonant = (typeof CONSONANTS)[number];
+type Sign = (typeof SIGNS)[number];
+type Accent = (typeof ACCENTS)[number];
+
+/**
+ * One unit of text read from a scheme
+ */
+type Token =
+  | { type: 'vowel'; value: Vowel }
+  | { type: 'consonant'; value: Consonant }
+  | { type: 'sign'; value: Sign }
+  | { type: 'accent'; value: Accent }
+  | { type: 'digit'; value: number }
+  /** Anything else (spaces, punctuation, other Vedic marks), kept as it is */
+  | { type: 'text'; value: string };
+
+/**
+ * Ranges of Vedic marks, which romanizations have no counterpart for
+ */
+const VEDIC_MARK_RANGES: readonly [number, number][] = [
+  [0x0951, 0x0954], // Devanagari stress signs
+  [0x1cd0, 0x1cff], // Vedic Extensions
+  [0xa8e0, 0xa8ff], // Devanagari Extended
+];
+
+function isVedicMark(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  return VEDIC_MARK_RANGES.some(([start, end]) => code >= start && code <= end);
+}
+
+// ============================================================================
+// Brahmic scripts
+// ============================================================================
+
+/**
+ * How a Brahmic script writes each sound
+ */
+interface BrahmicScript {
+  vowels: Record<Vowel, string>;
+  vowelSigns: Record<Vowel, string>;
+  consonants: Record<Consonant, string>;
+  signs: Record<Sign, string>;
+  virama: string;
+  nukta: string;
+  /** Code point of the digit zero */
+  zero: number;
+  /** Marks written after a syllable to tell consonants sharing a letter apart */
+  consonantMarks: Partial<Record<Consonant, string>>;
+}
+
+const DEVANAGARI: BrahmicScript = {
+  vowels: {
+    'a': 'अ', 'ā': 'आ', 'i': 'इ', 'ī': 'ई', 'u': 'उ', 'ū': 'ऊ', 'ṛ': 'ऋ', 'ṝ': 'ॠ',
+    'l̥': 'ऌ', 'l̥̄': 'ॡ', 'e': 'ए', 'ai': 'ऐ', 'o': 'ओ', 'au': 'औ',
+  },
+  vowelSigns: {
+    'a': '', 'ā': 'ा', 'i': 'ि', 'ī': 'ी', 'u': 'ु', 'ū': 'ू', 'ṛ': 'ृ', 'ṝ': 'ॄ',
+    'l̥': 'ॢ', 'l̥̄': 'ॣ', 'e': 'े', 'ai': 'ै', 'o': 'ो', 'au': 'ौ',
+  },
+  consonants: {
+    'k': 'क', 'kh': 'ख', 'g': 'ग', 'gh': 'घ', 'ṅ': 'ङ',
+    'c': 'च', 'ch': 'छ', 'j': 'ज', 'jh': 'झ', 'ñ': 'ञ',
+    'ṭ': 'ट', 'ṭh': 'ठ', 'ḍ': 'ड', 'ḍh': 'ढ', 'ṇ': 'ण',
+    't': 'त', 'th': 'थ', 'd': 'द', 'dh': 'ध', 'n': 'न',
+    'p': 'प', 'ph': 'फ', 'b': 'ब', 'bh': 'भ', 'm': 'म',
+    'y': 'य', 'r': 'र', 'l': 'ल', 'v': 'व',
+    'ś': 'श', 'ṣ': 'ष', 's': 'स', 'h': 'ह', 'ḷ': 'ळ',
+  },
+  signs: {
+    'anusvara': 'ं', 'chandrabindu': 'ँ', 'visarga': 'ः', 'avagraha': 'ऽ',
+    'danda': '।', 'double-danda': '॥',
+  },
+  virama: '्',
+  nukta: '़',
+  zero: 0x0966,
+  consonantMarks: {},
+};
+
+/**
+ * Signs shared by every Brahmic script rather than encoded in each
+ */
+const SHARED_SIGNS: readonly Sign[] = ['danda', 'double-danda'];
+
+/**
+ * Signs that close a syllable, which accents are written around
+ */
+const NASAL_AND_VISARGA: readonly Sign[] = ['anusvara', 'chandrabindu', 'visarga'];
+
+/**
+ * Accent marks, shared by every Brahmic script, named by their shape
+ */
+const BRAHMIC_ACCENTS: Record<Accent, string> = {
+  'stroke-above': '\u0951', // ॑
+  'bar-below': '\u0952', // ॒
+  'double-stroke-above': '\u1CDA', // ᳚
+};
+
+/**
+ * Move a Devanagari character to the same place in another script's block
+ */
+function shift(char: string, offset: number): string {
+  return char ? String.fromCodePoint(char.codePointAt(0)! + offset) : char;
+}
+
+/**
+ * Map each value of a table through a function
+ */
+function mapValues<K extends string, V, W>(table: Record<K, V>, map: (value: V, key: K) => W): Record<K, W> {
+  const result = {} as Record<K, W>;
+  (Object.keys(table) as K[]).forEach((key) => {
+    result[key] = map(table[key], key);
+  });
+  return result;
+}
+
+/**
+ * Letters a script writes differently from the Devanagari pattern
+ */
+interface ScriptOverrides {
+  vowels?: Partial<Record<Vowel, string>>;
+  vowelSigns?: Partial<Record<Vowel, string>>;
+  consonants?: Partial<Record<Consonant, string>>;
+  signs?: Partial<Record<Sign, string>>;
+  consonantMarks?: Partial<Record<Consonant, string>>;
+}
+
+/**
+ * Derive a Brahmic script from Devanagari, whose Unicode block it parallels
+ */
+function deriveScript(blockStart: number, overrides: ScriptOverrides = {}): BrahmicScript {
+  const offset = blockStart - 0x0900;
+  return {
+    vowels: { ...mapValues(DEVANAGARI.vowels, (char) => shift(char, offset)), ...overrides.vowels },
+    vowelSigns: { ...mapValues(DEVANAGARI.vowelSigns, (char) => shift(char, offset)), ...overrides.vowelSigns },
+    consonants: { ...mapValues(DEVANAGARI.consonants, (char) => shift(char, offset)), ...overrides.consonants },
+    signs: {
+      ...mapValues(DEVANAGARI.signs, (char, sign) => (SHARED_SIGNS.includes(sign) ? char : shift(char, offset))),
+      ...overrides.signs,
+    },
+    virama: shift(DEVANAGARI.virama, offset),
+    nukta: shift(DEVANAGARI.nukta, offset),
+    zero: DEVANAGARI.zero + offset,
+    consonantMarks: overrides.consonantMarks ?? {},
+  };
+}
+
+const BRAHMIC_SCRIPTS: Readonly<Record<string, BrahmicScript>> = {
+  devanagari: DEVANAGARI,
+  bengali: deriveScript(0x0980, {
+    consonants: { 'v': 'ব', 'ḷ': 'ল' },
+  }),
+  telugu: deriveScript(0x0c00),
+  tamil: deriveScript(0x0b80, {
+    vowels: { 'ṛ': 'ரு', 'ṝ': 'ரூ', 'l̥': 'லு', 'l̥̄': 'லூ' },
+    vowelSigns: { 'ṛ': '்ரு', 'ṝ': '்ரூ', 'l̥': '்லு', 'l̥̄': '்லூ' },
+    consonants: {
+      'kh': 'க', 'g': 'க', 'gh': 'க',
+      'ch': 'ச', 'jh': 'ஜ',
+      'ṭh': 'ட', 'ḍ': 'ட', 'ḍh': 'ட',
+      'th': 'த', 'd': 'த', 'dh': 'த',
+      'ph': 'ப', 'b': 'ப', 'bh': 'ப',
+    },
+    signs: { 'chandrabindu': 'ஂ', 'avagraha': 'ऽ' },
+    consonantMarks: {
+      'kh': '²', 'g': '³', 'gh': '⁴',
+      'ch': '²', 'jh': '²',
+      'ṭh': '²', 'ḍ': '³', 'ḍh': '⁴',
+      'th': '²', 'd': '³', 'dh': '⁴',
+      'ph': '²', 'b': '³', 'bh': '⁴',
+    },
+  }),
+  kannada: deriveScript(0x0c80),
+};
+
+/**
+ * Reverse lookup of a Brahmic script: each character to the sound it writes
+ */
+interface BrahmicReader {
+  vowels: Map<string, Vowel>;
+  vowelSigns: Map<string, Vowel>;
+  consonants: Map<string, Consonant>;
+  signs: Map<string, Sign>;
+  accents: Map<string, Accent>;
+  /** Consonant written by a base consonant and a mark */
+  markedConsonants: Map<string, Consonant>;
+  marks: Set<string>;
+}
+
+/**
+ * Invert a table, keeping the first sound for characters written by several
+ */
+function invert<K extends string>(table: Record<K, string>): Map<string, K> {
+  const map = new Map<string, K>();
+  (Object.keys(table) as K[]).forEach((key) => {
+    if (table[key] && !map.has(table[key])) map.set(table[key], key);
+  });
+  return map;
+}
+
+const brahmicReaders = new Map<BrahmicScript, BrahmicReader>();
+
+function getBrahmicReader(script: BrahmicScript): BrahmicReader {
+  let reader = brahmicReaders.get(script);
+  if (!reader) {
+    const unmarked = { ...script.consonants };
+    const markedConsonants = new Map<string, Consonant>();
+    (Object.keys(script.consonantMarks) as Consonant[]).forEach((consonant) => {
+      delete unmarked[consonant];
+    });
+    const consonants = invert(unmarked);
+    (Object.keys(script.consonantMarks) as Consonant[]).forEach((consonant) => {
+      const base = consonants.get(script.consonants[consonant]);
+      markedConsonants.set(`${base}${script.consonantMarks[consonant]}`, consonant);
+    });
+
+    reader = {
+      vowels: invert(script.vowels),
+      vowelSigns: invert(script.vowelSigns),
+      consonants,
+      signs: invert(script.signs),
+      accents: invert(BRAHMIC_ACCENTS),
+      markedConsonants,
+      marks: new Set(Object.values(script.consonantMarks)),
+    };
+    brahmicReaders.set(script, reader);
+  }
+  return reader;
+}
+
+/**
+ * Read text written in a Brahmic script
+ */
+function readBrahmic(text: string, script: BrahmicScript): Token[] {
+  const reader = getBrahmicReader(script);
+  const tokens: Token[] = [];
+  // A consonant still carrying its inherent a, until a sign or virama says otherwise
+  let open = false;
+
+  const closeSyllable = () => {
+    if (open) tokens.push({ type: 'vowel', value: 'a' });
+    open = false;
+  };
+
+  for (const char of text) {
+    const consonant = reader.consonants.get(char);
+    if (consonant) {
+      closeSyllable();
+      tokens.push({ type: 'consonant', value: consonant });
+      open = true;
+      continue;
+    }
+
+    const vowelSign = reader.vowelSigns.get(char);
+    if (open && vowelSign) {
+      tokens.push({ type: 'vowel', value: vowelSign });
+      open = false;
+      continue;
+    }
+    if (open && char === script.virama) {
+      open = false;
+      continue;
+    }
+    if (char === script.nukta) continue;
+
+    if (reader.marks.has(char)) {
+      // Tamil: the mark follows the syllable, so find the consonant it changes
+      for (let i = tokens.length - 1; i >= 0; i--) {
+        const token = tokens[i];
+        if (token.type !== 'consonant') continue;
+        const marked = reader.markedConsonants.get(`${token.value}${char}`);
+        if (marked) tokens[i] = { type: 'consonant', value: marked };
+        break;
+      }
+      continue;
+    }
+
+    closeSyllable();
+
+    const accent = reader.accents.get(char);
+    const vowel = reader.vowels.get(char);
+    const sign = reader.signs.get(char);
+    const digit = char.codePointAt(0)! - script.zero;
+
+    if (accent) tokens.push({ type: 'accent', value: accent });
+    else if (vowel) tokens.push({ type: 'vowel', value: vowel });
+    else if (sign) tokens.push({ type: 'sign', value: sign });
+    else if (digit >= 0 && digit <= 9) tokens.push({ type: 'digit', value: digit });
+    else if (char === 'ॐ') tokens.push({ type: 'vowel', value: 'o' }, { type: 'sign', value: 'anusvara' });
+    else tokens.push({ type: 'text', value: char });
+  }
+
+  closeSyllable();
+  return tokens;
+}
+
+/**
+ * Write sounds in a Brahmic script
+ */
+function writeBrahmic(tokens: Token[], script: BrahmicScript): string {
+  let result = '';
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    switch (token.type) {
+      case 'consonant': {
+        result += script.consonants[token.value];
+        const next = tokens[i + 1];
+        if (next?.type === 'vowel') {
+          result += script.vowelSigns[next.value];
+          i++;
+        } else {
+          result += script.virama;
+        }
+        result += script.consonantMarks[token.value] ?? '';
+        break;
+      }
+      case 'vowel':
+        result += script.vowels[token.value];
+        break;
+      case 'sign':
+        result += script.signs[token.value];
+        break;
+      case 'accent': {
+        // Written after an anusvara or visarga closing the syllable (गणानां॑)
+        const next = tokens[i + 1];
+        if (next?.type === 'sign' && NASAL_AND_VISARGA.includes(next.value)) {
+          result += script.signs[next.value];
+          i++;
+        }
+        result += BRAHMIC_ACCENTS[token.value];
+        break;
+      }
+      case 'digit':
+        result += String.fromCodePoint(script.zero + token.value);
+        break;
+      case 'text':
+        result += token.value;
+        break;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Romanizations
+// ============================================================================
+
+/**
+ * How a romanization spells each sound: the spelling written first, then
+ * others accepted when reading
+ */
+interface RomanScheme {
+  vowels: Record<Vowel, string[]>;
+  consonants: Record<Consonant, string[]>;
+  signs: Record<Sign, string[]>;
+  accents: Record<Accent, string[]>;
+  /** Spellings of consonant clusters, accepted when reading */
+  clusters?: Record<string, Consonant[]>;
+  /** Whether letter case is insignificant */
+  caseless?: boolean;
+}
+
+/**
+ * Spellings shared by Harvard-Kyoto and ITRANS
+ */
+const ASCII_ACCENTS: Record<Accent, string[]> = {
+  'stroke-above': ["\\'"],
+  'bar-below': ['\\_'],
+  'double-stroke-above': ['\\"'],
+};
+
+const ROMAN_DANDAS = { 'danda': ['|'], 'double-danda': ['||'] };
+
+const ROMAN_SCHEMES: Readonly<Record<string, RomanScheme>> = {
+  iast: {
+    vowels: {
+      'a': ['a'], 'ā': ['ā'], 'i': ['i'], 'ī': ['ī'], 'u': ['u'], 'ū': ['ū'],
+      'ṛ': ['ṛ', 'r̥'], 'ṝ': ['ṝ', 'r̥̄'], 'l̥': ['l̥'], 'l̥̄': ['l̥̄', 'ḹ'],
+      'e': ['e'], 'ai': ['ai'], 'o': ['o'], 'au': ['au'],
+    },
+    consonants: {
+      'k': ['k'], 'kh': ['kh'], 'g': ['g'], 'gh': ['gh'], 'ṅ': ['ṅ'],
+      'c': ['c'], 'ch': ['ch'], 'j': ['j'], 'jh': ['jh'], 'ñ': ['ñ'],
+      'ṭ': ['ṭ'], 'ṭh': ['ṭh'], 'ḍ': ['ḍ'], 'ḍh': ['ḍh'], 'ṇ': ['ṇ'],
+      't': ['t'], 'th': ['th'], 'd': ['d'], 'dh': ['dh'], 'n': ['n'],
+      'p': ['p'], 'ph': ['ph'], 'b': ['b'], 'bh': ['bh'], 'm': ['m'],
+      'y': ['y'], 'r': ['r'], 'l': ['l'], 'v': ['v'],
+      'ś': ['ś'], 'ṣ': ['ṣ'], 's': ['s'], 'h': ['h'], 'ḷ': ['ḷ', 'ḻ'],
+    },
+    signs: {
+      'anusvara': ['ṃ', 'ṁ'], 'chandrabindu': ['m̐'], 'visarga': ['ḥ'], 'avagraha': ["'", '’'],
+      ...ROMAN_DANDAS,
+    },
+    // Combining acute, macron below and grave
+    accents: { 'stroke-above': ['\u0301'], 'bar-below': ['\u0331'], 'double-stroke-above': ['\u0300'] },
+    caseless: true,
+  },
+  'harvard-kyoto': {
+    vowels: {
+      'a': ['a'], 'ā': ['A'], 'i': ['i'], 'ī': ['I'], 'u': ['u'], 'ū': ['U'],
+      'ṛ': ['R'], 'ṝ': ['RR'], 'l̥': ['lR'], 'l̥̄': ['lRR'],
+      'e': ['e'], 'ai': ['ai'], 'o': ['o'], 'au': ['au'],
+    },
+    consonants: {
+      'k': ['k'], 'kh': ['kh'], 'g': ['g'], 'gh': ['gh'], 'ṅ': ['G'],
+      'c': ['c'], 'ch': ['ch'], 'j': ['j'], 'jh': ['jh'], 'ñ': ['J'],
+      'ṭ': ['T'], 'ṭh': ['Th'], 'ḍ': ['D'], 'ḍh': ['Dh'], 'ṇ': ['N'],
+      't': ['t'], 'th': ['th'], 'd': ['d'], 'dh': ['dh'], 'n': ['n'],
+      'p': ['p'], 'ph': ['ph'], 'b': ['b'], 'bh': ['bh'], 'm': ['m'],
+      'y': ['y'], 'r': ['r'], 'l': ['l'], 'v': ['v'],
+      'ś': ['z'], 'ṣ': ['S'], 's': ['s'], 'h': ['h'], 'ḷ': ['L'],
+    },
+    signs: {
+      'anusvara': ['M'], 'chandrabindu': ['~'], 'visarga': ['H'], 'avagraha': ["'"],
+      ...ROMAN_DANDAS,
+    },
+    accents: ASCII_ACCENTS,
+  },
+  itrans: {
+    vowels: {
+      'a': ['a'], 'ā': ['A', 'aa'], 'i': ['i'], 'ī': ['I', 'ii'], 'u': ['u'], 'ū': ['U', 'uu'],
+      'ṛ': ['RRi', 'R^i'], 'ṝ': ['RRI', 'R^I'], 'l̥': ['LLi', 'L^i'], 'l̥̄': ['LLI', 'L^I'],
+      'e': ['e'], 'ai': ['ai'], 'o': ['o'], 'au': ['au'],
+    },
+    consonants: {
+      'k': ['k'], 'kh': ['kh'], 'g': ['g'], 'gh': ['gh'], 'ṅ': ['~N', 'N^'],
+      'c': ['ch'], 'ch': ['Ch', 'chh'], 'j': ['j'], 'jh': ['jh'], 'ñ': ['~n', 'JN'],
+      'ṭ': ['T'], 'ṭh': ['Th'], 'ḍ': ['D'], 'ḍh': ['Dh'], 'ṇ': ['N'],
+      't': ['t'], 'th': ['th'], 'd': ['d'], 'dh': ['dh'], 'n': ['n'],
+      'p': ['p'], 'ph': ['ph'], 'b': ['b'], 'bh': ['bh'], 'm': ['m'],
+      'y': ['y'], 'r': ['r'], 'l': ['l'], 'v': ['v', 'w'],
+      'ś': ['sh'], 'ṣ': ['Sh', 'shh'], 's': ['s'], 'h': ['h'], 'ḷ': ['L', 'ld'],
+    },
+    signs: {
+      'anusvara': ['M', '.m'], 'chandrabindu': ['.N'], 'visarga': ['H'], 'avagraha': ['.a'],
+      ...ROMAN_DANDAS,
+    },
+    accents: ASCII_ACCENTS,
+    clusters: { 'x': ['k', 'ṣ'], 'kSh': ['k', 'ṣ'], 'GY': ['j', 'ñ'], 'dny': ['j', 'ñ'] },
+  },
+  slp1: {
+    vowels: {
+      'a': ['a'], 'ā': ['A'], 'i': ['i'], 'ī': ['I'], 'u': ['u'], 'ū': ['U'],
+      'ṛ': ['f'], 'ṝ': ['F'], 'l̥': ['x'], 'l̥̄': ['X'],
+      'e': ['e'], 'ai': ['E'], 'o': ['o'], 'au': ['O'],
+    },
+    consonants: {
+      'k': ['k'], 'kh': ['K'], 'g': ['g'], 'gh': ['G'], 'ṅ': ['N'],
+      'c': ['c'], 'ch': ['C'], 'j': ['j'], 'jh': ['J'], 'ñ': ['Y'],
+      'ṭ': ['w'], 'ṭh': ['W'], 'ḍ': ['q'], 'ḍh': ['Q'], 'ṇ': ['R'],
+      't': ['t'], 'th': ['T'], 'd': ['d'], 'dh': ['D'], 'n': ['n'],
+      'p': ['p'], 'ph': ['P'], 'b': ['b'], 'bh': ['B'], 'm': ['m'],
+      'y': ['y'], 'r': ['r'], 'l': ['l'], 'v': ['v'],
+      'ś': ['S'], 'ṣ': ['z'], 's': ['s'], 'h': ['h'], 'ḷ': ['L'],
+    },
+    signs: {
+      'anusvara': ['M'], 'chandrabindu': ['~'], 'visarga': ['H'], 'avagraha': ["'"],
+      'danda': ['.'], 'double-danda': ['..'],
+    },
+    accents: { 'stroke-above': ['/'], 'bar-below': ['\\'], 'double-stroke-above': ['^'] },
+    clusters: { '|': ['ḷ', 'h'] },
+  },
+};
+
+/**
+ * Spellings of a romanization and what each reads as, for reading it
+ */
+interface RomanReader {
+  spellings: Map<string, Token[]>;
+  longest: number;
+  /** Accent spellings that are combining marks, lifted out before reading */
+  combiningAccents: Map<string, Accent>;
+}
+
+const romanReaders = new Map<RomanScheme, RomanReader>();
+
+function getRomanReader(scheme: RomanScheme): RomanReader {
+  let reader = romanReaders.get(scheme);
+  if (!reader) {
+    const spellings = new Map<string, Token[]>();
+    const combiningAccents = new Map<string, Accent>();
+    const add = (spelling: string, tokens: Token[]) => {
+      const key = spelling.normalize('NFD');
+      if (!spellings.has(key)) spellings.set(key, tokens);
+    };
+
+    VOWELS.forEach((value) => scheme.vowels[value].forEach((s) => add(s, [{ type: 'vowel', value }])));
+    CONSONANTS.forEach((value) => scheme.consonants[value].forEach((s) => add(s, [{ type: 'consonant', value }])));
+    SIGNS.forEach((value) => scheme.signs[value].forEach((s) => add(s, [{ type: 'sign', value }])));
+    ACCENTS.forEach((value) =>
+      scheme.accents[value].forEach((s) => {
+        if (/^\p{M}$/u.test(s)) combiningAccents.set(s, value);
+        else add(s, [{ type: 'accent', value }]);
+      })
+    );
+    Object.entries(scheme.clusters ?? {}).forEach(([s, consonants]) =>
+      add(s, consonants.map((value) => ({ type: 'consonant', value })))
+    );
+
+    const longest = Math.max(...Array.from(spellings.keys(), (s) => s.length));
+    reader = { spellings, longest, combiningAccents };
+    romanReaders.set(scheme, reader);
+  }
+  return reader;
+}
+
+/**
+ * Read romanized text, matching the longest spelling at each point
+ */
+function readRoman(text: string, scheme: RomanScheme): Token[] {
+  const reader = getRomanReader(scheme);
+  let source = text.normalize('NFD');
+  if (scheme.caseless) source = source.toLowerCase();
+
+  // Lift out combining accents (IAST), noting where they stood
+  let plain = '';
+  const accentsAt = new Map<number, Accent[]>();
+  for (const char of source) {
+    const accent = reader.combiningAccents.get(char);
+    if (accent) {
+      accentsAt.set(plain.length, [...(accentsAt.get(plain.length) ?? []), accent]);
+    } else {
+      plain += char;
+    }
+  }
+
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < plain.length) {
+    let length = Math.min(reader.longest, plain.length - i);
+    let match: Token[] | undefined;
+    for (; length > 0; length--) {
+      match = reader.spellings.get(plain.slice(i, i + length));
+      if (match) break;
+    }
+
+    if (match) {
+      tokens.push(...match);
+    } else {
+      length = 1;
+      const digit = plain.charCodeAt(i) - 0x30;
+      tokens.push(digit >= 0 && digit <= 9 ? { type: 'digit', value: digit } : { type: 'text', value: plain[i] });
+    }
+
+    for (let at = i + 1; at <= i + length; at++) {
+      accentsAt.get(at)?.forEach((value) => tokens.push({ type: 'accent', value }));
+    }
+    i += length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Write sounds in a romanization
+ */
+function writeRoman(tokens: Token[], scheme: RomanScheme): string {
+  let result = '';
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'vowel':
+        result += scheme.vowels[token.value][0];
+        break;
+      case 'consonant':
+        result += scheme.consonants[token.value][0];
+        break;
+      case 'sign':
+        result += scheme.signs[token.value][0];
+        break;
+      case 'accent':
+        result += scheme.accents[token.value][0];
+        break;
+      case 'digit':
+        result += String(token.value);
+        break;
+      case 'text':
+        if (!isVedicMark(token.value)) result += token.value;
+        break;
+    }
+  }
+
+  return result.normalize('NFC');
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Place accents on the vowel they belong to, ahead of a following
+ * anusvara or visarga (Brahmic scripts write them after it)
+ */
+function settleAccents(tokens: Token[]): Token[] {
+  for (let i = 1; i < tokens.length; i++) {
+    const previous = tokens[i - 1];
+    if (tokens[i].type === 'accent' && previous.type === 'sign' && NASAL_AND_VISARGA.includes(previous.value)) {
+      [tokens[i - 1], tokens[i]] = [tokens[i], previous];
+    }
+  }
+  return tokens;
+}
+
+function read(text: string, scheme: TransliterationScheme): Token[] {
+  const brahmic = BRAHMIC_SCRIPTS[scheme];
+  return settleAccents(brahmic ? readBrahmic(text, brahmic) : readRoman(text, ROMAN_SCHEMES[scheme]));
+}
+
+function write(tokens: Token[], scheme: TransliterationScheme): string {
+  const brahmic = BRAHMIC_SCRIPTS[scheme];
+  return brahmic ? writeBrahmic(tokens, brahmic) : writeRoman(tokens, ROMAN_SCHEMES[scheme]);
+}
+
+/**
+ * Convert Sanskrit text from one scheme to another
+ *
+ * Characters that are not part of the source scheme (spaces, punctuation,
+ * other scripts) are kept as they are.
+ *
+ * @param text - Text to convert
+ * @param from - Scheme the text is written in
+ * @param to - Scheme to write it in
+ * @param options - Conversion options
+ * @returns The converted text
+ *
+ * @example
+ * // Marks are copied as written: ॑ here is the Śākala svarita on mī
+ * transliterate('अ॒ग्निमी॑ळे', 'devanagari', 'iast') // 'a̱gnimī́ḷe'
+ * transliterate('agnim IDe', 'harvard-kyoto', 'telugu') // 'అగ్నిమ్ ఈడే'
+ */
+export function transliterate(
+  text: string,
+  from: TransliterationScheme,
+  to: TransliterationScheme,
+  options: TransliterationOptions = {}
+): string {
+  const { accents = true } = options;
+  if (from === to && accents) return text;
+
+  let tokens = read(text, from);
+  if (!accents) {
+    tokens = tokens.filter(
+      (token) => token.type !== 'accent' && !(token.type === 'text' && isVedicMark(token.value))
+    );
+  }
+  return write(tokens, to);
+}
+
+/**
+ * Unicode blocks of the Brahmic scripts, for telling which one a text uses
+ */
+const SCRIPT_BLOCKS: readonly [start: number, scheme: TransliterationScheme][] = [
+  [0x0900, 'devanagari'],
+  [0x0980, 'bengali'],
+  [0x0b80, 'tamil'],
+  [0x0c00, 'telugu'],
+  [0x0c80, 'kannada'],
+];
+
+/**
+ * Tell which script a text is written in
+ *
+ * @param text - Text to look at
+ * @returns The first Brahmic script found in it, or IAST if none is
+ */
+export function detectScheme(text: string): TransliterationScheme {
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const block = SCRIPT_BLOCKS.find(([start]) => code >= start && code < start + 0x80);
+    if (block) return block[1];
+  }
+  return 'iast';
+}
+
+/**
+ * Whether a scheme is written in Latin letters
+ *
+ * @param scheme - Scheme to check
+ * @returns True for romanizations
+ */
+export function isRomanScheme(scheme: TransliterationScheme): boolean {
+  return scheme in ROMAN_SCHEMES;
+}
+
+/**
+ * Show Devanagari text in a preferred script
+ *
+ * A Brahmic script replaces the Devanagari; with a romanization preferred
+ * the Devanagari stays, and the transliteration beside it changes instead
+ * (see toPreferredRomanization), so text is always shown in both forms.
+ *
+ * @param devanagari - Text in Devanagari
+ * @param script - Preferred script
+ * @returns The text to show
+ */
+export function toPreferredSanskrit(devanagari: string, script: TransliterationScheme): string {
+  return isRomanScheme(script) ? devanagari : transliterate(devanagari, 'devanagari', script);
+}
+
+/**
+ * Show an IAST transliteration in a preferred romanization
+ *
+ * @param iast - Text in IAST
+ * @param script - Preferred script (a Brahmic script keeps IAST)
+ * @returns The text to show
+ */
+export function toPreferredRomanization(iast: string, script: TransliterationScheme): string {
+  return isRomanScheme(script) ? transliterate(iast, 'iast', script) : iast;
+}
@@ -10,14 +10,26 @@
  *   (the apparent path of the Sun), measured in degrees (0-360°)
  * - Elongation: The angular separation between the Moon and Sun as seen from Earth
  * - Moon Phase: Derived from elongation, representing the illuminated portion
+ * - Moon Details: Rise and set, age, distance, libration and the next
+ *   new moon, full moon, perigee and apogee
+ * - Ascendant: The point of the ecliptic rising on the eastern horizon, which
+ *   depends on the observer's latitude and local sidereal time
  */
 
 import * as Astronomy from 'astronomy-engine';
+import { getLocalMidnight } from './varaCalculator';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Search window for lunar phases in days (longer than a synodic month)
+ */
+const MOON_PHASE_SEARCH_DAYS = 40;
 
 /**
  * Normalize an angle to be within 0-360 degrees
  */
-function normalizeAngle(degrees: number): number {
+export function normalizeAngle(degrees: number): number {
   let normalized = degrees % 360;
   if (normalized < 0) {
     normalized += 360;
@@ -32,11 +44,11 @@ function normalizeAngle(degrees: number): number {
  * The ecliptic is divided into 12 rashis (zodiac signs) of 30° each.
  *
  * @param date - The date and time for the calculation
- * @returns The Sun's ecliptic longitude in degrees (0-360°)
+ * @returns The Sun's tropical ecliptic longitude in degrees (0-360°)
  *
- * Note: This uses tropical coordinates. For sidereal (Vedic astrology), you would
- * need to subtract the ayanamsa (precession correction, approximately 24° currently).
- * However, for calendar calculations, the tropical system works well.
+ * Note: This returns tropical coordinates. Sidereal positions (nakshatra,
+ * masa, rashi) subtract the selected ayanamsa; callers apply it with
+ * toSidereal or getSiderealSunLongitude from ./ayanamsa.
  */
 export function getSunLongitude(date: Date): number {
   // Get Sun's geocentric position vector
@@ -155,12 +167,124 @@ export function getMoonIllumination(date: Date): number {
   return illum.phase_fraction * 100;
 }
 
+/**
+ * Rise, set, age, distance and upcoming events of the Moon
+ */
+export interface MoonDetails {
+  /** Moonrise during the local civil day, or null if the Moon does not rise that day */
+  moonrise: Date | null;
+  /** Moonset during the local civil day, or null if the Moon does not set that day */
+  moonset: Date | null;
+  /** Days since the last new moon */
+  age: number;
+  /** Next new moon (Amavasya) */
+  nextNewMoon: Date;
+  /** Next full moon (Purnima) */
+  nextFullMoon: Date;
+  /** Distance from the Earth's center to the Moon's center in km */
+  distance: number;
+  /** Apparent angular diameter in degrees */
+  angularDiameter: number;
+  /** Optical libration in degrees: positive latitude shows more of the north, positive longitude more of the east */
+  libration: { latitude: number; longitude: number };
+  /** Next perigee (closest) or apogee (farthest), whichever comes first */
+  nextApsis: { kind: 'perigee' | 'apogee'; time: Date; distance: number };
+}
+
+/**
+ * Find the next instant the Moon reaches a phase angle
+ *
+ * @param phase - Moon-Sun longitude difference (0 = new, 180 = full)
+ * @param date - Date to search from
+ * @param direction - +1 to search forward, -1 backward
+ * @returns The instant of the phase
+ */
+function searchMoonPhase(phase: number, date: Date, direction: 1 | -1): Date {
+  const result = Astronomy.SearchMoonPhase(phase, date, direction * MOON_PHASE_SEARCH_DAYS);
+  if (!result) {
+    throw new Error(`No moon phase ${phase}° found near ${date.toISOString()}`);
+  }
+  return result.date;
+}
+
+/**
+ * Distance, apparent size and libration of the Moon
+ */
+function getMoonLibration(date: Date): Pick<MoonDetails, 'distance' | 'angularDiameter' | 'libration'> {
+  const libration = Astronomy.Libration(date);
+  return {
+    distance: libration.dist_km,
+    angularDiameter: libration.diam_deg,
+    libration: { latitude: libration.elat, longitude: libration.elon },
+  };
+}
+
+/**
+ * Get rise, set, age, distance and upcoming events of the Moon
+ *
+ * Moonrise and moonset are those of the civil day (local mean midnight to
+ * midnight) containing `date`; the Moon rises about 50 minutes later each
+ * day, so roughly once a month a day has no moonrise or no moonset.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @returns Moon details for the observer
+ */
+export function getMoonDetails(date: Date, latitude: number, longitude: number): MoonDetails {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const dayStart = getLocalMidnight(date, longitude);
+  const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+
+  const riseSet = (direction: number): Date | null => {
+    const event = Astronomy.SearchRiseSet(Astronomy.Body.Moon, observer, direction, dayStart, 1);
+    return event && event.date < dayEnd ? event.date : null;
+  };
+
+  const apsis = Astronomy.SearchLunarApsis(date);
+
+  return {
+    moonrise: riseSet(+1),
+    moonset: riseSet(-1),
+    age: (date.getTime() - searchMoonPhase(0, date, -1).getTime()) / MS_PER_DAY,
+    nextNewMoon: searchMoonPhase(0, date, 1),
+    nextFullMoon: searchMoonPhase(180, date, 1),
+    ...getMoonLibration(date),
+    nextApsis: {
+      kind: apsis.kind === Astronomy.ApsisKind.Pericenter ? 'perigee' : 'apogee',
+      time: apsis.time.date,
+      distance: apsis.dist_km,
+    },
+  };
+}
+
+/**
+ * Bring Moon details found earlier forward to a later instant
+ *
+ * Age, distance and libration are recalculated without any search. The
+ * rise, set and upcoming events are kept, so `date` must fall on the same
+ * civil day as `from` and before the next new moon, full moon and apsis.
+ *
+ * @param moon - Details found at `from`
+ * @param from - Instant the details were found for
+ * @param date - Later instant
+ * @returns Moon details at `date`
+ */
+export function advanceMoonDetails(moon: MoonDetails, from: Date, date: Date): MoonDetails {
+  return {
+    ...moon,
+    age: moon.age + (date.getTime() - from.getTime()) / MS_PER_DAY,
+    ...getMoonLibration(date),
+  };
+}
+
 /**
  * Get comprehensive celestial data for a given date and location
  *
  * @param date - The date and time for the calculation
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
+ * @param moonDetails - Moon details already found for `date`, to skip their searches
  * @returns Object containing all major celestial coordinates
  */
 export interface CelestialData {
@@ -169,18 +293,21 @@ export interface CelestialData {
   elongation: number;
   moonPhase: number;
   illumination: number;
+  moon: MoonDetails;
 }
 
 export function getCelestialData(
   date: Date,
   latitude: number = 0,
-  longitude: number = 0
+  longitude: number = 0,
+  moonDetails?: MoonDetails
 ): CelestialData {
   const sunLongitude = getSunLongitude(date);
   const moonLongitude = getMoonLongitude(date, latitude, longitude);
   const elongation = normalizeAngle(moonLongitude - sunLongitude);
   const moonPhase = elongation / 360;
   const illumination = getMoonIllumination(date);
+  const moon = moonDetails ?? getMoonDetails(date, latitude, longitude);
 
   return {
     sunLongitude,
@@ -188,9 +315,57 @@ export function getCelestialData(
     elongation,
     moonPhase,
     illumination,
+    moon,
   };
 }
 
+/**
+ * Get the local apparent sidereal time as an angle
+ *
+ * Sidereal time is the right ascension currently on the observer's meridian
+ * (RAMC). It advances about 361° per solar day.
+ *
+ * @param date - The date and time for the calculation
+ * @param longitude - Observer's longitude in degrees (east positive)
+ * @returns Local sidereal time in degrees (0-360°)
+ */
+export function getLocalSiderealTime(date: Date, longitude: number): number {
+  // SiderealTime returns Greenwich apparent sidereal time in hours
+  return normalizeAngle(Astronomy.SiderealTime(date) * 15 + longitude);
+}
+
+/**
+ * Get the ecliptic longitude of the ascendant (the rising point of the ecliptic)
+ *
+ * Formula: λ = atan2(cos θ, -(sin θ cos ε + tan φ sin ε)), where θ is the
+ * local sidereal time, ε the true obliquity of the ecliptic and φ the latitude.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @returns The ascendant's tropical ecliptic longitude in degrees (0-360°)
+ *
+ * Note: Above the polar circles parts of the ecliptic never rise, so the
+ * ascendant can jump across several signs or briefly run backwards there.
+ */
+export function getAscendantLongitude(
+  date: Date,
+  latitude: number,
+  longitude: number
+): number {
+  const toRadians = Math.PI / 180;
+  const theta = getLocalSiderealTime(date, longitude) * toRadians;
+  const epsilon = Astronomy.e_tilt(Astronomy.MakeTime(date)).tobl * toRadians;
+  const phi = latitude * toRadians;
+
+  const ascendant = Math.atan2(
+    Math.cos(theta),
+    -(Math.sin(theta) * Math.cos(epsilon) + Math.tan(phi) * Math.sin(epsilon))
+  );
+
+  return normalizeAngle(ascendant / toRadians);
+}
+
 /**
  * Calculate the rate of change of elongation (degrees per hour)
  *
@@ -222,3 +397,106 @@ export function getElongationRate(
 
   return rate;
 }
+
+/**
+ * Precision of transition searches in milliseconds
+ *
+ * Bisection stops once the bracketing interval is narrower than this.
+ * One second is far finer than any panchang publishes.
+ */
+const SEARCH_TOLERANCE_MS = 1000;
+
+/**
+ * Find the instant when a steadily increasing angle reaches a target value
+ *
+ * Both the Moon-Sun elongation and the Moon's longitude only ever increase
+ * (wrapping at 360°), so a transition can be bracketed between a start time
+ * where the angle is still below the target and an end time where it has
+ * passed it, and then located exactly by bisection.
+ *
+ * The comparison uses the signed angular difference (-180° to +180°), so
+ * targets on either side of the 0°/360° wrap are handled naturally.
+ *
+ * @param getAngle - Function returning the angle (0-360°) at a given date
+ * @param targetAngle - The angle to search for (0-360°)
+ * @param startDate - Start of the search window (angle must be below the target)
+ * @param windowHours - Length of the search window in hours
+ * @returns The instant the angle reaches the target, or null if it is not reached within the window
+ */
+export function searchAngleCrossing(
+  getAngle: (date: Date) => number,
+  targetAngle: number,
+  startDate: Date,
+  windowHours: number
+): Date | null {
+  // Signed distance past the target: negative before, positive after
+  const offsetAt = (time: number): number => {
+    const difference = normalizeAngle(getAngle(new Date(time)) - targetAngle);
+    return difference > 180 ? difference - 360 : difference;
+  };
+
+  let low = startDate.getTime();
+  let high = low + windowHours * 60 * 60 * 1000;
+
+  // The target must be crossed inside the window for bisection to work
+  if (offsetAt(low) >= 0 || offsetAt(high) < 0) {
+    return null;
+  }
+
+  while (high - low > SEARCH_TOLERANCE_MS) {
+    const mid = (low + high) / 2;
+    if (offsetAt(mid) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return new Date(high);
+}
+
+/**
+ * Find when the Moon-Sun elongation next reaches a given angle
+ *
+ * Used for exact tithi boundaries (every 12° of elongation).
+ *
+ * @param targetElongation - Elongation to search for in degrees (0-360°)
+ * @param startDate - Date to start searching from
+ * @param windowHours - How far ahead to search (default: 36 hours, longer than any tithi)
+ * @returns The instant of the crossing, or null if not found within the window
+ */
+export function searchElongation(
+  targetElongation: number,
+  startDate: Date,
+  windowHours: number = 36
+): Date | null {
+  return searchAngleCrossing(
+    (date) => getElongation(date),
+    targetElongation,
+    startDate,
+    windowHours
+  );
+}
+
+/**
+ * Find when the Moon's ecliptic longitude next reaches a given angle
+ *
+ * Used for exact nakshatra boundaries (every 13°20' of lunar longitude).
+ *
+ * @param targetLongitude - Moon longitude to search for in degrees (0-360°)
+ * @param startDate - Date to start searching from
+ * @param windowHours - How far ahead to search (default: 36 hours, longer than any nakshatra)
+ * @returns The instant of the crossing, or null if not found within the window
+ */
+export function searchMoonLongitude(
+  targetLongitude: number,
+  startDate: Date,
+  windowHours: number = 36
+): Date | null {
+  return searchAngleCrossing(
+    (date) => getMoonLongitude(date),
+    targetLongitude,
+    startDate,
+    windowHours
+  );
+}
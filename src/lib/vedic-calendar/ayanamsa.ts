@@ -0,0 +1,196 @@
+/**
+ * Ayanamsa Module
+ *
+ * The ayanamsa is the angle between the tropical zodiac (measured from the
+ * vernal equinox) and the sidereal zodiac (fixed against the stars). Because
+ * the equinox precesses westward by about 50" per year, the two zodiacs drift
+ * apart; today the difference is roughly 24°.
+ *
+ * Vedic (nirayana) calculations are sidereal: nakshatras, rashis and solar
+ * months are all measured from a fixed starting point near the star Revati,
+ * with Chitra (Spica) at 180°. Different traditions fix that starting point
+ * slightly differently, giving the various named ayanamsas.
+ *
+ * Key Concepts:
+ * - Sidereal longitude = tropical longitude - ayanamsa
+ * - Tithis are unaffected (the ayanamsa cancels out of Moon - Sun)
+ * - Nakshatras, rashis and masas shift by the full ayanamsa
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { getMoonLongitude, getSunLongitude, normalizeAngle } from './astronomicalCalculations';
+
+/**
+ * Supported ayanamsa systems
+ *
+ * - tropical: No correction (sayana); longitudes are measured from the equinox
+ * - lahiri: Chitrapaksha ayanamsa, the Indian national standard
+ * - raman: B. V. Raman's ayanamsa
+ * - krishnamurti: K. S. Krishnamurti's ayanamsa (KP system)
+ * - true-chitra: Keeps the actual star Spica at exactly 180° sidereal
+ * - custom: A fixed user-defined offset
+ */
+export type AyanamsaSystem =
+  | 'tropical'
+  | 'lahiri'
+  | 'raman'
+  | 'krishnamurti'
+  | 'true-chitra'
+  | 'custom';
+
+/**
+ * Ayanamsa selection
+ */
+export interface AyanamsaSettings {
+  /** Which ayanamsa system to use */
+  system: AyanamsaSystem;
+
+  /** Offset in degrees, used only by the 'custom' system */
+  customOffset?: number;
+}
+
+/**
+ * Default ayanamsa used by printed Indian panchangs
+ */
+export const DEFAULT_AYANAMSA: AyanamsaSettings = { system: 'lahiri' };
+
+/**
+ * Display information for each ayanamsa system
+ */
+export const AYANAMSA_SYSTEMS: readonly {
+  id: AyanamsaSystem;
+  name: string;
+  description: string;
+}[] = [
+  { id: 'lahiri', name: 'Lahiri (Chitrapaksha)', description: 'Indian national standard used by most panchangs' },
+  { id: 'raman', name: 'Raman', description: 'B. V. Raman, about 1°27\' less than Lahiri' },
+  { id: 'krishnamurti', name: 'Krishnamurti (KP)', description: 'K. S. Krishnamurti, about 6\' less than Lahiri' },
+  { id: 'true-chitra', name: 'True Chitra', description: 'Spica held at exactly 180° sidereal' },
+  { id: 'custom', name: 'Custom', description: 'Fixed offset of your choice' },
+  { id: 'tropical', name: 'Tropical (Sayana)', description: 'No ayanamsa; measured from the equinox' },
+] as const;
+
+/**
+ * Ayanamsa values at the J2000 epoch (2000-01-01 12:00 TT), in degrees
+ *
+ * These mean ayanamsas are carried forward and backward from J2000 by the
+ * general precession in longitude.
+ */
+const AYANAMSA_AT_J2000: Record<'lahiri' | 'raman' | 'krishnamurti', number> = {
+  lahiri: 23.857070,
+  raman: 22.411022,
+  krishnamurti: 23.760469,
+};
+
+/**
+ * Spica (Chitra) J2000 equatorial coordinates and distance
+ */
+const SPICA = {
+  /** Right ascension in sidereal hours */
+  ra: 13.419883,
+  /** Declination in degrees */
+  dec: -11.161319,
+  /** Distance in light-years */
+  distance: 250,
+} as const;
+
+/**
+ * Calculate the general precession in longitude since J2000
+ *
+ * Uses the IAU 2006 expression: p = 5028.796195"·T + 1.1054348"·T²,
+ * where T is Julian centuries of Terrestrial Time since J2000.
+ *
+ * @param date - The date for the calculation
+ * @returns Accumulated precession in degrees (negative before J2000)
+ */
+function getPrecessionSinceJ2000(date: Date): number {
+  const centuries = Astronomy.MakeTime(date).tt / 36525;
+  const arcseconds = 5028.796195 * centuries + 1.1054348 * centuries * centuries;
+  return arcseconds / 3600;
+}
+
+/**
+ * Calculate the True Chitra ayanamsa
+ *
+ * Finds the tropical ecliptic longitude of Spica on the given date and
+ * measures how far it is from 180°.
+ *
+ * @param date - The date for the calculation
+ * @returns The ayanamsa in degrees
+ */
+function getTrueChitraAyanamsa(date: Date): number {
+  Astronomy.DefineStar(Astronomy.Body.Star1, SPICA.ra, SPICA.dec, SPICA.distance);
+  const spicaVector = Astronomy.GeoVector(Astronomy.Body.Star1, date, true);
+  const spicaLongitude = Astronomy.Ecliptic(spicaVector).elon;
+  return normalizeAngle(spicaLongitude - 180);
+}
+
+/**
+ * Calculate the ayanamsa for a given date
+ *
+ * @param date - The date for the calculation
+ * @param settings - Which ayanamsa to use (default: Lahiri)
+ * @returns The ayanamsa in degrees (0 for tropical)
+ *
+ * @example
+ * getAyanamsa(new Date('2024-01-01')); // ≈ 24.19 (Lahiri)
+ */
+export function getAyanamsa(
+  date: Date,
+  settings: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  switch (settings.system) {
+    case 'tropical':
+      return 0;
+    case 'custom':
+      return settings.customOffset ?? 0;
+    case 'true-chitra':
+      return getTrueChitraAyanamsa(date);
+    default:
+      return AYANAMSA_AT_J2000[settings.system] + getPrecessionSinceJ2000(date);
+  }
+}
+
+/**
+ * Convert a tropical longitude to the sidereal zodiac
+ *
+ * @param tropicalLongitude - Tropical ecliptic longitude in degrees
+ * @param date - The date the longitude was calculated for
+ * @param settings - Which ayanamsa to use (default: Lahiri)
+ * @returns Sidereal longitude in degrees (0-360°)
+ */
+export function toSidereal(
+  tropicalLongitude: number,
+  date: Date,
+  settings: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  return normalizeAngle(tropicalLongitude - getAyanamsa(date, settings));
+}
+
+/**
+ * Get the Sun's sidereal (nirayana) longitude
+ *
+ * @param date - The date and time for the calculation
+ * @param settings - Which ayanamsa to use (default: Lahiri)
+ * @returns The Sun's sidereal longitude in degrees (0-360°)
+ */
+export function getSiderealSunLongitude(
+  date: Date,
+  settings: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  return toSidereal(getSunLongitude(date), date, settings);
+}
+
+/**
+ * Get the Moon's sidereal (nirayana) longitude
+ *
+ * @param date - The date and time for the calculation
+ * @param settings - Which ayanamsa to use (default: Lahiri)
+ * @returns The Moon's sidereal longitude in degrees (0-360°)
+ */
+export function getSiderealMoonLongitude(
+  date: Date,
+  settings: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  return toSidereal(getMoonLongitude(date), date, settings);
+}
@@ -0,0 +1,169 @@
+/**
+ * Choghadiya Calculator Module
+ *
+ * Choghadiya divides daytime and night into 8 segments each, used widely for
+ * choosing times for travel, trade and new work. Each of the seven kinds is
+ * ruled by a planet:
+ *
+ * - Udvega (Sun), Kala (Saturn), Roga (Mars): inauspicious
+ * - Chara (Venus): neutral, good for travel
+ * - Labha (Mercury), Amrita (Moon), Shubha (Jupiter): auspicious
+ *
+ * By day the sequence starts with the weekday lord's choghadiya and follows
+ * the hora order; the 8th segment repeats the 1st. By night it starts five
+ * places further along and steps back two places each segment.
+ */
+
+import type { PolarPolicy, SolarDay } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalWeekday, getSolarDay } from './varaCalculator';
+import { divideHalfDay, getWeekdayLordIndex } from './horaCalculator';
+
+/**
+ * Quality of a choghadiya
+ */
+export type ChoghadiyaQuality = 'auspicious' | 'neutral' | 'inauspicious';
+
+/**
+ * A single choghadiya within a day
+ */
+export interface ChoghadiyaSegment {
+  /** Segment number within the day (1-16, 1-8 by day) */
+  number: number;
+
+  /** Name in English transliteration */
+  name: string;
+
+  /** Name in Sanskrit (Devanagari) */
+  nameSanskrit: string;
+
+  /** Auspiciousness of the segment */
+  quality: ChoghadiyaQuality;
+
+  /** True for the 8 day segments */
+  isDay: boolean;
+
+  /** Start of the segment */
+  start: Date;
+
+  /** End of the segment */
+  end: Date;
+}
+
+/**
+ * Result of choghadiya calculation
+ */
+export interface ChoghadiyaResult {
+  /** Choghadiya in effect */
+  current: ChoghadiyaSegment;
+
+  /** Progress through the current choghadiya (0-100%) */
+  progress: number;
+
+  /** Minutes until the next choghadiya */
+  minutesToNext: number;
+
+  /** All 16 choghadiyas of the sunrise-to-sunrise day */
+  segments: ChoghadiyaSegment[];
+}
+
+/**
+ * Choghadiya kinds, indexed like HORA_LORDS (Sun, Venus, Mercury, Moon,
+ * Saturn, Jupiter, Mars)
+ */
+export const CHOGHADIYA_NAMES: readonly { name: string; sanskrit: string; quality: ChoghadiyaQuality }[] = [
+  { name: 'Udvega', sanskrit: 'उद्वेग', quality: 'inauspicious' },
+  { name: 'Chara', sanskrit: 'चर', quality: 'neutral' },
+  { name: 'Labha', sanskrit: 'लाभ', quality: 'auspicious' },
+  { name: 'Amrita', sanskrit: 'अमृत', quality: 'auspicious' },
+  { name: 'Kala', sanskrit: 'काल', quality: 'inauspicious' },
+  { name: 'Shubha', sanskrit: 'शुभ', quality: 'auspicious' },
+  { name: 'Roga', sanskrit: 'रोग', quality: 'inauspicious' },
+];
+
+/**
+ * Choghadiyas in each half of the day
+ */
+export const CHOGHADIYAS_PER_HALF_DAY = 8;
+
+/**
+ * Offset of the first night choghadiya from the first day choghadiya
+ */
+const NIGHT_START_OFFSET = 5;
+
+/**
+ * Step between successive night choghadiyas (two places back)
+ */
+const NIGHT_STEP = -2;
+
+/**
+ * Get all 16 choghadiyas of a day
+ *
+ * @param solarDay - The day's sunrise, sunset and next sunrise
+ * @param weekday - Weekday of the sunrise (0 = Sunday ... 6 = Saturday)
+ * @returns The 8 day choghadiyas followed by the 8 night choghadiyas
+ */
+export function getChoghadiyaSegments(solarDay: SolarDay, weekday: number): ChoghadiyaSegment[] {
+  const count = CHOGHADIYA_NAMES.length;
+  const dayStart = getWeekdayLordIndex(weekday);
+  const nightStart = dayStart + NIGHT_START_OFFSET;
+
+  const build = (
+    span: { start: Date; end: Date },
+    kindIndex: number,
+    number: number,
+    isDay: boolean
+  ): ChoghadiyaSegment => {
+    const kind = CHOGHADIYA_NAMES[((kindIndex % count) + count) % count];
+    return {
+      number,
+      name: kind.name,
+      nameSanskrit: kind.sanskrit,
+      quality: kind.quality,
+      isDay,
+      ...span,
+    };
+  };
+
+  const day = divideHalfDay(solarDay.sunrise, solarDay.sunset, CHOGHADIYAS_PER_HALF_DAY).map(
+    (span, index) => build(span, dayStart + index, index + 1, true)
+  );
+  const night = divideHalfDay(solarDay.sunset, solarDay.nextSunrise, CHOGHADIYAS_PER_HALF_DAY).map(
+    (span, index) =>
+      build(span, nightStart + NIGHT_STEP * index, CHOGHADIYAS_PER_HALF_DAY + index + 1, false)
+  );
+
+  return [...day, ...night];
+}
+
+/**
+ * Calculate the choghadiya for a given date and location
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns The current choghadiya and the day's full table
+ *
+ * @example
+ * // Sunday begins with Udvega, Monday with Amrita
+ * const choghadiya = calculateChoghadiya(new Date('2024-01-15T07:30:00+05:30'), 28.61, 77.21);
+ * // choghadiya.current.name === 'Amrita'
+ */
+export function calculateChoghadiya(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): ChoghadiyaResult {
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const segments = getChoghadiyaSegments(solarDay, getLocalWeekday(solarDay.sunrise, longitude));
+  const current = segments.find((segment) => date < segment.end) ?? segments[segments.length - 1];
+
+  const duration = current.end.getTime() - current.start.getTime();
+  return {
+    current,
+    progress: ((date.getTime() - current.start.getTime()) / duration) * 100,
+    minutesToNext: (current.end.getTime() - date.getTime()) / (1000 * 60),
+    segments,
+  };
+}
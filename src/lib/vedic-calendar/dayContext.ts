@@ -0,0 +1,349 @@
+/**
+ * Day Context Module
+ *
+ * Most of a Vedic time reading changes only a few times a day: sunrise and
+ * sunset, the tithi, nakshatra, yoga and karana boundaries, the lagna table
+ * and the day's periods. A day context finds these once per sunrise-to-sunrise
+ * day, so each tick of the clock evaluates the current positions and looks
+ * the rest up instead of searching for it again.
+ *
+ * Values that change at an instant inside the day (the masa at a new or full
+ * moon, the next eclipse once one ends, the Moon's upcoming events) are kept
+ * with the span they hold for, and found again once that span is left.
+ *
+ * A context belongs to one location and one set of calendar conventions.
+ * Moving, changing a setting or the day rolling over selects a new context.
+ */
+
+import { advanceMoonDetails, getMoonDetails, getSunLongitude } from './astronomicalCalculations';
+import type { MoonDetails } from './astronomicalCalculations';
+import { DEFAULT_AYANAMSA } from './ayanamsa';
+import { calculateTithi } from './tithiCalculator';
+import { calculateNakshatra } from './nakshatraCalculator';
+import { calculateYoga } from './yogaCalculator';
+import { calculateKarana } from './karanaCalculator';
+import type { LagnaSegment } from './lagnaCalculator';
+import { getLagnaSegments } from './lagnaCalculator';
+import type { SolarDay } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalMidnight, getSolarDay } from './varaCalculator';
+import type { MasaResult } from './masaCalculator';
+import { calculateMasa } from './masaCalculator';
+import type { SolarCalendarResult } from './solarCalendarCalculator';
+import { DEFAULT_SOLAR_CALENDAR_RULE, calculateSolarCalendar, getSeason } from './solarCalendarCalculator';
+import type { SamvatResult } from './samvatCalculator';
+import { DEFAULT_SAMVAT_YEAR_START, calculateSamvat, getJovianSamvatsara } from './samvatCalculator';
+import type { DailyPeriods } from './kalamCalculator';
+import { calculateDailyPeriods } from './kalamCalculator';
+import type { Grahana } from './grahanaCalculator';
+import { findNextGrahana } from './grahanaCalculator';
+import type { PanchangLimb } from './panchangGenerator';
+import type { LimbBoundary, VedicCalendarSettings } from './vedicTime';
+import { getSamvatsaraName } from './vedicTime';
+
+/**
+ * A value and the span of time it holds for
+ */
+export interface TimedValue<T> {
+  /** The value */
+  value: T;
+
+  /** First instant the value is known to hold */
+  from: Date;
+
+  /** Instant the value may change */
+  until: Date;
+}
+
+/**
+ * Everything about one sunrise-to-sunrise day that the clock reuses between ticks
+ */
+export interface VedicDayContext {
+  /** Observer's latitude in degrees */
+  latitude: number;
+
+  /** Observer's longitude in degrees */
+  longitude: number;
+
+  /** Calendar conventions, with defaults filled in */
+  settings: Required<VedicCalendarSettings>;
+
+  /** Sunrise, sunset and next sunrise (real, or stood in for by the polar policy) */
+  solarDay: SolarDay;
+
+  /** Ends of the tithis, nakshatras, yogas and karanas in effect during the day */
+  boundaries: Record<PanchangLimb, LimbBoundary[]>;
+
+  /** Lagnas of the day */
+  lagnaSegments: LagnaSegment[];
+
+  /** The day's auspicious and inauspicious periods */
+  dailyPeriods: DailyPeriods;
+
+  /** Solar month and day (ritu and ayana are refreshed on each tick) */
+  solarCalendar: SolarCalendarResult;
+
+  /** Masa, found on first use */
+  masa: TimedValue<MasaResult> | null;
+
+  /** Era years, found on first use (the samvatsara is refreshed on each tick) */
+  samvat: TimedValue<SamvatResult> | null;
+
+  /** Next or current eclipse, found on first use */
+  nextGrahana: TimedValue<Grahana> | null;
+
+  /** Moon rise, set and upcoming events, found on first use */
+  moon: TimedValue<MoonDetails> | null;
+}
+
+/**
+ * Day contexts kept (the live day plus a few viewed or played around it)
+ */
+const MAX_DAY_CONTEXTS = 4;
+
+/**
+ * Offset past a boundary at which the next value is read, so search
+ * tolerance cannot return the value that just ended
+ */
+const BOUNDARY_PROBE_MS = 1000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Recently used day contexts, oldest first
+ */
+const dayContexts: VedicDayContext[] = [];
+
+/**
+ * Fill in the default for each calendar convention
+ */
+function resolveSettings(settings: VedicCalendarSettings): Required<VedicCalendarSettings> {
+  return {
+    ayanamsa: settings.ayanamsa ?? DEFAULT_AYANAMSA,
+    masaSystem: settings.masaSystem ?? 'amanta',
+    muhurtaMode: settings.muhurtaMode ?? 'equal',
+    polarPolicy: settings.polarPolicy ?? DEFAULT_POLAR_POLICY,
+    solarCalendarRule: settings.solarCalendarRule ?? DEFAULT_SOLAR_CALENDAR_RULE,
+    samvatYearStart: settings.samvatYearStart ?? DEFAULT_SAMVAT_YEAR_START,
+  };
+}
+
+/**
+ * Follow one limb from an instant to past the end of a range
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @param limbAt - Number of the value in effect at an instant, and when it ends
+ * @returns The value at `from` and each that follows, until one ends after `to`
+ */
+function collectBoundaries(
+  from: Date,
+  to: Date,
+  limbAt: (date: Date) => LimbBoundary
+): LimbBoundary[] {
+  let current = limbAt(from);
+  const boundaries = [current];
+
+  while (current.endsAt < to) {
+    const next = limbAt(new Date(current.endsAt.getTime() + BOUNDARY_PROBE_MS));
+
+    // Guard against a stalled search returning the same boundary
+    if (next.endsAt <= current.endsAt) {
+      break;
+    }
+    boundaries.push(next);
+    current = next;
+  }
+
+  return boundaries;
+}
+
+/**
+ * Build the context for the day containing an instant
+ */
+function createVedicDayContext(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  settings: Required<VedicCalendarSettings>
+): VedicDayContext {
+  const { ayanamsa, polarPolicy, solarCalendarRule } = settings;
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const { sunrise, nextSunrise } = solarDay;
+
+  return {
+    latitude,
+    longitude,
+    settings,
+    solarDay,
+    boundaries: {
+      tithi: collectBoundaries(sunrise, nextSunrise, (at) => {
+        const tithi = calculateTithi(at, latitude, longitude);
+        return { number: tithi.tithiNumber, endsAt: tithi.endsAt };
+      }),
+      nakshatra: collectBoundaries(sunrise, nextSunrise, (at) => {
+        const nakshatra = calculateNakshatra(at, latitude, longitude, ayanamsa);
+        return { number: nakshatra.nakshatraNumber, endsAt: nakshatra.endsAt };
+      }),
+      yoga: collectBoundaries(sunrise, nextSunrise, (at) => {
+        const yoga = calculateYoga(at, ayanamsa);
+        return { number: yoga.yogaNumber, endsAt: yoga.endsAt };
+      }),
+      karana: collectBoundaries(sunrise, nextSunrise, (at) => {
+        const karana = calculateKarana(at, latitude, longitude);
+        return { number: karana.karanaNumber, endsAt: karana.endsAt };
+      }),
+    },
+    lagnaSegments: getLagnaSegments(sunrise, nextSunrise, latitude, longitude, ayanamsa),
+    dailyPeriods: calculateDailyPeriods(date, latitude, longitude, ayanamsa, polarPolicy),
+    solarCalendar: calculateSolarCalendar(date, latitude, longitude, ayanamsa, solarCalendarRule, polarPolicy),
+    masa: null,
+    samvat: null,
+    nextGrahana: null,
+    moon: null,
+  };
+}
+
+/**
+ * Get the context for the day containing an instant
+ *
+ * Contexts are reused while the location, conventions and sunrise-to-sunrise
+ * day stay the same.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param settings - Calendar conventions (ayanamsa, masa system, muhurta mode, polar policy, region)
+ * @returns The day context
+ */
+export function getVedicDayContext(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  settings: VedicCalendarSettings = {}
+): VedicDayContext {
+  const resolved = resolveSettings(settings);
+  const settingsKey = JSON.stringify(resolved);
+
+  const cached = dayContexts.find(
+    (context) =>
+      context.latitude === latitude &&
+      context.longitude === longitude &&
+      JSON.stringify(context.settings) === settingsKey &&
+      context.solarDay.sunrise <= date &&
+      date < context.solarDay.nextSunrise
+  );
+  if (cached) {
+    return cached;
+  }
+
+  const context = createVedicDayContext(date, latitude, longitude, resolved);
+  dayContexts.push(context);
+  if (dayContexts.length > MAX_DAY_CONTEXTS) {
+    dayContexts.shift();
+  }
+  return context;
+}
+
+/**
+ * Whether a timed value holds at an instant
+ */
+function holdsAt<T>(timed: TimedValue<T> | null, date: Date): timed is TimedValue<T> {
+  return timed !== null && timed.from <= date && date < timed.until;
+}
+
+/**
+ * Get the Moon's details at an instant of the context's day
+ *
+ * @param context - Day context
+ * @param date - Instant within the day
+ * @returns Moon details at `date`
+ */
+export function getContextMoonDetails(context: VedicDayContext, date: Date): MoonDetails {
+  if (!holdsAt(context.moon, date)) {
+    const moon = getMoonDetails(date, context.latitude, context.longitude);
+    const civilDayEnd = getLocalMidnight(date, context.longitude).getTime() + MS_PER_DAY;
+    const until = Math.min(
+      civilDayEnd,
+      moon.nextNewMoon.getTime(),
+      moon.nextFullMoon.getTime(),
+      moon.nextApsis.time.getTime()
+    );
+    context.moon = { value: moon, from: date, until: new Date(until) };
+  }
+
+  return advanceMoonDetails(context.moon.value, context.moon.from, date);
+}
+
+/**
+ * Get the masa at an instant of the context's day
+ *
+ * @param context - Day context
+ * @param date - Instant within the day
+ * @returns The masa in effect
+ */
+export function getContextMasa(context: VedicDayContext, date: Date): MasaResult {
+  if (!holdsAt(context.masa, date)) {
+    const masa = calculateMasa(date, context.settings.ayanamsa, context.settings.masaSystem);
+    context.masa = { value: masa, from: masa.startsAt, until: masa.endsAt };
+  }
+
+  return context.masa.value;
+}
+
+/**
+ * Get the era years and samvatsara at an instant of the context's day
+ *
+ * The years can only change at a new moon, so they are kept until the next
+ * one; Jupiter's samvatsara is read afresh each time.
+ *
+ * @param context - Day context
+ * @param date - Instant within the day
+ * @returns Vikram, Shaka and Kali years, ahargana and samvatsara
+ */
+export function getContextSamvat(context: VedicDayContext, date: Date): SamvatResult {
+  const { latitude, longitude, settings, solarDay } = context;
+
+  if (!holdsAt(context.samvat, date)) {
+    const samvat = calculateSamvat(
+      date,
+      latitude,
+      longitude,
+      settings.ayanamsa,
+      settings.samvatYearStart,
+      settings.polarPolicy
+    );
+    const nextNewMoon = getContextMoonDetails(context, date).nextNewMoon;
+    const until = nextNewMoon < solarDay.nextSunrise ? nextNewMoon : solarDay.nextSunrise;
+    context.samvat = { value: samvat, from: date, until };
+  }
+
+  const samvatsara = getJovianSamvatsara(date, context.samvat.value.kaliAhargana, settings.ayanamsa);
+  return { ...context.samvat.value, samvatsara, samvatsaraName: getSamvatsaraName(samvatsara) };
+}
+
+/**
+ * Get the solar calendar date at an instant of the context's day
+ *
+ * @param context - Day context
+ * @param date - Instant within the day
+ * @returns Solar month and day, with the ritu and ayana at `date`
+ */
+export function getContextSolarCalendar(context: VedicDayContext, date: Date): SolarCalendarResult {
+  return { ...context.solarCalendar, ...getSeason(getSunLongitude(date)) };
+}
+
+/**
+ * Get the next (or current) eclipse at an instant of the context's day
+ *
+ * @param context - Day context
+ * @param date - Instant within the day
+ * @returns The eclipse in progress, or the next to begin
+ */
+export function getContextGrahana(context: VedicDayContext, date: Date): Grahana {
+  if (!holdsAt(context.nextGrahana, date)) {
+    const grahana = findNextGrahana(date, context.latitude, context.longitude);
+    context.nextGrahana = { value: grahana, from: date, until: grahana.end };
+  }
+
+  return context.nextGrahana.value;
+}
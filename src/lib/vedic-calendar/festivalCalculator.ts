@@ -0,0 +1,425 @@
+/**
+ * Festival Calculator Module
+ *
+ * Turns the festival rules (festivalRules.ts) into dated observances for a
+ * location. A tithi rarely lines up with a civil day, so each rule names an
+ * observance window, and the festival is kept on the day whose window the
+ * tithi occupies:
+ *
+ * 1. Find the exact start and end of the tithi in the right lunar month
+ * 2. Work out the window (sunrise, midday, afternoon, dusk or midnight) on
+ *    each civil day the tithi touches
+ * 3. Pick the day on which the tithi covers the most of that window
+ *
+ * Ekadashi has its own rule, which differs between traditions:
+ * - Smarta: fast on the first day with Ekadashi at sunrise
+ * - Vaishnava: Ekadashi must be free of Dashami at arunodaya (96 minutes
+ *   before sunrise), and when Ekadashi spans two sunrises the second day is
+ *   kept; otherwise the fast moves to the following day
+ *
+ * Civil days run from local mean midnight at the observer's longitude, and
+ * take their sunrise and sunset from the same solar day as the panchang,
+ * polar policy included.
+ */
+
+import type { VedicCalendarSettings } from './vedicTime';
+import { VEDIC_CONSTANTS } from './vedicTime';
+import { searchElongation } from './astronomicalCalculations';
+import { DEFAULT_AYANAMSA } from './ayanamsa';
+import type { PolarPolicy } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getCivilSolarDay, getLocalMidnight } from './varaCalculator';
+import type { LunarMonth } from './masaCalculator';
+import { findNextSankranti, getLunarMonths } from './masaCalculator';
+import type {
+  FestivalCategory,
+  FestivalRule,
+  ObservanceWindow,
+  SankrantiFestivalRule,
+  TithiFestivalRule,
+} from './festivalRules';
+import { FESTIVAL_RULES } from './festivalRules';
+
+/**
+ * Ekadashi observance tradition
+ */
+export type EkadashiTradition = 'smarta' | 'vaishnava';
+
+/**
+ * Options for festival calculation
+ */
+export interface FestivalOptions extends VedicCalendarSettings {
+  /** Rules to evaluate (default: FESTIVAL_RULES) */
+  rules?: readonly FestivalRule[];
+
+  /** Only include regional rules for these regions (default: include all) */
+  regions?: string[];
+
+  /** Ekadashi rule to apply (default: smarta) */
+  tradition?: EkadashiTradition;
+}
+
+/**
+ * A festival or vrata on a specific civil day
+ */
+export interface FestivalObservance {
+  /** Rule identifier */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Name in Devanagari */
+  nameSanskrit?: string;
+
+  /** Festival or fasting observance */
+  category: FestivalCategory;
+
+  /** Local mean midnight beginning the (first) day of observance */
+  date: Date;
+
+  /** Number of consecutive days observed */
+  durationDays: number;
+
+  /** Start of the tithi, or the sankranti instant */
+  startsAt: Date;
+
+  /** End of the tithi, or the sankranti instant */
+  endsAt: Date;
+
+  /** Observance window on the chosen day, if the rule has one */
+  window?: { start: Date; end: Date };
+
+  /** True if the tithi falls in an adhika (leap) month */
+  isAdhikaMasa: boolean;
+}
+
+/**
+ * Sunrise-anchored times of one civil day
+ */
+interface DayTimes {
+  dayStart: Date;
+  sunrise: Date;
+  sunset: Date;
+  nextSunrise: Date;
+}
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Arunodaya precedes sunrise by 4 ghatis (96 minutes)
+ */
+const ARUNODAYA_MS = 96 * 60 * 1000;
+
+/**
+ * Search margin around the mean tithi start in hours (covers the Moon's
+ * departure from its mean motion)
+ */
+const TITHI_SEARCH_MARGIN_HOURS = 48;
+
+/**
+ * Get sunrise, sunset and the following sunrise for a civil day
+ *
+ * Where the Sun does not rise or set, the polar policy stands in, as it
+ * does for the panchang.
+ *
+ * @param dayStart - Local mean midnight beginning the day
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set
+ * @returns The day's sunrise-anchored times
+ */
+function getDayTimes(
+  dayStart: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy
+): DayTimes {
+  const { sunrise, sunset, nextSunrise } = getCivilSolarDay(dayStart, latitude, longitude, polarPolicy);
+  return { dayStart, sunrise, sunset, nextSunrise };
+}
+
+/**
+ * Get the observance window on a day
+ *
+ * @param window - Window type
+ * @param day - The day's sunrise-anchored times
+ * @returns Start and end of the window (a single instant for sunrise rules)
+ */
+function getWindow(window: ObservanceWindow, day: DayTimes): { start: Date; end: Date } {
+  const dayLength = day.sunset.getTime() - day.sunrise.getTime();
+  const nightLength = day.nextSunrise.getTime() - day.sunset.getTime();
+  const dayPart = (from: number, to: number) => ({
+    start: new Date(day.sunrise.getTime() + dayLength * from),
+    end: new Date(day.sunrise.getTime() + dayLength * to),
+  });
+  const nightPart = (from: number, to: number) => ({
+    start: new Date(day.sunset.getTime() + nightLength * from),
+    end: new Date(day.sunset.getTime() + nightLength * to),
+  });
+
+  switch (window) {
+    case 'madhyahna':
+      return dayPart(2 / 5, 3 / 5);
+    case 'aparahna':
+      return dayPart(3 / 5, 4 / 5);
+    case 'pradosha':
+      return nightPart(0, 1 / 5);
+    case 'nishita':
+      return nightPart(7 / 15, 8 / 15);
+    default:
+      return { start: day.sunrise, end: day.sunrise };
+  }
+}
+
+/**
+ * Find the exact span of a tithi within a lunar month
+ *
+ * @param month - The amanta lunation
+ * @param tithiNumber - Tithi number (1-30)
+ * @returns Start and end of the tithi
+ */
+function findTithiSpan(month: LunarMonth, tithiNumber: number): { start: Date; end: Date } {
+  const monthLength = month.endsAt.getTime() - month.startsAt.getTime();
+  const degrees = VEDIC_CONSTANTS.DEGREES_PER_TITHI;
+
+  const findBoundary = (index: number): Date => {
+    if (index === 0) return month.startsAt;
+    if (index === VEDIC_CONSTANTS.TITHIS_PER_MONTH) return month.endsAt;
+
+    // Search around the mean time of the boundary
+    const meanTime = month.startsAt.getTime() + (monthLength * index) / VEDIC_CONSTANTS.TITHIS_PER_MONTH;
+    const searchStart = new Date(meanTime - TITHI_SEARCH_MARGIN_HOURS * MS_PER_HOUR);
+    return searchElongation(index * degrees, searchStart, 2 * TITHI_SEARCH_MARGIN_HOURS) ?? new Date(meanTime);
+  };
+
+  return { start: findBoundary(tithiNumber - 1), end: findBoundary(tithiNumber) };
+}
+
+/**
+ * Choose the civil day on which a tithi is observed
+ *
+ * @param span - Start and end of the tithi
+ * @param window - Observance window of the rule
+ * @param tradition - Ekadashi tradition
+ * @param getDay - Returns the day times for a local midnight (cached)
+ * @param longitude - Observer's longitude in degrees
+ * @returns The chosen day and its window
+ */
+function chooseObservanceDay(
+  span: { start: Date; end: Date },
+  window: ObservanceWindow,
+  tradition: EkadashiTradition,
+  getDay: (dayStart: Date) => DayTimes,
+  longitude: number
+): { day: DayTimes; window: { start: Date; end: Date } } {
+  // Candidate days: from the day before the tithi starts to the day it ends
+  const days: DayTimes[] = [];
+  const lastDayStart = getLocalMidnight(span.end, longitude);
+  for (
+    let dayStart = new Date(getLocalMidnight(span.start, longitude).getTime() - MS_PER_DAY);
+    dayStart <= lastDayStart;
+    dayStart = new Date(dayStart.getTime() + MS_PER_DAY)
+  ) {
+    days.push(getDay(dayStart));
+  }
+
+  const hasTithiAt = (instant: Date) => instant >= span.start && instant < span.end;
+
+  // Udaya day: first sunrise inside the tithi, or for a kshaya tithi (no
+  // sunrise at all) the day in which it begins
+  const firstUdayaIndex = days.findIndex((day) => hasTithiAt(day.sunrise));
+  const beginningIndex = days.findIndex(
+    (day) => day.sunrise <= span.start && span.start < day.nextSunrise
+  );
+  const baseIndex = firstUdayaIndex >= 0 ? firstUdayaIndex : Math.max(beginningIndex, 0);
+  const udaya = (index: number) => ({
+    day: days[index],
+    window: { start: days[index].sunrise, end: days[index].sunrise },
+  });
+
+  if (window === 'udaya') {
+    return udaya(baseIndex);
+  }
+
+  if (window === 'ekadashi') {
+    if (tradition === 'smarta' || baseIndex + 1 >= days.length) {
+      return udaya(baseIndex);
+    }
+    const base = days[baseIndex];
+    const next = days[baseIndex + 1];
+    const dashamiAtArunodaya = span.start.getTime() > base.sunrise.getTime() - ARUNODAYA_MS;
+    const spansTwoSunrises = hasTithiAt(next.sunrise);
+    return udaya(dashamiAtArunodaya || spansTwoSunrises ? baseIndex + 1 : baseIndex);
+  }
+
+  // Timed windows: the day on which the tithi covers most of the window
+  let best: { day: DayTimes; window: { start: Date; end: Date } } | null = null;
+  let bestOverlap = 0;
+  for (const day of days) {
+    const dayWindow = getWindow(window, day);
+    const overlap =
+      Math.min(dayWindow.end.getTime(), span.end.getTime()) -
+      Math.max(dayWindow.start.getTime(), span.start.getTime());
+    if (overlap > bestOverlap) {
+      best = { day, window: dayWindow };
+      bestOverlap = overlap;
+    }
+  }
+
+  // The tithi missed the window on every day: fall back to sunrise
+  return best ?? udaya(baseIndex);
+}
+
+/**
+ * Check whether a rule applies to a lunar month
+ *
+ * @param rule - Tithi rule
+ * @param month - Amanta lunation
+ * @returns True if the rule's masa and month type match
+ */
+function ruleMatchesMonth(rule: TithiFestivalRule, month: LunarMonth): boolean {
+  const months = rule.months ?? 'nija';
+  if (months === 'nija' && month.isAdhika) return false;
+  if (months === 'adhika' && !month.isAdhika) return false;
+  return rule.masa === null || rule.masa === month.masaNumber;
+}
+
+/**
+ * Check whether a rule is observed in the selected regions
+ */
+function ruleMatchesRegions(rule: FestivalRule, regions?: string[]): boolean {
+  if (!regions || !rule.regions) return true;
+  return rule.regions.some((region) => regions.includes(region));
+}
+
+/**
+ * Calculate festival and vrata observances between two dates
+ *
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param startDate - Start of the range
+ * @param endDate - End of the range
+ * @param options - Rules, regions, Ekadashi tradition, ayanamsa and polar policy
+ * @returns Observances whose (first) day falls in the range, in date order
+ */
+export function getFestivalsBetween(
+  latitude: number,
+  longitude: number,
+  startDate: Date,
+  endDate: Date,
+  options: FestivalOptions = {}
+): FestivalObservance[] {
+  const {
+    rules = FESTIVAL_RULES,
+    regions,
+    tradition = 'smarta',
+    ayanamsa = DEFAULT_AYANAMSA,
+    polarPolicy = DEFAULT_POLAR_POLICY,
+  } = options;
+
+  const dayCache = new Map<number, DayTimes>();
+  const getDay = (dayStart: Date): DayTimes => {
+    let day = dayCache.get(dayStart.getTime());
+    if (!day) {
+      day = getDayTimes(dayStart, latitude, longitude, polarPolicy);
+      dayCache.set(dayStart.getTime(), day);
+    }
+    return day;
+  };
+
+  const activeRules = rules.filter((rule) => ruleMatchesRegions(rule, regions));
+  const tithiRules = activeRules.filter((rule): rule is TithiFestivalRule => rule.kind === 'tithi');
+  const sankrantiRules = activeRules.filter(
+    (rule): rule is SankrantiFestivalRule => rule.kind === 'sankranti'
+  );
+
+  const observances: FestivalObservance[] = [];
+
+  // Lunar festivals: start a month early so tithis late in the previous
+  // lunation are not missed
+  const months = getLunarMonths(new Date(startDate.getTime() - 31 * MS_PER_DAY), endDate, ayanamsa);
+  for (const month of months) {
+    for (const rule of tithiRules) {
+      if (!ruleMatchesMonth(rule, month)) continue;
+
+      const tithiNumber = rule.paksha === 'Shukla' ? rule.tithi : rule.tithi + VEDIC_CONSTANTS.TITHIS_PER_PAKSHA;
+      const span = findTithiSpan(month, tithiNumber);
+      const chosen = chooseObservanceDay(span, rule.window, tradition, getDay, longitude);
+
+      observances.push({
+        id: rule.id,
+        name: rule.name,
+        nameSanskrit: rule.nameSanskrit,
+        category: rule.category,
+        date: new Date(chosen.day.dayStart.getTime() + (rule.offsetDays ?? 0) * MS_PER_DAY),
+        durationDays: rule.durationDays ?? 1,
+        startsAt: span.start,
+        endsAt: span.end,
+        window: rule.window === 'udaya' || rule.window === 'ekadashi' ? undefined : chosen.window,
+        isAdhikaMasa: month.isAdhika,
+      });
+    }
+  }
+
+  // Solar festivals: kept on the day of the sankranti, or the next day if it
+  // falls after sunset
+  if (sankrantiRules.length > 0) {
+    let sankranti = findNextSankranti(new Date(startDate.getTime() - MS_PER_DAY), ayanamsa);
+    while (sankranti.at <= endDate) {
+      const current = sankranti;
+      const dayStart = getLocalMidnight(current.at, longitude);
+      const day = getDay(dayStart);
+      const observedDay = current.at > day.sunset ? getDay(new Date(dayStart.getTime() + MS_PER_DAY)) : day;
+
+      for (const rule of sankrantiRules) {
+        if (rule.rashi !== null && rule.rashi !== current.rashi) continue;
+        observances.push({
+          id: rule.id,
+          name: rule.name,
+          nameSanskrit: rule.nameSanskrit,
+          category: rule.category,
+          date: new Date(observedDay.dayStart.getTime() + (rule.offsetDays ?? 0) * MS_PER_DAY),
+          durationDays: rule.durationDays ?? 1,
+          startsAt: current.at,
+          endsAt: current.at,
+          isAdhikaMasa: false,
+        });
+      }
+
+      sankranti = findNextSankranti(new Date(current.at.getTime() + MS_PER_HOUR), ayanamsa);
+    }
+  }
+
+  const rangeStart = getLocalMidnight(startDate, longitude);
+  return observances
+    .filter((observance) => observance.date >= rangeStart && observance.date <= endDate)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Calculate festival and vrata observances for a Gregorian year
+ *
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param year - Gregorian year
+ * @param options - Rules, regions, Ekadashi tradition, ayanamsa and polar policy
+ * @returns Observances falling in the year, in date order
+ *
+ * @example
+ * // Amavasya covers pradosha on 31 October in Delhi, so Diwali is kept then
+ * const festivals = getFestivals(28.6139, 77.2090, 2024, { tradition: 'vaishnava' });
+ * festivals.find((f) => f.id === 'diwali')?.date; // 31 October 2024 (local mean midnight)
+ */
+export function getFestivals(
+  latitude: number,
+  longitude: number,
+  year: number,
+  options: FestivalOptions = {}
+): FestivalObservance[] {
+  // Local mean midnight of 1 January to the last instant of 31 December
+  const offsetMs = (longitude / 15) * MS_PER_HOUR;
+  const yearStart = new Date(Date.UTC(year, 0, 1) - offsetMs);
+  const yearEnd = new Date(Date.UTC(year + 1, 0, 1) - offsetMs - 1);
+  return getFestivalsBetween(latitude, longitude, yearStart, yearEnd, options);
+}
@@ -0,0 +1,199 @@
+/**
+ * Festival Rules
+ *
+ * Data describing when festivals and vratas (observances) fall. The festival
+ * engine (festivalCalculator.ts) reads these rules; adding a regional festival
+ * only needs a new entry here, or a custom rule list passed to the engine.
+ *
+ * Lunar rules are keyed on masa + paksha + tithi. Masa numbers always follow
+ * the amanta convention (1 = Chaitra), so a Krishna paksha festival that
+ * North Indian calendars place in the following purnimanta month is listed
+ * under the preceding month here. The date itself is the same in both systems.
+ *
+ * The observance window decides which civil day a tithi is kept on when it
+ * does not line up with a single day:
+ * - udaya: the tithi prevailing at sunrise
+ * - madhyahna: the 3rd fifth of daytime (midday)
+ * - aparahna: the 4th fifth of daytime (afternoon)
+ * - pradosha: the first fifth of the night after sunset (dusk)
+ * - nishita: the 8th of the 15 night muhurtas (midnight)
+ * - ekadashi: sunrise, with the Smarta or Vaishnava rule for Ekadashi
+ */
+
+import type { Paksha } from './vedicTime';
+
+/**
+ * Part of the day in which a tithi must prevail for the observance
+ */
+export type ObservanceWindow =
+  | 'udaya'
+  | 'madhyahna'
+  | 'aparahna'
+  | 'pradosha'
+  | 'nishita'
+  | 'ekadashi';
+
+/**
+ * Kind of observance
+ */
+export type FestivalCategory = 'festival' | 'vrata';
+
+/**
+ * Fields shared by all festival rules
+ */
+interface FestivalRuleBase {
+  /** Unique identifier (kebab-case) */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Name in Devanagari */
+  nameSanskrit?: string;
+
+  /** Festival or fasting observance */
+  category: FestivalCategory;
+
+  /** Number of consecutive days observed (default: 1) */
+  durationDays?: number;
+
+  /** Days after the computed date on which the festival is kept (default: 0) */
+  offsetDays?: number;
+
+  /** Regions observing the festival; omit for pan-Indian observances */
+  regions?: string[];
+}
+
+/**
+ * Rule for an observance fixed to a lunar tithi
+ */
+export interface TithiFestivalRule extends FestivalRuleBase {
+  kind: 'tithi';
+
+  /** Amanta masa number (1-12), or null for every month */
+  masa: number | null;
+
+  /**
+   * Whether the rule applies in nija (regular) months, adhika (leap)
+   * months, or both (default: nija)
+   */
+  months?: 'nija' | 'any' | 'adhika';
+
+  /** Paksha of the tithi */
+  paksha: Paksha;
+
+  /** Tithi within the paksha (1-15; 15 = Purnima or Amavasya) */
+  tithi: number;
+
+  /** Window in which the tithi must prevail */
+  window: ObservanceWindow;
+}
+
+/**
+ * Rule for an observance fixed to a sankranti (solar ingress)
+ */
+export interface SankrantiFestivalRule extends FestivalRuleBase {
+  kind: 'sankranti';
+
+  /** Rashi entered by the Sun (0 = Mesha ... 11 = Meena), or null for every sankranti */
+  rashi: number | null;
+}
+
+/**
+ * Any festival rule
+ */
+export type FestivalRule = TithiFestivalRule | SankrantiFestivalRule;
+
+/**
+ * Build the rule for a named Ekadashi
+ */
+function ekadashi(
+  name: string,
+  masa: number | null,
+  paksha: Paksha,
+  months: TithiFestivalRule['months'] = 'nija'
+): TithiFestivalRule {
+  return {
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    category: 'vrata',
+    kind: 'tithi',
+    masa,
+    months,
+    paksha,
+    tithi: 11,
+    window: 'ekadashi',
+  };
+}
+
+/**
+ * Named Ekadashis, one per paksha of each nija month plus the two of an adhika month
+ */
+const EKADASHI_RULES: TithiFestivalRule[] = [
+  ekadashi('Kamada Ekadashi', 1, 'Shukla'),
+  ekadashi('Varuthini Ekadashi', 1, 'Krishna'),
+  ekadashi('Mohini Ekadashi', 2, 'Shukla'),
+  ekadashi('Apara Ekadashi', 2, 'Krishna'),
+  ekadashi('Nirjala Ekadashi', 3, 'Shukla'),
+  ekadashi('Yogini Ekadashi', 3, 'Krishna'),
+  ekadashi('Devshayani Ekadashi', 4, 'Shukla'),
+  ekadashi('Kamika Ekadashi', 4, 'Krishna'),
+  ekadashi('Shravana Putrada Ekadashi', 5, 'Shukla'),
+  ekadashi('Aja Ekadashi', 5, 'Krishna'),
+  ekadashi('Parsva Ekadashi', 6, 'Shukla'),
+  ekadashi('Indira Ekadashi', 6, 'Krishna'),
+  ekadashi('Papankusha Ekadashi', 7, 'Shukla'),
+  ekadashi('Rama Ekadashi', 7, 'Krishna'),
+  ekadashi('Devutthana Ekadashi', 8, 'Shukla'),
+  ekadashi('Utpanna Ekadashi', 8, 'Krishna'),
+  ekadashi('Mokshada Ekadashi', 9, 'Shukla'),
+  ekadashi('Saphala Ekadashi', 9, 'Krishna'),
+  ekadashi('Pausha Putrada Ekadashi', 10, 'Shukla'),
+  ekadashi('Shattila Ekadashi', 10, 'Krishna'),
+  ekadashi('Jaya Ekadashi', 11, 'Shukla'),
+  ekadashi('Vijaya Ekadashi', 11, 'Krishna'),
+  ekadashi('Amalaki Ekadashi', 12, 'Shukla'),
+  ekadashi('Papmochani Ekadashi', 12, 'Krishna'),
+  ekadashi('Padmini Ekadashi', null, 'Shukla', 'adhika'),
+  ekadashi('Parama Ekadashi', null, 'Krishna', 'adhika'),
+];
+
+/**
+ * Default festival and vrata rules
+ */
+export const FESTIVAL_RULES: readonly FestivalRule[] = [
+  // Annual festivals
+  { id: 'ugadi', name: 'Ugadi / Gudi Padwa', nameSanskrit: 'युगादि', category: 'festival', kind: 'tithi', masa: 1, paksha: 'Shukla', tithi: 1, window: 'udaya', regions: ['south', 'west'] },
+  { id: 'rama-navami', name: 'Rama Navami', nameSanskrit: 'राम नवमी', category: 'festival', kind: 'tithi', masa: 1, paksha: 'Shukla', tithi: 9, window: 'madhyahna' },
+  { id: 'hanuman-jayanti', name: 'Hanuman Jayanti', nameSanskrit: 'हनुमान जयन्ती', category: 'festival', kind: 'tithi', masa: 1, paksha: 'Shukla', tithi: 15, window: 'udaya', regions: ['north'] },
+  { id: 'akshaya-tritiya', name: 'Akshaya Tritiya', nameSanskrit: 'अक्षय तृतीया', category: 'festival', kind: 'tithi', masa: 2, paksha: 'Shukla', tithi: 3, window: 'udaya' },
+  { id: 'guru-purnima', name: 'Guru Purnima', nameSanskrit: 'गुरु पूर्णिमा', category: 'festival', kind: 'tithi', masa: 4, paksha: 'Shukla', tithi: 15, window: 'udaya' },
+  { id: 'naga-panchami', name: 'Naga Panchami', nameSanskrit: 'नाग पञ्चमी', category: 'festival', kind: 'tithi', masa: 5, paksha: 'Shukla', tithi: 5, window: 'udaya' },
+  { id: 'raksha-bandhan', name: 'Raksha Bandhan', nameSanskrit: 'रक्षा बन्धन', category: 'festival', kind: 'tithi', masa: 5, paksha: 'Shukla', tithi: 15, window: 'aparahna' },
+  { id: 'krishna-janmashtami', name: 'Krishna Janmashtami', nameSanskrit: 'कृष्ण जन्माष्टमी', category: 'festival', kind: 'tithi', masa: 5, paksha: 'Krishna', tithi: 8, window: 'nishita' },
+  { id: 'ganesh-chaturthi', name: 'Ganesh Chaturthi', nameSanskrit: 'गणेश चतुर्थी', category: 'festival', kind: 'tithi', masa: 6, paksha: 'Shukla', tithi: 4, window: 'madhyahna' },
+  { id: 'navaratri', name: 'Sharad Navaratri', nameSanskrit: 'शारद नवरात्रि', category: 'festival', kind: 'tithi', masa: 7, paksha: 'Shukla', tithi: 1, window: 'udaya', durationDays: 9 },
+  { id: 'vijayadashami', name: 'Vijayadashami', nameSanskrit: 'विजयदशमी', category: 'festival', kind: 'tithi', masa: 7, paksha: 'Shukla', tithi: 10, window: 'aparahna' },
+  { id: 'dhanteras', name: 'Dhanteras', nameSanskrit: 'धनत्रयोदशी', category: 'festival', kind: 'tithi', masa: 7, paksha: 'Krishna', tithi: 13, window: 'pradosha' },
+  { id: 'naraka-chaturdashi', name: 'Naraka Chaturdashi', nameSanskrit: 'नरक चतुर्दशी', category: 'festival', kind: 'tithi', masa: 7, paksha: 'Krishna', tithi: 14, window: 'udaya' },
+  { id: 'diwali', name: 'Diwali (Lakshmi Puja)', nameSanskrit: 'दीपावली', category: 'festival', kind: 'tithi', masa: 7, paksha: 'Krishna', tithi: 15, window: 'pradosha' },
+  { id: 'govardhan-puja', name: 'Govardhan Puja / Bali Pratipada', nameSanskrit: 'गोवर्धन पूजा', category: 'festival', kind: 'tithi', masa: 8, paksha: 'Shukla', tithi: 1, window: 'udaya' },
+  { id: 'bhai-dooj', name: 'Bhai Dooj', nameSanskrit: 'भ्रातृ द्वितीया', category: 'festival', kind: 'tithi', masa: 8, paksha: 'Shukla', tithi: 2, window: 'aparahna' },
+  { id: 'kartik-purnima', name: 'Kartik Purnima', nameSanskrit: 'कार्तिक पूर्णिमा', category: 'festival', kind: 'tithi', masa: 8, paksha: 'Shukla', tithi: 15, window: 'udaya' },
+  { id: 'vasant-panchami', name: 'Vasant Panchami', nameSanskrit: 'वसन्त पञ्चमी', category: 'festival', kind: 'tithi', masa: 11, paksha: 'Shukla', tithi: 5, window: 'udaya' },
+  { id: 'maha-shivaratri', name: 'Maha Shivaratri', nameSanskrit: 'महाशिवरात्रि', category: 'festival', kind: 'tithi', masa: 11, paksha: 'Krishna', tithi: 14, window: 'nishita' },
+  { id: 'holika-dahan', name: 'Holika Dahan', nameSanskrit: 'होलिका दहन', category: 'festival', kind: 'tithi', masa: 12, paksha: 'Shukla', tithi: 15, window: 'pradosha' },
+  { id: 'holi', name: 'Holi', nameSanskrit: 'होली', category: 'festival', kind: 'tithi', masa: 12, paksha: 'Shukla', tithi: 15, window: 'pradosha', offsetDays: 1 },
+
+  // Sankrantis
+  { id: 'makara-sankranti', name: 'Makara Sankranti', nameSanskrit: 'मकर संक्रान्ति', category: 'festival', kind: 'sankranti', rashi: 9 },
+  { id: 'mesha-sankranti', name: 'Mesha Sankranti', nameSanskrit: 'मेष संक्रान्ति', category: 'festival', kind: 'sankranti', rashi: 0 },
+
+  // Monthly vratas
+  { id: 'purnima', name: 'Purnima', nameSanskrit: 'पूर्णिमा', category: 'vrata', kind: 'tithi', masa: null, months: 'any', paksha: 'Shukla', tithi: 15, window: 'udaya' },
+  { id: 'amavasya', name: 'Amavasya', nameSanskrit: 'अमावस्या', category: 'vrata', kind: 'tithi', masa: null, months: 'any', paksha: 'Krishna', tithi: 15, window: 'udaya' },
+  { id: 'shukla-pradosha', name: 'Pradosha Vrata (Shukla)', nameSanskrit: 'प्रदोष व्रत', category: 'vrata', kind: 'tithi', masa: null, months: 'any', paksha: 'Shukla', tithi: 13, window: 'pradosha' },
+  { id: 'krishna-pradosha', name: 'Pradosha Vrata (Krishna)', nameSanskrit: 'प्रदोष व्रत', category: 'vrata', kind: 'tithi', masa: null, months: 'any', paksha: 'Krishna', tithi: 13, window: 'pradosha' },
+  { id: 'masik-shivaratri', name: 'Masik Shivaratri', nameSanskrit: 'मासिक शिवरात्रि', category: 'vrata', kind: 'tithi', masa: null, months: 'any', paksha: 'Krishna', tithi: 14, window: 'nishita' },
+  ...EKADASHI_RULES,
+];
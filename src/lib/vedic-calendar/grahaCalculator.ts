@@ -0,0 +1,202 @@
+/**
+ * Graha Calculator Module
+ *
+ * The navagrahas ("nine seizers") are the bodies tracked in Vedic astronomy:
+ * the Sun, Moon, the five visible planets and the two lunar nodes.
+ *
+ * - Surya, Chandra, Mangala, Budha, Guru, Shukra and Shani are placed by their
+ *   geocentric ecliptic longitudes from astronomy-engine
+ * - Rahu is the Moon's mean ascending node and Ketu the descending node,
+ *   always 180° opposite
+ *
+ * Each graha's sidereal longitude gives its rashi (30° sign), nakshatra and
+ * pada. A planet is vakri (retrograde) while its geocentric longitude is
+ * decreasing; the mean nodes always move backwards.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { normalizeAngle } from './astronomicalCalculations';
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA, toSidereal } from './ayanamsa';
+import { calculateNakshatraNumber, calculateNakshatraPada } from './nakshatraCalculator';
+import { VEDIC_CONSTANTS, getNakshatraName, getRashiName } from './vedicTime';
+
+/**
+ * Identifier of a graha
+ */
+export type GrahaId =
+  | 'sun'
+  | 'moon'
+  | 'mars'
+  | 'mercury'
+  | 'jupiter'
+  | 'venus'
+  | 'saturn'
+  | 'rahu'
+  | 'ketu';
+
+/**
+ * Position of a single graha
+ */
+export interface GrahaPosition {
+  /** Graha identifier */
+  id: GrahaId;
+
+  /** Name in English transliteration */
+  name: string;
+
+  /** Name in Sanskrit (Devanagari) */
+  nameSanskrit: string;
+
+  /** Sidereal ecliptic longitude in degrees (0-360°) */
+  longitude: number;
+
+  /** Rashi (zodiac sign) number (1-12) */
+  rashi: number;
+
+  /** Name of the rashi */
+  rashiName: string;
+
+  /** Degrees into the rashi (0-30°) */
+  rashiDegree: number;
+
+  /** Nakshatra number (1-27) */
+  nakshatra: number;
+
+  /** Name of the nakshatra */
+  nakshatraName: string;
+
+  /** Pada (quarter) of the nakshatra (1-4) */
+  pada: number;
+
+  /** Daily motion in longitude in degrees (negative when retrograde) */
+  speed: number;
+
+  /** True while the graha moves backwards along the ecliptic */
+  isRetrograde: boolean;
+}
+
+/**
+ * The navagrahas in traditional order (weekday lords, then the nodes)
+ */
+export const GRAHAS: readonly { id: GrahaId; name: string; sanskrit: string }[] = [
+  { id: 'sun', name: 'Surya', sanskrit: 'सूर्य' },
+  { id: 'moon', name: 'Chandra', sanskrit: 'चन्द्र' },
+  { id: 'mars', name: 'Mangala', sanskrit: 'मङ्गल' },
+  { id: 'mercury', name: 'Budha', sanskrit: 'बुध' },
+  { id: 'jupiter', name: 'Guru', sanskrit: 'गुरु' },
+  { id: 'venus', name: 'Shukra', sanskrit: 'शुक्र' },
+  { id: 'saturn', name: 'Shani', sanskrit: 'शनि' },
+  { id: 'rahu', name: 'Rahu', sanskrit: 'राहु' },
+  { id: 'ketu', name: 'Ketu', sanskrit: 'केतु' },
+];
+
+/**
+ * astronomy-engine bodies for the grahas with a physical position
+ */
+const GRAHA_BODIES: Record<Exclude<GrahaId, 'rahu' | 'ketu'>, Astronomy.Body> = {
+  sun: Astronomy.Body.Sun,
+  moon: Astronomy.Body.Moon,
+  mars: Astronomy.Body.Mars,
+  mercury: Astronomy.Body.Mercury,
+  jupiter: Astronomy.Body.Jupiter,
+  venus: Astronomy.Body.Venus,
+  saturn: Astronomy.Body.Saturn,
+};
+
+/**
+ * Half-width of the window used to measure daily motion, in hours
+ */
+const SPEED_WINDOW_HOURS = 12;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Get the tropical longitude of the Moon's mean ascending node (Rahu)
+ *
+ * Uses Meeus' polynomial (Astronomical Algorithms, ch. 47). The mean node
+ * regresses about 19.3° per year, a full circle in 18.6 years.
+ *
+ * @param date - The date and time for the calculation
+ * @returns Tropical longitude of the mean node in degrees (0-360°)
+ */
+export function getMeanNodeLongitude(date: Date): number {
+  const t = Astronomy.MakeTime(date).tt / 36525;
+  return normalizeAngle(
+    125.0445479 - 1934.1362891 * t + 0.0020754 * t * t + (t * t * t) / 467441
+  );
+}
+
+/**
+ * Get the tropical geocentric longitude of a graha
+ *
+ * @param id - Graha identifier
+ * @param date - The date and time for the calculation
+ * @returns Tropical ecliptic longitude in degrees (0-360°)
+ */
+export function getGrahaTropicalLongitude(id: GrahaId, date: Date): number {
+  if (id === 'rahu') return getMeanNodeLongitude(date);
+  if (id === 'ketu') return normalizeAngle(getMeanNodeLongitude(date) + 180);
+
+  return normalizeAngle(Astronomy.Ecliptic(Astronomy.GeoVector(GRAHA_BODIES[id], date, false)).elon);
+}
+
+/**
+ * Calculate the position of one graha
+ *
+ * @param id - Graha identifier
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Which ayanamsa to use (default: Lahiri)
+ * @returns Sidereal position, rashi, nakshatra and motion of the graha
+ */
+export function calculateGraha(
+  id: GrahaId,
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): GrahaPosition {
+  const graha = GRAHAS.find((entry) => entry.id === id) ?? GRAHAS[0];
+  const longitude = toSidereal(getGrahaTropicalLongitude(id, date), date, ayanamsa);
+
+  // Daily motion from the longitudes half a day either side
+  const before = getGrahaTropicalLongitude(id, new Date(date.getTime() - SPEED_WINDOW_HOURS * MS_PER_HOUR));
+  const after = getGrahaTropicalLongitude(id, new Date(date.getTime() + SPEED_WINDOW_HOURS * MS_PER_HOUR));
+  const speed = normalizeAngle(after - before + 180) - 180;
+
+  const rashi =
+    (Math.floor(longitude / VEDIC_CONSTANTS.DEGREES_PER_RASHI) % VEDIC_CONSTANTS.RASHI_COUNT) + 1;
+  const nakshatra = calculateNakshatraNumber(longitude);
+
+  return {
+    id,
+    name: graha.name,
+    nameSanskrit: graha.sanskrit,
+    longitude,
+    rashi,
+    rashiName: getRashiName(rashi),
+    rashiDegree: longitude % VEDIC_CONSTANTS.DEGREES_PER_RASHI,
+    nakshatra,
+    nakshatraName: getNakshatraName(nakshatra),
+    pada: calculateNakshatraPada(longitude),
+    speed,
+    isRetrograde: speed < 0,
+  };
+}
+
+/**
+ * Calculate the positions of all nine grahas
+ *
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Which ayanamsa to use (default: Lahiri)
+ * @returns Positions in the order of GRAHAS
+ *
+ * @example
+ * const grahas = calculateGrahas(new Date('2024-01-15T12:00:00Z'));
+ * const mercury = grahas.find((graha) => graha.id === 'mercury');
+ * // mercury.rashiName === 'Dhanu (धनु)'
+ */
+export function calculateGrahas(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): GrahaPosition[] {
+  return GRAHAS.map((graha) => calculateGraha(graha.id, date, ayanamsa));
+}
@@ -0,0 +1,471 @@
+/**
+ * Grahana Calculator Module
+ *
+ * A grahana is an eclipse: Chandra Grahana (lunar) when the Moon passes
+ * through the Earth's shadow at a full moon, Surya Grahana (solar) when the
+ * Moon covers the Sun at a new moon.
+ *
+ * Eclipses are found with astronomy-engine's eclipse searches and then
+ * described for the observer:
+ * - Contact times: sparsha (first contact), sammilana (totality begins),
+ *   madhya (maximum), unmilana (totality ends) and moksha (last contact)
+ * - Magnitude: the fraction of the Moon's (or Sun's) diameter covered by the
+ *   umbra (or the Moon) at maximum
+ * - Visibility: whether the Moon or Sun is above the horizon during the eclipse
+ * - Sutak: the inauspicious window before a visible eclipse, traditionally
+ *   9 hours (three praharas) for a lunar and 12 hours (four praharas) for a
+ *   solar eclipse, lasting until moksha
+ *
+ * Penumbral lunar eclipses are listed but carry no sutak, since the dimming
+ * is barely visible and they are not observed in practice.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+
+/**
+ * Lunar (Chandra) or solar (Surya) eclipse
+ */
+export type GrahanaType = 'lunar' | 'solar';
+
+/**
+ * Eclipse classification
+ */
+export type GrahanaKind = 'penumbral' | 'partial' | 'annular' | 'total';
+
+/**
+ * How much of the eclipse can be seen from the observer's location
+ */
+export type GrahanaVisibility = 'full' | 'partial' | 'none';
+
+/**
+ * Eclipse contact points
+ */
+export type GrahanaPhase =
+  | 'penumbralBegin'
+  | 'partialBegin'
+  | 'totalBegin'
+  | 'peak'
+  | 'totalEnd'
+  | 'partialEnd'
+  | 'penumbralEnd';
+
+/**
+ * A single contact of an eclipse
+ */
+export interface GrahanaContact {
+  /** Which contact this is */
+  phase: GrahanaPhase;
+
+  /** Traditional name of the contact */
+  name: string;
+
+  /** Instant of the contact */
+  time: Date;
+
+  /** Altitude of the eclipsed body above the horizon in degrees */
+  altitude: number;
+}
+
+/**
+ * An eclipse as seen from the observer's location
+ */
+export interface Grahana {
+  /** Lunar or solar */
+  type: GrahanaType;
+
+  /** Penumbral, partial, annular or total */
+  kind: GrahanaKind;
+
+  /** Name in English transliteration */
+  name: string;
+
+  /** Name in Sanskrit (Devanagari) */
+  nameSanskrit: string;
+
+  /** First contact (umbral for partial and total lunar eclipses) */
+  start: Date;
+
+  /** Instant of maximum eclipse */
+  peak: Date;
+
+  /** Last contact (umbral for partial and total lunar eclipses) */
+  end: Date;
+
+  /** All contacts in time order, with the body's altitude at each */
+  contacts: GrahanaContact[];
+
+  /** Fraction of the eclipsed body's diameter covered at maximum */
+  magnitude: number;
+
+  /** Fraction of the eclipsed body's disc area covered at maximum (0-1) */
+  obscuration: number;
+
+  /** Whether the eclipse can be seen from the observer's location */
+  visibility: GrahanaVisibility;
+
+  /** Sutak window, or null when the eclipse is not visible or is penumbral */
+  sutak: { start: Date; end: Date } | null;
+}
+
+/**
+ * Sutak before a lunar eclipse (three praharas), in hours
+ */
+export const LUNAR_SUTAK_HOURS = 9;
+
+/**
+ * Sutak before a solar eclipse (four praharas), in hours
+ */
+export const SOLAR_SUTAK_HOURS = 12;
+
+/**
+ * Step used when checking whether the body is above the horizon, in minutes
+ */
+const VISIBILITY_STEP_MINUTES = 10;
+
+/**
+ * How far before the search date to look, so an eclipse already in
+ * progress is still found (the longest lunar eclipses last about 6 hours)
+ */
+const IN_PROGRESS_LOOKBACK_HOURS = 8;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/** Equatorial radius of the Earth in km */
+const EARTH_RADIUS_KM = 6378.14;
+
+/** Mean radius of the Moon in km */
+const MOON_RADIUS_KM = 1737.4;
+
+/** Radius of the Sun in km */
+const SUN_RADIUS_KM = 696000;
+
+/** Enlargement of the Earth's shadow by the atmosphere (Danjon) */
+const SHADOW_ENLARGEMENT = 1.02;
+
+/**
+ * Traditional names of the contacts
+ */
+const CONTACT_NAMES: Record<GrahanaPhase, string> = {
+  penumbralBegin: 'Penumbral begins',
+  partialBegin: 'Sparsha',
+  totalBegin: 'Sammilana',
+  peak: 'Madhya',
+  totalEnd: 'Unmilana',
+  partialEnd: 'Moksha',
+  penumbralEnd: 'Penumbral ends',
+};
+
+/**
+ * Angular radius in degrees of a sphere seen from a distance
+ */
+function angularRadius(radiusKm: number, distanceKm: number): number {
+  return (Math.asin(radiusKm / distanceKm) * 180) / Math.PI;
+}
+
+/**
+ * Altitude of the Sun or Moon above the observer's horizon in degrees
+ */
+function getAltitude(body: Astronomy.Body, time: Date, observer: Astronomy.Observer): number {
+  const equator = Astronomy.Equator(body, time, observer, true, true);
+  return Astronomy.Horizon(time, observer, equator.ra, equator.dec).altitude;
+}
+
+/**
+ * Decide how much of an eclipse is above the horizon
+ *
+ * Samples the body's altitude every few minutes from first to last contact.
+ */
+function getVisibility(
+  body: Astronomy.Body,
+  start: Date,
+  end: Date,
+  observer: Astronomy.Observer
+): GrahanaVisibility {
+  let above = 0;
+  let samples = 0;
+
+  for (let t = start.getTime(); t <= end.getTime(); t += VISIBILITY_STEP_MINUTES * MS_PER_MINUTE) {
+    samples++;
+    if (getAltitude(body, new Date(t), observer) > 0) above++;
+  }
+  if (getAltitude(body, end, observer) > 0) above++;
+  samples++;
+
+  if (above === 0) return 'none';
+  return above === samples ? 'full' : 'partial';
+}
+
+/**
+ * Build the sutak window for an eclipse
+ */
+function getSutak(
+  type: GrahanaType,
+  kind: GrahanaKind,
+  start: Date,
+  end: Date,
+  visibility: GrahanaVisibility
+): { start: Date; end: Date } | null {
+  if (visibility === 'none' || kind === 'penumbral') return null;
+
+  const hours = type === 'lunar' ? LUNAR_SUTAK_HOURS : SOLAR_SUTAK_HOURS;
+  return { start: new Date(start.getTime() - hours * MS_PER_HOUR), end };
+}
+
+/**
+ * Umbral (or penumbral) magnitude of a lunar eclipse at maximum
+ *
+ * Compares the Moon's distance from the shadow axis with the radius of the
+ * Earth's shadow at the Moon, enlarged for the atmosphere.
+ */
+function getLunarMagnitude(peak: Date, kind: GrahanaKind): number {
+  const moon = Astronomy.GeoVector(Astronomy.Body.Moon, peak, false);
+  const sun = Astronomy.GeoVector(Astronomy.Body.Sun, peak, false);
+  const antiSun = new Astronomy.Vector(-sun.x, -sun.y, -sun.z, sun.t);
+
+  const moonKm = moon.Length() * Astronomy.KM_PER_AU;
+  const sunKm = sun.Length() * Astronomy.KM_PER_AU;
+
+  const moonParallax = angularRadius(EARTH_RADIUS_KM, moonKm);
+  const sunParallax = angularRadius(EARTH_RADIUS_KM, sunKm);
+  const sunRadius = angularRadius(SUN_RADIUS_KM, sunKm);
+  const moonRadius = angularRadius(MOON_RADIUS_KM, moonKm);
+
+  const shadowRadius =
+    kind === 'penumbral'
+      ? SHADOW_ENLARGEMENT * (moonParallax + sunRadius + sunParallax)
+      : SHADOW_ENLARGEMENT * (moonParallax - sunRadius + sunParallax);
+  const separation = Astronomy.AngleBetween(moon, antiSun);
+
+  return (shadowRadius + moonRadius - separation) / (2 * moonRadius);
+}
+
+/**
+ * Magnitude of a solar eclipse at maximum as seen by the observer
+ */
+function getSolarMagnitude(peak: Date, observer: Astronomy.Observer): number {
+  const sun = Astronomy.Equator(Astronomy.Body.Sun, peak, observer, true, true);
+  const moon = Astronomy.Equator(Astronomy.Body.Moon, peak, observer, true, true);
+
+  const sunRadius = angularRadius(SUN_RADIUS_KM, sun.dist * Astronomy.KM_PER_AU);
+  const moonRadius = angularRadius(MOON_RADIUS_KM, moon.dist * Astronomy.KM_PER_AU);
+  const separation = Astronomy.AngleBetween(sun.vec, moon.vec);
+
+  return Math.max(0, (sunRadius + moonRadius - separation) / (2 * sunRadius));
+}
+
+/**
+ * Describe a lunar eclipse for the observer
+ */
+function describeLunarEclipse(info: Astronomy.LunarEclipseInfo, observer: Astronomy.Observer): Grahana {
+  const kind = info.kind as GrahanaKind;
+  const peak = info.peak.date;
+  const at = (minutes: number) => new Date(peak.getTime() + minutes * MS_PER_MINUTE);
+
+  // Semi-durations are in minutes and zero for phases that do not occur
+  const phases: [GrahanaPhase, number][] = [
+    ['penumbralBegin', -info.sd_penum],
+    ['partialBegin', -info.sd_partial],
+    ['totalBegin', -info.sd_total],
+    ['peak', 0],
+    ['totalEnd', info.sd_total],
+    ['partialEnd', info.sd_partial],
+    ['penumbralEnd', info.sd_penum],
+  ];
+  const contacts = phases
+    .filter(([phase, offset]) => phase === 'peak' || offset !== 0)
+    .map(([phase, offset]) => {
+      const time = at(offset);
+      return {
+        phase,
+        name: CONTACT_NAMES[phase],
+        time,
+        altitude: getAltitude(Astronomy.Body.Moon, time, observer),
+      };
+    });
+
+  // Partial and total eclipses are reckoned from the umbral contacts
+  const semiDuration = kind === 'penumbral' ? info.sd_penum : info.sd_partial;
+  const start = at(-semiDuration);
+  const end = at(semiDuration);
+  const visibility = getVisibility(Astronomy.Body.Moon, start, end, observer);
+
+  return {
+    type: 'lunar',
+    kind,
+    name: 'Chandra Grahana',
+    nameSanskrit: 'चन्द्र ग्रहण',
+    start,
+    peak,
+    end,
+    contacts,
+    magnitude: getLunarMagnitude(peak, kind),
+    obscuration: info.obscuration,
+    visibility,
+    sutak: getSutak('lunar', kind, start, end, visibility),
+  };
+}
+
+/**
+ * Describe a solar eclipse for the observer
+ */
+function describeSolarEclipse(info: Astronomy.LocalSolarEclipseInfo, observer: Astronomy.Observer): Grahana {
+  const kind = info.kind as GrahanaKind;
+  const events: [GrahanaPhase, Astronomy.EclipseEvent | undefined][] = [
+    ['partialBegin', info.partial_begin],
+    ['totalBegin', info.total_begin],
+    ['peak', info.peak],
+    ['totalEnd', info.total_end],
+    ['partialEnd', info.partial_end],
+  ];
+  const contacts = events
+    .filter((entry): entry is [GrahanaPhase, Astronomy.EclipseEvent] => entry[1] !== undefined)
+    .map(([phase, event]) => ({
+      phase,
+      name: CONTACT_NAMES[phase],
+      time: event.time.date,
+      altitude: event.altitude,
+    }));
+
+  const start = info.partial_begin.time.date;
+  const end = info.partial_end.time.date;
+  const peak = info.peak.time.date;
+  const visibility = getVisibility(Astronomy.Body.Sun, start, end, observer);
+
+  return {
+    type: 'solar',
+    kind,
+    name: 'Surya Grahana',
+    nameSanskrit: 'सूर्य ग्रहण',
+    start,
+    peak,
+    end,
+    contacts,
+    magnitude: getSolarMagnitude(peak, observer),
+    obscuration: info.obscuration,
+    visibility,
+    sutak: getSutak('solar', kind, start, end, visibility),
+  };
+}
+
+/**
+ * List upcoming eclipses for a location
+ *
+ * Lunar eclipses are listed wherever they happen, since the same eclipse is
+ * seen from the whole night side of the Earth; check `visibility`. Solar
+ * eclipses are listed only when the observer is inside the Moon's shadow.
+ * An eclipse still in progress at `date` is included.
+ *
+ * @param date - Start of the search
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param count - Number of eclipses to return (default: 4)
+ * @returns Eclipses ending after `date`, in order of maximum
+ *
+ * @example
+ * // The total lunar eclipse of 7 September 2025, seen from Delhi
+ * const [grahana] = findGrahanas(new Date('2025-09-01'), 28.61, 77.21, 1);
+ * // grahana.kind === 'total', grahana.visibility === 'full'
+ */
+export function findGrahanas(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  count: number = 4
+): Grahana[] {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const searchFrom = new Date(date.getTime() - IN_PROGRESS_LOOKBACK_HOURS * MS_PER_HOUR);
+  const grahanas: Grahana[] = [];
+
+  let lunar = Astronomy.SearchLunarEclipse(searchFrom);
+  let solar = Astronomy.SearchLocalSolarEclipse(searchFrom, observer);
+
+  // Merge the two series in order of maximum
+  while (grahanas.length < count) {
+    const grahana =
+      lunar.peak.date < solar.peak.time.date
+        ? describeLunarEclipse(lunar, observer)
+        : describeSolarEclipse(solar, observer);
+
+    if (grahana.type === 'lunar') {
+      lunar = Astronomy.NextLunarEclipse(lunar.peak);
+    } else {
+      solar = Astronomy.NextLocalSolarEclipse(solar.peak.time, observer);
+    }
+
+    if (grahana.end > date) {
+      grahanas.push(grahana);
+    }
+  }
+
+  return grahanas;
+}
+
+/**
+ * Find the next eclipse for a location
+ *
+ * @param date - Start of the search
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param visibleOnly - Skip eclipses that cannot be seen from the location (default: false)
+ * @returns The next (or current) eclipse
+ */
+export function findNextGrahana(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  visibleOnly: boolean = false
+): Grahana {
+  let from = date;
+
+  for (;;) {
+    const [grahana] = findGrahanas(from, latitude, longitude, 1);
+    if (!visibleOnly || grahana.visibility !== 'none') {
+      return grahana;
+    }
+    from = new Date(grahana.end.getTime() + MS_PER_MINUTE);
+  }
+}
+
+/**
+ * List the eclipses whose maximum falls within a time range
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @returns Eclipses with maximum in [from, to), in order
+ */
+export function getGrahanasBetween(
+  from: Date,
+  to: Date,
+  latitude: number,
+  longitude: number
+): Grahana[] {
+  const grahanas: Grahana[] = [];
+  let searchFrom = from;
+
+  for (;;) {
+    const [grahana] = findGrahanas(searchFrom, latitude, longitude, 1);
+    if (grahana.peak >= to) {
+      return grahanas;
+    }
+    if (grahana.peak >= from) {
+      grahanas.push(grahana);
+    }
+    searchFrom = new Date(grahana.end.getTime() + MS_PER_MINUTE);
+  }
+}
+
+/**
+ * Check whether an instant falls inside an eclipse or its sutak
+ *
+ * @param grahana - The eclipse
+ * @param date - The instant to check
+ * @returns 'eclipse' during the eclipse, 'sutak' during the sutak before it, otherwise null
+ */
+export function getGrahanaStatus(grahana: Grahana, date: Date): 'eclipse' | 'sutak' | null {
+  if (date >= grahana.start && date <= grahana.end) return 'eclipse';
+  if (grahana.sutak && date >= grahana.sutak.start && date < grahana.start) return 'sutak';
+  return null;
+}
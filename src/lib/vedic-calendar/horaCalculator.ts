@@ -0,0 +1,162 @@
+/**
+ * Hora Calculator Module
+ *
+ * A hora is a planetary hour. Daytime (sunrise to sunset) and night (sunset to
+ * next sunrise) are each split into 12 horas, so their length follows the
+ * seasons. The first hora of the day belongs to the weekday's lord, and the
+ * lords then follow the Chaldean order of decreasing orbital period:
+ *
+ *   Saturn → Jupiter → Mars → Sun → Venus → Mercury → Moon → Saturn ...
+ *
+ * This is also why the weekdays run Sun, Moon, Mars, Mercury, Jupiter, Venus,
+ * Saturn: the 25th hora after a day's first is the next day's first.
+ */
+
+import type { PolarPolicy, SolarDay } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalWeekday, getSolarDay } from './varaCalculator';
+
+/**
+ * A single hora within a day
+ */
+export interface HoraSegment {
+  /** Hora number within the day (1-24, 1-12 by day) */
+  number: number;
+
+  /** Ruling planet in English transliteration */
+  name: string;
+
+  /** Ruling planet in Sanskrit (Devanagari) */
+  nameSanskrit: string;
+
+  /** True for the 12 day horas */
+  isDay: boolean;
+
+  /** Start of the hora */
+  start: Date;
+
+  /** End of the hora */
+  end: Date;
+}
+
+/**
+ * Result of hora calculation
+ */
+export interface HoraResult {
+  /** Hora in effect */
+  current: HoraSegment;
+
+  /** Progress through the current hora (0-100%) */
+  progress: number;
+
+  /** Minutes until the next hora */
+  minutesToNext: number;
+
+  /** All 24 horas of the sunrise-to-sunrise day */
+  segments: HoraSegment[];
+}
+
+/**
+ * Planetary lords in Chaldean hora order, starting from the Sun
+ */
+export const HORA_LORDS = [
+  { name: 'Surya', sanskrit: 'सूर्य' },     // Sun
+  { name: 'Shukra', sanskrit: 'शुक्र' },    // Venus
+  { name: 'Budha', sanskrit: 'बुध' },       // Mercury
+  { name: 'Chandra', sanskrit: 'चन्द्र' },  // Moon
+  { name: 'Shani', sanskrit: 'शनि' },       // Saturn
+  { name: 'Guru', sanskrit: 'गुरु' },       // Jupiter
+  { name: 'Mangala', sanskrit: 'मङ्गल' },   // Mars
+] as const;
+
+/**
+ * Horas in each half of the day
+ */
+export const HORAS_PER_HALF_DAY = 12;
+
+/**
+ * Index in HORA_LORDS of a weekday's lord
+ *
+ * Each day begins three places further along the Chaldean order
+ * (24 horas = 3 full cycles of 7, plus 3).
+ *
+ * @param weekday - Weekday (0 = Sunday ... 6 = Saturday)
+ * @returns Index into HORA_LORDS
+ */
+export function getWeekdayLordIndex(weekday: number): number {
+  return (weekday * 3) % HORA_LORDS.length;
+}
+
+/**
+ * Divide one half of the day into equal segments
+ *
+ * @param from - Start of the half (sunrise or sunset)
+ * @param to - End of the half (sunset or next sunrise)
+ * @param count - Number of segments
+ * @returns Start and end of each segment in order
+ */
+export function divideHalfDay(from: Date, to: Date, count: number): { start: Date; end: Date }[] {
+  const length = (to.getTime() - from.getTime()) / count;
+  return Array.from({ length: count }, (_, index) => ({
+    start: new Date(from.getTime() + index * length),
+    end: new Date(from.getTime() + (index + 1) * length),
+  }));
+}
+
+/**
+ * Get all 24 horas of a day
+ *
+ * @param solarDay - The day's sunrise, sunset and next sunrise
+ * @param weekday - Weekday of the sunrise (0 = Sunday ... 6 = Saturday)
+ * @returns The 12 day horas followed by the 12 night horas
+ */
+export function getHoraSegments(solarDay: SolarDay, weekday: number): HoraSegment[] {
+  const firstLord = getWeekdayLordIndex(weekday);
+  const spans = [
+    ...divideHalfDay(solarDay.sunrise, solarDay.sunset, HORAS_PER_HALF_DAY),
+    ...divideHalfDay(solarDay.sunset, solarDay.nextSunrise, HORAS_PER_HALF_DAY),
+  ];
+
+  return spans.map((span, index) => {
+    const lord = HORA_LORDS[(firstLord + index) % HORA_LORDS.length];
+    return {
+      number: index + 1,
+      name: lord.name,
+      nameSanskrit: lord.sanskrit,
+      isDay: index < HORAS_PER_HALF_DAY,
+      ...span,
+    };
+  });
+}
+
+/**
+ * Calculate the hora for a given date and location
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns The current hora and the day's full hora table
+ *
+ * @example
+ * // The first hora after sunrise on a Thursday is Guru's
+ * const hora = calculateHora(new Date('2024-01-18T07:30:00+05:30'), 28.61, 77.21);
+ * // hora.current.name === 'Guru'
+ */
+export function calculateHora(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): HoraResult {
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const segments = getHoraSegments(solarDay, getLocalWeekday(solarDay.sunrise, longitude));
+  const current = segments.find((segment) => date < segment.end) ?? segments[segments.length - 1];
+
+  const duration = current.end.getTime() - current.start.getTime();
+  return {
+    current,
+    progress: ((date.getTime() - current.start.getTime()) / duration) * 100,
+    minutesToNext: (current.end.getTime() - date.getTime()) / (1000 * 60),
+    segments,
+  };
+}
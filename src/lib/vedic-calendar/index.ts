@@ -10,6 +10,13 @@
  * - Solar year (based on Sun's position)
  * - Tithis (lunar days based on Moon-Sun elongation)
  * - Nakshatras (lunar mansions based on Moon's position)
+ * - Lagna (the rashi rising on the eastern horizon)
+ * - Yogas and karanas (from Sun + Moon longitudes and half-tithis)
+ * - Varas (weekdays counted from sunrise)
+ * - Daily periods such as Rahu Kalam, Varjyam and Amrita Kalam
+ * - Choghadiya and planetary horas
+ * - Graha (planetary) positions in the sidereal zodiac
+ * - Lunar and solar eclipses (grahanas) with local visibility
  *
  * Usage:
  * ```typescript
@@ -24,18 +31,33 @@
  * ```
  */
 
-import type { VedicTime } from './vedicTime';
-import { getMasaName } from './vedicTime';
-import { getCelestialData } from './astronomicalCalculations';
+import type { VedicTime, VedicCalendarSettings } from './vedicTime';
+import { getCelestialData, normalizeAngle } from './astronomicalCalculations';
+import { getAyanamsa } from './ayanamsa';
 import { calculateTithi } from './tithiCalculator';
 import { calculateNakshatra } from './nakshatraCalculator';
+import { calculateLagna } from './lagnaCalculator';
+import { calculateYoga } from './yogaCalculator';
+import { calculateKarana } from './karanaCalculator';
+import { calculateVara } from './varaCalculator';
 import { calculateMuhurta } from './muhurtaCalculator';
+import { calculateChoghadiya } from './choghadiyaCalculator';
+import { calculateHora } from './horaCalculator';
+import { calculateGrahas } from './grahaCalculator';
+import {
+  getVedicDayContext,
+  getContextMoonDetails,
+  getContextMasa,
+  getContextSolarCalendar,
+  getContextSamvat,
+  getContextGrahana,
+} from './dayContext';
 import { calculatePrana, getBreathPhase, getBreathPhaseProgress } from './pranaCalculator';
 
 /**
  * Options for Vedic time calculation
  */
-export interface VedicTimeOptions {
+export interface VedicTimeOptions extends VedicCalendarSettings {
   /** Observer's latitude in degrees (-90 to +90) */
   latitude: number;
 
@@ -46,44 +68,6 @@ export interface VedicTimeOptions {
   date?: Date;
 }
 
-/**
- * Calculate the current Vedic masa (lunar month)
- *
- * The masa is determined by the nakshatra in which the full moon (Purnima) occurs.
- * This is an approximation based on the Sun's longitude.
- *
- * Traditional determination of masa:
- * - The masa is named after the nakshatra of the full moon
- * - A lunar month typically spans from one new moon to the next
- * - Solar months are based on Sun's transit through zodiac signs
- *
- * This simplified calculation uses the Sun's longitude:
- * - Each 30° of solar longitude corresponds roughly to one masa
- * - Mesha (Aries) starts at 0°, corresponding to Chaitra masa
- *
- * Note: A precise masa calculation would require tracking the actual full moon
- * and determining the prevailing nakshatra at that time. This is a simplified
- * approximation suitable for general calendar display.
- *
- * @param sunLongitude - The Sun's ecliptic longitude in degrees
- * @returns The masa number (1-12)
- */
-function calculateMasa(sunLongitude: number): number {
-  // Approximate masa from Sun's longitude
-  // Each zodiac sign (30°) roughly corresponds to a masa
-  // Start from Mesha (Aries) at 0° for Chaitra masa
-
-  // Adjust so that 0° starts at Chaitra (March-April)
-  // In tropical system, 0° is at spring equinox (around March 21)
-  const adjustedLongitude = sunLongitude;
-
-  // Calculate masa (1-12)
-  const masaIndex = Math.floor(adjustedLongitude / 30);
-  const masa = (masaIndex % 12) + 1;
-
-  return masa;
-}
-
 /**
  * Calculate complete Vedic time information
  *
@@ -93,6 +77,7 @@ function calculateMasa(sunLongitude: number): number {
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
  * @param date - Optional date for calculation (defaults to now)
+ * @param settings - Calendar conventions (ayanamsa, masa system, muhurta mode, polar policy)
  * @returns Complete VedicTime object with all calendar information
  *
  * @example
@@ -107,26 +92,63 @@ function calculateMasa(sunLongitude: number): number {
 export function calculateVedicTime(
   latitude: number,
   longitude: number,
-  date: Date = new Date()
+  date: Date = new Date(),
+  settings: VedicCalendarSettings = {}
 ): VedicTime {
-  // Get celestial data
-  const celestialData = getCelestialData(date, latitude, longitude);
+  // Sunrise, limb boundaries and lagnas of the day, found once per day
+  const context = getVedicDayContext(date, latitude, longitude, settings);
+  const { ayanamsa, masaSystem, muhurtaMode, polarPolicy } = context.settings;
+  const { boundaries, solarDay } = context;
+
+  // Get celestial data (tropical)
+  const celestialData = getCelestialData(date, latitude, longitude, getContextMoonDetails(context, date));
+
+  // Convert to the sidereal zodiac
+  const ayanamsaValue = getAyanamsa(date, ayanamsa);
+  const siderealSunLongitude = normalizeAngle(celestialData.sunLongitude - ayanamsaValue);
+  const siderealMoonLongitude = normalizeAngle(celestialData.moonLongitude - ayanamsaValue);
 
   // Calculate tithi information
-  const tithiData = calculateTithi(date, latitude, longitude);
+  const tithiData = calculateTithi(date, latitude, longitude, boundaries.tithi);
 
   // Calculate nakshatra information
-  const nakshatraData = calculateNakshatra(date, latitude, longitude);
+  const nakshatraData = calculateNakshatra(date, latitude, longitude, ayanamsa, boundaries.nakshatra);
+
+  // Calculate the rising rashi (lagna)
+  const lagnaData = calculateLagna(date, latitude, longitude, ayanamsa, polarPolicy, context.lagnaSegments);
 
-  // Calculate masa (lunar month)
-  const masa = calculateMasa(celestialData.sunLongitude);
-  const masaName = getMasaName(masa);
+  // Calculate the remaining panchanga limbs
+  const yogaData = calculateYoga(date, ayanamsa, boundaries.yoga);
+  const karanaData = calculateKarana(date, latitude, longitude, boundaries.karana);
+  const varaData = calculateVara(date, latitude, longitude, polarPolicy);
+
+  // Calculate masa (lunar month) from the surrounding new moons
+  const masaData = getContextMasa(context, date);
+
+  // Calculate the solar month and day, ritu and ayana
+  const solarCalendar = getContextSolarCalendar(context, date);
+
+  // Calculate the era years and samvatsara
+  const samvat = getContextSamvat(context, date);
 
   // Calculate muhurta (time division)
-  const muhurtaData = calculateMuhurta(date, latitude, longitude);
+  const muhurtaData = calculateMuhurta(date, latitude, longitude, muhurtaMode, polarPolicy);
+
+  // The day's auspicious and inauspicious periods
+  const dailyPeriods = context.dailyPeriods;
+
+  // Calculate choghadiya and hora (planetary hours)
+  const choghadiyaData = calculateChoghadiya(date, latitude, longitude, polarPolicy);
+  const horaData = calculateHora(date, latitude, longitude, polarPolicy);
+
+  // Calculate sidereal positions of the grahas
+  const grahas = calculateGrahas(date, ayanamsa);
+
+  // Find the next (or current) eclipse for this location
+  const nextGrahana = getContextGrahana(context, date);
 
   // Calculate prana (breath cycle)
-  const pranaInfo = calculatePrana(date, latitude, longitude);
+  const pranaInfo = calculatePrana(date, latitude, longitude, muhurtaMode, polarPolicy);
   const pranaData = {
     number: pranaInfo.number,
     angle: pranaInfo.angle,
@@ -142,31 +164,78 @@ export function calculateVedicTime(
     tithiName: tithiData.tithiName,
     tithiProgress: tithiData.progress,
     minutesToNextTithi: tithiData.minutesToNext,
+    tithiEndsAt: tithiData.endsAt,
 
     // Nakshatra information
     nakshatra: nakshatraData.nakshatraNumber,
     nakshatraName: nakshatraData.nakshatraName,
     nakshatraProgress: nakshatraData.progress,
     minutesToNextNakshatra: nakshatraData.minutesToNext,
+    nakshatraEndsAt: nakshatraData.endsAt,
+
+    // Lagna (ascendant)
+    lagna: lagnaData,
 
     // Paksha (lunar fortnight)
     paksha: tithiData.paksha,
 
+    // Yoga (Sun + Moon longitude)
+    yoga: yogaData.yogaNumber,
+    yogaName: yogaData.yogaName,
+    yogaProgress: yogaData.progress,
+    minutesToNextYoga: yogaData.minutesToNext,
+    yogaEndsAt: yogaData.endsAt,
+
+    // Karana (half tithi)
+    karana: karanaData.karanaNumber,
+    karanaName: karanaData.karanaName,
+    karanaProgress: karanaData.progress,
+    minutesToNextKarana: karanaData.minutesToNext,
+    karanaEndsAt: karanaData.endsAt,
+
+    // Vara (weekday from sunrise)
+    vara: varaData.varaNumber,
+    varaName: varaData.varaName,
+    varaProgress: varaData.progress,
+    varaStartsAt: varaData.startsAt,
+    varaEndsAt: varaData.endsAt,
+
     // Masa (lunar month)
-    masa,
-    masaName,
+    masa: masaData.masaNumber,
+    masaName: masaData.masaName,
+    isAdhika: masaData.isAdhika,
+    isKshaya: masaData.isKshaya,
+    masaSystem,
 
     // Muhurta (time division)
     muhurta: muhurtaData,
 
+    // Daily periods (Rahu Kalam, Varjyam, ...)
+    dailyPeriods,
+
+    // Choghadiya and hora
+    choghadiya: choghadiyaData,
+    hora: horaData,
+
+    // Sunrise source (polar handling)
+    sunriseSource: solarDay.source,
+    polarPolicy,
+
     // Prana (breath cycle)
     prana: pranaData,
 
     // Astronomical data
     moonPhase: celestialData.moonPhase,
-    moonLongitude: celestialData.moonLongitude,
-    sunLongitude: celestialData.sunLongitude,
+    moon: celestialData.moon,
+    moonLongitude: siderealMoonLongitude,
+    sunLongitude: siderealSunLongitude,
     elongation: celestialData.elongation,
+    ayanamsa: ayanamsaValue,
+    ayanamsaSystem: ayanamsa.system,
+    grahas,
+    nextGrahana,
+    solarCalendar,
+    samvat,
 
     // Metadata
     calculatedFor: date,
@@ -187,27 +256,87 @@ export function calculateVedicTime(
  * const vedicTime = calculateVedicTimeWithOptions({
  *   latitude: 28.6139,
  *   longitude: 77.2090,
- *   date: new Date('2024-12-25')
+ *   date: new Date('2024-12-25'),
+ *   ayanamsa: { system: 'raman' }
  * });
  */
 export function calculateVedicTimeWithOptions(options: VedicTimeOptions): VedicTime {
-  const { latitude, longitude, date = new Date() } = options;
-  return calculateVedicTime(latitude, longitude, date);
+  const { latitude, longitude, date = new Date(), ...settings } = options;
+  return calculateVedicTime(latitude, longitude, date, settings);
 }
 
 // Re-export types and utilities for convenience
-export type { VedicTime, Paksha, MuhurtaData, PranaData } from './vedicTime';
+export type {
+  VedicTime,
+  VedicCalendarSettings,
+  Paksha,
+  MuhurtaData,
+  PranaData,
+  LimbBoundary,
+} from './vedicTime';
+export type { CelestialData, MoonDetails } from './astronomicalCalculations';
 export type { TithiResult } from './tithiCalculator';
 export type { NakshatraResult } from './nakshatraCalculator';
+export type { LagnaResult, LagnaSegment } from './lagnaCalculator';
+export type { YogaResult } from './yogaCalculator';
+export type { KaranaResult } from './karanaCalculator';
+export type { VaraResult, SolarDay, PolarPolicy, SunriseSource } from './varaCalculator';
+export type { PanchangDay, PanchangLimb, PanchangTransition } from './panchangGenerator';
+export type { TimedValue, VedicDayContext } from './dayContext';
+export type {
+  FestivalRule,
+  TithiFestivalRule,
+  SankrantiFestivalRule,
+  FestivalCategory,
+  ObservanceWindow,
+} from './festivalRules';
+export type {
+  FestivalObservance,
+  FestivalOptions,
+  EkadashiTradition,
+} from './festivalCalculator';
+export type { AyanamsaSystem, AyanamsaSettings } from './ayanamsa';
+export type { MasaSystem, LunarMonth, MasaResult, Sankranti } from './masaCalculator';
+export type { SolarCalendarRule, SolarCalendarResult, Ayana } from './solarCalendarCalculator';
+export type { SamvatYearStart, SamvatResult } from './samvatCalculator';
+export type { TimePeriod, DailyPeriods } from './kalamCalculator';
+export type {
+  ChoghadiyaQuality,
+  ChoghadiyaSegment,
+  ChoghadiyaResult,
+} from './choghadiyaCalculator';
+export type { HoraSegment, HoraResult } from './horaCalculator';
+export type { GrahaId, GrahaPosition } from './grahaCalculator';
+export type {
+  Grahana,
+  GrahanaType,
+  GrahanaKind,
+  GrahanaVisibility,
+  GrahanaPhase,
+  GrahanaContact,
+} from './grahanaCalculator';
 
 export {
   TITHI_NAMES,
   NAKSHATRA_NAMES,
+  YOGA_NAMES,
+  KARANA_NAMES,
+  VARA_NAMES,
   MASA_NAMES,
+  RASHI_NAMES,
+  RITU_NAMES,
+  AYANA_NAMES,
+  SAMVATSARA_NAMES,
   VEDIC_CONSTANTS,
   getTithiName,
   getNakshatraName,
+  getYogaName,
+  getKaranaName,
+  getVaraName,
   getMasaName,
+  getRashiName,
+  getRituName,
+  getSamvatsaraName,
 } from './vedicTime';
 
 export {
@@ -216,11 +345,56 @@ export {
   getElongation,
   getMoonPhase,
   getMoonIllumination,
+  getMoonDetails,
+  searchAngleCrossing,
+  searchElongation,
+  searchMoonLongitude,
+  getLocalSiderealTime,
+  getAscendantLongitude,
 } from './astronomicalCalculations';
 
+export {
+  getAyanamsa,
+  toSidereal,
+  getSiderealSunLongitude,
+  getSiderealMoonLongitude,
+  AYANAMSA_SYSTEMS,
+  DEFAULT_AYANAMSA,
+} from './ayanamsa';
+
+export {
+  calculateMasa,
+  getLunarMonth,
+  getLunarMonths,
+  findPreviousNewMoon,
+  findNextNewMoon,
+  findNextSankranti,
+  findPreviousSankranti,
+} from './masaCalculator';
+
+export {
+  calculateSolarCalendar,
+  getSolarMonthStart,
+  getRitu,
+  getAyana,
+  getSeason,
+  SOLAR_MONTH_NAMES,
+  DEFAULT_SOLAR_CALENDAR_RULE,
+} from './solarCalendarCalculator';
+
+export {
+  calculateSamvat,
+  findLunarYearStart,
+  getKaliAhargana,
+  getJovianSamvatsara,
+  DEFAULT_SAMVAT_YEAR_START,
+} from './samvatCalculator';
+
 export {
   calculateTithi,
   calculateTithiNumber,
+  findTithiEnd,
+  findTithiStart,
   determinePaksha,
   isPurnima,
   isAmavasya,
@@ -231,20 +405,109 @@ export {
   calculateNakshatra,
   calculateNakshatraNumber,
   calculateNakshatraPada,
+  findNakshatraEnd,
   getMoonRashi,
   NAKSHATRA_DETAILS,
 } from './nakshatraCalculator';
 
+export {
+  calculateLagna,
+  getLagnaSegments,
+  getSiderealAscendant,
+  findLagnaChange,
+} from './lagnaCalculator';
+
+export {
+  calculateYoga,
+  calculateYogaNumber,
+  findYogaEnd,
+  getYogaLongitudeSum,
+} from './yogaCalculator';
+
+export {
+  calculateKarana,
+  calculateKaranaNumber,
+  findKaranaEnd,
+} from './karanaCalculator';
+
+export {
+  calculateVara,
+  findPreviousSunrise,
+  findNextSunrise,
+  getLocalMidnight,
+  getLocalWeekday,
+  getSolarDay,
+  getCivilSolarDay,
+  DEFAULT_POLAR_POLICY,
+  NEAREST_SUNRISE_LATITUDE,
+} from './varaCalculator';
+
+export { generatePanchang, getPanchangDay } from './panchangGenerator';
+
+export {
+  getVedicDayContext,
+  getContextMoonDetails,
+  getContextMasa,
+  getContextSolarCalendar,
+  getContextSamvat,
+  getContextGrahana,
+} from './dayContext';
+
+export {
+  calculateDailyPeriods,
+  listDailyPeriods,
+  getActivePeriods,
+} from './kalamCalculator';
+
+export {
+  calculateChoghadiya,
+  getChoghadiyaSegments,
+  CHOGHADIYA_NAMES,
+  CHOGHADIYAS_PER_HALF_DAY,
+} from './choghadiyaCalculator';
+
+export {
+  calculateHora,
+  getHoraSegments,
+  getWeekdayLordIndex,
+  HORA_LORDS,
+  HORAS_PER_HALF_DAY,
+} from './horaCalculator';
+
+export {
+  calculateGrahas,
+  calculateGraha,
+  getGrahaTropicalLongitude,
+  getMeanNodeLongitude,
+  GRAHAS,
+} from './grahaCalculator';
+
+export {
+  findGrahanas,
+  findNextGrahana,
+  getGrahanasBetween,
+  getGrahanaStatus,
+  LUNAR_SUTAK_HOURS,
+  SOLAR_SUTAK_HOURS,
+} from './grahanaCalculator';
+
+export { FESTIVAL_RULES } from './festivalRules';
+export { getFestivals, getFestivalsBetween } from './festivalCalculator';
+
 export {
   calculateMuhurta,
   getMuhurtaName,
   getSunrise,
+  getMuhurtaSpan,
+  getDayAngle,
   MUHURTA_NAMES,
   MINUTES_PER_MUHURTA,
   MUHURTAS_PER_DAY,
+  ABHIJIT_MUHURTA,
+  BRAHMA_MUHURTA,
 } from './muhurtaCalculator';
 
-export type { MuhurtaInfo } from './muhurtaCalculator';
+export type { MuhurtaInfo, MuhurtaMode } from './muhurtaCalculator';
 
 export {
   calculatePrana,
@@ -0,0 +1,314 @@
+/**
+ * Kalam Calculator Module
+ *
+ * Daily periods that panchangas mark as auspicious or inauspicious. All of
+ * them are measured from the real sunrise and sunset of the day, so they
+ * stretch and shrink with the seasons.
+ *
+ * Weekday-based periods (one eighth of daytime each):
+ * - Rahu Kalam: ruled by Rahu, avoided for new beginnings
+ * - Yamagandam: ruled by Yama
+ * - Gulika Kalam: ruled by Gulika (son of Saturn)
+ *
+ * Durmuhurta: one or two of the 15 day (or night) muhurtas, by weekday.
+ *
+ * Abhijit (8th day muhurta) and Brahma muhurta (14th night muhurta) are the
+ * auspicious muhurtas around noon and before dawn.
+ *
+ * Nakshatra-based periods (4 ghatis, i.e. 1/15 of the nakshatra's span):
+ * - Varjyam (tyajya): inauspicious, starting at a fixed ghati of each nakshatra
+ * - Amrita Kalam: auspicious, likewise
+ */
+
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA } from './ayanamsa';
+import { VEDIC_CONSTANTS } from './vedicTime';
+import { calculateNakshatra } from './nakshatraCalculator';
+import type { PolarPolicy, SolarDay } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalWeekday, getSolarDay } from './varaCalculator';
+import { ABHIJIT_MUHURTA, BRAHMA_MUHURTA, getMuhurtaSpan } from './muhurtaCalculator';
+
+/**
+ * A named period of the day
+ */
+export interface TimePeriod {
+  /** Name in English transliteration */
+  name: string;
+
+  /** Name in Sanskrit (Devanagari) */
+  nameSanskrit: string;
+
+  /** Whether the period is to be sought or avoided */
+  quality: 'auspicious' | 'inauspicious';
+
+  /** Start of the period */
+  start: Date;
+
+  /** End of the period */
+  end: Date;
+}
+
+/**
+ * All marked periods for one sunrise-to-sunrise day
+ */
+export interface DailyPeriods extends SolarDay {
+  /** Weekday of the day (0 = Sunday ... 6 = Saturday) */
+  weekday: number;
+
+  /** Rahu Kalam */
+  rahuKalam: TimePeriod;
+
+  /** Yamagandam */
+  yamagandam: TimePeriod;
+
+  /** Gulika Kalam */
+  gulikaKalam: TimePeriod;
+
+  /** Durmuhurtas (one or two) */
+  durmuhurtas: TimePeriod[];
+
+  /** Abhijit muhurta, or null on Wednesday when it coincides with Durmuhurta */
+  abhijitMuhurta: TimePeriod | null;
+
+  /** Brahma muhurta before the next sunrise */
+  brahmaMuhurta: TimePeriod;
+
+  /** Varjyam periods falling within the day */
+  varjyam: TimePeriod[];
+
+  /** Amrita Kalam periods falling within the day */
+  amritKalam: TimePeriod[];
+}
+
+/**
+ * Eighth of daytime (1-8) holding each period, indexed by weekday (Sunday first)
+ */
+const RAHU_KALAM_PARTS = [8, 2, 7, 5, 6, 4, 3] as const;
+const YAMAGANDAM_PARTS = [5, 4, 3, 2, 1, 7, 6] as const;
+const GULIKA_KALAM_PARTS = [7, 6, 5, 4, 3, 2, 1] as const;
+
+/**
+ * Durmuhurtas by weekday (Sunday first), as seasonal muhurta numbers
+ * (1-15 by day, 16-30 by night)
+ */
+const DURMUHURTA_MUHURTAS: readonly (readonly number[])[] = [
+  [14],
+  [9, 12],
+  [4, 22],
+  [8],
+  [6, 12],
+  [4, 9],
+  [1, 2],
+];
+
+/**
+ * Weekday on which Abhijit is not observed
+ */
+const WEDNESDAY = 3;
+
+/**
+ * Ghati (of 60) at which Varjyam begins, indexed by nakshatra (Ashwini first)
+ */
+const VARJYAM_GHATIS = [
+  50, 24, 30, 40, 14, 21, 30, 20, 32, 30, 20, 18, 21, 20,
+  14, 14, 10, 14, 20, 24, 20, 10, 10, 18, 16, 24, 30,
+] as const;
+
+/**
+ * Ghati (of 60) at which Amrita Kalam begins, indexed by nakshatra (Ashwini first)
+ */
+const AMRIT_KALAM_GHATIS = [
+  42, 48, 54, 52, 38, 35, 54, 44, 56, 54, 44, 42, 45, 44,
+  38, 38, 34, 38, 44, 48, 44, 34, 34, 42, 40, 48, 54,
+] as const;
+
+/**
+ * Length of Varjyam and Amrita Kalam in ghatis
+ */
+const NAKSHATRA_PERIOD_GHATIS = 4;
+
+const GHATIS_PER_NAKSHATRA = 60;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Longest nakshatra span in hours, used to start the nakshatra walk early
+ * enough that the one prevailing at sunrise has a known start
+ */
+const MAX_NAKSHATRA_HOURS = 30;
+
+/**
+ * Get one eighth of daytime
+ *
+ * @param sunrise - Sunrise
+ * @param sunset - Sunset
+ * @param part - Which eighth (1-8)
+ * @returns Start and end of that part
+ */
+function getDayEighth(sunrise: Date, sunset: Date, part: number): { start: Date; end: Date } {
+  const eighth = (sunset.getTime() - sunrise.getTime()) / 8;
+  return {
+    start: new Date(sunrise.getTime() + eighth * (part - 1)),
+    end: new Date(sunrise.getTime() + eighth * part),
+  };
+}
+
+/**
+ * Find the Varjyam and Amrita Kalam periods overlapping a day
+ *
+ * Walks through the nakshatras from before sunrise to the next sunrise and
+ * places each period at its fixed ghati within the nakshatra's real span.
+ *
+ * @param sunrise - Start of the day
+ * @param nextSunrise - End of the day
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Ayanamsa for nakshatra positions
+ * @returns Varjyam and Amrita Kalam periods within the day
+ */
+function findNakshatraPeriods(
+  sunrise: Date,
+  nextSunrise: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings
+): { varjyam: TimePeriod[]; amritKalam: TimePeriod[] } {
+  const varjyam: TimePeriod[] = [];
+  const amritKalam: TimePeriod[] = [];
+
+  const place = (spanStart: Date, spanEnd: Date, ghati: number) => {
+    const ghatiMs = (spanEnd.getTime() - spanStart.getTime()) / GHATIS_PER_NAKSHATRA;
+    return {
+      start: new Date(spanStart.getTime() + ghati * ghatiMs),
+      end: new Date(spanStart.getTime() + (ghati + NAKSHATRA_PERIOD_GHATIS) * ghatiMs),
+    };
+  };
+  const overlapsDay = (period: { start: Date; end: Date }) =>
+    period.end > sunrise && period.start < nextSunrise;
+
+  // The first nakshatra's start is unknown, so it only provides a boundary
+  let current = calculateNakshatra(
+    new Date(sunrise.getTime() - MAX_NAKSHATRA_HOURS * MS_PER_HOUR),
+    latitude,
+    longitude,
+    ayanamsa
+  );
+  while (current.endsAt < nextSunrise) {
+    const spanStart = current.endsAt;
+    const next = calculateNakshatra(spanStart, latitude, longitude, ayanamsa);
+    if (next.endsAt <= spanStart) break;
+
+    const index = next.nakshatraNumber - 1;
+    const varjyamSpan = place(spanStart, next.endsAt, VARJYAM_GHATIS[index]);
+    const amritSpan = place(spanStart, next.endsAt, AMRIT_KALAM_GHATIS[index]);
+
+    if (overlapsDay(varjyamSpan)) {
+      varjyam.push({ name: 'Varjyam', nameSanskrit: 'वर्ज्यम्', quality: 'inauspicious', ...varjyamSpan });
+    }
+    if (overlapsDay(amritSpan)) {
+      amritKalam.push({ name: 'Amrita Kalam', nameSanskrit: 'अमृत काल', quality: 'auspicious', ...amritSpan });
+    }
+
+    current = next;
+  }
+
+  return { varjyam, amritKalam };
+}
+
+/**
+ * Calculate the marked periods for the day containing an instant
+ *
+ * The day runs from the sunrise at or before the instant to the next sunrise,
+ * matching the vara.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Ayanamsa for nakshatra positions (default: Lahiri)
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Rahu Kalam, Yamagandam, Gulika, Durmuhurtas, Varjyam and Amrita Kalam
+ */
+export function calculateDailyPeriods(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): DailyPeriods {
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const { sunrise, sunset, nextSunrise } = solarDay;
+  const weekday = getLocalWeekday(sunrise, longitude) % VEDIC_CONSTANTS.VARA_COUNT;
+
+  const durmuhurtas = DURMUHURTA_MUHURTAS[weekday].map((muhurta): TimePeriod => ({
+    name: 'Durmuhurta',
+    nameSanskrit: 'दुर्मुहूर्त',
+    quality: 'inauspicious',
+    ...getMuhurtaSpan(solarDay, muhurta, 'seasonal'),
+  }));
+
+  return {
+    ...solarDay,
+    weekday,
+    rahuKalam: {
+      name: 'Rahu Kalam',
+      nameSanskrit: 'राहु काल',
+      quality: 'inauspicious',
+      ...getDayEighth(sunrise, sunset, RAHU_KALAM_PARTS[weekday]),
+    },
+    yamagandam: {
+      name: 'Yamagandam',
+      nameSanskrit: 'यमगण्ड',
+      quality: 'inauspicious',
+      ...getDayEighth(sunrise, sunset, YAMAGANDAM_PARTS[weekday]),
+    },
+    gulikaKalam: {
+      name: 'Gulika Kalam',
+      nameSanskrit: 'गुलिक काल',
+      quality: 'inauspicious',
+      ...getDayEighth(sunrise, sunset, GULIKA_KALAM_PARTS[weekday]),
+    },
+    durmuhurtas,
+    abhijitMuhurta: weekday === WEDNESDAY ? null : {
+      name: 'Abhijit Muhurta',
+      nameSanskrit: 'अभिजित् मुहूर्त',
+      quality: 'auspicious',
+      ...getMuhurtaSpan(solarDay, ABHIJIT_MUHURTA, 'seasonal'),
+    },
+    brahmaMuhurta: {
+      name: 'Brahma Muhurta',
+      nameSanskrit: 'ब्रह्म मुहूर्त',
+      quality: 'auspicious',
+      ...getMuhurtaSpan(solarDay, BRAHMA_MUHURTA, 'seasonal'),
+    },
+    ...findNakshatraPeriods(sunrise, nextSunrise, latitude, longitude, ayanamsa),
+  };
+}
+
+/**
+ * List all periods of a day in time order
+ *
+ * @param periods - The day's periods
+ * @returns Every period, sorted by start time
+ */
+export function listDailyPeriods(periods: DailyPeriods): TimePeriod[] {
+  return [
+    periods.rahuKalam,
+    periods.yamagandam,
+    periods.gulikaKalam,
+    ...periods.durmuhurtas,
+    ...(periods.abhijitMuhurta ? [periods.abhijitMuhurta] : []),
+    periods.brahmaMuhurta,
+    ...periods.varjyam,
+    ...periods.amritKalam,
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Get the periods in effect at an instant
+ *
+ * @param periods - The day's periods
+ * @param date - The instant to check
+ * @returns Periods containing the instant
+ */
+export function getActivePeriods(periods: DailyPeriods, date: Date): TimePeriod[] {
+  return listDailyPeriods(periods).filter((period) => period.start <= date && date < period.end);
+}
@@ -0,0 +1,125 @@
+/**
+ * Karana Calculator Module
+ *
+ * A karana is half a tithi: the time it takes the Moon-Sun elongation to grow
+ * by 6°. There are 60 karanas in a lunar month, built from 11 names:
+ *
+ * - Kimstughna (fixed): first half of Shukla Pratipad
+ * - Bava, Balava, Kaulava, Taitila, Gara, Vanija, Vishti (movable): repeat
+ *   eight times through karanas 2-57
+ * - Shakuni, Chatushpada, Naga (fixed): the last three half-tithis before
+ *   the new moon
+ *
+ * Because karanas are measured on elongation they do not depend on the ayanamsa.
+ */
+
+import {
+  getElongation,
+  getElongationRate,
+  searchElongation,
+} from './astronomicalCalculations';
+import type { LimbBoundary } from './vedicTime';
+import { VEDIC_CONSTANTS, getKaranaName, lookupLimbEnd } from './vedicTime';
+
+/**
+ * Result of karana calculation
+ */
+export interface KaranaResult {
+  /** Current karana number (1-60) */
+  karanaNumber: number;
+
+  /** Name of the karana in Sanskrit with transliteration */
+  karanaName: string;
+
+  /** Progress through the current karana (0-100%) */
+  progress: number;
+
+  /** Minutes until the next karana begins */
+  minutesToNext: number;
+
+  /** Exact instant the current karana ends */
+  endsAt: Date;
+
+  /** The elongation value used for this calculation */
+  elongation: number;
+}
+
+/**
+ * Calculate the karana number from elongation
+ *
+ * @param elongation - The angular separation between Moon and Sun (0-360°)
+ * @returns The karana number (1-60)
+ */
+export function calculateKaranaNumber(elongation: number): number {
+  const karanaIndex = Math.floor(elongation / VEDIC_CONSTANTS.DEGREES_PER_KARANA);
+
+  // Convert 0-59 index to 1-60 karana number
+  return (karanaIndex % VEDIC_CONSTANTS.KARANAS_PER_MONTH) + 1;
+}
+
+/**
+ * Calculate the progress through the current karana
+ *
+ * @param elongation - The angular separation between Moon and Sun (0-360°)
+ * @returns Progress as a percentage (0-100)
+ */
+export function calculateKaranaProgress(elongation: number): number {
+  const remainderDegrees = elongation % VEDIC_CONSTANTS.DEGREES_PER_KARANA;
+  return (remainderDegrees / VEDIC_CONSTANTS.DEGREES_PER_KARANA) * 100;
+}
+
+/**
+ * Find the exact instant the current karana ends
+ *
+ * @param date - The date and time inside the karana
+ * @param elongation - Elongation at that date in degrees
+ * @returns The instant the next karana begins
+ */
+export function findKaranaEnd(date: Date, elongation: number): Date {
+  const karanaIndex = Math.floor(elongation / VEDIC_CONSTANTS.DEGREES_PER_KARANA);
+  const nextBoundary =
+    ((karanaIndex + 1) * VEDIC_CONSTANTS.DEGREES_PER_KARANA) % VEDIC_CONSTANTS.FULL_CIRCLE;
+
+  const endsAt = searchElongation(nextBoundary, date);
+  if (endsAt) {
+    return endsAt;
+  }
+
+  // Fall back to the linear estimate if the search window was missed
+  const degreesRemaining =
+    VEDIC_CONSTANTS.DEGREES_PER_KARANA - (elongation % VEDIC_CONSTANTS.DEGREES_PER_KARANA);
+  const hoursToNext = degreesRemaining / getElongationRate(date);
+  return new Date(date.getTime() + hoursToNext * 60 * 60 * 1000);
+}
+
+/**
+ * Calculate complete karana information for a given date and location
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param boundaries - Karana ends already found for the day, to skip the search
+ * @returns Complete karana information
+ */
+export function calculateKarana(
+  date: Date,
+  latitude: number = 0,
+  longitude: number = 0,
+  boundaries?: readonly LimbBoundary[]
+): KaranaResult {
+  const elongation = getElongation(date, latitude, longitude);
+  const karanaNumber = calculateKaranaNumber(elongation);
+
+  // Find the exact end of the current karana
+  const endsAt = lookupLimbEnd(boundaries, karanaNumber, date) ?? findKaranaEnd(date, elongation);
+  const minutesToNext = (endsAt.getTime() - date.getTime()) / (1000 * 60);
+
+  return {
+    karanaNumber,
+    karanaName: getKaranaName(karanaNumber),
+    progress: calculateKaranaProgress(elongation),
+    minutesToNext,
+    endsAt,
+    elongation,
+  };
+}
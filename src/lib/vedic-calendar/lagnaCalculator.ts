@@ -0,0 +1,253 @@
+/**
+ * Lagna Calculator Module
+ *
+ * The lagna (ascendant) is the rashi rising on the eastern horizon. It depends
+ * on the observer's latitude and longitude as well as the time, and moves
+ * through all 12 rashis in one sidereal day (about 23h 56m).
+ *
+ * Key Concepts:
+ * - Lagnas are not equal in length: signs of "short ascension" rise in well
+ *   under two hours, others take nearly three, depending on latitude
+ * - The lagna at sunrise is the rashi the Sun occupies
+ * - A day's lagna table runs from sunrise to the next sunrise
+ */
+
+import { getAscendantLongitude } from './astronomicalCalculations';
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA, toSidereal } from './ayanamsa';
+import type { PolarPolicy } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getSolarDay } from './varaCalculator';
+import { VEDIC_CONSTANTS, getRashiName } from './vedicTime';
+
+/**
+ * One lagna within a day
+ */
+export interface LagnaSegment {
+  /** Rising rashi number (1-12) */
+  rashi: number;
+
+  /** Name of the rising rashi */
+  rashiName: string;
+
+  /** Instant the rashi begins to rise */
+  start: Date;
+
+  /** Instant the next rashi begins to rise */
+  end: Date;
+}
+
+/**
+ * Result of lagna calculation
+ */
+export interface LagnaResult {
+  /** Current lagna rashi number (1-12) */
+  rashi: number;
+
+  /** Name of the current lagna rashi */
+  rashiName: string;
+
+  /** Sidereal longitude of the ascendant in degrees (0-360°) */
+  longitude: number;
+
+  /** Degrees of the ascendant into the rashi (0-30°) */
+  degree: number;
+
+  /** Progress through the current lagna (0-100%) */
+  progress: number;
+
+  /** Minutes until the next lagna */
+  minutesToNext: number;
+
+  /** Instant the current lagna ends */
+  endsAt: Date;
+
+  /** Lagnas of the sunrise-to-sunrise day, in order */
+  segments: LagnaSegment[];
+}
+
+/**
+ * Step used to look for the next lagna change in minutes
+ *
+ * Shorter than any lagna outside the polar regions (the quickest signs take
+ * about 40 minutes to rise near 60° latitude).
+ */
+const SCAN_STEP_MINUTES = 4;
+
+/**
+ * Longest span searched for a lagna change in hours
+ */
+const LAGNA_SEARCH_HOURS = 12;
+
+/**
+ * Precision of the lagna boundaries in milliseconds
+ */
+const SEARCH_TOLERANCE_MS = 1000;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+/**
+ * Get the sidereal longitude of the ascendant
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Which ayanamsa to use (default: Lahiri)
+ * @returns Sidereal ascendant longitude in degrees (0-360°)
+ */
+export function getSiderealAscendant(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  return toSidereal(getAscendantLongitude(date, latitude, longitude), date, ayanamsa);
+}
+
+/**
+ * Rashi number (1-12) containing a sidereal longitude
+ */
+function getLagnaRashi(longitude: number): number {
+  return (
+    (Math.floor(longitude / VEDIC_CONSTANTS.DEGREES_PER_RASHI) % VEDIC_CONSTANTS.RASHI_COUNT) + 1
+  );
+}
+
+/**
+ * Find the nearest lagna change before or after an instant
+ *
+ * Steps through time until a different rashi is rising, then bisects. Unlike
+ * an angle search this copes with the polar regions, where the ascendant can
+ * skip signs.
+ *
+ * @param date - Instant to search from
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Which ayanamsa to use
+ * @param direction - +1 for the end of the current lagna, -1 for its start
+ * @returns The boundary instant, or null if the lagna does not change within the search span
+ */
+export function findLagnaChange(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings,
+  direction: 1 | -1
+): Date | null {
+  const rashiAt = (time: number) =>
+    getLagnaRashi(getSiderealAscendant(new Date(time), latitude, longitude, ayanamsa));
+
+  const rashi = rashiAt(date.getTime());
+  const step = direction * SCAN_STEP_MINUTES * MS_PER_MINUTE;
+  const steps = (LAGNA_SEARCH_HOURS * MS_PER_HOUR) / Math.abs(step);
+
+  let inside = date.getTime();
+  for (let index = 1; index <= steps; index++) {
+    let outside = date.getTime() + index * step;
+    if (rashiAt(outside) === rashi) {
+      inside = outside;
+      continue;
+    }
+
+    while (Math.abs(outside - inside) > SEARCH_TOLERANCE_MS) {
+      const mid = (inside + outside) / 2;
+      if (rashiAt(mid) === rashi) {
+        inside = mid;
+      } else {
+        outside = mid;
+      }
+    }
+
+    // Forward: first instant of the next lagna; backward: first instant of this one
+    return new Date(direction > 0 ? outside : inside);
+  }
+
+  return null;
+}
+
+/**
+ * List the lagnas between two instants
+ *
+ * The first segment starts when its rashi began rising, which may be before
+ * `from`; the last ends after `to`.
+ *
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Which ayanamsa to use (default: Lahiri)
+ * @returns Lagna segments covering the range, in order
+ */
+export function getLagnaSegments(
+  from: Date,
+  to: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): LagnaSegment[] {
+  const segments: LagnaSegment[] = [];
+  let start = findLagnaChange(from, latitude, longitude, ayanamsa, -1) ?? from;
+
+  while (start < to) {
+    // Read the rashi just after the boundary so rounding cannot pick the previous one
+    const probe = new Date(Math.max(start.getTime(), from.getTime()) + SEARCH_TOLERANCE_MS);
+    const rashi = getLagnaRashi(getSiderealAscendant(probe, latitude, longitude, ayanamsa));
+    const end = findLagnaChange(probe, latitude, longitude, ayanamsa, 1) ?? to;
+
+    segments.push({ rashi, rashiName: getRashiName(rashi), start, end });
+    start = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Calculate the lagna for a given date and location
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Which ayanamsa to use (default: Lahiri)
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @param daySegments - The day's lagna table if already found, to skip the searches
+ * @returns The current lagna and the day's lagna table
+ *
+ * @example
+ * // Around sunrise the lagna is the Sun's own rashi
+ * const lagna = calculateLagna(new Date('2024-01-15T07:20:00+05:30'), 28.61, 77.21);
+ * // lagna.rashiName === 'Makara (मकर)'
+ */
+export function calculateLagna(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY,
+  daySegments?: LagnaSegment[]
+): LagnaResult {
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const segments =
+    daySegments ?? getLagnaSegments(solarDay.sunrise, solarDay.nextSunrise, latitude, longitude, ayanamsa);
+
+  const ascendant = getSiderealAscendant(date, latitude, longitude, ayanamsa);
+  const rashi = getLagnaRashi(ascendant);
+  const current =
+    segments.find((segment) => date >= segment.start && date < segment.end) ??
+    segments[segments.length - 1];
+  const inTable = current.rashi === rashi;
+  const endsAt =
+    (inTable && daySegments ? current.end : findLagnaChange(date, latitude, longitude, ayanamsa, 1)) ??
+    current.end;
+  const startsAt = inTable ? current.start : date;
+
+  return {
+    rashi,
+    rashiName: getRashiName(rashi),
+    longitude: ascendant,
+    degree: ascendant % VEDIC_CONSTANTS.DEGREES_PER_RASHI,
+    progress: ((date.getTime() - startsAt.getTime()) / (endsAt.getTime() - startsAt.getTime())) * 100,
+    minutesToNext: (endsAt.getTime() - date.getTime()) / MS_PER_MINUTE,
+    endsAt,
+    segments,
+  };
+}
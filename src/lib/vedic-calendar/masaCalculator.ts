@@ -0,0 +1,340 @@
+/**
+ * Masa Calculator Module
+ *
+ * A masa is a lunar month. Each month is one lunation (about 29.5 days) and
+ * is named after the sankranti (the Sun's entry into a sidereal rashi) that
+ * falls inside it. Because twelve lunations are about 11 days shorter than a
+ * solar year, the naming occasionally breaks:
+ *
+ * - Adhika masa (leap month): a lunation with no sankranti at all. It takes
+ *   the name of the following month and is marked "adhika"; the following
+ *   month is the "nija" (regular) one. Happens roughly every 32.5 months.
+ * - Kshaya masa (lost month): a lunation with two sankrantis, which can occur
+ *   near perihelion when the Sun moves fastest. The month is named after the
+ *   first sankranti and the second name is skipped for that year. Very rare.
+ *
+ * Two conventions are in use for the month boundaries:
+ * - Amanta (South & West India): month runs from amavasya to amavasya
+ * - Purnimanta (North India): month runs from purnima to purnima, so its
+ *   Krishna paksha takes the name of the following amanta month
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA, getSiderealSunLongitude } from './ayanamsa';
+import { searchAngleCrossing } from './astronomicalCalculations';
+import { VEDIC_CONSTANTS, getMasaName } from './vedicTime';
+
+/**
+ * Lunar month convention
+ */
+export type MasaSystem = 'amanta' | 'purnimanta';
+
+/**
+ * A single amanta lunation with its name and leap-month flags
+ */
+export interface LunarMonth {
+  /** Masa number (1-12, 1 = Chaitra) */
+  masaNumber: number;
+
+  /** Name of the masa in Sanskrit with transliteration */
+  masaName: string;
+
+  /** True if the lunation contains no sankranti (leap month) */
+  isAdhika: boolean;
+
+  /** True if the lunation contains two sankrantis (a month name is lost) */
+  isKshaya: boolean;
+
+  /** Masa number skipped because of a kshaya month, or null */
+  skippedMasa: number | null;
+
+  /** Amavasya (new moon) that begins the month */
+  startsAt: Date;
+
+  /** Amavasya (new moon) that ends the month */
+  endsAt: Date;
+}
+
+/**
+ * Result of masa calculation for a specific instant
+ */
+export interface MasaResult extends LunarMonth {
+  /** Convention used for the month boundaries */
+  system: MasaSystem;
+}
+
+/**
+ * A sankranti: the Sun's entry into a sidereal rashi
+ */
+export interface Sankranti {
+  /** Rashi entered (0 = Mesha ... 11 = Meena) */
+  rashi: number;
+
+  /** Instant of the entry */
+  at: Date;
+}
+
+/**
+ * Lunar phase angles used by the moon-phase search (Moon - Sun longitude)
+ */
+const NEW_MOON_PHASE = 0;
+const FULL_MOON_PHASE = 180;
+
+/**
+ * Search window for lunar phases in days (longer than one lunation)
+ */
+const PHASE_SEARCH_DAYS = 32;
+
+/**
+ * Search window for the next sankranti in hours (longer than the Sun's
+ * longest stay in a rashi, about 31.5 days)
+ */
+const SANKRANTI_SEARCH_HOURS = 33 * 24;
+
+/**
+ * Find the new moon (amavasya end) at or before a given date
+ *
+ * @param date - The date to search back from
+ * @returns The instant of the most recent new moon
+ */
+export function findPreviousNewMoon(date: Date): Date {
+  const newMoon = Astronomy.SearchMoonPhase(NEW_MOON_PHASE, date, -PHASE_SEARCH_DAYS);
+  if (!newMoon) {
+    throw new Error(`No new moon found before ${date.toISOString()}`);
+  }
+  return newMoon.date;
+}
+
+/**
+ * Find the first new moon after a given date
+ *
+ * @param date - The date to search forward from
+ * @returns The instant of the next new moon
+ */
+export function findNextNewMoon(date: Date): Date {
+  const newMoon = Astronomy.SearchMoonPhase(NEW_MOON_PHASE, date, PHASE_SEARCH_DAYS);
+  if (!newMoon) {
+    throw new Error(`No new moon found after ${date.toISOString()}`);
+  }
+  return newMoon.date;
+}
+
+/**
+ * Find the full moon that falls inside a lunation
+ *
+ * @param newMoon - The new moon that begins the lunation
+ * @returns The instant of the full moon (purnima end)
+ */
+function findFullMoonAfter(newMoon: Date): Date {
+  const fullMoon = Astronomy.SearchMoonPhase(FULL_MOON_PHASE, newMoon, PHASE_SEARCH_DAYS);
+  if (!fullMoon) {
+    throw new Error(`No full moon found after ${newMoon.toISOString()}`);
+  }
+  return fullMoon.date;
+}
+
+/**
+ * Get the sidereal rashi occupied by the Sun
+ *
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Ayanamsa for the sidereal longitude
+ * @returns Rashi index (0 = Mesha ... 11 = Meena)
+ */
+function getSunRashiIndex(date: Date, ayanamsa: AyanamsaSettings): number {
+  return Math.floor(getSiderealSunLongitude(date, ayanamsa) / 30) % 12;
+}
+
+/**
+ * Find the first sankranti after a given date
+ *
+ * @param date - The date to search forward from
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @returns The next sankranti with the rashi being entered
+ */
+export function findNextSankranti(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): Sankranti {
+  const rashi = (getSunRashiIndex(date, ayanamsa) + 1) % 12;
+  const at = searchAngleCrossing(
+    (searchDate) => getSiderealSunLongitude(searchDate, ayanamsa),
+    rashi * 30,
+    date,
+    SANKRANTI_SEARCH_HOURS
+  );
+  if (!at) {
+    throw new Error(`No sankranti found after ${date.toISOString()}`);
+  }
+  return { rashi, at };
+}
+
+/**
+ * Find the most recent sankranti at or before a given date
+ *
+ * @param date - The date to search back from
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @returns The sankranti that began the Sun's current rashi
+ */
+export function findPreviousSankranti(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): Sankranti {
+  const rashi = getSunRashiIndex(date, ayanamsa);
+
+  // The Sun was still in the previous rashi one search window ago
+  const searchFrom = new Date(date.getTime() - SANKRANTI_SEARCH_HOURS * 60 * 60 * 1000);
+  const at = searchAngleCrossing(
+    (searchDate) => getSiderealSunLongitude(searchDate, ayanamsa),
+    rashi * 30,
+    searchFrom,
+    SANKRANTI_SEARCH_HOURS
+  );
+  if (!at) {
+    throw new Error(`No sankranti found before ${date.toISOString()}`);
+  }
+  return { rashi, at };
+}
+
+/**
+ * Describe the amanta lunation that begins at a given new moon
+ *
+ * The month is named from the Sun's rashi at its opening amavasya: if the
+ * Sun is in Meena, the sankranti inside the month is into Mesha and the
+ * month is Chaitra; in general masa = rashi + 1 (wrapping at 12).
+ *
+ * Counting how many rashi boundaries the Sun crosses before the closing
+ * amavasya gives the number of sankrantis: zero means adhika, two kshaya.
+ *
+ * @param startsAt - The new moon that opens the lunation
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @returns The lunar month with name and leap-month flags
+ */
+export function getLunarMonth(
+  startsAt: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): LunarMonth {
+  // Step a day past the opening new moon so the search finds the closing one
+  const endsAt = findNextNewMoon(new Date(startsAt.getTime() + 24 * 60 * 60 * 1000));
+
+  const startRashi = getSunRashiIndex(startsAt, ayanamsa);
+  const endRashi = getSunRashiIndex(endsAt, ayanamsa);
+  const sankrantiCount = (endRashi - startRashi + 12) % 12;
+
+  const masaNumber = ((startRashi + 1) % VEDIC_CONSTANTS.MASA_COUNT) + 1;
+  const isKshaya = sankrantiCount >= 2;
+
+  return {
+    masaNumber,
+    masaName: getMasaName(masaNumber),
+    isAdhika: sankrantiCount === 0,
+    isKshaya,
+    skippedMasa: isKshaya ? (masaNumber % VEDIC_CONSTANTS.MASA_COUNT) + 1 : null,
+    startsAt,
+    endsAt,
+  };
+}
+
+/**
+ * Get all amanta lunations overlapping a date range
+ *
+ * Useful for building calendars and for finding which months in a year
+ * are adhika or kshaya.
+ *
+ * @param startDate - Start of the range
+ * @param endDate - End of the range
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @returns Consecutive lunar months, in order
+ */
+export function getLunarMonths(
+  startDate: Date,
+  endDate: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): LunarMonth[] {
+  const months: LunarMonth[] = [];
+  let newMoon = findPreviousNewMoon(startDate);
+
+  while (newMoon < endDate) {
+    const month = getLunarMonth(newMoon, ayanamsa);
+    months.push(month);
+    newMoon = month.endsAt;
+  }
+
+  return months;
+}
+
+/**
+ * Calculate the masa (lunar month) prevailing at a given instant
+ *
+ * In the amanta system this is simply the lunation containing the date.
+ * In the purnimanta system the month changes at purnima instead: the
+ * Shukla paksha keeps the amanta name, while the Krishna paksha takes the
+ * name of the following lunation. An adhika month still runs from amavasya
+ * to amavasya in both systems, so its Krishna paksha stays adhika; the
+ * nija month's pakshas on either side of it end and begin at those
+ * amavasyas, and the Krishna paksha before it takes the nija month's name.
+ *
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @param system - Month convention (default: amanta)
+ * @returns The masa with its boundaries and leap-month flags
+ *
+ * @example
+ * const masa = calculateMasa(new Date('2023-08-01'));
+ * // masa.masaName === 'Shravana (श्रावण)', masa.isAdhika === true
+ */
+export function calculateMasa(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  system: MasaSystem = 'amanta'
+): MasaResult {
+  const amantaMonth = getLunarMonth(findPreviousNewMoon(date), ayanamsa);
+
+  // Adhika months keep amavasya boundaries in both systems
+  if (system === 'amanta' || amantaMonth.isAdhika) {
+    return { ...amantaMonth, system };
+  }
+
+  const fullMoon = findFullMoonAfter(amantaMonth.startsAt);
+
+  // Shukla paksha: the purnimanta month ends at this purnima, and began at
+  // the last one unless an adhika month came between
+  if (date < fullMoon) {
+    const previousMonth = getLunarMonth(
+      findPreviousNewMoon(new Date(amantaMonth.startsAt.getTime() - 24 * 60 * 60 * 1000)),
+      ayanamsa
+    );
+    const previousFullMoon = Astronomy.SearchMoonPhase(
+      FULL_MOON_PHASE,
+      amantaMonth.startsAt,
+      -PHASE_SEARCH_DAYS
+    );
+    return {
+      ...amantaMonth,
+      startsAt: previousFullMoon && !previousMonth.isAdhika ? previousFullMoon.date : amantaMonth.startsAt,
+      endsAt: fullMoon,
+      system,
+    };
+  }
+
+  // Krishna paksha: the purnimanta month runs on to the next purnima
+  const nextMonth = getLunarMonth(amantaMonth.endsAt, ayanamsa);
+
+  // Before an adhika month, it belongs to the nija month after it and ends
+  // where the adhika month begins
+  if (nextMonth.isAdhika) {
+    return {
+      ...getLunarMonth(nextMonth.endsAt, ayanamsa),
+      startsAt: fullMoon,
+      endsAt: nextMonth.startsAt,
+      system,
+    };
+  }
+
+  return {
+    ...nextMonth,
+    startsAt: fullMoon,
+    endsAt: findFullMoonAfter(nextMonth.startsAt),
+    system,
+  };
+}
@@ -6,9 +6,21 @@
  *
  * The 30 muhurtas are calculated from sunrise to sunrise, with each having specific
  * qualities and ruling deities.
+ *
+ * Two modes are supported:
+ * - 'equal': 30 fixed muhurtas of 48 minutes from sunrise
+ * - 'seasonal': 15 day muhurtas split sunrise-to-sunset and 15 night muhurtas
+ *   split sunset-to-next-sunrise, so they lengthen and shorten with the seasons
  */
 
 import * as Astronomy from 'astronomy-engine';
+import type { PolarPolicy, SolarDay } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getSolarDay } from './varaCalculator';
+
+/**
+ * How the day is divided into muhurtas
+ */
+export type MuhurtaMode = 'equal' | 'seasonal';
 
 /**
  * Muhurta data structure
@@ -24,6 +36,12 @@ export interface MuhurtaInfo {
   progress: number;
   /** Estimated minutes until next muhurta */
   timeRemaining: number;
+  /** Start of the current muhurta */
+  startsAt: Date;
+  /** End of the current muhurta */
+  endsAt: Date;
+  /** Mode used to divide the day */
+  mode: MuhurtaMode;
 }
 
 /**
@@ -75,6 +93,18 @@ export const MINUTES_PER_MUHURTA = 48;
  */
 export const MUHURTAS_PER_DAY = 30;
 
+/**
+ * Abhijit muhurta: the 8th day muhurta, around local noon
+ */
+export const ABHIJIT_MUHURTA = 8;
+
+/**
+ * Brahma muhurta: the 14th night muhurta, ending one muhurta before sunrise
+ */
+export const BRAHMA_MUHURTA = 29;
+
+const MS_PER_MINUTE = 60 * 1000;
+
 /**
  * Get sunrise time for a given date and location
  *
@@ -109,35 +139,120 @@ export function getSunrise(date: Date, latitude: number, longitude: number): Dat
   }
 }
 
+/**
+ * Get the start and end of a muhurta within a day
+ *
+ * In 'seasonal' mode muhurtas 1-15 divide sunrise to sunset and 16-30 divide
+ * sunset to next sunrise; in 'equal' mode each lasts 48 minutes from sunrise.
+ *
+ * @param solarDay - The day's sunrise, sunset and next sunrise
+ * @param muhurtaNumber - Muhurta number (1-30)
+ * @param mode - Muhurta mode
+ * @returns Start and end of the muhurta
+ */
+export function getMuhurtaSpan(
+  solarDay: SolarDay,
+  muhurtaNumber: number,
+  mode: MuhurtaMode
+): { start: Date; end: Date } {
+  if (mode === 'equal') {
+    const start = solarDay.sunrise.getTime() + (muhurtaNumber - 1) * MINUTES_PER_MUHURTA * MS_PER_MINUTE;
+    return { start: new Date(start), end: new Date(start + MINUTES_PER_MUHURTA * MS_PER_MINUTE) };
+  }
+
+  const half = MUHURTAS_PER_DAY / 2;
+  const isDay = muhurtaNumber <= half;
+  const from = isDay ? solarDay.sunrise.getTime() : solarDay.sunset.getTime();
+  const to = isDay ? solarDay.sunset.getTime() : solarDay.nextSunrise.getTime();
+  const length = (to - from) / half;
+  const index = (muhurtaNumber - 1) % half;
+
+  return {
+    start: new Date(from + index * length),
+    end: new Date(from + (index + 1) * length),
+  };
+}
+
+/**
+ * Get the angle (0-360°) of an instant around the sunrise-to-sunrise day
+ *
+ * In 'equal' mode the angle grows uniformly over 24 hours from sunrise; in
+ * 'seasonal' mode daytime fills 0-180° and night 180-360°, so each muhurta
+ * always spans 12°.
+ *
+ * @param date - The instant
+ * @param solarDay - The day's sunrise, sunset and next sunrise
+ * @param mode - Muhurta mode
+ * @returns Angle in degrees from sunrise, clamped to 0-360
+ */
+export function getDayAngle(
+  date: Date,
+  solarDay: SolarDay,
+  mode: MuhurtaMode
+): number {
+  const t = date.getTime();
+  const sunrise = solarDay.sunrise.getTime();
+  const sunset = solarDay.sunset.getTime();
+  const nextSunrise = solarDay.nextSunrise.getTime();
+
+  let angle: number;
+  if (mode === 'equal') {
+    angle = ((t - sunrise) / (MINUTES_PER_MUHURTA * MUHURTAS_PER_DAY * MS_PER_MINUTE)) * 360;
+  } else if (t < sunset) {
+    angle = ((t - sunrise) / (sunset - sunrise)) * 180;
+  } else {
+    angle = 180 + ((t - sunset) / (nextSunrise - sunset)) * 180;
+  }
+  return Math.min(Math.max(angle, 0), 360);
+}
+
+/**
+ * Calculate the current seasonal muhurta
+ */
+function calculateSeasonalMuhurta(solarDay: SolarDay, date: Date): MuhurtaInfo {
+  const angle = getDayAngle(date, solarDay, 'seasonal');
+  const muhurtaIndex = Math.min(Math.floor(angle / (360 / MUHURTAS_PER_DAY)), MUHURTAS_PER_DAY - 1);
+  const { start, end } = getMuhurtaSpan(solarDay, muhurtaIndex + 1, 'seasonal');
+  const muhurtaData = MUHURTA_NAMES[muhurtaIndex];
+
+  return {
+    number: muhurtaIndex + 1,
+    name: muhurtaData.name,
+    nameSanskrit: muhurtaData.sanskrit,
+    progress: ((date.getTime() - start.getTime()) / (end.getTime() - start.getTime())) * 100,
+    timeRemaining: (end.getTime() - date.getTime()) / MS_PER_MINUTE,
+    startsAt: start,
+    endsAt: end,
+    mode: 'seasonal',
+  };
+}
+
 /**
  * Calculate current muhurta based on time since sunrise
  *
  * @param date - The current date and time
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
+ * @param mode - 'equal' for 48-minute muhurtas, 'seasonal' for day/night halves (default: 'equal')
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
  * @returns MuhurtaInfo object with current muhurta details
  */
 export function calculateMuhurta(
   date: Date,
   latitude: number,
-  longitude: number
+  longitude: number,
+  mode: MuhurtaMode = 'equal',
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
 ): MuhurtaInfo {
-  // Get sunrise for today
-  let sunrise = getSunrise(date, latitude, longitude);
-
-  // If sunrise is null or after current time, get previous day's sunrise
-  if (!sunrise || sunrise > date) {
-    const yesterday = new Date(date);
-    yesterday.setDate(yesterday.getDate() - 1);
-    sunrise = getSunrise(yesterday, latitude, longitude);
-  }
+  // Sunrise at or before the current time (or its polar stand-in)
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
 
-  // If still no sunrise (polar regions), use midnight as reference
-  if (!sunrise) {
-    sunrise = new Date(date);
-    sunrise.setHours(0, 0, 0, 0);
+  if (mode === 'seasonal') {
+    return calculateSeasonalMuhurta(solarDay, date);
   }
 
+  const { sunrise } = solarDay;
+
   // Calculate minutes since sunrise
   const timeSinceSunrise = (date.getTime() - sunrise.getTime()) / (1000 * 60);
 
@@ -155,12 +270,17 @@ export function calculateMuhurta(
   // Get muhurta name
   const muhurtaData = MUHURTA_NAMES[muhurtaIndex];
 
+  const startsAt = new Date(date.getTime() - minutesIntoMuhurta * MS_PER_MINUTE);
+
   return {
     number: muhurtaNumber,
     name: muhurtaData.name,
     nameSanskrit: muhurtaData.sanskrit,
     progress,
     timeRemaining,
+    startsAt,
+    endsAt: new Date(startsAt.getTime() + MINUTES_PER_MUHURTA * MS_PER_MINUTE),
+    mode: 'equal',
   };
 }
 
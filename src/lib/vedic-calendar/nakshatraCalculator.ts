@@ -16,8 +16,18 @@
  * Vedic system uses 27 for calendar calculations.
  */
 
-import { getMoonLongitude } from './astronomicalCalculations';
-import { VEDIC_CONSTANTS, getNakshatraName } from './vedicTime';
+import { getMoonLongitude, searchAngleCrossing } from './astronomicalCalculations';
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA, getSiderealMoonLongitude } from './ayanamsa';
+import type { LimbBoundary } from './vedicTime';
+import { VEDIC_CONSTANTS, getNakshatraName, lookupLimbEnd } from './vedicTime';
+
+/**
+ * Search window for nakshatra transitions in hours
+ *
+ * Longer than the slowest possible nakshatra (about 27 hours at lunar apogee).
+ */
+const TRANSITION_SEARCH_HOURS = 36;
 
 /**
  * Result of nakshatra calculation
@@ -32,10 +42,13 @@ export interface NakshatraResult {
   /** Progress through the current nakshatra (0-100%) */
   progress: number;
 
-  /** Estimated minutes until the next nakshatra begins */
+  /** Minutes until the next nakshatra begins */
   minutesToNext: number;
 
-  /** The Moon's ecliptic longitude used for this calculation */
+  /** Exact instant the current nakshatra ends */
+  endsAt: Date;
+
+  /** The Moon's sidereal longitude used for this calculation */
   moonLongitude: number;
 
   /** The pada (quarter) of the nakshatra (1-4) */
@@ -143,11 +156,13 @@ export function estimateTimeToNextNakshatra(
   const degreesRemaining = VEDIC_CONSTANTS.DEGREES_PER_NAKSHATRA - currentProgress;
 
   // Calculate Moon's speed by checking position 1 hour later
+  // (speed is the same in either zodiac, so tropical positions suffice)
+  const currentMoonLon = getMoonLongitude(date, latitude, longitude);
   const oneHourLater = new Date(date.getTime() + 60 * 60 * 1000);
   const futureMoonLon = getMoonLongitude(oneHourLater, latitude, longitude);
 
   // Calculate rate (handle wrap-around at 360°)
-  let moonSpeed = futureMoonLon - moonLongitude;
+  let moonSpeed = futureMoonLon - currentMoonLon;
   if (moonSpeed < 0) {
     moonSpeed += 360;
   }
@@ -161,23 +176,69 @@ export function estimateTimeToNextNakshatra(
   return minutesToNext;
 }
 
+/**
+ * Find the exact instant the current nakshatra ends
+ *
+ * Searches forward for the moment the Moon's sidereal longitude reaches the
+ * next 13°20' boundary, rather than extrapolating its current speed.
+ *
+ * @param date - The date and time inside the nakshatra
+ * @param moonLongitude - Moon's sidereal longitude at that date in degrees
+ * @param latitude - Observer's latitude
+ * @param longitude - Observer's longitude
+ * @param ayanamsa - Ayanamsa used for the sidereal longitude (default: Lahiri)
+ * @returns The instant the next nakshatra begins
+ */
+export function findNakshatraEnd(
+  date: Date,
+  moonLongitude: number,
+  latitude: number = 0,
+  longitude: number = 0,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): Date {
+  const nakshatraIndex = Math.floor(moonLongitude / VEDIC_CONSTANTS.DEGREES_PER_NAKSHATRA);
+  const nextBoundary =
+    ((nakshatraIndex + 1) * VEDIC_CONSTANTS.DEGREES_PER_NAKSHATRA) % VEDIC_CONSTANTS.FULL_CIRCLE;
+
+  const endsAt = searchAngleCrossing(
+    (searchDate) => getSiderealMoonLongitude(searchDate, ayanamsa),
+    nextBoundary,
+    date,
+    TRANSITION_SEARCH_HOURS
+  );
+  if (endsAt) {
+    return endsAt;
+  }
+
+  // Fall back to the linear estimate if the search window was missed
+  const minutesToNext = estimateTimeToNextNakshatra(moonLongitude, date, latitude, longitude);
+  return new Date(date.getTime() + minutesToNext * 60 * 1000);
+}
+
 /**
  * Calculate complete nakshatra information for a given date and location
  *
  * This is the main function that combines all nakshatra calculations.
  *
+ * Nakshatras are sidereal divisions, so the Moon's tropical longitude is
+ * corrected by the ayanamsa before dividing it into 13°20' segments.
+ *
  * @param date - The date and time for the calculation
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Ayanamsa to apply (default: Lahiri)
+ * @param boundaries - Nakshatra ends already found for the day, to skip the search
  * @returns Complete nakshatra information
  */
 export function calculateNakshatra(
   date: Date,
   latitude: number = 0,
-  longitude: number = 0
+  longitude: number = 0,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  boundaries?: readonly LimbBoundary[]
 ): NakshatraResult {
-  // Get Moon's current longitude
-  const moonLongitude = getMoonLongitude(date, latitude, longitude);
+  // Get Moon's current sidereal longitude
+  const moonLongitude = getSiderealMoonLongitude(date, ayanamsa);
 
   // Calculate nakshatra number
   const nakshatraNumber = calculateNakshatraNumber(moonLongitude);
@@ -191,19 +252,18 @@ export function calculateNakshatra(
   // Calculate pada (quarter)
   const pada = calculateNakshatraPada(moonLongitude);
 
-  // Estimate time to next nakshatra
-  const minutesToNext = estimateTimeToNextNakshatra(
-    moonLongitude,
-    date,
-    latitude,
-    longitude
-  );
+  // Find the exact end of the current nakshatra
+  const endsAt =
+    lookupLimbEnd(boundaries, nakshatraNumber, date) ??
+    findNakshatraEnd(date, moonLongitude, latitude, longitude, ayanamsa);
+  const minutesToNext = (endsAt.getTime() - date.getTime()) / (1000 * 60);
 
   return {
     nakshatraNumber,
     nakshatraName,
     progress,
     minutesToNext,
+    endsAt,
     moonLongitude,
     pada,
   };
@@ -0,0 +1,318 @@
+/**
+ * Panchang Generator Module
+ *
+ * Builds a traditional day-by-day panchang for a date range. Each record
+ * covers one civil day and gives:
+ *
+ * - Sunrise, sunset, moonrise and moonset
+ * - The five limbs (tithi, nakshatra, yoga, karana, vara) prevailing at
+ *   sunrise, which is how the day is named in practice; where the Sun does
+ *   not rise, the polar policy's sunrise stands in, as it does for the clock
+ * - Every tithi, nakshatra, yoga and karana transition inside the day
+ * - Any eclipse (grahana) whose maximum falls inside the day
+ *
+ * Civil days run from local mean midnight to midnight at the observer's
+ * longitude, so the result does not depend on the browser's time zone.
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import type { VedicCalendarSettings } from './vedicTime';
+import { DEFAULT_AYANAMSA } from './ayanamsa';
+import type { TithiResult } from './tithiCalculator';
+import { calculateTithi } from './tithiCalculator';
+import type { NakshatraResult } from './nakshatraCalculator';
+import { calculateNakshatra } from './nakshatraCalculator';
+import type { YogaResult } from './yogaCalculator';
+import { calculateYoga } from './yogaCalculator';
+import type { KaranaResult } from './karanaCalculator';
+import { calculateKarana } from './karanaCalculator';
+import type { SunriseSource, VaraResult } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, calculateVara, getCivilSolarDay, getLocalMidnight } from './varaCalculator';
+import type { MasaResult } from './masaCalculator';
+import { calculateMasa } from './masaCalculator';
+import type { Grahana } from './grahanaCalculator';
+import { getGrahanasBetween } from './grahanaCalculator';
+
+/**
+ * Panchanga limbs that change during the day
+ */
+export type PanchangLimb = 'tithi' | 'nakshatra' | 'yoga' | 'karana';
+
+/**
+ * A single limb transition inside a day
+ */
+export interface PanchangTransition {
+  /** Which limb changes */
+  limb: PanchangLimb;
+
+  /** Instant the new value begins */
+  at: Date;
+
+  /** Number of the value that begins (tithi 1-30, nakshatra 1-27, yoga 1-27, karana 1-60) */
+  number: number;
+
+  /** Name of the value that begins */
+  name: string;
+}
+
+/**
+ * Panchang record for one civil day
+ */
+export interface PanchangDay {
+  /** Local mean midnight that begins the day */
+  dayStart: Date;
+
+  /** Local mean midnight that ends the day */
+  dayEnd: Date;
+
+  /** Sunrise, or null if the Sun does not rise this day */
+  sunrise: Date | null;
+
+  /** Sunset, or null if the Sun does not set this day */
+  sunset: Date | null;
+
+  /** Moonrise, or null if the Moon does not rise this day */
+  moonrise: Date | null;
+
+  /** Moonset, or null if the Moon does not set this day */
+  moonset: Date | null;
+
+  /** Sunrise the limbs are read at: the real sunrise, or the polar policy's */
+  namingSunrise: Date;
+
+  /** 'astronomical' for the real sunrise, otherwise the polar policy that stood in */
+  namingSunriseSource: SunriseSource;
+
+  /** Tithi at sunrise */
+  tithi: TithiResult;
+
+  /** Nakshatra at sunrise */
+  nakshatra: NakshatraResult;
+
+  /** Yoga at sunrise */
+  yoga: YogaResult;
+
+  /** Karana at sunrise */
+  karana: KaranaResult;
+
+  /** Vara beginning at this day's sunrise */
+  vara: VaraResult;
+
+  /** Masa (lunar month) at sunrise */
+  masa: MasaResult;
+
+  /** All limb transitions within the day, in time order */
+  transitions: PanchangTransition[];
+
+  /** Eclipses whose maximum falls within the day */
+  grahanas: Grahana[];
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Offset after sunrise at which the vara is read, so the backward sunrise
+ * search cannot land on the previous day's sunrise
+ */
+const VARA_PROBE_MS = 60 * 1000;
+
+/**
+ * Find a rise or set of a body within a day
+ *
+ * @param body - Sun or Moon
+ * @param observer - Observer location
+ * @param direction - +1 for rise, -1 for set
+ * @param dayStart - Start of the day
+ * @param dayEnd - End of the day
+ * @returns The event time, or null if it does not happen within the day
+ */
+function findRiseSetInDay(
+  body: Astronomy.Body,
+  observer: Astronomy.Observer,
+  direction: number,
+  dayStart: Date,
+  dayEnd: Date
+): Date | null {
+  const event = Astronomy.SearchRiseSet(body, observer, direction, dayStart, 1);
+  return event && event.date < dayEnd ? event.date : null;
+}
+
+/**
+ * Collect the transitions of one limb between two instants
+ *
+ * Walks forward from the limb value at `from`, jumping to each end time
+ * until the end of the range is passed.
+ *
+ * @param limb - Which limb is being followed
+ * @param calculate - Computes the limb value (number, name, end time) at an instant
+ * @param from - Start of the range
+ * @param to - End of the range
+ * @returns The transitions inside the range
+ */
+function collectTransitions(
+  limb: PanchangLimb,
+  calculate: (date: Date) => { number: number; name: string; endsAt: Date },
+  from: Date,
+  to: Date
+): PanchangTransition[] {
+  const transitions: PanchangTransition[] = [];
+  let current = calculate(from);
+
+  while (current.endsAt < to) {
+    const next = calculate(current.endsAt);
+    transitions.push({ limb, at: current.endsAt, number: next.number, name: next.name });
+
+    // Guard against a stalled search returning the same boundary
+    if (next.endsAt <= current.endsAt) {
+      break;
+    }
+    current = next;
+  }
+
+  return transitions;
+}
+
+/**
+ * Build the panchang record for the civil day starting at a local midnight
+ *
+ * @param dayStart - Local mean midnight that begins the day
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param settings - Calendar conventions (ayanamsa, masa system, polar policy)
+ * @returns The panchang record for the day
+ */
+export function getPanchangDay(
+  dayStart: Date,
+  latitude: number,
+  longitude: number,
+  settings: VedicCalendarSettings = {}
+): PanchangDay {
+  const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+  const grahanas = getGrahanasBetween(dayStart, dayEnd, latitude, longitude);
+  return buildPanchangDay(dayStart, latitude, longitude, settings, grahanas);
+}
+
+/**
+ * Build a panchang record from eclipses already found for the day
+ */
+function buildPanchangDay(
+  dayStart: Date,
+  latitude: number,
+  longitude: number,
+  settings: VedicCalendarSettings,
+  grahanas: Grahana[]
+): PanchangDay {
+  const { ayanamsa = DEFAULT_AYANAMSA, masaSystem = 'amanta', polarPolicy = DEFAULT_POLAR_POLICY } = settings;
+  const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+
+  const sunrise = findRiseSetInDay(Astronomy.Body.Sun, observer, +1, dayStart, dayEnd);
+  const sunset = findRiseSetInDay(Astronomy.Body.Sun, observer, -1, dayStart, dayEnd);
+  const moonrise = findRiseSetInDay(Astronomy.Body.Moon, observer, +1, dayStart, dayEnd);
+  const moonset = findRiseSetInDay(Astronomy.Body.Moon, observer, -1, dayStart, dayEnd);
+
+  // The day is named by the limbs prevailing at sunrise
+  const { sunrise: anchor, source } = getCivilSolarDay(dayStart, latitude, longitude, polarPolicy);
+
+  const transitions = [
+    ...collectTransitions(
+      'tithi',
+      (date) => {
+        const tithi = calculateTithi(date, latitude, longitude);
+        return { number: tithi.tithiNumber, name: tithi.tithiName, endsAt: tithi.endsAt };
+      },
+      dayStart,
+      dayEnd
+    ),
+    ...collectTransitions(
+      'nakshatra',
+      (date) => {
+        const nakshatra = calculateNakshatra(date, latitude, longitude, ayanamsa);
+        return { number: nakshatra.nakshatraNumber, name: nakshatra.nakshatraName, endsAt: nakshatra.endsAt };
+      },
+      dayStart,
+      dayEnd
+    ),
+    ...collectTransitions(
+      'yoga',
+      (date) => {
+        const yoga = calculateYoga(date, ayanamsa);
+        return { number: yoga.yogaNumber, name: yoga.yogaName, endsAt: yoga.endsAt };
+      },
+      dayStart,
+      dayEnd
+    ),
+    ...collectTransitions(
+      'karana',
+      (date) => {
+        const karana = calculateKarana(date, latitude, longitude);
+        return { number: karana.karanaNumber, name: karana.karanaName, endsAt: karana.endsAt };
+      },
+      dayStart,
+      dayEnd
+    ),
+  ].sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  return {
+    dayStart,
+    dayEnd,
+    sunrise,
+    sunset,
+    moonrise,
+    moonset,
+    namingSunrise: anchor,
+    namingSunriseSource: source,
+    tithi: calculateTithi(anchor, latitude, longitude),
+    nakshatra: calculateNakshatra(anchor, latitude, longitude, ayanamsa),
+    yoga: calculateYoga(anchor, ayanamsa),
+    karana: calculateKarana(anchor, latitude, longitude),
+    vara: calculateVara(new Date(anchor.getTime() + VARA_PROBE_MS), latitude, longitude, polarPolicy),
+    masa: calculateMasa(anchor, ayanamsa, masaSystem),
+    transitions,
+    grahanas,
+  };
+}
+
+/**
+ * Generate a daily panchang for a date range
+ *
+ * Returns one record per civil day, from the day containing `startDate`
+ * through the day containing `endDate` (inclusive). Each record costs a few
+ * ephemeris searches, so ranges of a few months are comfortable; a full year
+ * takes noticeably longer.
+ *
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param startDate - Any instant in the first day
+ * @param endDate - Any instant in the last day
+ * @param settings - Calendar conventions (ayanamsa, masa system, polar policy)
+ * @returns Panchang records, one per day, in order
+ *
+ * @example
+ * // Panchang for the first week of 2025 in Varanasi
+ * const days = generatePanchang(25.3176, 82.9739, new Date('2025-01-01'), new Date('2025-01-07'));
+ * days[0].tithi.tithiName; // tithi prevailing at sunrise on 1 January
+ */
+export function generatePanchang(
+  latitude: number,
+  longitude: number,
+  startDate: Date,
+  endDate: Date,
+  settings: VedicCalendarSettings = {}
+): PanchangDay[] {
+  const days: PanchangDay[] = [];
+  let dayStart = getLocalMidnight(startDate, longitude);
+
+  // One eclipse search for the whole range, shared out to the days
+  const rangeEnd = new Date(getLocalMidnight(endDate, longitude).getTime() + MS_PER_DAY);
+  const grahanas = getGrahanasBetween(dayStart, rangeEnd, latitude, longitude);
+
+  while (dayStart <= endDate) {
+    const dayEnd = new Date(dayStart.getTime() + MS_PER_DAY);
+    const dayGrahanas = grahanas.filter((grahana) => grahana.peak >= dayStart && grahana.peak < dayEnd);
+    days.push(buildPanchangDay(dayStart, latitude, longitude, settings, dayGrahanas));
+    dayStart = dayEnd;
+  }
+
+  return days;
+}
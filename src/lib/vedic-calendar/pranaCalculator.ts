@@ -9,9 +9,16 @@
  * - 1 prana = 4 seconds (one complete breath cycle)
  * - 21,600 pranas = 86,400 seconds = 24 hours
  * - Pranas are counted from sunrise to sunrise
+ *
+ * With seasonal muhurtas, the 10,800 day pranas split sunrise-to-sunset and the
+ * 10,800 night pranas split sunset-to-next-sunrise, so a prana stretches or
+ * shrinks with its muhurta (720 pranas per muhurta either way).
  */
 
-import { getSunrise } from './muhurtaCalculator';
+import type { MuhurtaMode } from './muhurtaCalculator';
+import { getDayAngle } from './muhurtaCalculator';
+import type { PolarPolicy } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getSolarDay } from './varaCalculator';
 
 /**
  * Prana information structure
@@ -47,27 +54,32 @@ export const PRANA_CONSTANTS = {
  * @param date - The current date and time
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
+ * @param mode - 'equal' for 4-second pranas, 'seasonal' to follow seasonal muhurtas (default: 'equal')
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
  * @returns PranaInfo object with current prana details
  */
 export function calculatePrana(
   date: Date,
   latitude: number,
-  longitude: number
+  longitude: number,
+  mode: MuhurtaMode = 'equal',
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
 ): PranaInfo {
-  // Get sunrise for today
-  let sunrise = getSunrise(date, latitude, longitude);
-
-  // If sunrise is null or after current time, get previous day's sunrise
-  if (!sunrise || sunrise > date) {
-    const yesterday = new Date(date);
-    yesterday.setDate(yesterday.getDate() - 1);
-    sunrise = getSunrise(yesterday, latitude, longitude);
-  }
-
-  // If still no sunrise (polar regions), use midnight as reference
-  if (!sunrise) {
-    sunrise = new Date(date);
-    sunrise.setHours(0, 0, 0, 0);
+  // Sunrise at or before the current time (or its polar stand-in)
+  const solarDay = getSolarDay(date, latitude, longitude, polarPolicy);
+  const { sunrise } = solarDay;
+
+  if (mode === 'seasonal') {
+    const position = (getDayAngle(date, solarDay, 'seasonal') / 360) * PRANA_CONSTANTS.PRANAS_PER_DAY;
+    const pranaNumber = Math.min(Math.floor(position), PRANA_CONSTANTS.PRANAS_PER_DAY - 1);
+
+    return {
+      number: pranaNumber,
+      angle: (pranaNumber / PRANA_CONSTANTS.PRANAS_PER_DAY) * 360,
+      progress: (position - pranaNumber) * 100,
+      secondsSinceSunrise: (date.getTime() - sunrise.getTime()) / 1000,
+      sunrise,
+    };
   }
 
   // Calculate seconds elapsed since sunrise
@@ -0,0 +1,263 @@
+/**
+ * Samvat Calculator Module
+ *
+ * Indian eras count years from the lunar new year rather than 1 January:
+ *
+ * - Vikram Samvat: 57 years ahead of the common era. North India starts the
+ *   year at Chaitra Shukla Pratipada (chaitradi); Gujarat and parts of the
+ *   west start it at Kartika Shukla Pratipada, the day after Diwali (kartikadi)
+ * - Shaka Samvat: 78 years behind the common era, always from Chaitra
+ * - Kali Yuga: 3101 years ahead of the common era, from Chaitra. The
+ *   ahargana is the count of days elapsed since the Kali epoch, midnight at
+ *   the start of 18 February 3102 BCE (Julian)
+ *
+ * The samvatsara is the named year of the 60-year cycle. Its Jovian form
+ * follows Jupiter: a new samvatsara begins each time Jupiter enters a new
+ * sidereal rashi, and the cycle stood at Vijaya when the Kali Yuga began.
+ * South India instead names each Shaka year in turn.
+ */
+
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA, toSidereal } from './ayanamsa';
+import { getGrahaTropicalLongitude } from './grahaCalculator';
+import type { LunarMonth } from './masaCalculator';
+import { findPreviousNewMoon, getLunarMonth } from './masaCalculator';
+import type { PolarPolicy } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalMidnight, getSolarDay } from './varaCalculator';
+import { VEDIC_CONSTANTS, getSamvatsaraName } from './vedicTime';
+
+/**
+ * Lunar month that begins the Vikram Samvat year
+ */
+export type SamvatYearStart = 'chaitradi' | 'kartikadi';
+
+/**
+ * Result of samvat calculation
+ */
+export interface SamvatResult {
+  /** Lunar new year used for Vikram Samvat */
+  yearStart: SamvatYearStart;
+
+  /** Vikram Samvat year */
+  vikramSamvat: number;
+
+  /** Shaka Samvat year */
+  shakaSamvat: number;
+
+  /** Kali Yuga year */
+  kaliYuga: number;
+
+  /** Days elapsed since the start of the Kali Yuga (ahargana) */
+  kaliAhargana: number;
+
+  /** Jovian samvatsara number (1-60, 1 = Prabhava) */
+  samvatsara: number;
+
+  /** Name of the Jovian samvatsara */
+  samvatsaraName: string;
+
+  /** Samvatsara of the Shaka year (1-60), as named in South India */
+  shakaSamvatsara: number;
+
+  /** Name of the Shaka year's samvatsara */
+  shakaSamvatsaraName: string;
+
+  /** Amavasya that began the current Vikram Samvat year */
+  yearStartsAt: Date;
+
+  /** Amavasya that begins the next Vikram Samvat year */
+  nextYearStartsAt: Date;
+}
+
+/**
+ * Default lunar new year
+ */
+export const DEFAULT_SAMVAT_YEAR_START: SamvatYearStart = 'chaitradi';
+
+/**
+ * Masa number that opens the year under each convention
+ */
+const YEAR_START_MASA: Record<SamvatYearStart, number> = {
+  chaitradi: 1,
+  kartikadi: 8,
+};
+
+/**
+ * Years from the common era to each era, counted from the Chaitra (or
+ * Kartika) falling in the given Gregorian year
+ */
+const VIKRAM_SAMVAT_OFFSET = 57;
+const SHAKA_SAMVAT_OFFSET = -78;
+const KALI_YUGA_OFFSET = 3101;
+
+/**
+ * Julian day of the Kali epoch and of the Unix epoch
+ */
+const KALI_EPOCH_JD = 588465.5;
+const UNIX_EPOCH_JD = 2440587.5;
+
+/**
+ * Mean sidereal period of Jupiter in days (Surya Siddhanta)
+ */
+const JUPITER_SIDEREAL_PERIOD_DAYS = 4332.3207;
+
+/**
+ * Samvatsara index (0-based) current at the Kali epoch: Vijaya
+ */
+const KALI_EPOCH_SAMVATSARA = 26;
+
+/**
+ * Offset from the Shaka year to its samvatsara index (Shaka 1946 = Krodhi)
+ */
+const SHAKA_SAMVATSARA_OFFSET = 11;
+
+/**
+ * Longest span of lunations searched back for the new year (one leap year)
+ */
+const MAX_LUNATIONS_PER_YEAR = 13;
+
+/**
+ * Days after one new year by which the next has surely begun
+ */
+const NEXT_YEAR_SEARCH_DAYS = 390;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Amanta lunation before the one that begins at a new moon
+ */
+function getPreviousLunarMonth(month: LunarMonth, ayanamsa: AyanamsaSettings): LunarMonth {
+  return getLunarMonth(findPreviousNewMoon(new Date(month.startsAt.getTime() - MS_PER_DAY)), ayanamsa);
+}
+
+/**
+ * Find the lunation that opened the lunar year containing a date
+ *
+ * When the opening masa is adhika the year begins with the adhika month.
+ * A kshaya month that absorbs the opening masa also opens the year.
+ *
+ * @param date - Any instant within the year
+ * @param yearStart - Which masa begins the year
+ * @param ayanamsa - Ayanamsa for the Sun's sidereal longitude (default: Lahiri)
+ * @returns The first lunation of the year
+ */
+export function findLunarYearStart(
+  date: Date,
+  yearStart: SamvatYearStart,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): LunarMonth {
+  const masa = YEAR_START_MASA[yearStart];
+  const opensYear = (month: LunarMonth) => month.masaNumber === masa || month.skippedMasa === masa;
+
+  let month = getLunarMonth(findPreviousNewMoon(date), ayanamsa);
+  for (let step = 0; step < MAX_LUNATIONS_PER_YEAR && !opensYear(month); step++) {
+    month = getPreviousLunarMonth(month, ayanamsa);
+  }
+
+  // An adhika month of the same name comes first
+  const previous = getPreviousLunarMonth(month, ayanamsa);
+  return opensYear(previous) ? previous : month;
+}
+
+/**
+ * Count the days elapsed since the Kali epoch
+ *
+ * @param date - Local midnight beginning the day
+ * @param longitude - Observer's longitude in degrees
+ * @returns The ahargana of the day
+ */
+export function getKaliAhargana(date: Date, longitude: number): number {
+  const localTime = date.getTime() + (longitude / 15) * 60 * 60 * 1000;
+  return Math.round(localTime / MS_PER_DAY + UNIX_EPOCH_JD - KALI_EPOCH_JD);
+}
+
+/**
+ * Get the Jovian samvatsara for a date
+ *
+ * Jupiter's sidereal rashi fixes the year within its 12-year circuit; its
+ * mean motion since the Kali epoch picks which of the five circuits.
+ *
+ * @param date - The date and time for the calculation
+ * @param kaliAhargana - Days elapsed since the Kali epoch
+ * @param ayanamsa - Ayanamsa for Jupiter's sidereal longitude (default: Lahiri)
+ * @returns Samvatsara number (1-60)
+ */
+export function getJovianSamvatsara(
+  date: Date,
+  kaliAhargana: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  const { RASHI_COUNT, DEGREES_PER_RASHI, SAMVATSARA_COUNT } = VEDIC_CONSTANTS;
+
+  const meanCount = Math.floor(
+    KALI_EPOCH_SAMVATSARA + (kaliAhargana * RASHI_COUNT) / JUPITER_SIDEREAL_PERIOD_DAYS
+  );
+  const jupiter = toSidereal(getGrahaTropicalLongitude('jupiter', date), date, ayanamsa);
+  const rashi = Math.floor(jupiter / DEGREES_PER_RASHI);
+
+  // Nearest count to the mean that agrees with Jupiter's actual rashi
+  let shift = (((rashi + KALI_EPOCH_SAMVATSARA - meanCount) % RASHI_COUNT) + RASHI_COUNT) % RASHI_COUNT;
+  if (shift > RASHI_COUNT / 2) {
+    shift -= RASHI_COUNT;
+  }
+  return ((meanCount + shift) % SAMVATSARA_COUNT) + 1;
+}
+
+/**
+ * Calculate the era years and samvatsara for a given date and location
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Ayanamsa for the lunar months and Jupiter (default: Lahiri)
+ * @param yearStart - Lunar new year for Vikram Samvat (default: Chaitra)
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Vikram, Shaka and Kali years, ahargana and samvatsara
+ *
+ * @example
+ * // Chaitra Shukla Pratipada 2024 opened Vikram Samvat 2081
+ * const samvat = calculateSamvat(new Date('2024-04-10T12:00:00+05:30'), 28.61, 77.21);
+ * // samvat.vikramSamvat === 2081, samvat.shakaSamvat === 1946, samvat.kaliYuga === 5125
+ */
+export function calculateSamvat(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  yearStart: SamvatYearStart = DEFAULT_SAMVAT_YEAR_START,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): SamvatResult {
+  // Shaka and Kali years always begin at Chaitra
+  const chaitraStart = findLunarYearStart(date, 'chaitradi', ayanamsa);
+  const chaitraYear = chaitraStart.startsAt.getUTCFullYear();
+  const vikramStart =
+    yearStart === 'chaitradi' ? chaitraStart : findLunarYearStart(date, yearStart, ayanamsa);
+  const nextVikramStart = findLunarYearStart(
+    new Date(vikramStart.startsAt.getTime() + NEXT_YEAR_SEARCH_DAYS * MS_PER_DAY),
+    yearStart,
+    ayanamsa
+  );
+
+  const shakaSamvat = chaitraYear + SHAKA_SAMVAT_OFFSET;
+  const shakaSamvatsara =
+    ((shakaSamvat + SHAKA_SAMVATSARA_OFFSET) % VEDIC_CONSTANTS.SAMVATSARA_COUNT) + 1;
+
+  // Count whole days from the civil date of the current sunrise
+  const today = getLocalMidnight(getSolarDay(date, latitude, longitude, polarPolicy).sunrise, longitude);
+  const kaliAhargana = getKaliAhargana(today, longitude);
+  const samvatsara = getJovianSamvatsara(date, kaliAhargana, ayanamsa);
+
+  return {
+    yearStart,
+    vikramSamvat: vikramStart.startsAt.getUTCFullYear() + VIKRAM_SAMVAT_OFFSET,
+    shakaSamvat,
+    kaliYuga: chaitraYear + KALI_YUGA_OFFSET,
+    kaliAhargana,
+    samvatsara,
+    samvatsaraName: getSamvatsaraName(samvatsara),
+    shakaSamvatsara,
+    shakaSamvatsaraName: getSamvatsaraName(shakaSamvatsara),
+    yearStartsAt: vikramStart.startsAt,
+    nextYearStartsAt: nextVikramStart.startsAt,
+  };
+}
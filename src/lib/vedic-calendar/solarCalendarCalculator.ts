@@ -0,0 +1,314 @@
+/**
+ * Solar Calendar Calculator Module
+ *
+ * The solar calendars of Tamil Nadu, Kerala, Bengal and Odisha count months
+ * from sankranti to sankranti: a month begins when the Sun enters a sidereal
+ * rashi and lasts 29 to 32 days depending on the Sun's speed.
+ *
+ * The sankranti is an instant, but a month must begin on a whole day, and each
+ * region settles this with its own cut-off:
+ * - Tamil: sankranti before sunset starts the month that day, else the next
+ * - Malayalam: sankranti before the end of madhyahna (3/5 of the daytime)
+ *   starts the month that day, else the next
+ * - Bengali: sankranti between sunrise and midnight starts the month the next
+ *   day; after midnight, the day after that
+ * - Odia: the month starts on the civil day of the sankranti
+ *
+ * The module also gives the ritu (one of six two-month seasons) and the ayana
+ * (northward or southward half-year), both from the Sun's tropical longitude.
+ */
+
+import { getSunLongitude, normalizeAngle } from './astronomicalCalculations';
+import type { AyanamsaSettings } from './ayanamsa';
+import { DEFAULT_AYANAMSA } from './ayanamsa';
+import type { Sankranti } from './masaCalculator';
+import { findNextSankranti, findPreviousSankranti } from './masaCalculator';
+import type { PolarPolicy } from './varaCalculator';
+import { DEFAULT_POLAR_POLICY, getLocalMidnight, getSolarDay } from './varaCalculator';
+import { AYANA_NAMES, getRashiName, getRituName } from './vedicTime';
+
+/**
+ * Regional rule for the first day of a solar month
+ */
+export type SolarCalendarRule = 'tamil' | 'malayalam' | 'bengali' | 'odia';
+
+/**
+ * Half of the year by the Sun's course
+ */
+export type Ayana = 'uttarayana' | 'dakshinayana';
+
+/**
+ * Result of solar calendar calculation
+ */
+export interface SolarCalendarResult {
+  /** Regional rule used for month boundaries */
+  rule: SolarCalendarRule;
+
+  /** Solar month number (1-12, 1 = the month beginning at Mesha sankranti) */
+  month: number;
+
+  /** Regional name of the solar month */
+  monthName: string;
+
+  /** Rashi the Sun entered to begin the month */
+  rashiName: string;
+
+  /** Day of the solar month (1-32) */
+  day: number;
+
+  /** Local midnight beginning the month's first day */
+  monthStartsAt: Date;
+
+  /** Local midnight beginning the next month's first day */
+  nextMonthStartsAt: Date;
+
+  /** Sankranti that began the month */
+  sankranti: Sankranti;
+
+  /** Sankranti that begins the next month (already past when the cut-off delays the month) */
+  nextSankranti: Sankranti;
+
+  /** Ritu (season) number (1-6, 1 = Vasanta) */
+  ritu: number;
+
+  /** Name of the ritu */
+  rituName: string;
+
+  /** Current ayana */
+  ayana: Ayana;
+
+  /** Name of the ayana */
+  ayanaName: string;
+}
+
+/**
+ * Default regional rule
+ */
+export const DEFAULT_SOLAR_CALENDAR_RULE: SolarCalendarRule = 'tamil';
+
+/**
+ * Solar month names for each region, starting from the Mesha month
+ */
+export const SOLAR_MONTH_NAMES: Readonly<Record<SolarCalendarRule, readonly string[]>> = {
+  tamil: [
+    'Chithirai (சித்திரை)',
+    'Vaikasi (வைகாசி)',
+    'Aani (ஆனி)',
+    'Aadi (ஆடி)',
+    'Aavani (ஆவணி)',
+    'Purattasi (புரட்டாசி)',
+    'Aippasi (ஐப்பசி)',
+    'Karthigai (கார்த்திகை)',
+    'Margazhi (மார்கழி)',
+    'Thai (தை)',
+    'Maasi (மாசி)',
+    'Panguni (பங்குனி)',
+  ],
+  malayalam: [
+    'Medam (മേടം)',
+    'Edavam (ഇടവം)',
+    'Midhunam (മിഥുനം)',
+    'Karkidakam (കർക്കടകം)',
+    'Chingam (ചിങ്ങം)',
+    'Kanni (കന്നി)',
+    'Thulam (തുലാം)',
+    'Vrischikam (വൃശ്ചികം)',
+    'Dhanu (ധനു)',
+    'Makaram (മകരം)',
+    'Kumbham (കുംഭം)',
+    'Meenam (മീനം)',
+  ],
+  bengali: [
+    'Boishakh (বৈশাখ)',
+    'Joishtho (জ্যৈষ্ঠ)',
+    'Asharh (আষাঢ়)',
+    'Srabon (শ্রাবণ)',
+    'Bhadro (ভাদ্র)',
+    'Ashshin (আশ্বিন)',
+    'Kartik (কার্তিক)',
+    'Ogrohayon (অগ্রহায়ণ)',
+    'Poush (পৌষ)',
+    'Magh (মাঘ)',
+    'Falgun (ফাল্গুন)',
+    'Choitro (চৈত্র)',
+  ],
+  odia: [
+    'Baisakha (ବୈଶାଖ)',
+    'Jyeshtha (ଜ୍ୟେଷ୍ଠ)',
+    'Ashadha (ଆଷାଢ଼)',
+    'Shrabana (ଶ୍ରାବଣ)',
+    'Bhadraba (ଭାଦ୍ରବ)',
+    'Ashwina (ଆଶ୍ୱିନ)',
+    'Kartika (କାର୍ତ୍ତିକ)',
+    'Margashira (ମାର୍ଗଶିର)',
+    'Pausha (ପୌଷ)',
+    'Magha (ମାଘ)',
+    'Phalguna (ଫାଲ୍ଗୁନ)',
+    'Chaitra (ଚୈତ୍ର)',
+  ],
+};
+
+/**
+ * Fraction of the daytime that ends madhyahna (Malayalam cut-off)
+ */
+const MADHYAHNA_END_FRACTION = 3 / 5;
+
+/**
+ * Tropical longitude at which Vasanta ritu begins
+ */
+const VASANTA_START_LONGITUDE = 330;
+
+/**
+ * Degrees of solar longitude in each ritu
+ */
+const DEGREES_PER_RITU = 60;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Local midnight a whole number of days after another
+ */
+function addDays(midnight: Date, days: number): Date {
+  return new Date(midnight.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Get the first day of the solar month begun by a sankranti
+ *
+ * @param sankranti - The sankranti beginning the month
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param rule - Regional cut-off rule (default: Tamil)
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Local midnight beginning the month's first day
+ */
+export function getSolarMonthStart(
+  sankranti: Sankranti,
+  latitude: number,
+  longitude: number,
+  rule: SolarCalendarRule = DEFAULT_SOLAR_CALENDAR_RULE,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): Date {
+  if (rule === 'odia') {
+    return getLocalMidnight(sankranti.at, longitude);
+  }
+
+  // The sunrise-to-sunrise day in which the sankranti falls, and its civil date
+  const solarDay = getSolarDay(sankranti.at, latitude, longitude, polarPolicy);
+  const sunriseDate = getLocalMidnight(solarDay.sunrise, longitude);
+  const at = sankranti.at.getTime();
+
+  switch (rule) {
+    case 'tamil':
+      return addDays(sunriseDate, at < solarDay.sunset.getTime() ? 0 : 1);
+    case 'malayalam': {
+      const daytime = solarDay.sunset.getTime() - solarDay.sunrise.getTime();
+      const madhyahnaEnd = solarDay.sunrise.getTime() + daytime * MADHYAHNA_END_FRACTION;
+      return addDays(sunriseDate, at < madhyahnaEnd ? 0 : 1);
+    }
+    case 'bengali':
+      return addDays(sunriseDate, at < addDays(sunriseDate, 1).getTime() ? 1 : 2);
+  }
+}
+
+/**
+ * Get the ritu (season) for a tropical solar longitude
+ *
+ * @param sunLongitude - Sun's tropical longitude in degrees
+ * @returns Ritu number (1-6, 1 = Vasanta)
+ */
+export function getRitu(sunLongitude: number): number {
+  return Math.floor(normalizeAngle(sunLongitude - VASANTA_START_LONGITUDE) / DEGREES_PER_RITU) + 1;
+}
+
+/**
+ * Get the ayana for a tropical solar longitude
+ *
+ * @param sunLongitude - Sun's tropical longitude in degrees
+ * @returns Uttarayana from the winter to the summer solstice, else Dakshinayana
+ */
+export function getAyana(sunLongitude: number): Ayana {
+  const longitude = normalizeAngle(sunLongitude);
+  return longitude >= 270 || longitude < 90 ? 'uttarayana' : 'dakshinayana';
+}
+
+/**
+ * Get the ritu and ayana for a tropical solar longitude
+ *
+ * @param sunLongitude - Sun's tropical longitude in degrees
+ * @returns Ritu and ayana with their names
+ */
+export function getSeason(
+  sunLongitude: number
+): Pick<SolarCalendarResult, 'ritu' | 'rituName' | 'ayana' | 'ayanaName'> {
+  const ritu = getRitu(sunLongitude);
+  const ayana = getAyana(sunLongitude);
+  return {
+    ritu,
+    rituName: getRituName(ritu),
+    ayana,
+    ayanaName: AYANA_NAMES[ayana === 'uttarayana' ? 0 : 1],
+  };
+}
+
+/**
+ * Calculate the solar calendar date for a given date and location
+ *
+ * Days are counted by the civil date of the current sunrise, so the solar
+ * date changes at sunrise together with the vara.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param ayanamsa - Ayanamsa for the sankrantis (default: Lahiri)
+ * @param rule - Regional cut-off rule (default: Tamil)
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Solar month and day, ritu and ayana
+ *
+ * @example
+ * // Makara sankranti falls at about 02:40 IST on 15 January 2024, before sunrise
+ * const solar = calculateSolarCalendar(new Date('2024-01-15T09:00:00+05:30'), 13.08, 80.27);
+ * // solar.monthName === 'Thai (தை)', solar.day === 1
+ */
+export function calculateSolarCalendar(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  rule: SolarCalendarRule = DEFAULT_SOLAR_CALENDAR_RULE,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): SolarCalendarResult {
+  const today = getLocalMidnight(getSolarDay(date, latitude, longitude, polarPolicy).sunrise, longitude);
+
+  let sankranti = findPreviousSankranti(date, ayanamsa);
+  let nextSankranti = findNextSankranti(date, ayanamsa);
+  let monthStartsAt = getSolarMonthStart(sankranti, latitude, longitude, rule, polarPolicy);
+  let nextMonthStartsAt = getSolarMonthStart(nextSankranti, latitude, longitude, rule, polarPolicy);
+
+  if (monthStartsAt > today) {
+    // A sankranti after the cut-off has not begun its month yet
+    nextSankranti = sankranti;
+    nextMonthStartsAt = monthStartsAt;
+    sankranti = findPreviousSankranti(new Date(sankranti.at.getTime() - MS_PER_DAY), ayanamsa);
+    monthStartsAt = getSolarMonthStart(sankranti, latitude, longitude, rule, polarPolicy);
+  } else if (nextMonthStartsAt <= today) {
+    // Under the Odia rule the month begins on the sankranti's day, before the instant itself
+    sankranti = nextSankranti;
+    monthStartsAt = nextMonthStartsAt;
+    nextSankranti = findNextSankranti(new Date(sankranti.at.getTime() + MS_PER_DAY), ayanamsa);
+    nextMonthStartsAt = getSolarMonthStart(nextSankranti, latitude, longitude, rule, polarPolicy);
+  }
+
+  return {
+    rule,
+    month: sankranti.rashi + 1,
+    monthName: SOLAR_MONTH_NAMES[rule][sankranti.rashi],
+    rashiName: getRashiName(sankranti.rashi + 1),
+    day: Math.round((today.getTime() - monthStartsAt.getTime()) / MS_PER_DAY) + 1,
+    monthStartsAt,
+    nextMonthStartsAt,
+    sankranti,
+    nextSankranti,
+    ...getSeason(getSunLongitude(date)),
+  };
+}
@@ -12,9 +12,13 @@
  * - 30 tithis form a lunar month (approximately 29.5 days)
  */
 
-import { getElongation, getElongationRate } from './astronomicalCalculations';
-import type { Paksha } from './vedicTime';
-import { VEDIC_CONSTANTS, getTithiName } from './vedicTime';
+import {
+  getElongation,
+  getElongationRate,
+  searchElongation,
+} from './astronomicalCalculations';
+import type { LimbBoundary, Paksha } from './vedicTime';
+import { VEDIC_CONSTANTS, getTithiName, lookupLimbEnd } from './vedicTime';
 
 /**
  * Result of tithi calculation
@@ -32,9 +36,12 @@ export interface TithiResult {
   /** Progress through the current tithi (0-100%) */
   progress: number;
 
-  /** Estimated minutes until the next tithi begins */
+  /** Minutes until the next tithi begins */
   minutesToNext: number;
 
+  /** Exact instant the current tithi ends */
+  endsAt: Date;
+
   /** The elongation value used for this calculation */
   elongation: number;
 }
@@ -110,7 +117,7 @@ export function calculateTithiProgress(elongation: number): number {
  * 1. The Moon's orbital speed varies (faster at perigee, slower at apogee)
  * 2. We're using a linear approximation of a non-linear process
  *
- * For more accuracy, you would need to use iterative methods or ephemeris tables.
+ * For exact end times use findTithiEnd, which searches the ephemeris directly.
  *
  * @param elongation - Current elongation in degrees
  * @param elongationRate - Rate of change in degrees per hour
@@ -133,6 +140,62 @@ export function estimateTimeToNextTithi(
   return minutesToNext;
 }
 
+/**
+ * Find the exact instant the current tithi ends
+ *
+ * Searches forward from the given date for the moment the elongation reaches
+ * the next 12° boundary. Unlike estimateTimeToNextTithi, this accounts for
+ * the Moon's varying speed, which can shift the linear estimate by over an hour.
+ *
+ * @param date - The date and time inside the tithi
+ * @param elongation - Elongation at that date in degrees
+ * @returns The instant the next tithi begins
+ */
+export function findTithiEnd(date: Date, elongation: number): Date {
+  const tithiIndex = Math.floor(elongation / VEDIC_CONSTANTS.DEGREES_PER_TITHI);
+  const nextBoundary =
+    ((tithiIndex + 1) * VEDIC_CONSTANTS.DEGREES_PER_TITHI) % VEDIC_CONSTANTS.FULL_CIRCLE;
+
+  const endsAt = searchElongation(nextBoundary, date);
+  if (endsAt) {
+    return endsAt;
+  }
+
+  // Fall back to the linear estimate if the search window was missed
+  const minutesToNext = estimateTimeToNextTithi(elongation, getElongationRate(date));
+  return new Date(date.getTime() + minutesToNext * 60 * 1000);
+}
+
+/**
+ * Find the exact instant the current tithi began
+ *
+ * Searches forward from 30 hours earlier, longer than any tithi, for the
+ * moment the elongation crossed the current tithi's opening 12° boundary.
+ *
+ * @param date - The date and time inside the tithi
+ * @param elongation - Elongation at that date in degrees
+ * @returns The instant the current tithi began
+ */
+export function findTithiStart(date: Date, elongation: number): Date {
+  const tithiIndex = Math.floor(elongation / VEDIC_CONSTANTS.DEGREES_PER_TITHI);
+  const boundary = tithiIndex * VEDIC_CONSTANTS.DEGREES_PER_TITHI;
+
+  const lookbackHours = 30;
+  const startsAt = searchElongation(
+    boundary,
+    new Date(date.getTime() - lookbackHours * 60 * 60 * 1000),
+    lookbackHours
+  );
+  if (startsAt) {
+    return startsAt;
+  }
+
+  // Fall back to the linear estimate if the search window was missed
+  const degreesElapsed = elongation % VEDIC_CONSTANTS.DEGREES_PER_TITHI;
+  const hoursElapsed = degreesElapsed / getElongationRate(date);
+  return new Date(date.getTime() - hoursElapsed * 60 * 60 * 1000);
+}
+
 /**
  * Calculate complete tithi information for a given date and location
  *
@@ -141,12 +204,14 @@ export function estimateTimeToNextTithi(
  * @param date - The date and time for the calculation
  * @param latitude - Observer's latitude in degrees
  * @param longitude - Observer's longitude in degrees
+ * @param boundaries - Tithi ends already found for the day, to skip the search
  * @returns Complete tithi information
  */
 export function calculateTithi(
   date: Date,
   latitude: number = 0,
-  longitude: number = 0
+  longitude: number = 0,
+  boundaries?: readonly LimbBoundary[]
 ): TithiResult {
   // Get the current elongation
   const elongation = getElongation(date, latitude, longitude);
@@ -163,11 +228,9 @@ export function calculateTithi(
   // Calculate progress through current tithi
   const progress = calculateTithiProgress(elongation);
 
-  // Get elongation rate for time estimation
-  const elongationRate = getElongationRate(date, latitude, longitude);
-
-  // Estimate time to next tithi
-  const minutesToNext = estimateTimeToNextTithi(elongation, elongationRate);
+  // Find the exact end of the current tithi
+  const endsAt = lookupLimbEnd(boundaries, tithiNumber, date) ?? findTithiEnd(date, elongation);
+  const minutesToNext = (endsAt.getTime() - date.getTime()) / (1000 * 60);
 
   return {
     tithiNumber,
@@ -175,6 +238,7 @@ export function calculateTithi(
     paksha,
     progress,
     minutesToNext,
+    endsAt,
     elongation,
   };
 }
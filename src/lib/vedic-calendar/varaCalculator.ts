@@ -0,0 +1,344 @@
+/**
+ * Vara Calculator Module
+ *
+ * The vara is the weekday, one of the five limbs of the panchanga. A Vedic
+ * day runs from sunrise to sunrise, so the vara changes at local sunrise, not
+ * at civil midnight: the hours before dawn on a Monday still belong to
+ * Ravivara (Sunday).
+ *
+ * The weekday of a sunrise is taken in the observer's local mean time
+ * (longitude / 15°), so it does not depend on the browser's time zone.
+ *
+ * Beyond the polar circles the Sun may not rise or set for weeks. A polar
+ * policy then decides which day boundaries stand in:
+ * - 'nearestLatitude': sunrise and sunset at 65° on the same meridian, the
+ *   nearest latitude where the Sun rises and sets every day
+ * - 'localMidnight': the civil day from local mean midnight, split at noon
+ * - 'equinoctial': an equinox day, sunrise 06:00 and sunset 18:00 local mean time
+ */
+
+import * as Astronomy from 'astronomy-engine';
+import { VEDIC_CONSTANTS, getVaraName } from './vedicTime';
+
+/**
+ * Result of vara calculation
+ */
+export interface VaraResult {
+  /** Current vara number (1-7, 1 = Ravivara/Sunday) */
+  varaNumber: number;
+
+  /** Name of the vara in Sanskrit with transliteration */
+  varaName: string;
+
+  /** Progress through the current vara (0-100%) */
+  progress: number;
+
+  /** Minutes until the next vara begins */
+  minutesToNext: number;
+
+  /** Sunrise that began the current vara */
+  startsAt: Date;
+
+  /** Next sunrise, when the current vara ends */
+  endsAt: Date;
+}
+
+/**
+ * How day boundaries are chosen where the Sun does not rise or set
+ */
+export type PolarPolicy = 'nearestLatitude' | 'localMidnight' | 'equinoctial';
+
+/**
+ * Where a day's sunrise came from: the real sunrise, or a polar policy
+ */
+export type SunriseSource = 'astronomical' | PolarPolicy;
+
+/**
+ * Polar policy used when none is given
+ */
+export const DEFAULT_POLAR_POLICY: PolarPolicy = 'nearestLatitude';
+
+/**
+ * Latitude used by the 'nearestLatitude' policy. At 65° the Sun still clears
+ * the horizon at the winter solstice and sets at the summer solstice,
+ * refraction included.
+ */
+export const NEAREST_SUNRISE_LATITUDE = 65;
+
+/**
+ * Sunrise, sunset and next sunrise bounding one Vedic day
+ */
+export interface SolarDay {
+  /** Sunrise beginning the day */
+  sunrise: Date;
+
+  /** Sunset between the two sunrises */
+  sunset: Date;
+
+  /** Sunrise ending the day */
+  nextSunrise: Date;
+
+  /** 'astronomical' for the real sunrise, otherwise the polar policy that stood in */
+  source: SunriseSource;
+}
+
+/**
+ * Search window for sunrise in days (more than one day either way)
+ */
+const SUNRISE_SEARCH_DAYS = 1.5;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Solar days kept in the sunrise cache (a few days at a few locations)
+ */
+const SOLAR_DAY_CACHE_SIZE = 16;
+
+/**
+ * Recently found solar days, oldest first
+ */
+const solarDayCache: {
+  latitude: number;
+  longitude: number;
+  polarPolicy: PolarPolicy;
+  day: SolarDay;
+}[] = [];
+
+/**
+ * Find the sunrise at or before a given instant
+ *
+ * @param date - The instant to search back from
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @returns The most recent sunrise, or null if the Sun does not rise (polar regions)
+ */
+export function findPreviousSunrise(date: Date, latitude: number, longitude: number): Date | null {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const sunrise = Astronomy.SearchRiseSet(
+    Astronomy.Body.Sun,
+    observer,
+    +1,
+    date,
+    -SUNRISE_SEARCH_DAYS
+  );
+  return sunrise ? sunrise.date : null;
+}
+
+/**
+ * Find the first sunrise after a given instant
+ *
+ * @param date - The instant to search forward from
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @returns The next sunrise, or null if the Sun does not rise (polar regions)
+ */
+export function findNextSunrise(date: Date, latitude: number, longitude: number): Date | null {
+  const observer = new Astronomy.Observer(latitude, longitude, 0);
+  const sunrise = Astronomy.SearchRiseSet(
+    Astronomy.Body.Sun,
+    observer,
+    +1,
+    date,
+    SUNRISE_SEARCH_DAYS
+  );
+  return sunrise ? sunrise.date : null;
+}
+
+/**
+ * Get the weekday of an instant in the observer's local mean time
+ *
+ * @param date - The instant
+ * @param longitude - Observer's longitude in degrees
+ * @returns The weekday (0 = Sunday ... 6 = Saturday)
+ */
+export function getLocalWeekday(date: Date, longitude: number): number {
+  const offsetMs = (longitude / 15) * MS_PER_HOUR;
+  return new Date(date.getTime() + offsetMs).getUTCDay();
+}
+
+/**
+ * Get local mean midnight at or before an instant
+ *
+ * Used as the day boundary when there is no sunrise (polar day or night).
+ *
+ * @param date - The instant
+ * @param longitude - Observer's longitude in degrees
+ * @returns The preceding local mean midnight
+ */
+export function getLocalMidnight(date: Date, longitude: number): Date {
+  const offsetMs = (longitude / 15) * MS_PER_HOUR;
+  const localTime = date.getTime() + offsetMs;
+  return new Date(localTime - (((localTime % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY) - offsetMs);
+}
+
+/**
+ * Get a fixed-hours day around an instant
+ *
+ * @param date - Instant within the day
+ * @param longitude - Observer's longitude in degrees
+ * @param sunriseHour - Local mean hour standing in for sunrise
+ * @param source - Policy recorded on the result
+ * @returns A 24-hour day with sunset 12 hours after its sunrise
+ */
+function getFixedSolarDay(
+  date: Date,
+  longitude: number,
+  sunriseHour: number,
+  source: SunriseSource
+): SolarDay {
+  // Nominal sunrise at or before the instant
+  let sunrise = getLocalMidnight(date, longitude).getTime() + sunriseHour * MS_PER_HOUR;
+  if (sunrise > date.getTime()) {
+    sunrise -= MS_PER_DAY;
+  }
+  return {
+    sunrise: new Date(sunrise),
+    sunset: new Date(sunrise + 12 * MS_PER_HOUR),
+    nextSunrise: new Date(sunrise + MS_PER_DAY),
+    source,
+  };
+}
+
+/**
+ * Get the sunrise-to-sunrise day containing an instant, with its sunset
+ *
+ * Where the Sun does not rise or set, the polar policy supplies the day
+ * boundaries and is recorded in `source`.
+ *
+ * Sunrise only changes once a day, so recent days are cached: another
+ * instant in a day already found costs no search.
+ *
+ * @param date - Instant within the day
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Sunrise, sunset and next sunrise around the instant
+ */
+export function getSolarDay(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): SolarDay {
+  const time = date.getTime();
+  const cached = solarDayCache.find(
+    (entry) =>
+      entry.latitude === latitude &&
+      entry.longitude === longitude &&
+      entry.polarPolicy === polarPolicy &&
+      entry.day.sunrise.getTime() <= time &&
+      time < entry.day.nextSunrise.getTime()
+  );
+  if (cached) {
+    return cached.day;
+  }
+
+  const day = findSolarDay(date, latitude, longitude, polarPolicy);
+  solarDayCache.push({ latitude, longitude, polarPolicy, day });
+  if (solarDayCache.length > SOLAR_DAY_CACHE_SIZE) {
+    solarDayCache.shift();
+  }
+  return day;
+}
+
+/**
+ * Get the solar day that names a civil day
+ *
+ * That is the solar day around local noon, or the next one if its sunrise
+ * fell before the civil day began, so each civil day gets the sunrise that
+ * falls in it.
+ *
+ * @param dayStart - Local mean midnight beginning the civil day
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Sunrise, sunset and next sunrise of the civil day's solar day
+ */
+export function getCivilSolarDay(
+  dayStart: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): SolarDay {
+  const solarDay = getSolarDay(new Date(dayStart.getTime() + 12 * MS_PER_HOUR), latitude, longitude, polarPolicy);
+  return solarDay.sunrise < dayStart
+    ? getSolarDay(solarDay.nextSunrise, latitude, longitude, polarPolicy)
+    : solarDay;
+}
+
+/**
+ * Find the solar day containing an instant (uncached)
+ */
+function findSolarDay(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy
+): SolarDay {
+  const sunrise = findPreviousSunrise(date, latitude, longitude);
+  const nextSunrise = findNextSunrise(date, latitude, longitude);
+
+  if (sunrise && nextSunrise) {
+    const observer = new Astronomy.Observer(latitude, longitude, 0);
+    const sunset = Astronomy.SearchRiseSet(Astronomy.Body.Sun, observer, -1, sunrise, 1);
+    if (sunset && sunset.date < nextSunrise) {
+      return { sunrise, sunset: sunset.date, nextSunrise, source: 'astronomical' };
+    }
+  }
+
+  switch (polarPolicy) {
+    case 'nearestLatitude': {
+      if (Math.abs(latitude) > NEAREST_SUNRISE_LATITUDE) {
+        const nearest = Math.sign(latitude) * NEAREST_SUNRISE_LATITUDE;
+        const day = getSolarDay(date, nearest, longitude, 'equinoctial');
+        return { ...day, source: day.source === 'astronomical' ? 'nearestLatitude' : day.source };
+      }
+      return getFixedSolarDay(date, longitude, 6, 'equinoctial');
+    }
+    case 'localMidnight':
+      return getFixedSolarDay(date, longitude, 0, 'localMidnight');
+    case 'equinoctial':
+      return getFixedSolarDay(date, longitude, 6, 'equinoctial');
+  }
+}
+
+/**
+ * Calculate the vara (sunrise-based weekday) for a given date and location
+ *
+ * Where the Sun does not rise every day, the polar policy supplies the
+ * day boundaries.
+ *
+ * @param date - The date and time for the calculation
+ * @param latitude - Observer's latitude in degrees
+ * @param longitude - Observer's longitude in degrees
+ * @param polarPolicy - Fallback where the Sun does not rise or set (default: nearest latitude)
+ * @returns Complete vara information
+ *
+ * @example
+ * // 04:00 IST on a Monday is still Ravivara
+ * const vara = calculateVara(new Date('2024-01-15T04:00:00+05:30'), 12.97, 77.59);
+ * // vara.varaName === 'Ravivara (रविवार)'
+ */
+export function calculateVara(
+  date: Date,
+  latitude: number,
+  longitude: number,
+  polarPolicy: PolarPolicy = DEFAULT_POLAR_POLICY
+): VaraResult {
+  const { sunrise: startsAt, nextSunrise: endsAt } = getSolarDay(date, latitude, longitude, polarPolicy);
+
+  const varaNumber = (getLocalWeekday(startsAt, longitude) % VEDIC_CONSTANTS.VARA_COUNT) + 1;
+
+  const elapsed = date.getTime() - startsAt.getTime();
+  const duration = endsAt.getTime() - startsAt.getTime();
+
+  return {
+    varaNumber,
+    varaName: getVaraName(varaNumber),
+    progress: (elapsed / duration) * 100,
+    minutesToNext: (endsAt.getTime() - date.getTime()) / (1000 * 60),
+    startsAt,
+    endsAt,
+  };
+}
@@ -5,6 +5,20 @@
  * The Vedic calendar is lunisolar, meaning it tracks both lunar and solar cycles.
  */
 
+import type { MoonDetails } from './astronomicalCalculations';
+import type { AyanamsaSettings, AyanamsaSystem } from './ayanamsa';
+import type { MasaSystem } from './masaCalculator';
+import type { DailyPeriods } from './kalamCalculator';
+import type { MuhurtaMode } from './muhurtaCalculator';
+import type { ChoghadiyaResult } from './choghadiyaCalculator';
+import type { HoraResult } from './horaCalculator';
+import type { GrahaPosition } from './grahaCalculator';
+import type { Grahana } from './grahanaCalculator';
+import type { LagnaResult } from './lagnaCalculator';
+import type { SolarCalendarResult, SolarCalendarRule } from './solarCalendarCalculator';
+import type { SamvatResult, SamvatYearStart } from './samvatCalculator';
+import type { PolarPolicy, SunriseSource } from './varaCalculator';
+
 /**
  * Paksha represents the lunar fortnight
  * - Shukla Paksha: Waxing moon (New Moon to Full Moon)
@@ -12,6 +26,29 @@
  */
 export type Paksha = 'Shukla' | 'Krishna';
 
+/**
+ * Calendar conventions used by the calculations
+ */
+export interface VedicCalendarSettings {
+  /** Ayanamsa for sidereal positions (defaults to Lahiri) */
+  ayanamsa?: AyanamsaSettings;
+
+  /** Lunar month convention (defaults to amanta) */
+  masaSystem?: MasaSystem;
+
+  /** Equal 48-minute or seasonal day/night muhurtas (defaults to equal) */
+  muhurtaMode?: MuhurtaMode;
+
+  /** Day boundaries where the Sun does not rise or set (defaults to nearest latitude) */
+  polarPolicy?: PolarPolicy;
+
+  /** Regional rule for the first day of a solar month (defaults to Tamil) */
+  solarCalendarRule?: SolarCalendarRule;
+
+  /** Lunar new year for Vikram Samvat: Chaitra or Kartika (defaults to Chaitra) */
+  samvatYearStart?: SamvatYearStart;
+}
+
 /**
  * Muhurta information structure
  */
@@ -26,6 +63,12 @@ export interface MuhurtaData {
   progress: number;
   /** Estimated minutes until next muhurta */
   timeRemaining: number;
+  /** Start of the current muhurta */
+  startsAt: Date;
+  /** End of the current muhurta */
+  endsAt: Date;
+  /** Mode used to divide the day ('equal' 48-minute or 'seasonal') */
+  mode: MuhurtaMode;
 }
 
 /**
@@ -44,6 +87,16 @@ export interface PranaData {
   breathPhaseProgress: number;
 }
 
+/**
+ * End of one tithi, nakshatra, yoga or karana, found ahead of time
+ */
+export interface LimbBoundary {
+  /** Number of the value that ends */
+  number: number;
+  /** Instant the value ends */
+  endsAt: Date;
+}
+
 /**
  * Complete Vedic Time representation
  */
@@ -54,8 +107,10 @@ export interface VedicTime {
   tithiName: string;
   /** Progress through current tithi (0-100%) */
   tithiProgress: number;
-  /** Estimated minutes until next tithi */
+  /** Minutes until next tithi */
   minutesToNextTithi: number;
+  /** Exact instant the current tithi ends */
+  tithiEndsAt: Date;
 
   /** Current nakshatra (lunar mansion) number (1-27) */
   nakshatra: number;
@@ -63,35 +118,115 @@ export interface VedicTime {
   nakshatraName: string;
   /** Progress through current nakshatra (0-100%) */
   nakshatraProgress: number;
-  /** Estimated minutes until next nakshatra */
+  /** Minutes until next nakshatra */
   minutesToNextNakshatra: number;
+  /** Exact instant the current nakshatra ends */
+  nakshatraEndsAt: Date;
+
+  /** Current lagna (rising rashi) and the day's lagna table */
+  lagna: LagnaResult;
 
   /** Current paksha (lunar fortnight) */
   paksha: Paksha;
 
+  /** Current yoga (nityayoga) number (1-27) */
+  yoga: number;
+  /** Name of the current yoga */
+  yogaName: string;
+  /** Progress through current yoga (0-100%) */
+  yogaProgress: number;
+  /** Minutes until next yoga */
+  minutesToNextYoga: number;
+  /** Exact instant the current yoga ends */
+  yogaEndsAt: Date;
+
+  /** Current karana (half-tithi) number (1-60) */
+  karana: number;
+  /** Name of the current karana */
+  karanaName: string;
+  /** Progress through current karana (0-100%) */
+  karanaProgress: number;
+  /** Minutes until next karana */
+  minutesToNextKarana: number;
+  /** Exact instant the current karana ends */
+  karanaEndsAt: Date;
+
+  /** Current vara (weekday from sunrise) number (1-7, 1 = Ravivara) */
+  vara: number;
+  /** Name of the current vara */
+  varaName: string;
+  /** Progress through current vara (0-100%) */
+  varaProgress: number;
+  /** Sunrise that began the current vara */
+  varaStartsAt: Date;
+  /** Next sunrise, when the current vara ends */
+  varaEndsAt: Date;
+
   /** Current masa (lunar month) number (1-12) */
   masa: number;
   /** Name of the current masa */
   masaName: string;
+  /** True if the current masa is an adhika (leap) month */
+  isAdhika: boolean;
+  /** True if the current masa absorbs a kshaya (lost) month */
+  isKshaya: boolean;
+  /** Lunar month convention used for masa boundaries */
+  masaSystem: MasaSystem;
 
   /** Current muhurta (time division) */
   muhurta: MuhurtaData;
 
+  /** Rahu Kalam, Yamagandam, Gulika, Durmuhurta, Varjyam and Amrita Kalam for the current vara */
+  dailyPeriods: DailyPeriods;
+
+  /** Current choghadiya and the day's 16 choghadiyas */
+  choghadiya: ChoghadiyaResult;
+
+  /** Current planetary hora and the day's 24 horas */
+  hora: HoraResult;
+
+  /** Where the day's sunrise came from: the real sunrise or the polar policy */
+  sunriseSource: SunriseSource;
+
+  /** Polar policy applied when the Sun does not rise or set */
+  polarPolicy: PolarPolicy;
+
   /** Current prana (breath cycle) */
   prana: PranaData;
 
   /** Moon phase as a decimal (0 = New Moon, 0.5 = Full Moon, 1 = New Moon) */
   moonPhase: number;
 
-  /** Moon's ecliptic longitude in degrees */
+  /** Moonrise, moonset, age, distance, libration and the next new and full moon */
+  moon: MoonDetails;
+
+  /** Moon's sidereal ecliptic longitude in degrees (tropical if no ayanamsa) */
   moonLongitude: number;
 
-  /** Sun's ecliptic longitude in degrees */
+  /** Sun's sidereal ecliptic longitude in degrees (tropical if no ayanamsa) */
   sunLongitude: number;
 
+  /** Ayanamsa applied to the longitudes, in degrees */
+  ayanamsa: number;
+
+  /** Ayanamsa system used for sidereal calculations */
+  ayanamsaSystem: AyanamsaSystem;
+
   /** Elongation (angular separation) between Moon and Sun in degrees */
   elongation: number;
 
+  /** Sidereal positions of the nine grahas */
+  grahas: GrahaPosition[];
+
+  /** Next (or current) eclipse for the observer's location */
+  nextGrahana: Grahana;
+
+  /** Solar month and day, ritu (season) and ayana (half-year) */
+  solarCalendar: SolarCalendarResult;
+
+  /** Era years (Vikram, Shaka, Kali) and the 60-year samvatsara */
+  samvat: SamvatResult;
+
   /** Date and time for which this calculation was made */
   calculatedFor: Date;
 }
@@ -159,6 +294,81 @@ export const NAKSHATRA_NAMES: readonly string[] = [
   'Revati (रेवती)',           // 346°40' - 360°
 ] as const;
 
+/**
+ * Yoga Names (Nityayogas)
+ *
+ * A yoga is defined by the sum of the sidereal longitudes of the Sun and Moon.
+ * The sum is divided into 27 segments of 13°20' each, like the nakshatras,
+ * so a yoga lasts roughly a day.
+ */
+export const YOGA_NAMES: readonly string[] = [
+  'Vishkambha (विष्कम्भ)',    // 1
+  'Priti (प्रीति)',            // 2
+  'Ayushman (आयुष्मान्)',      // 3
+  'Saubhagya (सौभाग्य)',      // 4
+  'Shobhana (शोभन)',          // 5
+  'Atiganda (अतिगण्ड)',       // 6
+  'Sukarma (सुकर्मा)',         // 7
+  'Dhriti (धृति)',            // 8
+  'Shula (शूल)',              // 9
+  'Ganda (गण्ड)',             // 10
+  'Vriddhi (वृद्धि)',          // 11
+  'Dhruva (ध्रुव)',           // 12
+  'Vyaghata (व्याघात)',       // 13
+  'Harshana (हर्षण)',         // 14
+  'Vajra (वज्र)',             // 15
+  'Siddhi (सिद्धि)',           // 16
+  'Vyatipata (व्यतीपात)',     // 17
+  'Variyan (वरीयान्)',         // 18
+  'Parigha (परिघ)',           // 19
+  'Shiva (शिव)',              // 20
+  'Siddha (सिद्ध)',            // 21
+  'Sadhya (साध्य)',           // 22
+  'Shubha (शुभ)',             // 23
+  'Shukla (शुक्ल)',            // 24
+  'Brahma (ब्रह्म)',           // 25
+  'Indra (इन्द्र)',            // 26
+  'Vaidhriti (वैधृति)',        // 27
+] as const;
+
+/**
+ * Karana Names (Half Tithis)
+ *
+ * A karana is half a tithi (6° of elongation), giving 60 per lunar month.
+ * The first seven names repeat eight times from the second half of Shukla
+ * Pratipad; the last four are fixed karanas that occur once a month around
+ * Amavasya.
+ */
+export const KARANA_NAMES: readonly string[] = [
+  'Bava (बव)',                // Movable
+  'Balava (बालव)',            // Movable
+  'Kaulava (कौलव)',           // Movable
+  'Taitila (तैतिल)',          // Movable
+  'Gara (गर)',                // Movable
+  'Vanija (वणिज)',            // Movable
+  'Vishti (विष्टि)',           // Movable (also called Bhadra)
+  'Shakuni (शकुनि)',          // Fixed: 2nd half of Krishna Chaturdashi
+  'Chatushpada (चतुष्पाद)',    // Fixed: 1st half of Amavasya
+  'Naga (नाग)',               // Fixed: 2nd half of Amavasya
+  'Kimstughna (किंस्तुघ्न)',    // Fixed: 1st half of Shukla Pratipad
+] as const;
+
+/**
+ * Vara Names (Weekdays)
+ *
+ * Each vara is named after its ruling graha. A Vedic day runs from sunrise to
+ * sunrise, so the vara changes at sunrise rather than at midnight.
+ */
+export const VARA_NAMES: readonly string[] = [
+  'Ravivara (रविवार)',        // Sunday - Sun
+  'Somavara (सोमवार)',        // Monday - Moon
+  'Mangalavara (मङ्गलवार)',   // Tuesday - Mars
+  'Budhavara (बुधवार)',       // Wednesday - Mercury
+  'Guruvara (गुरुवार)',       // Thursday - Jupiter
+  'Shukravara (शुक्रवार)',    // Friday - Venus
+  'Shanivara (शनिवार)',       // Saturday - Saturn
+] as const;
+
 /**
  * Masa Names (Lunar Months)
  *
@@ -181,6 +391,124 @@ export const MASA_NAMES: readonly string[] = [
   'Phalguna (फाल्गुन)',       // February-March
 ] as const;
 
+/**
+ * Rashi Names (Sidereal Zodiac Signs)
+ *
+ * The ecliptic is divided into 12 rashis of 30° each, counted from the start
+ * of Ashwini nakshatra (sidereal 0°).
+ */
+export const RASHI_NAMES: readonly string[] = [
+  'Mesha (मेष)',              // Aries
+  'Vrishabha (वृषभ)',         // Taurus
+  'Mithuna (मिथुन)',          // Gemini
+  'Karka (कर्क)',             // Cancer
+  'Simha (सिंह)',             // Leo
+  'Kanya (कन्या)',            // Virgo
+  'Tula (तुला)',              // Libra
+  'Vrishchika (वृश्चिक)',     // Scorpio
+  'Dhanu (धनु)',              // Sagittarius
+  'Makara (मकर)',             // Capricorn
+  'Kumbha (कुम्भ)',           // Aquarius
+  'Meena (मीन)',              // Pisces
+] as const;
+
+/**
+ * Ritu Names (Seasons)
+ *
+ * The year has six ritus of two solar months each, measured from the Sun's
+ * tropical longitude. Vasanta begins when the Sun reaches 330°, a month
+ * before the vernal equinox.
+ */
+export const RITU_NAMES: readonly string[] = [
+  'Vasanta (वसन्त)',          // Spring
+  'Grishma (ग्रीष्म)',         // Summer
+  'Varsha (वर्षा)',            // Monsoon
+  'Sharad (शरद्)',            // Autumn
+  'Hemanta (हेमन्त)',         // Pre-winter
+  'Shishira (शिशिर)',         // Winter
+] as const;
+
+/**
+ * Ayana Names (Half-years)
+ *
+ * Uttarayana runs from the winter solstice to the summer solstice, while the
+ * Sun moves north; Dakshinayana is the southward half.
+ */
+export const AYANA_NAMES: readonly string[] = [
+  'Uttarayana (उत्तरायण)',     // Northward course
+  'Dakshinayana (दक्षिणायन)',  // Southward course
+] as const;
+
+/**
+ * Samvatsara Names (60-Year Cycle)
+ *
+ * Five rounds of Jupiter's 12-year circuit of the rashis make the 60-year
+ * cycle, each year with its own name. North India counts the cycle by
+ * Jupiter's motion; South India gives each lunisolar year the next name.
+ */
+export const SAMVATSARA_NAMES: readonly string[] = [
+  'Prabhava (प्रभव)',
+  'Vibhava (विभव)',
+  'Shukla (शुक्ल)',
+  'Pramoda (प्रमोद)',
+  'Prajapati (प्रजापति)',
+  'Angirasa (अङ्गिरस)',
+  'Shrimukha (श्रीमुख)',
+  'Bhava (भाव)',
+  'Yuva (युवा)',
+  'Dhatri (धातृ)',
+  'Ishvara (ईश्वर)',
+  'Bahudhanya (बहुधान्य)',
+  'Pramathi (प्रमाथी)',
+  'Vikrama (विक्रम)',
+  'Vrisha (वृष)',
+  'Chitrabhanu (चित्रभानु)',
+  'Subhanu (सुभानु)',
+  'Tarana (तारण)',
+  'Parthiva (पार्थिव)',
+  'Vyaya (व्यय)',
+  'Sarvajit (सर्वजित्)',
+  'Sarvadhari (सर्वधारी)',
+  'Virodhi (विरोधी)',
+  'Vikriti (विकृति)',
+  'Khara (खर)',
+  'Nandana (नन्दन)',
+  'Vijaya (विजय)',
+  'Jaya (जय)',
+  'Manmatha (मन्मथ)',
+  'Durmukhi (दुर्मुखी)',
+  'Hevilambi (हेविलम्बी)',
+  'Vilambi (विलम्बी)',
+  'Vikari (विकारी)',
+  'Sharvari (शार्वरी)',
+  'Plava (प्लव)',
+  'Shubhakrit (शुभकृत्)',
+  'Shobhakrit (शोभकृत्)',
+  'Krodhi (क्रोधी)',
+  'Vishvavasu (विश्वावसु)',
+  'Parabhava (पराभव)',
+  'Plavanga (प्लवङ्ग)',
+  'Kilaka (कीलक)',
+  'Saumya (सौम्य)',
+  'Sadharana (साधारण)',
+  'Virodhakrit (विरोधकृत्)',
+  'Paridhavi (परिधावी)',
+  'Pramadi (प्रमादी)',
+  'Ananda (आनन्द)',
+  'Rakshasa (राक्षस)',
+  'Nala (नल)',
+  'Pingala (पिङ्गल)',
+  'Kalayukta (कालयुक्त)',
+  'Siddharthi (सिद्धार्थी)',
+  'Raudra (रौद्र)',
+  'Durmati (दुर्मति)',
+  'Dundubhi (दुन्दुभि)',
+  'Rudhirodgari (रुधिरोद्गारी)',
+  'Raktakshi (रक्ताक्षी)',
+  'Krodhana (क्रोधन)',
+  'Akshaya (अक्षय)',
+] as const;
+
 /**
  * Get tithi name by number (1-30)
  */
@@ -198,6 +526,36 @@ export function getNakshatraName(nakshatraNumber: number): string {
   return NAKSHATRA_NAMES[nakshatraNumber - 1];
 }
 
+/**
+ * Get yoga name by number (1-27)
+ */
+export function getYogaName(yogaNumber: number): string {
+  return YOGA_NAMES[yogaNumber - 1];
+}
+
+/**
+ * Get karana name by number (1-60)
+ */
+export function getKaranaName(karanaNumber: number): string {
+  // Karana 1 is the fixed Kimstughna; 58-60 are Shakuni, Chatushpada, Naga
+  if (karanaNumber === 1) {
+    return KARANA_NAMES[10];
+  }
+  if (karanaNumber >= 58) {
+    return KARANA_NAMES[karanaNumber - 51];
+  }
+
+  // Karanas 2-57 cycle through the seven movable names
+  return KARANA_NAMES[(karanaNumber - 2) % 7];
+}
+
+/**
+ * Get vara name by number (1-7, 1 = Ravivara)
+ */
+export function getVaraName(varaNumber: number): string {
+  return VARA_NAMES[varaNumber - 1];
+}
+
 /**
  * Get masa name by number (1-12)
  */
@@ -205,6 +563,44 @@ export function getMasaName(masaNumber: number): string {
   return MASA_NAMES[masaNumber - 1];
 }
 
+/**
+ * Get rashi name by number (1-12)
+ */
+export function getRashiName(rashiNumber: number): string {
+  return RASHI_NAMES[rashiNumber - 1];
+}
+
+/**
+ * Get ritu name by number (1-6)
+ */
+export function getRituName(rituNumber: number): string {
+  return RITU_NAMES[rituNumber - 1];
+}
+
+/**
+ * Get samvatsara name by number (1-60)
+ */
+export function getSamvatsaraName(samvatsaraNumber: number): string {
+  return SAMVATSARA_NAMES[samvatsaraNumber - 1];
+}
+
+/**
+ * Look up when the value in effect at an instant ends
+ *
+ * @param boundaries - Ends found ahead of time, in order
+ * @param number - Number of the value in effect at `date`
+ * @param date - The instant
+ * @returns The end, or null if the boundaries do not cover the value (search instead)
+ */
+export function lookupLimbEnd(
+  boundaries: readonly LimbBoundary[] | undefined,
+  number: number,
+  date: Date
+): Date | null {
+  const boundary = boundaries?.find((candidate) => candidate.endsAt > date);
+  return boundary && boundary.number === number ? boundary.endsAt : null;
+}
+
 /**
  * Astronomical Constants
  */
@@ -218,6 +614,12 @@ export const VEDIC_CONSTANTS = {
   /** Degrees per nakshatra (360° / 27 nakshatras = 13.333...°) */
   DEGREES_PER_NAKSHATRA: 360 / 27,
 
+  /** Degrees of Sun + Moon longitude per yoga (360° / 27 yogas = 13.333...°) */
+  DEGREES_PER_YOGA: 360 / 27,
+
+  /** Degrees of elongation per karana (half a tithi = 6°) */
+  DEGREES_PER_KARANA: 6,
+
   /** Number of tithis in a lunar month */
   TITHIS_PER_MONTH: 30,
 
@@ -227,6 +629,24 @@ export const VEDIC_CONSTANTS = {
   /** Number of nakshatras */
   NAKSHATRA_COUNT: 27,
 
+  /** Number of yogas */
+  YOGA_COUNT: 27,
+
+  /** Number of karanas in a lunar month */
+  KARANAS_PER_MONTH: 60,
+
+  /** Number of varas (weekdays) */
+  VARA_COUNT: 7,
+
   /** Number of lunar months in a year */
   MASA_COUNT: 12,
+
+  /** Number of rashis (zodiac signs) */
+  RASHI_COUNT: 12,
+
+  /** Degrees per rashi (360° / 12 rashis = 30°) */
+  DEGREES_PER_RASHI: 30,
+
+  /** Years in the samvatsara cycle (5 rounds of Jupiter's 12 years) */
+  SAMVATSARA_COUNT: 60,
 } as const;
@@ -0,0 +1,160 @@
+/**
+ * Yoga Calculator Module
+ *
+ * A yoga (nityayoga) is one of the five limbs of the panchanga. It is defined
+ * by the sum of the sidereal longitudes of the Sun and Moon, divided into 27
+ * equal segments.
+ *
+ * Key Concepts:
+ * - Each yoga spans 13°20' of combined longitude (360° ÷ 27 yogas)
+ * - The sum advances about 13-16° per day, so a yoga lasts roughly 20-25 hours
+ * - Unlike elongation, the sum depends on the ayanamsa (it is subtracted twice)
+ */
+
+import { searchAngleCrossing } from './astronomicalCalculations';
+import type { AyanamsaSettings } from './ayanamsa';
+import {
+  DEFAULT_AYANAMSA,
+  getSiderealMoonLongitude,
+  getSiderealSunLongitude,
+} from './ayanamsa';
+import type { LimbBoundary } from './vedicTime';
+import { VEDIC_CONSTANTS, getYogaName, lookupLimbEnd } from './vedicTime';
+
+/**
+ * Result of yoga calculation
+ */
+export interface YogaResult {
+  /** Current yoga number (1-27) */
+  yogaNumber: number;
+
+  /** Name of the yoga in Sanskrit with transliteration */
+  yogaName: string;
+
+  /** Progress through the current yoga (0-100%) */
+  progress: number;
+
+  /** Minutes until the next yoga begins */
+  minutesToNext: number;
+
+  /** Exact instant the current yoga ends */
+  endsAt: Date;
+
+  /** Sum of the sidereal Sun and Moon longitudes used for this calculation */
+  longitudeSum: number;
+}
+
+/**
+ * Search window for the next yoga boundary in hours (longer than any yoga)
+ */
+const TRANSITION_SEARCH_HOURS = 36;
+
+/**
+ * Get the sum of the sidereal Sun and Moon longitudes
+ *
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Ayanamsa for the sidereal longitudes (default: Lahiri)
+ * @returns The combined longitude in degrees (0-360°)
+ */
+export function getYogaLongitudeSum(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): number {
+  const sum = getSiderealSunLongitude(date, ayanamsa) + getSiderealMoonLongitude(date, ayanamsa);
+  return sum % VEDIC_CONSTANTS.FULL_CIRCLE;
+}
+
+/**
+ * Calculate the yoga number from the combined longitude
+ *
+ * @param longitudeSum - Sidereal Sun + Moon longitude (0-360°)
+ * @returns The yoga number (1-27)
+ */
+export function calculateYogaNumber(longitudeSum: number): number {
+  const yogaIndex = Math.floor(longitudeSum / VEDIC_CONSTANTS.DEGREES_PER_YOGA);
+
+  // Convert 0-26 index to 1-27 yoga number
+  return (yogaIndex % VEDIC_CONSTANTS.YOGA_COUNT) + 1;
+}
+
+/**
+ * Calculate the progress through the current yoga
+ *
+ * @param longitudeSum - Sidereal Sun + Moon longitude (0-360°)
+ * @returns Progress as a percentage (0-100)
+ */
+export function calculateYogaProgress(longitudeSum: number): number {
+  const remainderDegrees = longitudeSum % VEDIC_CONSTANTS.DEGREES_PER_YOGA;
+  return (remainderDegrees / VEDIC_CONSTANTS.DEGREES_PER_YOGA) * 100;
+}
+
+/**
+ * Find the exact instant the current yoga ends
+ *
+ * Searches forward for the moment the combined longitude reaches the next
+ * 13°20' boundary.
+ *
+ * @param date - The date and time inside the yoga
+ * @param longitudeSum - Combined longitude at that date in degrees
+ * @param ayanamsa - Ayanamsa for the sidereal longitudes (default: Lahiri)
+ * @returns The instant the next yoga begins
+ */
+export function findYogaEnd(
+  date: Date,
+  longitudeSum: number,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA
+): Date {
+  const yogaIndex = Math.floor(longitudeSum / VEDIC_CONSTANTS.DEGREES_PER_YOGA);
+  const nextBoundary =
+    ((yogaIndex + 1) * VEDIC_CONSTANTS.DEGREES_PER_YOGA) % VEDIC_CONSTANTS.FULL_CIRCLE;
+
+  const endsAt = searchAngleCrossing(
+    (searchDate) => getYogaLongitudeSum(searchDate, ayanamsa),
+    nextBoundary,
+    date,
+    TRANSITION_SEARCH_HOURS
+  );
+  if (endsAt) {
+    return endsAt;
+  }
+
+  // Fall back to a linear estimate from the rate over the next hour
+  const oneHourLater = new Date(date.getTime() + 60 * 60 * 1000);
+  let degreesPerHour = getYogaLongitudeSum(oneHourLater, ayanamsa) - longitudeSum;
+  if (degreesPerHour < 0) {
+    degreesPerHour += VEDIC_CONSTANTS.FULL_CIRCLE;
+  }
+  const degreesRemaining =
+    VEDIC_CONSTANTS.DEGREES_PER_YOGA - (longitudeSum % VEDIC_CONSTANTS.DEGREES_PER_YOGA);
+  return new Date(date.getTime() + (degreesRemaining / degreesPerHour) * 60 * 60 * 1000);
+}
+
+/**
+ * Calculate complete yoga information for a given date
+ *
+ * @param date - The date and time for the calculation
+ * @param ayanamsa - Ayanamsa for the sidereal longitudes (default: Lahiri)
+ * @param boundaries - Yoga ends already found for the day, to skip the search
+ * @returns Complete yoga information
+ */
+export function calculateYoga(
+  date: Date,
+  ayanamsa: AyanamsaSettings = DEFAULT_AYANAMSA,
+  boundaries?: readonly LimbBoundary[]
+): YogaResult {
+  const longitudeSum = getYogaLongitudeSum(date, ayanamsa);
+  const yogaNumber = calculateYogaNumber(longitudeSum);
+
+  // Find the exact end of the current yoga
+  const endsAt = lookupLimbEnd(boundaries, yogaNumber, date) ?? findYogaEnd(date, longitudeSum, ayanamsa);
+  const minutesToNext = (endsAt.getTime() - date.getTime()) / (1000 * 60);
+
+  return {
+    yogaNumber,
+    yogaName: getYogaName(yogaNumber),
+    progress: calculateYogaProgress(longitudeSum),
+    minutesToNext,
+    endsAt,
+    longitudeSum,
+  };
+}
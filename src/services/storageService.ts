@@ -229,12 +229,16 @@ export const ReadingService = {
 export const PreferencesService = {
   /**
    * Get user preferences
+   *
+   * Stored preferences are merged over the defaults so that settings added
+   * after the user last saved still have a value.
    */
   getPreferences(): UserPreferences {
-    return getFromStorage<UserPreferences>(
+    const stored = getFromStorage<Partial<UserPreferences>>(
       STORAGE_KEYS.PREFERENCES,
-      DEFAULT_PREFERENCES
+      {}
     );
+    return { ...DEFAULT_PREFERENCES, ...stored };
   },
 
   /**
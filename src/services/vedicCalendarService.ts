@@ -0,0 +1,171 @@
+/**
+ * Vedic Calendar Service
+ *
+ * Asynchronous front end to the vedic-calendar engine. Calculations run in a
+ * Web Worker, started on first use; where workers are unavailable, or the
+ * worker fails to load, they run on the main thread instead.
+ */
+
+import { calculateVedicTime, generatePanchang } from '../lib/vedic-calendar';
+import type { PanchangDay, VedicCalendarSettings, VedicTime } from '../lib/vedic-calendar';
+import type {
+  PanchangRequest,
+  VedicCalendarRequest,
+  VedicCalendarResponse,
+  VedicTimeRequest,
+} from '../workers/vedicCalendarProtocol';
+
+/**
+ * A request before it is given an id
+ */
+type RequestBody = Omit<VedicTimeRequest, 'id'> | Omit<PanchangRequest, 'id'>;
+
+/**
+ * Callbacks for a request awaiting its response
+ */
+interface PendingRequest {
+  resolve: (response: VedicCalendarResponse) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 1;
+const pendingRequests = new Map<number, PendingRequest>();
+
+/**
+ * Fail every request in flight
+ */
+function rejectPending(error: Error): void {
+  pendingRequests.forEach(({ reject }) => reject(error));
+  pendingRequests.clear();
+}
+
+/**
+ * Get the worker, starting it if needed, or null to calculate on the main thread
+ */
+function getWorker(): Worker | null {
+  if (worker || workerFailed) return worker;
+
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+
+  try {
+    worker = new Worker(new URL('../workers/vedicCalendar.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+  } catch (error) {
+    console.error('Error starting vedic calendar worker:', error);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<VedicCalendarResponse>) => {
+    const pending = pendingRequests.get(event.data.id);
+    if (!pending) return;
+
+    pendingRequests.delete(event.data.id);
+    if (event.data.type === 'error') {
+      pending.reject(new Error(event.data.message));
+    } else {
+      pending.resolve(event.data);
+    }
+  });
+
+  // A worker that cannot load stays broken; later requests use the main thread
+  worker.addEventListener('error', (event) => {
+    console.error('Vedic calendar worker failed:', event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    rejectPending(new Error(event.message || 'Vedic calendar worker failed'));
+  });
+
+  return worker;
+}
+
+/**
+ * Answer a request on the main thread
+ */
+function handleOnMainThread(request: RequestBody): VedicCalendarResponse {
+  const { latitude, longitude, settings } = request;
+  if (request.type === 'vedicTime') {
+    return {
+      id: 0,
+      type: 'vedicTime',
+      vedicTimes: request.dates.map((date) => calculateVedicTime(latitude, longitude, date, settings)),
+    };
+  }
+  return {
+    id: 0,
+    type: 'panchang',
+    days: generatePanchang(latitude, longitude, request.startDate, request.endDate, settings),
+  };
+}
+
+/**
+ * Send a request to the worker, or answer it here if there is none
+ */
+function send(request: RequestBody): Promise<VedicCalendarResponse> {
+  const target = getWorker();
+  if (!target) {
+    try {
+      return Promise.resolve(handleOnMainThread(request));
+    } catch (error) {
+      return Promise.reject(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  const id = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject });
+    target.postMessage({ ...request, id } as VedicCalendarRequest);
+  });
+}
+
+/**
+ * Vedic calendar calculations off the main thread
+ */
+export const VedicCalendarService = {
+  /**
+   * Calculate Vedic time at one instant
+   */
+  async calculateVedicTime(
+    latitude: number,
+    longitude: number,
+    date: Date,
+    settings: VedicCalendarSettings = {}
+  ): Promise<VedicTime> {
+    const [vedicTime] = await this.calculateVedicTimes(latitude, longitude, [date], settings);
+    return vedicTime;
+  },
+
+  /**
+   * Calculate Vedic time at several instants in one round trip
+   */
+  async calculateVedicTimes(
+    latitude: number,
+    longitude: number,
+    dates: Date[],
+    settings: VedicCalendarSettings = {}
+  ): Promise<VedicTime[]> {
+    const response = await send({ type: 'vedicTime', latitude, longitude, settings, dates });
+    return response.type === 'vedicTime' ? response.vedicTimes : [];
+  },
+
+  /**
+   * Generate the daily panchang for a range of civil days (cached per day in the worker)
+   */
+  async generatePanchang(
+    latitude: number,
+    longitude: number,
+    startDate: Date,
+    endDate: Date,
+    settings: VedicCalendarSettings = {}
+  ): Promise<PanchangDay[]> {
+    const response = await send({ type: 'panchang', latitude, longitude, settings, startDate, endDate });
+    return response.type === 'panchang' ? response.days : [];
+  },
+};
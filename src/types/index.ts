@@ -10,6 +10,19 @@ import type {
   PranaData,
   MuhurtaData,
   Paksha,
+  AyanamsaSettings,
+  MasaSystem,
+  MuhurtaMode,
+  PolarPolicy,
+  SolarCalendarRule,
+  SamvatYearStart,
+  VedicCalendarSettings,
+} from '../lib/vedic-calendar';
+import {
+  DEFAULT_AYANAMSA,
+  DEFAULT_POLAR_POLICY,
+  DEFAULT_SAMVAT_YEAR_START,
+  DEFAULT_SOLAR_CALENDAR_RULE,
 } from '../lib/vedic-calendar';
 
 import type {
@@ -20,6 +33,8 @@ import type {
 } from './panelData';
 
 import type { RigvedaStory } from '../lib/storySelector';
+import type { PlaybackSpeed, PlaybackState, PlaybackTimeline } from '../lib/playback';
+import type { TransliterationScheme } from '../lib/transliteration';
 
 // Re-export types
 export type {
@@ -27,11 +42,22 @@ export type {
   PranaData,
   MuhurtaData,
   Paksha,
+  AyanamsaSettings,
+  MasaSystem,
+  MuhurtaMode,
+  PolarPolicy,
+  SolarCalendarRule,
+  SamvatYearStart,
+  VedicCalendarSettings,
   DailyTask,
   ReadingEntry,
   ReadingStreak,
   TithiOccurrence,
   RigvedaStory,
+  PlaybackSpeed,
+  PlaybackState,
+  PlaybackTimeline,
+  TransliterationScheme,
 };
 
 /**
@@ -85,6 +111,27 @@ export interface UserPreferences {
 
   /** Show tutorial on first visit */
   showTutorial: boolean;
+
+  /** Ayanamsa for sidereal (nirayana) calculations */
+  ayanamsa: AyanamsaSettings;
+
+  /** Lunar month convention (amanta or purnimanta) */
+  masaSystem: MasaSystem;
+
+  /** Equal 48-minute muhurtas or seasonal day/night muhurtas */
+  muhurtaMode: MuhurtaMode;
+
+  /** Day boundaries where the Sun does not rise or set */
+  polarPolicy: PolarPolicy;
+
+  /** Regional rule for the first day of a solar month */
+  solarCalendarRule: SolarCalendarRule;
+
+  /** Lunar new year for Vikram Samvat (Chaitra or Kartika) */
+  samvatYearStart: SamvatYearStart;
+
+  /** Script Sanskrit is shown in (a romanization replaces the IAST instead) */
+  script: TransliterationScheme;
 }
 
 /**
@@ -97,24 +144,33 @@ export const DEFAULT_PREFERENCES: UserPreferences = {
   theme: 'dark',
   updateInterval: 4000, // Every prana (4 seconds)
   showTutorial: true,
+  ayanamsa: DEFAULT_AYANAMSA,
+  masaSystem: 'amanta',
+  muhurtaMode: 'seasonal',
+  polarPolicy: DEFAULT_POLAR_POLICY,
+  solarCalendarRule: DEFAULT_SOLAR_CALENDAR_RULE,
+  samvatYearStart: DEFAULT_SAMVAT_YEAR_START,
+  script: 'devanagari',
 };
 
+/**
+ * Extract the calendar calculation settings from user preferences
+ */
+export function getCalendarSettings(preferences: UserPreferences): VedicCalendarSettings {
+  return {
+    ayanamsa: preferences.ayanamsa,
+    masaSystem: preferences.masaSystem,
+    muhurtaMode: preferences.muhurtaMode,
+    polarPolicy: preferences.polarPolicy,
+    solarCalendarRule: preferences.solarCalendarRule,
+    samvatYearStart: preferences.samvatYearStart,
+  };
+}
+
 /**
  * Application state
  */
 export interface AppState {
-  /** Current Vedic time data */
-  vedicTime: VedicTime | null;
-
-  /** User location */
-  location: LocationData;
-
-  /** Loading state */
-  isLoading: boolean;
-
-  /** Error state */
-  error: string | null;
-
   /** User preferences */
   preferences: UserPreferences;
 
@@ -127,20 +183,22 @@ export interface AppState {
   /** Reading streak data */
   streak: ReadingStreak;
 
-  /** Current story/hymn being displayed */
-  currentStory: RigvedaStory | null;
+  /** Moment the clock is showing, or null to follow the live time */
+  viewingTime: Date | null;
+
+  /** Accelerated playback of the clock */
+  playback: PlaybackState;
 }
 
+/**
+ * Unit for stepping the viewing time
+ */
+export type TimeStep = 'prana' | 'muhurta' | 'tithi' | 'day';
+
 /**
  * Actions for updating app state
  */
 export interface AppActions {
-  /** Update Vedic time */
-  setVedicTime: (time: VedicTime) => void;
-
-  /** Update location */
-  setLocation: (location: LocationData) => void;
-
   /** Update preferences */
   setPreferences: (preferences: Partial<UserPreferences>) => void;
 
@@ -156,8 +214,26 @@ export interface AppActions {
   /** Mark hymn as read */
   markHymnRead: (storyId: number, tithi: number, nakshatra: number) => void;
 
-  /** Update current story */
-  setCurrentStory: (story: RigvedaStory) => void;
+  /** Show a past or future moment, or null to return to the live time */
+  setViewingTime: (date: Date | null) => void;
+
+  /** Move the viewing time forward (1) or back (-1) by one unit at a location */
+  stepViewingTime: (step: TimeStep, direction: 1 | -1, location: LocationData) => void;
+
+  /** Follow the live time again */
+  returnToNow: () => void;
+
+  /** Play the clock at the selected speed, from the viewing time or now */
+  playPlayback: () => void;
+
+  /** Pause playback, keeping the moment reached as the viewing time */
+  pausePlayback: () => void;
+
+  /** Change the playback speed */
+  setPlaybackSpeed: (speed: PlaybackSpeed) => void;
+
+  /** Turn looping over one cycle on or off */
+  setPlaybackLoop: (loop: boolean) => void;
 }
 
 /**
@@ -52,6 +52,12 @@ export interface RigvedaHymn {
 export interface Verse {
   number: number;
   sanskrit: string;
+  /**
+   * The Sanskrit with its Vedic accents in the Shakala notation: anudātta
+   * as a bar below (॒), svarita as a stroke above (॑, or ᳚ when independent),
+   * udātta unmarked (see lib/svara)
+   */
+  accentedSanskrit?: string;
   transliteration: string;
   wordByWord: WordMeaning[];
   translation: Translation[];
@@ -133,6 +139,74 @@ export interface AudioResource {
   tradition: string; // Which Vedic chanting tradition
 }
 
+/**
+ * One verse of the corpus: its number in the source, Devanagari, IAST and
+ * Griffith's translation (an empty string where a source lacks the verse),
+ * then the accented Devanagari when the source carries accents
+ */
+export type RigvedaCorpusVerse = [
+  number: number,
+  sanskrit: string,
+  transliteration: string,
+  translation: string,
+  accentedSanskrit?: string,
+];
+
+/**
+ * One sukta of the corpus with its anukramani (index) entry
+ */
+export interface RigvedaCorpusSukta {
+  sukta: number;
+  rishi: string;
+  devata: string;
+  chhandas: string;
+  verses: RigvedaCorpusVerse[];
+}
+
+/**
+ * One mandala of the corpus, as written by `npm run corpus`
+ * to src/data/rigveda/mandala-NN.json
+ */
+export interface RigvedaCorpusMandala {
+  mandala: number;
+  suktas: RigvedaCorpusSukta[];
+}
+
+/**
+ * One sukta's entry in the corpus index: its anukramani entry and verse count
+ */
+export interface RigvedaCorpusIndexEntry {
+  mandala: number;
+  sukta: number;
+  rishi: string;
+  devata: string;
+  chhandas: string;
+  verseCount: number;
+}
+
+/**
+ * Index of every sukta without its text, as written by `npm run corpus`
+ * to src/data/rigveda/index.json
+ */
+export interface RigvedaCorpusIndex {
+  suktas: RigvedaCorpusIndexEntry[];
+}
+
+/**
+ * A sukta as listed and filtered before its text is loaded
+ */
+export interface RigvedaSuktaSummary {
+  id: string;
+  mandala: number;
+  sukta: number;
+  rishi: string;
+  devata: string;
+  relatedDeities: string[];
+  chhandas: string;
+  verseCount: number;
+  difficulty: RigvedaHymn['difficulty'];
+}
+
 /**
  * Simplified hymn structure for backward compatibility
  * Used for daily reading and basic display
@@ -187,6 +261,8 @@ export interface PakshaGuidance {
 export interface HymnSearchCriteria {
   mandala?: number[];
   deity?: string[];
+  rishi?: string[];
+  chhandas?: string[];
   theme?: string[];
   difficulty?: ('beginner' | 'intermediate' | 'advanced')[];
   tags?: string[];
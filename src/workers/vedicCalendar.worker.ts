@@ -0,0 +1,235 @@
+/**
+ * Vedic Calendar Worker
+ *
+ * Runs the vedic-calendar engine off the main thread, so the many
+ * astronomy-engine searches behind each calculation cannot stall animations.
+ *
+ * Results are cached by location, calendar conventions and sunrise-to-sunrise
+ * day. Each day holds its panchang record and the Vedic times already
+ * answered in it, so a calendar reopened on the same month, or a moment
+ * asked for again (a paused or viewed time, or two clocks showing the same
+ * instant), costs nothing. A live clock asks for a new instant on every tick;
+ * those reuse the day's sunrise, limb boundaries and lagnas through the
+ * engine's day context and only evaluate the current positions. Runs of
+ * missing panchang days are generated together to share the eclipse search.
+ */
+
+import {
+  calculateVedicTime,
+  DEFAULT_POLAR_POLICY,
+  generatePanchang,
+  getLocalMidnight,
+  getCivilSolarDay,
+  getSolarDay,
+} from '../lib/vedic-calendar';
+import type { PanchangDay, VedicTime } from '../lib/vedic-calendar';
+import type {
+  PanchangRequest,
+  VedicCalendarQuery,
+  VedicCalendarRequest,
+  VedicCalendarResponse,
+} from './vedicCalendarProtocol';
+
+/**
+ * Results kept for one sunrise-to-sunrise day
+ */
+interface DayResults {
+  /** Panchang record of the civil day holding this sunrise */
+  panchang?: PanchangDay;
+
+  /** Vedic times already answered, by instant, oldest first */
+  vedicTimes: Map<number, VedicTime>;
+}
+
+/**
+ * Most days kept (about a year for a single location)
+ */
+const MAX_CACHED_DAYS = 400;
+
+/**
+ * Most Vedic times kept for one day
+ */
+const MAX_VEDIC_TIMES_PER_DAY = 32;
+
+/**
+ * Decimal places of latitude and longitude that tell locations apart (about 10 m)
+ */
+const LOCATION_KEY_DECIMALS = 4;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Results by day, least recently used first
+ */
+const dayCache = new Map<string, DayResults>();
+
+/**
+ * Sunrise beginning each civil day's solar day, by location, polar policy and local midnight
+ */
+const civilDaySunrises = new Map<string, number>();
+
+/**
+ * Location part of a cache key
+ */
+function getLocationKey({ latitude, longitude }: VedicCalendarQuery): string {
+  return [latitude.toFixed(LOCATION_KEY_DECIMALS), longitude.toFixed(LOCATION_KEY_DECIMALS)].join('|');
+}
+
+/**
+ * Cache key for one sunrise-to-sunrise day at one location under one set of conventions
+ */
+function getDayKey(query: VedicCalendarQuery, sunrise: Date): string {
+  return [getLocationKey(query), JSON.stringify(query.settings), sunrise.getTime()].join('|');
+}
+
+/**
+ * Sunrise beginning the solar day that contains an instant
+ */
+function getSunriseAt({ latitude, longitude, settings }: VedicCalendarQuery, date: Date): Date {
+  return getSolarDay(date, latitude, longitude, settings.polarPolicy ?? DEFAULT_POLAR_POLICY).sunrise;
+}
+
+/**
+ * Sunrise of a civil day: that of the solar day around local noon, or the
+ * next one if it rose before the civil day began
+ */
+function getCivilDaySunrise(query: VedicCalendarQuery, dayStart: Date): Date {
+  const polarPolicy = query.settings.polarPolicy ?? DEFAULT_POLAR_POLICY;
+  const key = [getLocationKey(query), polarPolicy, dayStart.getTime()].join('|');
+  const known = civilDaySunrises.get(key);
+  if (known !== undefined) {
+    return new Date(known);
+  }
+
+  const { sunrise } = getCivilSolarDay(dayStart, query.latitude, query.longitude, polarPolicy);
+
+  civilDaySunrises.set(key, sunrise.getTime());
+  if (civilDaySunrises.size > MAX_CACHED_DAYS) {
+    const oldest = civilDaySunrises.keys().next().value;
+    if (oldest !== undefined) civilDaySunrises.delete(oldest);
+  }
+  return sunrise;
+}
+
+/**
+ * Get a day's results, marking them most recently used and dropping the
+ * least recently used days beyond the limit
+ */
+function getDayResults(key: string): DayResults {
+  const results = dayCache.get(key) ?? { vedicTimes: new Map<number, VedicTime>() };
+  dayCache.delete(key);
+  dayCache.set(key, results);
+
+  while (dayCache.size > MAX_CACHED_DAYS) {
+    const oldest = dayCache.keys().next().value;
+    if (oldest === undefined) break;
+    dayCache.delete(oldest);
+  }
+  return results;
+}
+
+/**
+ * Vedic time at an instant, from the cache where possible
+ */
+function getVedicTime(query: VedicCalendarQuery, date: Date): VedicTime {
+  const { vedicTimes } = getDayResults(getDayKey(query, getSunriseAt(query, date)));
+  const cached = vedicTimes.get(date.getTime());
+  if (cached) {
+    return cached;
+  }
+
+  const vedicTime = calculateVedicTime(query.latitude, query.longitude, date, query.settings);
+  vedicTimes.set(date.getTime(), vedicTime);
+  if (vedicTimes.size > MAX_VEDIC_TIMES_PER_DAY) {
+    const oldest = vedicTimes.keys().next().value;
+    if (oldest !== undefined) vedicTimes.delete(oldest);
+  }
+  return vedicTime;
+}
+
+/**
+ * Panchang for a range, from the cache where possible
+ */
+function getPanchangRange(request: PanchangRequest): PanchangDay[] {
+  const { latitude, longitude, settings, startDate, endDate } = request;
+  const days: (PanchangDay | undefined)[] = [];
+  const dayKeys: string[] = [];
+  const dayStarts: Date[] = [];
+
+  for (
+    let dayStart = getLocalMidnight(startDate, longitude);
+    dayStart <= endDate;
+    dayStart = new Date(dayStart.getTime() + MS_PER_DAY)
+  ) {
+    const key = getDayKey(request, getCivilDaySunrise(request, dayStart));
+    dayStarts.push(dayStart);
+    dayKeys.push(key);
+    days.push(dayCache.has(key) ? getDayResults(key).panchang : undefined);
+  }
+
+  // Generate each run of missing days in one pass
+  let index = 0;
+  while (index < days.length) {
+    if (days[index]) {
+      index++;
+      continue;
+    }
+
+    let runEnd = index;
+    while (runEnd + 1 < days.length && !days[runEnd + 1]) {
+      runEnd++;
+    }
+
+    const generated = generatePanchang(latitude, longitude, dayStarts[index], dayStarts[runEnd], settings);
+    generated.forEach((day, offset) => {
+      days[index + offset] = day;
+      getDayResults(dayKeys[index + offset]).panchang = day;
+    });
+    index = runEnd + 1;
+  }
+
+  return days.filter((day): day is PanchangDay => day !== undefined);
+}
+
+/**
+ * Answer one request
+ */
+function handleRequest(request: VedicCalendarRequest): VedicCalendarResponse {
+  switch (request.type) {
+    case 'vedicTime':
+      return {
+        id: request.id,
+        type: 'vedicTime',
+        vedicTimes: request.dates.map((date) => getVedicTime(request, date)),
+      };
+    case 'panchang':
+      return { id: request.id, type: 'panchang', days: getPanchangRange(request) };
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<VedicCalendarRequest>) => {
+  const request = event.data;
+  let response: VedicCalendarResponse;
+
+  try {
+    response = handleRequest(request);
+  } catch (err) {
+    response = {
+      id: request.id,
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Vedic calendar calculation failed',
+    };
+  }
+
+  // A reply that cannot be cloned still settles the caller's request
+  try {
+    self.postMessage(response);
+  } catch (err) {
+    self.postMessage({
+      id: request.id,
+      type: 'error',
+      message: err instanceof Error ? err.message : 'Vedic calendar reply could not be sent',
+    } satisfies VedicCalendarResponse);
+  }
+});
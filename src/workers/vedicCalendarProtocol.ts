@@ -0,0 +1,86 @@
+/**
+ * Vedic Calendar Worker Protocol
+ *
+ * Messages exchanged with the vedic-calendar worker. Every request carries an
+ * id that its response echoes, so several requests can be in flight at once.
+ * Dates cross the worker boundary intact (structured clone), as do all
+ * results, which are plain data.
+ */
+
+import type { PanchangDay, VedicCalendarSettings, VedicTime } from '../lib/vedic-calendar';
+
+/**
+ * Observer and calendar conventions shared by every request
+ */
+export interface VedicCalendarQuery {
+  /** Observer's latitude in degrees */
+  latitude: number;
+
+  /** Observer's longitude in degrees */
+  longitude: number;
+
+  /** Calendar conventions (ayanamsa, masa system, muhurta mode, polar policy, region) */
+  settings: VedicCalendarSettings;
+}
+
+/**
+ * Vedic time at one or more instants, answered in one message
+ */
+export interface VedicTimeRequest extends VedicCalendarQuery {
+  id: number;
+  type: 'vedicTime';
+
+  /** Instants to calculate */
+  dates: Date[];
+}
+
+/**
+ * Panchang records for a range of civil days
+ */
+export interface PanchangRequest extends VedicCalendarQuery {
+  id: number;
+  type: 'panchang';
+
+  /** Any instant in the first day */
+  startDate: Date;
+
+  /** Any instant in the last day */
+  endDate: Date;
+}
+
+/**
+ * Requests handled by the worker
+ */
+export type VedicCalendarRequest = VedicTimeRequest | PanchangRequest;
+
+/**
+ * Vedic times, in the order of the requested dates
+ */
+export interface VedicTimeResponse {
+  id: number;
+  type: 'vedicTime';
+  vedicTimes: VedicTime[];
+}
+
+/**
+ * Panchang records, one per day, in order
+ */
+export interface PanchangResponse {
+  id: number;
+  type: 'panchang';
+  days: PanchangDay[];
+}
+
+/**
+ * A request that failed
+ */
+export interface ErrorResponse {
+  id: number;
+  type: 'error';
+  message: string;
+}
+
+/**
+ * Responses sent by the worker
+ */
+export type VedicCalendarResponse = VedicTimeResponse | PanchangResponse | ErrorResponse;